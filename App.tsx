@@ -1,153 +1,772 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { Upload, FileCode, RotateCw, AlertCircle, Wand2, Eye, Loader2 } from 'lucide-react';
-import StlScene from './components/StlScene';
+import React, { useState, useRef } from 'react';
+import { Upload, FileCode, RotateCw, AlertCircle, Wand2, Eye, Loader2, Box, Grid3x3, Flame, Repeat, Square, Settings, Shapes, History, GitCompare, Download, FileDown, Layers } from 'lucide-react';
+import StlScene, { MeshHighlight } from './components/StlScene';
 import CodeEditor from './components/CodeEditor';
-import { generateScadFromImage } from './services/geminiService';
-import { AppState, GeometryData, GenerationResult } from './types';
-
-// Generate labels for 18 orientations (Global Only)
-const ORIENTATIONS = [
-  "Top", "Bottom", "Front", "Back", "Left", "Right", // Cardinal
-  "Front-Right", "Right-Back", "Back-Left", "Left-Front", // Horizontal
-  "Top-Front", "Front-Bottom", "Bottom-Back", "Back-Top", // Vertical X
-  "Top-Right", "Right-Bottom", "Bottom-Left", "Left-Top"  // Vertical Z
-];
-
-const VIEW_LABELS = ORIENTATIONS.map(name => `${name} (Global)`);
-
-// Helper function to resize and compress image
-const optimizeImage = (dataUrl: string): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      // Target 800px max dimension
-      const maxDim = 800;
-      let width = img.width;
-      let height = img.height;
-      
-      if (width > height) {
-        if (width > maxDim) {
-          height *= maxDim / width;
-          width = maxDim;
-        }
-      } else {
-        if (height > maxDim) {
-          width *= maxDim / height;
-          height = maxDim;
-        }
-      }
-      
-      canvas.width = width;
-      canvas.height = height;
-      
-      if (ctx) {
-        ctx.fillStyle = '#0f172a'; // Match scene bg
-        ctx.fillRect(0, 0, width, height);
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // Use 0.8 quality for multi-image batch
-        resolve(canvas.toDataURL('image/jpeg', 0.8));
-      } else {
-        reject(new Error("Canvas context creation failed"));
-      }
-    };
-    img.onerror = (e) => reject(new Error("Image load failed"));
-    img.src = dataUrl;
-  });
-};
+import MeshStatsPanel from './components/MeshStatsPanel';
+import MeshHealthPanel from './components/MeshHealthPanel';
+import OrientationPanel from './components/OrientationPanel';
+import SegmentPanel from './components/SegmentPanel';
+import DesignInputPanel from './components/DesignInputPanel';
+import ComparisonView from './components/ComparisonView';
+import FidelityPanel from './components/FidelityPanel';
+import IterationHistory from './components/IterationHistory';
+import ProviderPicker from './components/ProviderPicker';
+import SettingsDialog from './components/SettingsDialog';
+import BodyPicker from './components/BodyPicker';
+import CaptureProfilePanel from './components/CaptureProfilePanel';
+import SectionControls from './components/SectionControls';
+import ParameterPanel from './components/ParameterPanel';
+import ProjectHistory from './components/ProjectHistory';
+import RunDiffView, { DiffSide } from './components/RunDiffView';
+import BatchPanel from './components/BatchPanel';
+import { LlmProvider, createProvider } from './services/llmProvider';
+import { RESPONSE_STAGE_LABELS, ResponseError } from './services/responseValidation';
+import { AppSettings, DEFAULT_SETTINGS, EncryptedKey, KeyStorage, clearSettings, decryptSecret, loadSettings, saveSettings, saveSettingsWithKey } from './services/settingsStore';
+import { analyzeGeometry } from './services/geometryAnalysis';
+import { MESH_ISSUES, MeshDiagnostics, MeshIssueKind, diagnoseMesh, issueGeometry } from './services/meshDiagnostics';
+import { DEFAULT_REPAIR_OPTIONS, RepairOptions, repairMesh, repairSummary } from './services/meshRepair';
+import { DEFAULT_ORIENTATION, OrientationOptions, UnitGuess, detectUnits, orientMesh } from './services/meshOrientation';
+import { SegmentMode, Segmentation, segmentGeometry, segmentMesh, segmentPositions } from './services/meshSegmentation';
+import { renderScad } from './services/openscadService';
+import { parseMesh, bodyGeometry, MeshBody, SUPPORTED_EXTENSIONS } from './services/meshLoader';
+import { ProjectRun, deleteRun, listRuns, loadRun, saveRun, toRunSettings, updateRun } from './services/projectStore';
+import { computeFidelity } from './services/fidelity';
+import { buildExportBundle, downloadFile, exportBaseName } from './services/exportBundle';
+import { runRefinement } from './services/refineLoop';
+import { CaptureProfile, SectionCut, imageCount } from './services/captureProfiles';
+import { ConvertOptions, EMPTY_DESIGN, baseContextLines, convertDesign, convertGeometry, prepareDesign } from './services/conversionPipeline';
+import { convertAssembly, partSnapshotLabels } from './services/assemblyPipeline';
+import { AppState, DesignInput, GeometryData, GenerationResult, MeshMetrics, RefineIteration } from './types';
+import type { BufferGeometry } from 'three';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [geometry, setGeometry] = useState<GeometryData | null>(null);
   const [result, setResult] = useState<GenerationResult | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [apiKeyMissing, setApiKeyMissing] = useState(false);
+  const [responseError, setResponseError] = useState<ResponseError | null>(null);
+  const [initialSettings] = useState(loadSettings);
+  const [settings, setSettings] = useState<AppSettings>(initialSettings.settings);
+  const [encryptedKey, setEncryptedKey] = useState<EncryptedKey | null>(initialSettings.encryptedKey);
+  // A passphrase-protected key needs unlocking before the first run
+  const [settingsOpen, setSettingsOpen] = useState(initialSettings.encryptedKey !== null);
   const [progressText, setProgressText] = useState("准备就绪");
   const [snapshots, setSnapshots] = useState<string[]>([]);
-  
-  // Ref holds the function that returns a Promise of string array (multiple screenshots)
-  const captureSnapshotRef = useRef<(() => Promise<string[]>) | null>(null);
+  const [metrics, setMetrics] = useState<MeshMetrics | null>(null);
+  const [measuring, setMeasuring] = useState(false);
+  // Health report of the current source, tagged with the geometry it describes
+  const [health, setHealth] = useState<{ geometry: BufferGeometry; diagnostics: MeshDiagnostics } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [highlightIssues, setHighlightIssues] = useState<MeshIssueKind[]>(() => MESH_ISSUES.map(issue => issue.kind));
+  const [repairOptions, setRepairOptions] = useState<RepairOptions>(DEFAULT_REPAIR_OPTIONS);
+  const [appliedRepair, setAppliedRepair] = useState<{ options: RepairOptions; summary: string } | null>(null);
+  const [repairing, setRepairing] = useState(false);
+  // Selected body (after any repair) in the file frame; the source everything else uses is it normalized
+  const [fileGeometry, setFileGeometry] = useState<BufferGeometry | null>(null);
+  const [orientation, setOrientation] = useState<OrientationOptions>(DEFAULT_ORIENTATION);
+  const [unitGuess, setUnitGuess] = useState<UnitGuess | null>(null);
+  // Part split of the working-frame source; stale once the source changes, like the health report
+  const [segmentMode, setSegmentMode] = useState<SegmentMode>('components');
+  const [split, setSplit] = useState<{ geometry: BufferGeometry; segmentation: Segmentation } | null>(null);
+  const [segmenting, setSegmenting] = useState(false);
+  const [partLabels, setPartLabels] = useState<string[]>([]);
+  const [partIncluded, setPartIncluded] = useState<boolean[]>([]);
+  const [selectedPart, setSelectedPart] = useState<number | null>(null);
+  // Reference photos and design intent for the loaded part, sent apart from the captures
+  const [design, setDesign] = useState<DesignInput>(EMPTY_DESIGN);
+  // Labels of the parts whose captures fill `snapshots`, one profile's worth each; null for a whole-mesh run
+  const [snapshotParts, setSnapshotParts] = useState<string[] | null>(null);
+  const sourceGeometry = React.useMemo(
+    () => (fileGeometry ? orientMesh(fileGeometry, orientation) : null),
+    [fileGeometry, orientation]
+  );
+  const [reconGeometry, setReconGeometry] = useState<BufferGeometry | null>(null);
+  const [renderStatus, setRenderStatus] = useState<'idle' | 'rendering' | 'done' | 'error'>('idle');
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [renderWarnings, setRenderWarnings] = useState<string[]>([]);
+  const [resultView, setResultView] = useState<'compare' | 'heatmap' | 'snapshots'>('compare');
+  const [scoring, setScoring] = useState(false);
+  const [deviation, setDeviation] = useState<Float32Array | null>(null);
+  const [refineEnabled, setRefineEnabled] = useState(false);
+  const [refineRounds, setRefineRounds] = useState(3);
+  const [targetScore, setTargetScore] = useState(90);
+  const [refining, setRefining] = useState(false);
+  const [iterations, setIterations] = useState<RefineIteration[]>([]);
+  const [selectedIteration, setSelectedIteration] = useState<number | null>(null);
+  const [bestIteration, setBestIteration] = useState<number | null>(null);
+  const [bodies, setBodies] = useState<MeshBody[]>([]);
+  const [selectedBody, setSelectedBody] = useState<number | 'all'>(0);
+  const [dragActive, setDragActive] = useState(false);
+  // Profile the current snapshots were taken with, so labels survive later profile edits
+  const [capturedProfile, setCapturedProfile] = useState<CaptureProfile>(settings.captureProfile);
+  const [sectionView, setSectionView] = useState<SectionCut | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [batchOpen, setBatchOpen] = useState(false);
+  const [runs, setRuns] = useState<ProjectRun[]>([]);
+  const [currentRunId, setCurrentRunId] = useState<string | null>(null);
+  // The answer a re-run replaced, so the two can be diffed
+  const [previousResult, setPreviousResult] = useState<GenerationResult | null>(null);
+  const [diffPair, setDiffPair] = useState<{ source: BufferGeometry | null; before: DiffSide; after: DiffSide } | null>(null);
+
+  const stopRefineRef = useRef(false);
+  // Prompt context of the last generation, reused when refining an edited script
+  const contextRef = useRef('');
+  // Bytes of the loaded file, kept so runs can be saved with their source
+  const sourceFileRef = useRef<ArrayBuffer | null>(null);
+  const savedResultRef = useRef<GenerationResult | null>(null);
 
+  // Only the Gemini backend strictly requires a key; local OpenAI-compatible servers usually don't
+  const apiKeyMissing = settings.provider === 'gemini' && !settings.apiKey;
+  const keyLocked = encryptedKey !== null && !settings.apiKey;
+  const hasDesign = design.intent.trim() !== '' || design.references.length > 0;
+  const scadBaseName = geometry ? exportBaseName(geometry.filename) : 'design';
+
+  // Quick switches (header, capture profile) persist immediately; the key is only written by the dialog
+  const handleProviderChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleSaveSettings = async (next: AppSettings, storage: KeyStorage) => {
+    await saveSettingsWithKey(next, storage);
+    setSettings(next);
+    // A key kept or newly written encrypted stays protected for the next session
+    setEncryptedKey(loadSettings().encryptedKey);
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    if (!encryptedKey) return;
+    const apiKey = await decryptSecret(encryptedKey, passphrase);
+    setSettings(s => ({ ...s, apiKey }));
+  };
+
+  const handleClearSettings = () => {
+    clearSettings();
+    setSettings(DEFAULT_SETTINGS);
+    setEncryptedKey(null);
+  };
+
+  // Measure whichever body is currently the reconstruction source
+  React.useEffect(() => {
+    setMetrics(null);
+    if (!sourceGeometry) return;
+
+    setMeasuring(true);
+    // Defer so the spinner paints before the (synchronous) analysis runs
+    const timer = setTimeout(() => {
+      try {
+        setMetrics(analyzeGeometry(sourceGeometry));
+      } catch (err) {
+        console.error("Geometry analysis failed:", err);
+        setMetrics(null);
+      } finally {
+        setMeasuring(false);
+      }
+    }, 0);
+
+    return () => {
+      clearTimeout(timer);
+      setMeasuring(false);
+    };
+  }, [sourceGeometry]);
+
+  // Topology check of the same geometry, after the measurements so the stats panel fills first
   React.useEffect(() => {
-    if (!process.env.API_KEY) {
-      setApiKeyMissing(true);
+    setHealth(null);
+    if (!sourceGeometry) return;
+
+    setChecking(true);
+    const timer = setTimeout(() => {
+      try {
+        setHealth({ geometry: sourceGeometry, diagnostics: diagnoseMesh(sourceGeometry) });
+      } catch (err) {
+        console.error("Mesh diagnostics failed:", err);
+      } finally {
+        setChecking(false);
+      }
+    }, 0);
+
+    return () => {
+      clearTimeout(timer);
+      setChecking(false);
+    };
+  }, [sourceGeometry]);
+
+  const diagnostics = health && health.geometry === sourceGeometry ? health.diagnostics : null;
+
+  const segmentation = split && split.geometry === sourceGeometry ? split.segmentation : null;
+  const assemblyParts = segmentation ? segmentation.segments.map((_, i) => i).filter(i => partIncluded[i] ?? true) : [];
+
+  const highlights = React.useMemo<MeshHighlight[]>(() => {
+    if (!sourceGeometry) return [];
+    const issues: MeshHighlight[] = diagnostics
+      ? MESH_ISSUES
+        .filter(issue => highlightIssues.includes(issue.kind))
+        .map(issue => ({ color: issue.color, primitive: issue.primitive, positions: issueGeometry(sourceGeometry, diagnostics, issue.kind) }))
+      : [];
+    if (!segmentation) return issues;
+    // Included parts in their own colour, the selected one in white; excluded parts keep the plain shading
+    const parts: MeshHighlight[] = segmentation.segments
+      .map((segment, i) => ({ segment, i }))
+      .filter(({ i }) => i === selectedPart || (partIncluded[i] ?? true))
+      .map(({ segment, i }) => ({
+        color: i === selectedPart ? '#f8fafc' : segment.color,
+        primitive: 'faces' as const,
+        positions: segmentPositions(sourceGeometry, segmentation, i)
+      }));
+    return [...parts, ...issues];
+  }, [diagnostics, sourceGeometry, highlightIssues, segmentation, partIncluded, selectedPart]);
+
+  // Compile every new result in the browser so it can be compared against the source
+  React.useEffect(() => {
+    if (!result?.code) {
+      setReconGeometry(null);
+      setRenderStatus('idle');
+      return;
     }
+
+    let cancelled = false;
+    setRenderStatus('rendering');
+    setRenderError(null);
+    setRenderWarnings([]);
+
+    renderScad(result.code)
+      .then(rendered => {
+        if (cancelled) return;
+        setReconGeometry(rendered.geometry);
+        setRenderWarnings(rendered.warnings);
+        setRenderStatus('done');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error("SCAD render failed:", err);
+        setReconGeometry(null);
+        setRenderError(err instanceof Error ? err.message : String(err));
+        setRenderStatus('error');
+      });
+
+    return () => { cancelled = true; };
+  }, [result?.code]);
+
+  // Score each rendered reconstruction against the source mesh
+  React.useEffect(() => {
+    setDeviation(null);
+    if (!sourceGeometry || !reconGeometry) return;
+
+    let cancelled = false;
+    setScoring(true);
+    // Defer so the spinner paints before the (synchronous) comparison runs
+    const timer = setTimeout(() => {
+      try {
+        const report = computeFidelity(sourceGeometry, reconGeometry);
+        if (cancelled) return;
+        setDeviation(report.vertexDeviation);
+        setResult(prev => (prev ? { ...prev, fidelity: report.metrics } : prev));
+      } catch (err) {
+        console.error("Fidelity scoring failed:", err);
+      } finally {
+        if (!cancelled) setScoring(false);
+      }
+    }, 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setScoring(false);
+    };
+  }, [sourceGeometry, reconGeometry]);
+
+  React.useEffect(() => {
+    listRuns().then(setRuns).catch(err => console.error("Loading project history failed:", err));
   }, []);
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Edits and late fidelity scores are written back to the open run
+  React.useEffect(() => {
+    if (!currentRunId || !result || result === savedResultRef.current) return;
+    const timer = setTimeout(() => {
+      savedResultRef.current = result;
+      updateRun(currentRunId, { result })
+        .then(run => run && setRuns(prev => prev.map(r => (r.id === run.id ? run : r))))
+        .catch(err => console.error("Updating run in history failed:", err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [currentRunId, result]);
 
+  const resetRun = () => {
     setResult(null);
+    setPreviousResult(null);
+    setCurrentRunId(null);
+    contextRef.current = '';
     setErrorMsg(null);
+    setResponseError(null);
     setSnapshots([]);
+    setIterations([]);
+    setSelectedIteration(null);
+    setBestIteration(null);
+    setSnapshotParts(null);
+  };
+
+  const loadFile = async (file: File) => {
+    resetRun();
+    // References attached before any mesh was loaded are meant for this one; a new part starts clean
+    if (geometry) setDesign(EMPTY_DESIGN);
+    setBodies([]);
+    setFileGeometry(null);
     setAppState(AppState.LOADING_STL);
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result;
-      if (result) {
-        const url = URL.createObjectURL(file);
-        setGeometry({ url, filename: file.name });
-        // Set a small timeout to allow UI to render the loading state before Scene loads
-        setTimeout(() => setAppState(AppState.READY_TO_CONVERT), 100);
-      }
-    };
-    reader.onerror = () => {
-      setErrorMsg("无法读取文件。");
+    try {
+      const buffer = await file.arrayBuffer();
+      const loaded = parseMesh(file.name, buffer);
+      sourceFileRef.current = buffer;
+      setGeometry({ filename: file.name, format: loaded.format });
+      setBodies(loaded.bodies);
+      setSelectedBody(0);
+      setFileGeometry(loaded.bodies[0].geometry);
+      setAppliedRepair(null);
+      // Units are a property of the whole file; the up axis starts as written
+      const guess = detectUnits(bodyGeometry(loaded.bodies, 'all'));
+      setUnitGuess(guess);
+      setOrientation({ ...DEFAULT_ORIENTATION, unit: guess.unit });
+      setAppState(AppState.READY_TO_CONVERT);
+    } catch (err) {
+      console.error("Mesh import failed:", err);
+      setGeometry(null);
+      setErrorMsg(err instanceof Error ? err.message : "无法读取文件。");
       setAppState(AppState.ERROR);
-    };
-    reader.readAsArrayBuffer(file);
+    }
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = '';
+    if (file) loadFile(file);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragActive(false);
+    if (appState === AppState.ANALYZING) return;
+    const file = event.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  const handleOpenRun = async (id: string) => {
+    if (appState === AppState.ANALYZING) return;
+    try {
+      const { run, source, snapshots: runSnapshots, iterations: runIterations, design: runDesign } = await loadRun(id);
+      const loaded = parseMesh(run.filename, source);
+      const body = run.body === 'all' || run.body < loaded.bodies.length ? run.body : 0;
+      const repaired = run.repair ? repairMesh(bodyGeometry(loaded.bodies, body), run.repair) : null;
+      resetRun();
+      sourceFileRef.current = source;
+      savedResultRef.current = run.result;
+      contextRef.current = run.prompt;
+      setDesign(runDesign);
+      setGeometry({ filename: run.filename, format: loaded.format });
+      setBodies(loaded.bodies);
+      setSelectedBody(body);
+      setFileGeometry(repaired ? repaired.geometry : bodyGeometry(loaded.bodies, body));
+      setAppliedRepair(run.repair && repaired ? { options: run.repair, summary: repairSummary(repaired.report) } : null);
+      setUnitGuess(detectUnits(bodyGeometry(loaded.bodies, 'all')));
+      setOrientation(run.orientation ?? DEFAULT_ORIENTATION);
+      setCapturedProfile(run.captureProfile);
+      setSnapshots(runSnapshots);
+      setSnapshotParts(run.parts ?? null);
+      setIterations(runIterations);
+      setBestIteration(run.bestIteration);
+      setSelectedIteration(run.bestIteration);
+      setResult(run.result);
+      setCurrentRunId(run.id);
+      setResultView('compare');
+      setAppState(AppState.COMPLETE);
+      setHistoryOpen(false);
+    } catch (err) {
+      handleRunError(err);
+    }
+  };
+
+  const handleRenameRun = async (id: string, name: string) => {
+    try {
+      const run = await updateRun(id, { name });
+      if (run) setRuns(prev => prev.map(r => (r.id === id ? run : r)));
+    } catch (err) {
+      handleRunError(err);
+    }
+  };
+
+  const handleDeleteRun = async (id: string) => {
+    try {
+      await deleteRun(id);
+      setRuns(prev => prev.filter(r => r.id !== id));
+      if (id === currentRunId) setCurrentRunId(null);
+    } catch (err) {
+      handleRunError(err);
+    }
+  };
+
+  // Both runs come from the same file and body (the sidebar checks), so either one's source will do
+  const handleDiffRuns = async (a: ProjectRun, b: ProjectRun) => {
+    try {
+      const { source } = await loadRun(a.id);
+      const loaded = parseMesh(a.filename, source);
+      const body = a.body === 'all' || a.body < loaded.bodies.length ? a.body : 0;
+      // Older run on the left
+      const [before, after] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+      const original = bodyGeometry(loaded.bodies, body);
+      setDiffPair({
+        source: orientMesh(a.repair ? repairMesh(original, a.repair).geometry : original, a.orientation ?? DEFAULT_ORIENTATION),
+        before: { label: before.name, result: before.result },
+        after: { label: after.name, result: after.result }
+      });
+      setHistoryOpen(false);
+    } catch (err) {
+      handleRunError(err);
+    }
+  };
+
+  const handleSelectBody = (selection: number | 'all') => {
+    if (selection === selectedBody) return;
+    resetRun();
+    setSelectedBody(selection);
+    setFileGeometry(bodyGeometry(bodies, selection));
+    setAppliedRepair(null);
+    setAppState(AppState.READY_TO_CONVERT);
+  };
+
+  // Repairs always start from the loaded body, so changing the options and repairing again does not compound
+  const handleRepair = () => {
+    if (!sourceGeometry) return;
+    const options = repairOptions;
+    setRepairing(true);
+    // Defer so the spinner paints before the (synchronous) repair runs
+    setTimeout(() => {
+      try {
+        const repaired = repairMesh(bodyGeometry(bodies, selectedBody), options);
+        resetRun();
+        setFileGeometry(repaired.geometry);
+        setAppliedRepair({ options, summary: repairSummary(repaired.report) });
+        setAppState(AppState.READY_TO_CONVERT);
+      } catch (err) {
+        console.error("Mesh repair failed:", err);
+        window.alert(`网格修复失败: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setRepairing(false);
+      }
+    }, 0);
+  };
+
+  const handleUndoRepair = () => {
+    resetRun();
+    setFileGeometry(bodyGeometry(bodies, selectedBody));
+    setAppliedRepair(null);
+    setAppState(AppState.READY_TO_CONVERT);
+  };
+
+  // A new frame invalidates the result and captures, like picking another body
+  const handleOrientationChange = (options: OrientationOptions) => {
+    resetRun();
+    setOrientation(options);
+    setAppState(AppState.READY_TO_CONVERT);
+  };
+
+  // Splitting does not touch the source, so an existing result stays valid until the next generate
+  const handleSegment = () => {
+    if (!sourceGeometry) return;
+    const geometry = sourceGeometry;
+    const mode = segmentMode;
+    setSegmenting(true);
+    // Defer so the spinner paints before the (synchronous) split runs
+    setTimeout(() => {
+      try {
+        const segmentation = segmentMesh(geometry, mode);
+        setSplit({ geometry, segmentation });
+        setPartLabels(segmentation.segments.map((_, i) => `部件 ${i + 1}`));
+        setPartIncluded(segmentation.segments.map(() => true));
+        setSelectedPart(null);
+      } catch (err) {
+        console.error("Mesh segmentation failed:", err);
+        window.alert(`部件拆分失败: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setSegmenting(false);
+      }
+    }, 0);
+  };
+
+  const handleClearSegments = () => {
+    setSplit(null);
+    setSelectedPart(null);
+  };
+
+  const handlePickTriangle = (triangle: number) => {
+    const part = segmentation?.segmentOf[triangle] ?? -1;
+    setSelectedPart(part >= 0 && part !== selectedPart ? part : null);
+  };
+
+  const handleToggleHighlight = (kind: MeshIssueKind) =>
+    setHighlightIssues(prev => (prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]));
+
+  // Prompt line naming the reconstructed body of a multi-body file
+  const bodyNote = (): string | undefined => {
+    if (bodies.length <= 1) return undefined;
+    return selectedBody === 'all'
+      ? `Reconstructing all ${bodies.length} bodies of the file as one model.`
+      : `Reconstructing body "${bodies[selectedBody].name}" (${selectedBody + 1} of ${bodies.length}).`;
+  };
+
+  const refine = async (
+    source: BufferGeometry,
+    initial: GenerationResult,
+    provider: LlmProvider,
+    context: string,
+    profile: CaptureProfile
+  ) => {
+    stopRefineRef.current = false;
+    setRefining(true);
+    try {
+      const outcome = await runRefinement(source, initial, {
+        provider,
+        maxRounds: refineRounds,
+        targetScore,
+        context,
+        profile,
+        symmetry: metrics?.symmetry,
+        design: await prepareDesign(design, settings.imageResolution),
+        onProgress: setProgressText,
+        onIteration: it => {
+          setIterations(prev => [...prev, it]);
+          setSelectedIteration(it.index);
+        },
+        shouldStop: () => stopRefineRef.current
+      });
+      setBestIteration(outcome.best.index);
+      setSelectedIteration(outcome.best.index);
+      setResult(outcome.best.result);
+      return outcome;
+    } finally {
+      setRefining(false);
+    }
+  };
+
+  // Every finished run goes into the project history; a failed save must not fail the run
+  const recordRun = async (
+    runResult: GenerationResult,
+    runSnapshots: string[],
+    runIterations: RefineIteration[],
+    best: number | null,
+    prompt: string,
+    profile: CaptureProfile,
+    parts: string[] | null = null
+  ) => {
+    if (!geometry || !sourceFileRef.current) return;
+    try {
+      const run = await saveRun({
+        filename: geometry.filename,
+        format: geometry.format,
+        source: sourceFileRef.current,
+        body: selectedBody,
+        repair: appliedRepair?.options ?? null,
+        orientation,
+        parts,
+        captureProfile: profile,
+        prompt,
+        design,
+        settings: toRunSettings(settings),
+        result: runResult,
+        snapshots: runSnapshots,
+        iterations: runIterations,
+        bestIteration: best
+      });
+      savedResultRef.current = runResult;
+      setCurrentRunId(run.id);
+      setRuns(prev => [run, ...prev]);
+    } catch (err) {
+      console.error("Saving run to history failed:", err);
+    }
+  };
+
+  // Validation failures keep the stage and the raw reply so the error panel can show them
+  const handleRunError = (err: unknown) => {
+    console.error(err);
+    setErrorMsg(err instanceof Error ? err.message : "发生未知错误");
+    setResponseError(err instanceof ResponseError ? err : null);
+    setAppState(AppState.ERROR);
   };
 
   const handleGenerate = async () => {
-    if (!captureSnapshotRef.current || !geometry) return;
+    // The prompt needs the measurements; the button stays disabled until they are in
+    if (!sourceGeometry || !geometry || measuring) return;
 
     if (apiKeyMissing) {
-       alert("缺少 API Key。请检查环境变量。");
+       setSettingsOpen(true);
        return;
     }
 
+    if (result) setPreviousResult(result);
     setAppState(AppState.ANALYZING);
     setErrorMsg(null);
+    setResponseError(null);
     setSnapshots([]); // Clear previous snapshots
+    setIterations([]);
+    setSelectedIteration(null);
+    setBestIteration(null);
+
+    // Two or more ticked parts are reconstructed one by one and assembled; otherwise the whole source in one go
+    const parts = segmentation && assemblyParts.length >= 2 ? assemblyParts : null;
+    const labels = parts ? parts.map(i => partLabels[i] || `部件 ${i + 1}`) : null;
+    setSnapshotParts(labels);
 
+    stopRefineRef.current = false;
     try {
-      // 1. Capture Multi-View Snapshots (18 views)
-      setProgressText("正在进行全方位几何覆盖采集 (18 视角)...");
-      const rawSnapshots = await captureSnapshotRef.current();
-      
-      // Update state to show the grid view immediately
-      setSnapshots(rawSnapshots);
-      
-      // 2. Optimize all images
-      setProgressText(`正在优化 ${rawSnapshots.length} 张全景几何图像...`);
-      const optimizedSnapshotsProms = rawSnapshots.map(snap => optimizeImage(snap));
-      const optimizedSnapshots = await Promise.all(optimizedSnapshotsProms);
-
-      // 3. Remove header for API
-      const base64Images = optimizedSnapshots.map(s => s.split(',')[1]);
-
-      // 4. Send to Gemini
-      setProgressText("Gemini 3 Pro 正在执行单层几何拓扑分析...");
-      const response = await generateScadFromImage(
-        base64Images, 
-        `原始文件名: ${geometry.filename}。Protocol: Single-Dataset Geometric Reconstruction (18 Global Views). Focus: Topology & Volumetric Resolution.`
-      );
-      
-      setResult(response);
+      const options: ConvertOptions = {
+        settings,
+        filename: geometry.filename,
+        bodyNote: bodyNote(),
+        orientation,
+        metrics,
+        design,
+        refine: refineEnabled ? { maxRounds: refineRounds, targetScore } : null,
+        onProgress: setProgressText,
+        // Show the grid view as soon as the captures exist
+        onSnapshots: (captured, profile) => {
+          setCapturedProfile(profile);
+          setSnapshots(captured);
+        },
+        onRefineStart: () => setRefining(true),
+        onIteration: it => {
+          setIterations(prev => [...prev, it]);
+          setSelectedIteration(it.index);
+        },
+        shouldStop: () => stopRefineRef.current
+      };
+      const outcome = segmentation && parts && labels
+        ? await convertAssembly(
+          parts.map((i, k) => ({ label: labels[k], geometry: segmentGeometry(sourceGeometry, segmentation, i) })),
+          { ...options, cutFromSolid: segmentation.mode === 'convex' }
+        )
+        : await convertGeometry(sourceGeometry, options);
+      contextRef.current = outcome.context;
+      setBestIteration(outcome.best);
+      setSelectedIteration(outcome.best);
+      setResult(outcome.result);
+      recordRun(outcome.result, outcome.snapshots, outcome.iterations, outcome.best, outcome.context, outcome.profile, labels);
+      setResultView('compare');
       setAppState(AppState.COMPLETE);
+    } catch (err) {
+      handleRunError(err);
+    } finally {
+      setRefining(false);
+    }
+  };
+
+  // Photos, drawings and intent alone, before (or instead of) a mesh: nothing to capture, score or refine
+  const handleGenerateFromDesign = async () => {
+    if (apiKeyMissing) {
+       setSettingsOpen(true);
+       return;
+    }
+
+    if (result) setPreviousResult(result);
+    setAppState(AppState.ANALYZING);
+    setErrorMsg(null);
+    setResponseError(null);
+    setSnapshots([]);
+    setIterations([]);
+    setSelectedIteration(null);
+    setBestIteration(null);
+    setSnapshotParts(null);
 
+    try {
+      const outcome = await convertDesign(design, { settings, onProgress: setProgressText });
+      contextRef.current = outcome.context;
+      setResult(outcome.result);
+      setResultView('compare');
+      setAppState(AppState.COMPLETE);
     } catch (err) {
-      console.error(err);
-      setErrorMsg(err instanceof Error ? err.message : "发生未知错误");
-      setAppState(AppState.ERROR);
+      handleRunError(err);
+    }
+  };
+
+  // Parameter and editor edits rewrite the script in place; the generated version is kept for reset
+  const handleCodeChange = React.useCallback((code: string) => {
+    setResult(prev => (prev && prev.code !== code ? { ...prev, code, baseCode: prev.baseCode ?? prev.code } : prev));
+  }, []);
+
+  // Refine from whatever is in the editor now, hand edits included, instead of regenerating
+  const handleRefineCurrent = async () => {
+    if (!sourceGeometry || !geometry || !result || measuring) return;
+
+    if (apiKeyMissing) {
+       setSettingsOpen(true);
+       return;
+    }
+
+    setPreviousResult(result);
+    setAppState(AppState.ANALYZING);
+    setErrorMsg(null);
+    setResponseError(null);
+    setIterations([]);
+    setSelectedIteration(null);
+    setBestIteration(null);
+
+    try {
+      const provider = createProvider(settings);
+      const context = contextRef.current || baseContextLines(geometry.filename, bodyNote(), metrics, orientation).join('\n\n');
+      setCapturedProfile(settings.captureProfile);
+      const outcome = await refine(sourceGeometry, { ...result, baseCode: undefined }, provider, context, settings.captureProfile);
+      recordRun(outcome.best.result, snapshots, outcome.iterations, outcome.best.index, context, settings.captureProfile, snapshotParts);
+      setResultView('compare');
+      setAppState(AppState.COMPLETE);
+    } catch (err) {
+      handleRunError(err);
+    }
+  };
+
+  const handleResetParameters = () => {
+    setResult(prev => (prev?.baseCode ? { ...prev, code: prev.baseCode, baseCode: undefined } : prev));
+  };
+
+  const handleDownloadScad = () => {
+    if (!result) return;
+    downloadFile(result.code, `${scadBaseName}.scad`, 'text/plain');
+  };
+
+  // Bundles what is on screen; the button waits for the background render so the meshes match the script
+  const handleExportBundle = () => {
+    if (!geometry || !result) return;
+    try {
+      const zip = buildExportBundle({
+        geometry,
+        body: bodies.length > 1 ? (selectedBody === 'all' ? `全部 ${bodies.length} 个实体` : bodies[selectedBody].name) : undefined,
+        result,
+        reconstruction: renderStatus === 'done' ? reconGeometry : null,
+        renderError: renderStatus === 'error' ? renderError : null,
+        renderWarnings,
+        snapshots,
+        snapshotLabels: partSnapshotLabels(capturedProfile, snapshotParts),
+        metrics,
+        iterations,
+        design
+      });
+      downloadFile(zip, `${exportBaseName(geometry.filename)}.zip`, 'application/zip');
+    } catch (err) {
+      console.error("Export failed:", err);
+      window.alert(`导出失败: ${err instanceof Error ? err.message : String(err)}`);
     }
   };
 
+  const handleSelectIteration = (it: RefineIteration) => {
+    setSelectedIteration(it.index);
+    setResult(it.result);
+  };
+
+  // Refine iterations carry SOURCE | RECONSTRUCTION | DIFF panels; fall back to the first-pass captures
+  const currentIteration = iterations.find(it => it.index === selectedIteration);
+  const showPanels = !!currentIteration && !currentIteration.renderError;
+  const gridImages = showPanels ? currentIteration.images : snapshots;
+  // Comparison panels are shaded-only, one per view
+  const gridLabels = showPanels ? capturedProfile.views.map(v => v.name) : partSnapshotLabels(capturedProfile, snapshotParts);
+
   return (
     <div className="min-h-screen flex flex-col bg-[#0f172a] text-slate-200">
       {/* Header */}
@@ -159,25 +778,98 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="font-bold text-lg tracking-tight text-white">STL 转 OpenSCAD 智能重构</h1>
-              <p className="text-xs text-slate-400">Gemini 3 Pro 全方位几何分析</p>
+              <p className="text-xs text-slate-400">多模型全方位几何分析</p>
             </div>
           </div>
           
           <div className="flex items-center space-x-4">
             {apiKeyMissing && (
-                <span className="text-xs text-red-400 font-medium px-2 py-1 bg-red-900/20 border border-red-900 rounded">
-                    Missing API Key
-                </span>
+                <button
+                  onClick={() => setSettingsOpen(true)}
+                  className="text-xs text-red-400 font-medium px-2 py-1 bg-red-900/20 border border-red-900 rounded hover:bg-red-900/40"
+                >
+                    {keyLocked ? 'API Key 已锁定' : 'Missing API Key'}
+                </button>
             )}
+            <ProviderPicker
+              settings={settings}
+              onChange={next => handleProviderChange({ ...settings, ...next })}
+              disabled={appState === AppState.ANALYZING}
+            />
+            <button
+              onClick={() => setBatchOpen(true)}
+              title="批量重构"
+              className="p-2 rounded-lg border border-slate-700 hover:border-slate-500 text-slate-400 hover:text-white"
+            >
+              <Layers size={16} />
+            </button>
+            <button
+              onClick={() => setHistoryOpen(true)}
+              title="项目历史"
+              className="p-2 rounded-lg border border-slate-700 hover:border-slate-500 text-slate-400 hover:text-white"
+            >
+              <History size={16} />
+            </button>
+            <button
+              onClick={() => setSettingsOpen(true)}
+              title="运行设置"
+              className="p-2 rounded-lg border border-slate-700 hover:border-slate-500 text-slate-400 hover:text-white"
+            >
+              <Settings size={16} />
+            </button>
             <label className={`cursor-pointer group flex items-center space-x-2 px-4 py-2 rounded-lg border transition-all ${appState === AppState.ANALYZING ? 'opacity-50 pointer-events-none border-slate-700' : 'border-indigo-500/30 bg-indigo-500/10 hover:bg-indigo-500/20 hover:border-indigo-500/50'}`}>
               <Upload size={16} className="text-indigo-400 group-hover:text-indigo-300" />
-              <span className="text-sm font-medium text-indigo-300 group-hover:text-indigo-200">加载 STL 文件</span>
-              <input type="file" accept=".stl" className="hidden" onChange={handleFileUpload} disabled={appState === AppState.ANALYZING} />
+              <span className="text-sm font-medium text-indigo-300 group-hover:text-indigo-200">加载模型文件</span>
+              <input type="file" accept={SUPPORTED_EXTENSIONS.join(',')} className="hidden" onChange={handleFileUpload} disabled={appState === AppState.ANALYZING} />
             </label>
           </div>
         </div>
       </header>
 
+      <SettingsDialog
+        open={settingsOpen}
+        settings={settings}
+        locked={keyLocked}
+        encrypted={encryptedKey !== null}
+        onClose={() => setSettingsOpen(false)}
+        onSave={handleSaveSettings}
+        onUnlock={handleUnlock}
+        onClear={handleClearSettings}
+      />
+
+      <ProjectHistory
+        open={historyOpen}
+        runs={runs}
+        currentId={currentRunId}
+        disabled={appState === AppState.ANALYZING}
+        onClose={() => setHistoryOpen(false)}
+        onOpen={handleOpenRun}
+        onRename={handleRenameRun}
+        onDelete={handleDeleteRun}
+        onDiff={handleDiffRuns}
+      />
+
+      <BatchPanel
+        open={batchOpen}
+        settings={settings}
+        refine={refineEnabled ? { maxRounds: refineRounds, targetScore } : null}
+        onClose={() => setBatchOpen(false)}
+        onSaved={run => setRuns(prev => [run, ...prev])}
+        onOpenRun={id => {
+          setBatchOpen(false);
+          handleOpenRun(id);
+        }}
+      />
+
+      {diffPair && (
+        <RunDiffView
+          source={diffPair.source}
+          before={diffPair.before}
+          after={diffPair.after}
+          onClose={() => setDiffPair(null)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 flex flex-col md:flex-row h-[calc(100vh-64px)] overflow-hidden">
         
@@ -185,32 +877,83 @@ const App: React.FC = () => {
         <section className="flex-1 p-4 flex flex-col border-r border-slate-800 min-h-[50vh]">
           <div className="flex items-center justify-between mb-3 px-1">
              <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">源几何体 (3D)</h2>
-             {geometry && <span className="text-xs text-slate-500 font-mono">{geometry.filename}</span>}
+             <div className="flex items-center space-x-3">
+               {appState === AppState.COMPLETE && geometry && (
+                 <div className="flex items-center bg-slate-900 border border-slate-700 rounded p-0.5">
+                   <button
+                     onClick={() => setResultView('compare')}
+                     className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs ${resultView === 'compare' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     <Box size={12} /><span>重构对比</span>
+                   </button>
+                   <button
+                     onClick={() => setResultView('heatmap')}
+                     disabled={!deviation}
+                     className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs disabled:opacity-40 ${resultView === 'heatmap' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     <Flame size={12} /><span>偏差热图</span>
+                   </button>
+                   <button
+                     onClick={() => setResultView('snapshots')}
+                     className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs ${resultView === 'snapshots' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     <Grid3x3 size={12} /><span>采集视图</span>
+                   </button>
+                 </div>
+               )}
+               {geometry && <span className="text-xs text-slate-500 font-mono">{geometry.filename}</span>}
+             </div>
           </div>
+
+          <BodyPicker
+            bodies={bodies}
+            selected={selectedBody}
+            onSelect={handleSelectBody}
+            disabled={appState === AppState.ANALYZING}
+          />
           
-          <div className="flex-1 relative bg-slate-900 rounded-lg border border-slate-700 overflow-hidden">
+          <div
+            className={`flex-1 relative bg-slate-900 rounded-lg border overflow-hidden ${dragActive ? 'border-indigo-500' : 'border-slate-700'}`}
+            onDragOver={e => { e.preventDefault(); if (appState !== AppState.ANALYZING) setDragActive(true); }}
+            onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragActive(false); }}
+            onDrop={handleDrop}
+          >
+            {dragActive && (
+              <div className="absolute inset-0 z-30 bg-indigo-500/10 border-2 border-dashed border-indigo-500 rounded-lg flex items-center justify-center pointer-events-none">
+                <p className="text-indigo-300 font-medium">松开以加载 STL / OBJ / PLY / 3MF</p>
+              </div>
+            )}
             {/* 
                 Render Logic:
-                1. If Loading STL -> Show Spinner
-                2. If Analyzing AND we have snapshots -> Show 6x3 Grid (18 images)
-                3. If Geometry exists -> Show 3D Scene
-                4. Else -> Show Upload Prompt
+                1. If Loading a mesh file -> Show Spinner
+                2. If Complete AND compare tab -> Show Source vs Reconstruction
+                3. If Analyzing (or Complete on the snapshots tab) AND we have snapshots -> Show the capture grid
+                4. If Geometry exists -> Show 3D Scene (with deviation heatmap on the heatmap tab)
+                5. Else -> Show Upload Prompt
             */}
 
             {appState === AppState.LOADING_STL ? (
                 <div className="w-full h-full flex flex-col items-center justify-center">
                     <Loader2 size={40} className="text-indigo-500 animate-spin mb-4" />
-                    <p className="text-indigo-300 font-medium">正在读取 STL 文件...</p>
+                    <p className="text-indigo-300 font-medium">正在读取模型文件...</p>
                 </div>
-            ) : (appState === AppState.ANALYZING || appState === AppState.COMPLETE) && snapshots.length > 0 ? (
-                /* Static Grid View during Analysis - 6 columns for 18 images */
+            ) : appState === AppState.COMPLETE && resultView === 'compare' ? (
+                <ComparisonView
+                  source={sourceGeometry}
+                  reconstruction={reconGeometry}
+                  status={renderStatus}
+                  error={renderError}
+                  warnings={renderWarnings}
+                />
+            ) : (appState === AppState.ANALYZING || (appState === AppState.COMPLETE && resultView === 'snapshots')) && gridImages.length > 0 ? (
+                /* Static Grid View during Analysis - 6 columns for captures, 3 for comparison panels */
                 <div className="w-full h-full p-2 relative overflow-y-auto custom-scrollbar">
-                   <div className="grid grid-cols-6 gap-1.5 pb-2">
-                      {snapshots.map((src, idx) => (
-                        <div key={idx} className="relative rounded bg-slate-800 border border-slate-700 overflow-hidden group aspect-square">
-                           <img src={src} alt={VIEW_LABELS[idx]} className="w-full h-full object-contain p-0.5" />
+                   <div className={`grid gap-1.5 pb-2 ${showPanels ? 'grid-cols-3' : 'grid-cols-6'}`}>
+                      {gridImages.map((src, idx) => (
+                        <div key={idx} className={`relative rounded bg-slate-800 border border-slate-700 overflow-hidden group ${showPanels ? 'aspect-[3/1]' : 'aspect-square'}`}>
+                           <img src={src} alt={gridLabels[idx]} className="w-full h-full object-contain p-0.5" />
                            <div className="absolute top-0 left-0 w-full bg-black/60 backdrop-blur-[1px] text-white text-[8px] px-1 py-0.5 font-mono opacity-0 group-hover:opacity-100 transition-opacity truncate">
-                             {VIEW_LABELS[idx]}
+                             {gridLabels[idx]}
                            </div>
                         </div>
                       ))}
@@ -222,48 +965,223 @@ const App: React.FC = () => {
                         <div className="bg-slate-900/90 p-6 rounded-xl border border-indigo-500/30 shadow-2xl flex flex-col items-center">
                             <div className="w-12 h-12 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
                             <p className="text-indigo-400 font-mono text-sm animate-pulse">{progressText}</p>
+                            {refining && (
+                              <button
+                                onClick={() => { stopRefineRef.current = true; }}
+                                className="mt-4 flex items-center space-x-1 px-3 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300"
+                              >
+                                <Square size={10} /><span>本轮后停止</span>
+                              </button>
+                            )}
                         </div>
                      </div>
                    )}
                 </div>
-            ) : geometry ? (
+            ) : appState === AppState.ANALYZING && !geometry ? (
+                <div className="w-full h-full flex flex-col items-center justify-center">
+                    <Loader2 size={40} className="text-indigo-500 animate-spin mb-4" />
+                    <p className="text-indigo-400 font-mono text-sm animate-pulse">{progressText}</p>
+                </div>
+            ) : geometry && sourceGeometry ? (
               /* Interactive 3D Scene */
-              <StlScene 
-                url={geometry.url} 
-                onSnapshotReady={(fn) => { captureSnapshotRef.current = fn; }} 
-              />
+              <>
+                <StlScene 
+                  geometry={sourceGeometry} 
+                  deviation={appState === AppState.COMPLETE && resultView === 'heatmap' ? deviation : null}
+                  section={sectionView}
+                  highlights={highlights}
+                  onPickTriangle={segmentation ? handlePickTriangle : undefined}
+                />
+                <SectionControls geometry={sourceGeometry} section={sectionView} onChange={setSectionView} />
+              </>
             ) : (
               /* Empty State */
               <div className="w-full h-full flex flex-col items-center justify-center text-slate-600 space-y-4 border-dashed border-2 border-slate-800 rounded-lg m-1 w-[calc(100%-8px)] h-[calc(100%-8px)]">
                  <div className="w-20 h-20 bg-slate-800/50 rounded-full flex items-center justify-center">
                     <Upload size={32} className="opacity-50" />
                  </div>
-                 <p className="text-sm">请上传 STL 文件以开始逆向工程</p>
+                 <p className="text-sm">请上传或拖入 STL / OBJ / PLY / 3MF 文件以开始逆向工程</p>
+                 {hasDesign && settings.provider !== 'fitting' && (
+                   <button
+                     onClick={handleGenerateFromDesign}
+                     className="flex items-center space-x-2 px-4 py-2 rounded-full bg-slate-800 hover:bg-slate-700 border border-slate-700 text-xs text-slate-300"
+                     title="没有网格时只把参考图像和设计意图发给模型; 尺寸取自图纸标注或设计意图, 结果无法评分或迭代修正"
+                   >
+                     <Eye size={14} /><span>仅凭参考资料生成</span>
+                   </button>
+                 )}
               </div>
             )}
             
             {/* Action Bar Overlay - Only show when NOT analyzing and has geometry */}
             {geometry && appState !== AppState.ANALYZING && appState !== AppState.LOADING_STL && (
-              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full flex justify-center z-20 pointer-events-none">
+              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 w-full flex justify-center items-center space-x-2 z-20 pointer-events-none">
+                <div className="pointer-events-auto flex items-center space-x-2 px-3 py-2 rounded-full bg-slate-900/90 border border-slate-700 text-xs text-slate-400">
+                  <label className="flex items-center space-x-1 cursor-pointer" title="渲染生成的 SCAD, 与源模型对比后把差异图回传模型修正">
+                    <input type="checkbox" checked={refineEnabled} onChange={e => setRefineEnabled(e.target.checked)} className="accent-indigo-500" />
+                    <Repeat size={12} /><span>迭代修正</span>
+                  </label>
+                  {refineEnabled && (
+                    <>
+                      <select
+                        value={refineRounds}
+                        onChange={e => setRefineRounds(Number(e.target.value))}
+                        className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                        title="最多修正轮数"
+                      >
+                        {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n} 轮</option>)}
+                      </select>
+                      <select
+                        value={targetScore}
+                        onChange={e => setTargetScore(Number(e.target.value))}
+                        className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                        title="达到该精度分数即停止"
+                      >
+                        {[70, 80, 90, 95].map(n => <option key={n} value={n}>≥{n} 分</option>)}
+                      </select>
+                    </>
+                  )}
+                </div>
+                {settings.provider !== 'fitting' && (
+                  <label
+                    className="pointer-events-auto flex items-center space-x-1 px-3 py-2 rounded-full bg-slate-900/90 border border-slate-700 text-xs text-slate-400 cursor-pointer"
+                    title="在提示词中附上本地提取的回转 / 拉伸轮廓, 或拟合出的平面 / 圆柱 / 圆锥 / 球面参数"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={settings.fitHints}
+                      onChange={e => handleProviderChange({ ...settings, fitHints: e.target.checked })}
+                      className="accent-indigo-500"
+                    />
+                    <Shapes size={12} /><span>拟合提示</span>
+                  </label>
+                )}
+                <CaptureProfilePanel
+                  profile={settings.captureProfile}
+                  onChange={captureProfile => handleProviderChange({ ...settings, captureProfile })}
+                />
                 <button
                   onClick={handleGenerate}
+                  disabled={measuring}
+                  title={measuring ? '正在测量几何特征, 完成后才能发送' : undefined}
                   className={`
                     pointer-events-auto flex items-center space-x-2 px-6 py-3 rounded-full shadow-lg shadow-indigo-900/20 font-semibold text-white transition-all transform hover:scale-105
                     bg-gradient-to-r from-indigo-600 to-violet-600 hover:shadow-indigo-500/25
+                    disabled:opacity-50 disabled:hover:scale-100 disabled:cursor-wait
                   `}
                 >
-                  <Eye size={18} />
-                  <span>{result ? '重新分析' : '18 视角球形重构'}</span>
+                  {measuring ? <Loader2 size={18} className="animate-spin" /> : <Eye size={18} />}
+                  <span>{measuring ? '正在测量...' : result ? '重新分析' : settings.provider === 'fitting' ? '几何拟合重构' : `${imageCount(settings.captureProfile)} 图多视角重构`}</span>
                 </button>
               </div>
             )}
           </div>
+
+          {geometry && (
+            <div className="mt-3">
+              <OrientationPanel
+                options={orientation}
+                unitGuess={unitGuess}
+                onChange={handleOrientationChange}
+                disabled={appState === AppState.ANALYZING || appState === AppState.LOADING_STL}
+              />
+              <div className="mt-3">
+                <MeshStatsPanel metrics={metrics} analyzing={measuring} />
+              </div>
+              <div className="mt-3">
+                <MeshHealthPanel
+                  diagnostics={diagnostics}
+                  checking={checking}
+                  highlighted={highlightIssues}
+                  onToggleHighlight={handleToggleHighlight}
+                  repairOptions={repairOptions}
+                  onRepairOptionsChange={setRepairOptions}
+                  onRepair={handleRepair}
+                  onUndoRepair={handleUndoRepair}
+                  repairing={repairing}
+                  repairSummary={appliedRepair?.summary ?? null}
+                  disabled={appState === AppState.ANALYZING || appState === AppState.LOADING_STL}
+                />
+              </div>
+              <div className="mt-3">
+                <SegmentPanel
+                  segmentation={segmentation}
+                  mode={segmentMode}
+                  onModeChange={setSegmentMode}
+                  onSegment={handleSegment}
+                  onClear={handleClearSegments}
+                  segmenting={segmenting}
+                  labels={partLabels}
+                  onLabelChange={(i, label) => setPartLabels(prev => prev.map((l, k) => (k === i ? label : l)))}
+                  included={partIncluded}
+                  onToggleIncluded={i => setPartIncluded(prev => prev.map((v, k) => (k === i ? !v : v)))}
+                  selected={segmentation ? selectedPart : null}
+                  onSelect={setSelectedPart}
+                  disabled={appState === AppState.ANALYZING || appState === AppState.LOADING_STL}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Available before a mesh is loaded, so a part can start from photos and drawings alone */}
+          <div className="mt-3">
+            <DesignInputPanel
+              design={design}
+              onChange={setDesign}
+              ignored={settings.provider === 'fitting'}
+              disabled={appState === AppState.ANALYZING || appState === AppState.LOADING_STL}
+            />
+          </div>
         </section>
 
         {/* Right Panel: Code Output */}
         <section className="flex-1 p-4 flex flex-col min-h-[50vh] bg-[#0b1120]">
            <div className="flex items-center justify-between mb-3 px-1">
              <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">生成的脚本 (SCAD)</h2>
+             <div className="flex items-center space-x-2">
+               {result && previousResult && geometry && appState === AppState.COMPLETE && (
+                 <button
+                   onClick={() => setDiffPair({
+                     source: sourceGeometry,
+                     before: { label: `上一次 · ${previousResult.model ?? ''}`, result: previousResult },
+                     after: { label: `当前 · ${result.model ?? ''}`, result }
+                   })}
+                   className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300"
+                   title="与本次重新分析之前的结果对比代码、参数和网格"
+                 >
+                   <GitCompare size={12} /><span>与上次对比</span>
+                 </button>
+               )}
+               {result && geometry && appState === AppState.COMPLETE && settings.provider !== 'fitting' && (
+                 <button
+                   onClick={handleRefineCurrent}
+                   disabled={measuring}
+                   className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 disabled:opacity-50"
+                   title={`以当前脚本 (含手动修改) 为起点, 按迭代修正设置最多再修正 ${refineRounds} 轮`}
+                 >
+                   <Repeat size={12} /><span>从当前脚本继续修正</span>
+                 </button>
+               )}
+               {result && appState === AppState.COMPLETE && (
+                 <button
+                   onClick={handleDownloadScad}
+                   className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300"
+                   title={`下载 ${scadBaseName}.scad`}
+                 >
+                   <FileDown size={12} /><span>.scad</span>
+                 </button>
+               )}
+               {result && geometry && appState === AppState.COMPLETE && (
+                 <button
+                   onClick={handleExportBundle}
+                   disabled={renderStatus === 'rendering' || scoring}
+                   className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-xs text-slate-300 disabled:opacity-40 disabled:hover:bg-slate-800"
+                   title="打包下载脚本、重构网格 (STL/3MF)、快照和报告 (HTML/Markdown)"
+                 >
+                   <Download size={12} /><span>{renderStatus === 'rendering' || scoring ? '准备中...' : '导出'}</span>
+                 </button>
+               )}
+             </div>
            </div>
 
            <div className="flex-1 flex flex-col min-h-0">
@@ -272,6 +1190,20 @@ const App: React.FC = () => {
                  <AlertCircle size={48} className="text-red-500 mb-4" />
                  <h3 className="text-red-400 font-semibold mb-2">重构失败</h3>
                  <p className="text-red-300/70 text-sm max-w-md">{errorMsg}</p>
+                 {responseError && (
+                   <p className="text-red-300/50 text-xs mt-2">
+                     失败阶段: {RESPONSE_STAGE_LABELS[responseError.stage]}
+                     {responseError.attempts > 1 ? ` (共尝试 ${responseError.attempts} 次)` : ''}
+                   </p>
+                 )}
+                 {responseError?.raw && (
+                   <details className="mt-3 w-full max-w-lg text-left">
+                     <summary className="text-xs text-slate-400 cursor-pointer">查看模型原始响应</summary>
+                     <pre className="mt-2 max-h-60 overflow-auto p-2 rounded bg-slate-900 border border-slate-800 text-[11px] text-slate-400 whitespace-pre-wrap break-all">
+                       {responseError.raw}
+                     </pre>
+                   </details>
+                 )}
                  <button 
                     onClick={() => setAppState(AppState.READY_TO_CONVERT)}
                     className="mt-6 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded text-sm text-white transition-colors"
@@ -285,13 +1217,45 @@ const App: React.FC = () => {
                     <CodeEditor 
                         code={result?.code || ''} 
                         loading={false} 
+                        onChange={appState === AppState.COMPLETE ? handleCodeChange : undefined}
                     />
                   </div>
                   
+                  {result && !refining && (
+                    <ParameterPanel
+                      code={result.code}
+                      modified={result.baseCode !== undefined}
+                      onChange={handleCodeChange}
+                      onReset={handleResetParameters}
+                    />
+                  )}
+
+                  <IterationHistory
+                    iterations={iterations}
+                    selectedIndex={selectedIteration}
+                    bestIndex={bestIteration}
+                    onSelect={handleSelectIteration}
+                  />
+
+                  {(scoring || result?.fidelity) && (
+                    <FidelityPanel fidelity={result?.fidelity} computing={scoring} />
+                  )}
+
+                  {result?.constraintWarnings && result.constraintWarnings.length > 0 && (
+                    <div className="bg-amber-500/5 rounded-lg border border-amber-500/30 p-3 text-xs">
+                      <h4 className="flex items-center space-x-1.5 font-semibold text-amber-400 mb-1">
+                        <AlertCircle size={12} /><span>脚本未表达测得的对称约束</span>
+                      </h4>
+                      <ul className="list-disc list-inside space-y-0.5 text-amber-200/80">
+                        {result.constraintWarnings.map((w, i) => <li key={i}>{w}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* AI Explanation Area */}
                   {result?.explanation && (
                     <div className="h-1/4 min-h-[120px] bg-slate-900/50 rounded-lg border border-slate-800 p-4 overflow-y-auto">
-                        <h4 className="text-xs font-semibold text-indigo-400 uppercase mb-2">AI 建模思路 (Gemini 3 Pro)</h4>
+                        <h4 className="text-xs font-semibold text-indigo-400 uppercase mb-2">AI 建模思路{result.model ? ` (${result.model})` : ''}</h4>
                         <p className="text-sm text-slate-400 leading-relaxed">{result.explanation}</p>
                     </div>
                   )}
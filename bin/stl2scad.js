@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// Entry point for the CLI bundle; build it first with `npm run build:cli`
+import { main } from '../dist-cli/stl2scad.js';
+
+process.exitCode = await main(process.argv.slice(2));
@@ -0,0 +1,85 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { main } from './stl2scad';
+import { parseScad } from '../services/scadParser';
+
+// A 20 × 10 × 5 box, written in each input format
+const VERTICES = [[0, 0, 0], [20, 0, 0], [20, 10, 0], [0, 10, 0], [0, 0, 5], [20, 0, 5], [20, 10, 5], [0, 10, 5]];
+const FACES = [[0, 2, 1], [0, 3, 2], [4, 5, 6], [4, 6, 7], [0, 1, 5], [0, 5, 4], [1, 2, 6], [1, 6, 5], [2, 3, 7], [2, 7, 6], [3, 0, 4], [3, 4, 7]];
+
+const stl = () => [
+  'solid box',
+  ...FACES.flatMap(f => [
+    '  facet normal 0 0 0',
+    '    outer loop',
+    ...f.map(i => `      vertex ${VERTICES[i].join(' ')}`),
+    '    endloop',
+    '  endfacet'
+  ]),
+  'endsolid box'
+].join('\n');
+
+const obj = () => [
+  ...VERTICES.map(v => `v ${v.join(' ')}`),
+  ...FACES.map(f => `f ${f.map(i => i + 1).join(' ')}`)
+].join('\n');
+
+const threeMf = () => zipSync({
+  '_rels/.rels': strToU8(
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/></Relationships>'
+  ),
+  '3D/3dmodel.model': strToU8(
+    '<?xml version="1.0" encoding="UTF-8"?><model unit="millimeter" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">' +
+    '<resources><object id="1" type="model"><mesh>' +
+    `<vertices>${VERTICES.map(([x, y, z]) => `<vertex x="${x}" y="${y}" z="${z}"/>`).join('')}</vertices>` +
+    `<triangles>${FACES.map(([a, b, c]) => `<triangle v1="${a}" v2="${b}" v3="${c}"/>`).join('')}</triangles>` +
+    '</mesh></object></resources><build><item objectid="1"/></build></model>'
+  )
+});
+
+const FAST = ['--provider', 'mock', '--views', '6', '--resolution', '96', '--quiet'];
+
+describe('stl2scad convert', () => {
+  let dir = '';
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'stl2scad-'));
+    await writeFile(path.join(dir, 'box.stl'), stl());
+    await writeFile(path.join(dir, 'box.obj'), obj());
+    await writeFile(path.join(dir, 'box.3mf'), threeMf());
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it.each(['stl', 'obj', '3mf'])('converts a .%s file offline and writes the script and report', async ext => {
+    const output = path.join(dir, `${ext}.scad`);
+    const reportFile = path.join(dir, `${ext}.json`);
+    expect(await main(['convert', path.join(dir, `box.${ext}`), '-o', output, '--report', reportFile, ...FAST])).toBe(0);
+
+    const code = await readFile(output, 'utf8');
+    expect(() => parseScad(code)).not.toThrow();
+    const report = JSON.parse(await readFile(reportFile, 'utf8'));
+    expect(report.passed).toBe(true);
+    expect(report.fidelity.score).toBeGreaterThan(0);
+  });
+
+  it('exits with 1 below --min-score and 2 on bad arguments', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    try {
+      const input = path.join(dir, 'box.stl');
+      expect(await main(['convert', input, '-o', path.join(dir, 'strict.scad'), '--min-score', '101', ...FAST])).toBe(1);
+      expect(existsSync(path.join(dir, 'strict.scad'))).toBe(true);
+      expect(await main(['convert', input, ...FAST, '--views', '7'])).toBe(2);
+      expect(await main(['export', input])).toBe(2);
+    } finally {
+      stderr.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,373 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DOMParser as XmlParser } from 'linkedom';
+import { PRESET_PROFILES, RENDER_STYLES, RenderStyle, SectionAxis, sectionLabel, sectionPlanes } from '../services/captureProfiles';
+import { DEFAULT_SETTINGS, AppSettings } from '../services/settingsStore';
+import { PROVIDER_OPTIONS, LOCAL_PROVIDERS, ProviderId } from '../services/llmProvider';
+import { mergeBodies, parseMesh } from '../services/meshLoader';
+import { analyzeGeometry } from '../services/geometryAnalysis';
+import { MESH_ISSUES, diagnoseMesh, issueCount } from '../services/meshDiagnostics';
+import { DEFAULT_REPAIR_OPTIONS, RepairReport, repairMesh, repairSummary } from '../services/meshRepair';
+import { MESH_UNITS, MeshUnit, ORIENTATIONS, Orientation, OrientationOptions, detectUnits, describeOrientation, orientMesh } from '../services/meshOrientation';
+import { SEGMENT_MODES, SegmentMode, segmentGeometry, segmentMesh } from '../services/meshSegmentation';
+import { ConvertOptions, ConvertOutcome, convertGeometry, renderAndScore } from '../services/conversionPipeline';
+import { convertAssembly } from '../services/assemblyPipeline';
+import { softwareRenderer } from '../services/softwareRenderer';
+import { exportStl } from '../services/meshExport';
+import { DesignInput, MeshMetrics } from '../types';
+
+// Headless STL -> OpenSCAD conversion: the same pipeline as the web app, with the software renderer
+// in place of WebGL. Writes the script plus a JSON report; the exit code tells CI whether it passed.
+
+// The 3MF loader reads its XML parts with the browser's DOMParser
+globalThis.DOMParser ??= XmlParser as unknown as typeof DOMParser;
+
+const USAGE = `用法: stl2scad convert <input> [选项]
+
+  -o, --output <file>     输出 .scad 路径, 默认与输入同名; "-" 写到标准输出
+      --report <file>     写出 JSON 报告 (精度、警告、迭代记录等)
+      --views <preset>    视图方案: 6 | 18 | 26 | turntable (默认 18)
+      --styles <list>     渲染风格, 逗号分隔: ${RENDER_STYLES.map(s => s.id).join(',')} (默认 shaded)
+      --resolution <px>   采集分辨率 (默认 800)
+      --image-size <px>   发送给模型的图像边长上限 (默认 800)
+      --sections <list>   附加截面, 如 x,y,z 或 z@20,50,80
+      --provider <id>     ${PROVIDER_OPTIONS.map(p => p.id).join(' | ')} (默认 gemini)
+      --model <name>      模型名, 默认取提供者的默认模型
+      --base-url <url>    OpenAI 兼容接口地址
+      --api-key <key>     API Key, 也可用环境变量 STL2SCAD_API_KEY / GEMINI_API_KEY
+      --temperature <t>   采样温度 (默认 ${DEFAULT_SETTINGS.temperature})
+      --fit-hints         在提示词中附加本地图元拟合结果
+      --reference <file>  附加实物照片或图纸 (PNG / JPEG), 可重复; 与渲染视图分开发送给模型
+      --intent <text>     设计意图说明; 写成 @file 时从文件读取
+      --refine <n>        迭代修正轮数 (默认 0 = 不修正)
+      --target <score>    修正目标分数 (默认 90)
+      --body <n|all>      多实体文件: 重构第 n 个实体 (从 1 起) 或全部 (默认 all)
+      --repair            采集前修复网格 (焊接顶点、移除碎片、统一法线、填补孔洞)
+      --up <axis>         文件的朝上方向: z | y | x | -z | -y | -x, 或 flatFace (最大平面朝下) | principal (对齐主轴)
+                          负方向写成 --up=-y (默认 z)
+      --units <unit>      文件单位: auto | ${MESH_UNITS.map(u => u.id).join(' | ')} (默认 auto = 按尺寸检测)
+      --parts <mode>      拆分为部件并各自重构为模块后组装: components (连通部件) | convex (近似凸分解)
+      --min-score <score> 精度分数低于此值时以退出码 1 结束
+      --stl <file>        同时导出重构网格 (二进制 STL)
+      --images <dir>      把采集到的视图和截面保存为 PNG
+  -q, --quiet             不输出进度
+  -h, --help              显示帮助
+
+退出码: 0 成功, 1 转换失败或未达到 --min-score, 2 参数错误`;
+
+// "y" is shorthand for "+y"
+const parseOrientation = (value: string | undefined): Orientation => {
+  const id = value && /^[xyz]$/.test(value) ? `+${value}` : value ?? '+z';
+  const option = ORIENTATIONS.find(o => o.id === id);
+  if (!option) throw new UsageError(`--up 只能是 z, y, x, -z, -y, -x, flatFace 或 principal, 收到 "${value}"。`);
+  return option.id;
+};
+
+const VIEW_PRESETS: Record<string, string> = { '6': 'ortho6', '18': 'spherical18', '26': 'sphere26', turntable: 'turntable' };
+
+class UsageError extends Error {}
+
+const parseNumber = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isFinite(n)) throw new UsageError(`--${name} 需要一个数字, 收到 "${value}"。`);
+  return n;
+};
+
+// "x,y,z" cuts every axis at 25/50/75 %, "z@20,50,80" picks the positions
+const parseSections = (value: string) => {
+  const [axisPart, positionPart] = value.split('@');
+  const axes = axisPart.split(',').map(a => a.trim().toLowerCase());
+  if (axes.some(a => !['x', 'y', 'z'].includes(a))) throw new UsageError(`--sections 的轴只能是 x, y, z, 收到 "${axisPart}"。`);
+  const positions = positionPart ? positionPart.split(',').map(p => parseNumber(p, 'sections', 50)) : [25, 50, 75];
+  return { enabled: true, axes: axes as SectionAxis[], positions };
+};
+
+type CliValues = Record<string, string | boolean | string[] | undefined>;
+
+const buildSettings = (values: CliValues): AppSettings => {
+  const str = (name: string) => values[name] as string | undefined;
+
+  const providerId = (str('provider') ?? DEFAULT_SETTINGS.provider) as ProviderId;
+  const option = PROVIDER_OPTIONS.find(p => p.id === providerId);
+  if (!option) throw new UsageError(`未知的提供者 "${providerId}"。`);
+
+  const presetId = VIEW_PRESETS[str('views') ?? '18'];
+  const preset = PRESET_PROFILES.find(p => p.id === presetId);
+  if (!preset) throw new UsageError(`--views 只能是 ${Object.keys(VIEW_PRESETS).join(', ')}。`);
+
+  const styles = (str('styles') ?? 'shaded').split(',').map(s => s.trim()) as RenderStyle[];
+  const unknown = styles.filter(s => !RENDER_STYLES.some(r => r.id === s));
+  if (unknown.length > 0) throw new UsageError(`未知的渲染风格: ${unknown.join(', ')}。`);
+
+  const apiKey = str('api-key') ?? process.env.STL2SCAD_API_KEY ?? process.env.GEMINI_API_KEY ?? '';
+  // OpenAI-compatible servers are often local and keyless; Gemini always needs one
+  if (providerId === 'gemini' && !apiKey) {
+    throw new UsageError(`${option.label} 需要 API Key: 使用 --api-key 或设置 STL2SCAD_API_KEY。`);
+  }
+
+  return {
+    ...DEFAULT_SETTINGS,
+    provider: providerId,
+    model: str('model') ?? option.defaultModel,
+    baseUrl: str('base-url') ?? DEFAULT_SETTINGS.baseUrl,
+    apiKey,
+    temperature: parseNumber(str('temperature'), 'temperature', DEFAULT_SETTINGS.temperature),
+    imageResolution: parseNumber(str('image-size'), 'image-size', DEFAULT_SETTINGS.imageResolution),
+    fitHints: Boolean(values['fit-hints']),
+    captureProfile: {
+      ...preset.profile,
+      styles,
+      resolution: parseNumber(str('resolution'), 'resolution', preset.profile.resolution),
+      // The software renderer draws no overlays, so the prompt must not promise them
+      annotations: false,
+      sections: str('sections') ? parseSections(str('sections')!) : preset.profile.sections
+    }
+  };
+};
+
+const REFERENCE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg' };
+
+// --reference photos and drawings, captioned by file name, and --intent text or @file
+const loadDesign = async (references: string[], intent: string | undefined): Promise<DesignInput | undefined> => {
+  if (references.length === 0 && !intent) return undefined;
+  const images = await Promise.all(references.map(async file => {
+    const type = REFERENCE_TYPES[path.extname(file).toLowerCase()];
+    if (!type) throw new UsageError(`--reference 只支持 PNG / JPEG 图片, 收到 "${file}"。`);
+    const bytes = await readFile(file);
+    return { name: path.basename(file), caption: '', dataUrl: `data:${type};base64,${bytes.toString('base64')}` };
+  }));
+  const text = intent?.startsWith('@') ? await readFile(intent.slice(1), 'utf8') : intent ?? '';
+  return { intent: text.trim(), references: images };
+};
+
+const dataUrlBytes = (url: string): Uint8Array => Uint8Array.from(atob(url.slice(url.indexOf(',') + 1)), c => c.charCodeAt(0));
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const convert = async (input: string, values: CliValues): Promise<number> => {
+  const str = (name: string) => values[name] as string | undefined;
+  const settings = buildSettings(values);
+  const refineRounds = parseNumber(str('refine'), 'refine', 0);
+  const targetScore = parseNumber(str('target'), 'target', 90);
+  const minScore = str('min-score') !== undefined ? parseNumber(str('min-score'), 'min-score', 0) : null;
+  const up = parseOrientation(str('up'));
+  const unitArg = str('units') ?? 'auto';
+  if (unitArg !== 'auto' && !MESH_UNITS.some(u => u.id === unitArg)) {
+    throw new UsageError(`--units 只能是 auto, ${MESH_UNITS.map(u => u.id).join(', ')}。`);
+  }
+  const partsArg = str('parts') as SegmentMode | undefined;
+  if (partsArg !== undefined && !SEGMENT_MODES.some(m => m.id === partsArg)) {
+    throw new UsageError(`--parts 只能是 ${SEGMENT_MODES.map(m => m.id).join(', ')}。`);
+  }
+  const log = (text: string) => {
+    if (!values.quiet) process.stderr.write(`${text}\n`);
+  };
+  const design = await loadDesign((values.reference as string[] | undefined) ?? [], str('intent'));
+  if (design?.references.length) log(`参考图像: ${design.references.map(r => r.name).join(', ')}`);
+
+  const started = Date.now();
+  const filename = path.basename(input);
+  const file = await readFile(input);
+  const loaded = parseMesh(filename, file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer);
+
+  const bodyArg = str('body') ?? 'all';
+  let source;
+  let bodyNote: string | undefined;
+  if (bodyArg === 'all' || loaded.bodies.length === 1) {
+    source = loaded.bodies.length > 1 ? mergeBodies(loaded.bodies) : loaded.bodies[0].geometry;
+    if (loaded.bodies.length > 1) bodyNote = `Reconstructing all ${loaded.bodies.length} bodies of the file as one model.`;
+  } else {
+    const index = parseNumber(bodyArg, 'body', 1) - 1;
+    const body = loaded.bodies[index];
+    if (!body) throw new UsageError(`文件只有 ${loaded.bodies.length} 个实体, 没有第 ${index + 1} 个。`);
+    source = body.geometry;
+    bodyNote = `Reconstructing body "${body.name}" (${index + 1} of ${loaded.bodies.length}).`;
+  }
+
+  // Health is reported for the mesh as loaded, before any repair
+  const diagnostics = diagnoseMesh(source);
+  const health = Object.fromEntries(MESH_ISSUES.map(issue => [issue.kind, issueCount(diagnostics, issue.kind)]));
+  let repair: RepairReport | null = null;
+  if (values.repair) {
+    const repaired = repairMesh(source, DEFAULT_REPAIR_OPTIONS);
+    source = repaired.geometry;
+    repair = repaired.report;
+    log(`网格修复: ${repairSummary(repair)}`);
+  }
+
+  let unit = unitArg as MeshUnit;
+  if (unitArg === 'auto') {
+    const guess = detectUnits(source);
+    unit = guess.unit;
+    log(`单位检测: ${guess.unit} (${guess.reason})`);
+  }
+  const orientation: OrientationOptions = { orientation: up, unit };
+  source = orientMesh(source, orientation);
+  log(`工作坐标系: ${describeOrientation(orientation)}`);
+
+  let metrics: MeshMetrics | null = null;
+  try {
+    metrics = analyzeGeometry(source);
+  } catch (err) {
+    log(`几何分析失败: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const options: ConvertOptions = {
+    settings,
+    filename,
+    bodyNote,
+    orientation,
+    metrics,
+    design,
+    refine: refineRounds > 0 ? { maxRounds: refineRounds, targetScore } : null,
+    renderer: softwareRenderer,
+    onProgress: log,
+    onIteration: it => log(`第 ${it.index} 轮: ${it.score} 分${it.renderError ? ` (编译失败: ${it.renderError})` : ''}`)
+  };
+
+  // Parts are labelled by index here; a single part is just the whole mesh
+  let parts: string[] | null = null;
+  let outcome: ConvertOutcome;
+  const segmentation = partsArg ? segmentMesh(source, partsArg) : null;
+  if (segmentation && segmentation.segments.length >= 2) {
+    parts = segmentation.segments.map((_, i) => `part ${i + 1}`);
+    log(`部件拆分: ${parts.length} 个部件`);
+    const whole = source;
+    outcome = await convertAssembly(
+      parts.map((label, i) => ({ label, geometry: segmentGeometry(whole, segmentation, i) })),
+      { ...options, cutFromSolid: segmentation.mode === 'convex' }
+    );
+  } else {
+    if (segmentation) log('部件拆分: 只有 1 个部件, 按整体重构');
+    outcome = await convertGeometry(source, options);
+  }
+  const { result, reconstruction, renderError, renderWarnings } = await renderAndScore(source, outcome.result, log);
+
+  const output = str('output') ?? path.join(path.dirname(input), `${path.parse(input).name}.scad`);
+  if (output === '-') process.stdout.write(result.code);
+  else await writeFile(output, result.code);
+
+  if (str('stl') && reconstruction) await writeFile(str('stl')!, exportStl(reconstruction));
+
+  if (str('images') && outcome.snapshots.length > 0) {
+    const dir = str('images')!;
+    await mkdir(dir, { recursive: true });
+    // Style ids rather than the Chinese style labels, so the file names stay ASCII
+    const { views, styles } = outcome.profile;
+    const perPart = [
+      ...views.flatMap(v => styles.map(style => `${v.name} ${style}`)),
+      ...sectionPlanes(outcome.profile).map(p => sectionLabel(p.axis, p.position))
+    ];
+    // Assemblies capture every part in turn with the same profile
+    const names = parts ? parts.flatMap(part => perPart.map(name => `${part} ${name}`)) : perPart;
+    await Promise.all(outcome.snapshots.map((snap, i) =>
+      writeFile(path.join(dir, `${String(i + 1).padStart(2, '0')}_${slug(names[i] ?? `view ${i + 1}`)}.png`), dataUrlBytes(snap))
+    ));
+  }
+
+  const score = result.fidelity?.score ?? null;
+  const passed = !renderError && (minScore === null || (score !== null && score >= minScore));
+
+  if (str('report')) {
+    const report = {
+      input: path.resolve(input),
+      output: output === '-' ? null : path.resolve(output),
+      format: loaded.format,
+      bodies: loaded.bodies.length,
+      body: bodyArg,
+      health,
+      repair,
+      orientation,
+      parts,
+      references: design?.references.map(r => r.name) ?? [],
+      intent: design?.intent || null,
+      provider: settings.provider,
+      model: LOCAL_PROVIDERS.includes(settings.provider) ? null : settings.model,
+      captureProfile: { preset: outcome.profile.preset, views: outcome.profile.views.length, styles: outcome.profile.styles, resolution: outcome.profile.resolution, sections: outcome.profile.sections },
+      metrics,
+      explanation: result.explanation,
+      fidelity: result.fidelity ?? null,
+      renderError,
+      renderWarnings,
+      constraintWarnings: result.constraintWarnings ?? [],
+      iterations: outcome.iterations.map(it => ({ index: it.index, score: it.score, renderError: it.renderError ?? null })),
+      bestIteration: outcome.best,
+      minScore,
+      passed,
+      elapsedMs: Date.now() - started
+    };
+    await writeFile(str('report')!, `${JSON.stringify(report, null, 2)}\n`);
+  }
+
+  if (renderError) log(`OpenSCAD 编译失败: ${renderError}`);
+  if (result.constraintWarnings?.length) log(`未表达的对称约束: ${result.constraintWarnings.join('; ')}`);
+  log(score !== null ? `完成: 精度 ${score} 分, 用时 ${((Date.now() - started) / 1000).toFixed(1)} 秒` : '完成: 未能计算精度');
+  if (!passed && minScore !== null && score !== null) log(`精度 ${score} 低于 --min-score ${minScore}`);
+  return passed ? 0 : 1;
+};
+
+// Runs one invocation and resolves to its exit code; bin/stl2scad.js is the process entry point
+export const main = async (argv: string[]): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        report: { type: 'string' },
+        views: { type: 'string' },
+        styles: { type: 'string' },
+        resolution: { type: 'string' },
+        'image-size': { type: 'string' },
+        sections: { type: 'string' },
+        provider: { type: 'string' },
+        model: { type: 'string' },
+        'base-url': { type: 'string' },
+        'api-key': { type: 'string' },
+        temperature: { type: 'string' },
+        'fit-hints': { type: 'boolean' },
+        reference: { type: 'string', multiple: true },
+        intent: { type: 'string' },
+        refine: { type: 'string' },
+        target: { type: 'string' },
+        body: { type: 'string' },
+        repair: { type: 'boolean' },
+        up: { type: 'string' },
+        units: { type: 'string' },
+        parts: { type: 'string' },
+        'min-score': { type: 'string' },
+        stl: { type: 'string' },
+        images: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  const [command, input, ...extra] = parsed.positionals;
+  if (parsed.values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+  if (command !== 'convert' || !input || extra.length > 0) {
+    process.stderr.write(`${USAGE}\n`);
+    return 2;
+  }
+
+  try {
+    return await convert(input, parsed.values);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      process.stderr.write(`${err.message}\n`);
+      return 2;
+    }
+    process.stderr.write(`转换失败: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+};
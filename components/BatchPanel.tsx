@@ -0,0 +1,298 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, X, Upload, Play, Square, RotateCw, Download, FolderOpen, Trash2, Loader2 } from 'lucide-react';
+import ProviderPicker from './ProviderPicker';
+import CaptureProfilePanel from './CaptureProfilePanel';
+import { AppSettings } from '../services/settingsStore';
+import { SUPPORTED_EXTENSIONS } from '../services/meshLoader';
+import { ProjectRun } from '../services/projectStore';
+import { BATCH_STATUS_LABELS, BatchJob, BatchStatus, batchSummary, createBatchJob, runBatch, toExportInput } from '../services/batchQueue';
+import { buildBatchExport, downloadFile } from '../services/exportBundle';
+
+interface BatchPanelProps {
+  open: boolean;
+  settings: AppSettings;                 // the batch starts from these and always uses their API key
+  refine: { maxRounds: number; targetScore: number } | null;
+  onClose: () => void;
+  onSaved: (run: ProjectRun) => void;
+  onOpenRun: (id: string) => void;
+}
+
+const statusClass: Record<BatchStatus, string> = {
+  queued: 'text-slate-400',
+  running: 'text-indigo-300',
+  done: 'text-emerald-400',
+  failed: 'text-red-400',
+  cancelled: 'text-slate-500'
+};
+
+const scoreColor = (score: number) => {
+  if (score >= 85) return 'text-emerald-400';
+  if (score >= 60) return 'text-amber-400';
+  return 'text-red-400';
+};
+
+const isSupported = (file: File) => SUPPORTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Queue of files converted one after another with the offscreen capture, unattended.
+// Stays mounted while closed so a running batch keeps going in the background.
+const BatchPanel: React.FC<BatchPanelProps> = ({ open, settings, refine, onClose, onSaved, onOpenRun }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [batchSettings, setBatchSettings] = useState<AppSettings>(settings);
+  const [concurrency, setConcurrency] = useState(1);
+  const [maxAttempts, setMaxAttempts] = useState(3);
+  const [intervalSec, setIntervalSec] = useState(5);
+  const [running, setRunning] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const stopRef = useRef(false);
+
+  // Pick up the main window's backend and camera rig each time the panel is opened while idle
+  useEffect(() => {
+    if (open && !running) setBatchSettings(settings);
+  }, [open]);
+
+  const effective: AppSettings = { ...batchSettings, apiKey: settings.apiKey };
+  const keyMissing = effective.provider === 'gemini' && !effective.apiKey;
+  const counts = jobs.reduce((acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 } as Record<BatchStatus, number>);
+  const finished = jobs.filter(job => job.status === 'done' && job.output);
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const accepted = Array.from(files).filter(isSupported);
+    setJobs(prev => [...prev, ...accepted.map(createBatchJob)]);
+  };
+
+  const start = async (list: BatchJob[]) => {
+    setJobs(list);
+    stopRef.current = false;
+    setRunning(true);
+    try {
+      await runBatch(list, {
+        settings: effective,
+        refine,
+        concurrency,
+        maxAttempts,
+        intervalMs: intervalSec * 1000,
+        onUpdate: job => setJobs(prev => prev.map(j => (j.id === job.id ? job : j))),
+        onSaved,
+        shouldStop: () => stopRef.current
+      });
+    } finally {
+      setRunning(false);
+      setStopping(false);
+    }
+  };
+
+  // Failed and cancelled files get a fresh set of attempts
+  const requeue = () =>
+    start(jobs.map(job => (job.status === 'failed' || job.status === 'cancelled'
+      ? { ...job, status: 'queued', attempts: 0, error: undefined, progress: '' }
+      : job)));
+
+  const stop = () => {
+    stopRef.current = true;
+    setStopping(true);
+  };
+
+  const exportResults = () => {
+    try {
+      const zip = buildBatchExport(finished.map(job => toExportInput(job.output!)), batchSummary(jobs));
+      downloadFile(zip, `batch_${new Date().toISOString().slice(0, 10)}.zip`, 'application/zip');
+    } catch (err) {
+      console.error("Batch export failed:", err);
+      window.alert(`导出失败: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const button = 'flex items-center space-x-1 px-3 py-1.5 rounded text-xs disabled:opacity-40';
+
+  return (
+    <div className={`fixed inset-0 z-50 bg-black/70 backdrop-blur-sm items-center justify-center p-4 ${open ? 'flex' : 'hidden'}`} onClick={onClose}>
+      <div
+        className="w-full max-w-6xl h-full max-h-[90vh] bg-slate-900 border border-slate-700 rounded-xl shadow-2xl flex flex-col text-xs"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-800">
+          <div className="flex items-center space-x-3">
+            <Layers size={16} className="text-indigo-400" />
+            <h3 className="text-sm font-semibold text-white">批量重构</h3>
+            {jobs.length > 0 && (
+              <span className="text-slate-500">
+                共 {jobs.length} 个 · 完成 {counts.done} · 失败 {counts.failed}
+                {counts.queued + counts.running > 0 ? ` · 剩余 ${counts.queued + counts.running}` : ''}
+              </span>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800" title={running ? '关闭面板, 批处理在后台继续' : '关闭'}>
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-5 py-3 border-b border-slate-800 text-slate-400">
+          <ProviderPicker
+            settings={batchSettings}
+            onChange={next => setBatchSettings(s => ({ ...s, ...next }))}
+            disabled={running}
+          />
+          {!running && effective.provider !== 'fitting' && (
+            <CaptureProfilePanel
+              profile={batchSettings.captureProfile}
+              onChange={captureProfile => setBatchSettings(s => ({ ...s, captureProfile }))}
+            />
+          )}
+          <label className="flex items-center space-x-1" title="同时处理的文件数">
+            <span>并发</span>
+            <select value={concurrency} onChange={e => setConcurrency(Number(e.target.value))} disabled={running}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center space-x-1" title="两个文件开始处理之间的最短间隔, 用于避开服务商的速率限制">
+            <span>间隔</span>
+            <select value={intervalSec} onChange={e => setIntervalSec(Number(e.target.value))} disabled={running}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+              {[0, 5, 15, 30, 60].map(n => <option key={n} value={n}>{n} 秒</option>)}
+            </select>
+          </label>
+          <label className="flex items-center space-x-1" title="每个文件最多尝试的次数">
+            <span>尝试</span>
+            <select value={maxAttempts} onChange={e => setMaxAttempts(Number(e.target.value))} disabled={running}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+              {[1, 2, 3, 5].map(n => <option key={n} value={n}>{n} 次</option>)}
+            </select>
+          </label>
+          <span className="text-slate-500">
+            迭代修正: {refine && effective.provider !== 'fitting' ? `最多 ${refine.maxRounds} 轮, ≥${refine.targetScore} 分停止` : '关闭'} (与主界面一致)
+          </span>
+        </div>
+
+        <div
+          className={`flex-1 min-h-0 overflow-auto relative ${dragActive ? 'bg-indigo-500/5' : ''}`}
+          onDragOver={e => { e.preventDefault(); if (!running) setDragActive(true); }}
+          onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragActive(false); }}
+          onDrop={e => {
+            e.preventDefault();
+            setDragActive(false);
+            if (!running) addFiles(e.dataTransfer.files);
+          }}
+        >
+          {jobs.length === 0 ? (
+            <label className="h-full flex flex-col items-center justify-center text-slate-500 cursor-pointer border-2 border-dashed border-slate-700 m-4 rounded-lg">
+              <Upload size={32} className="mb-3 text-slate-600" />
+              <p className="text-sm">拖入或选择多个 STL / OBJ / PLY / 3MF 文件</p>
+              <p className="mt-1">每个文件按上面的后端和采集配置依次处理, 结果自动保存到项目历史</p>
+              <input type="file" multiple accept={SUPPORTED_EXTENSIONS.join(',')} className="hidden" onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+          ) : (
+            <table className="w-full">
+              <thead className="sticky top-0 bg-slate-900">
+                <tr className="text-slate-500">
+                  <th className="px-4 py-2 text-left font-normal w-8">#</th>
+                  <th className="px-2 py-2 text-left font-normal">文件</th>
+                  <th className="px-2 py-2 text-left font-normal">状态</th>
+                  <th className="px-2 py-2 text-right font-normal">分数</th>
+                  <th className="px-2 py-2 text-right font-normal">IoU</th>
+                  <th className="px-2 py-2 text-right font-normal">尝试</th>
+                  <th className="px-2 py-2 text-right font-normal">耗时</th>
+                  <th className="px-4 py-2 w-16"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map((job, i) => {
+                  const fidelity = job.output?.result.fidelity;
+                  const note = job.output?.renderError ? `编译失败: ${job.output.renderError}` : job.progress || job.error;
+                  return (
+                    <tr key={job.id} className="border-t border-slate-800 align-top">
+                      <td className="px-4 py-1.5 text-slate-600">{i + 1}</td>
+                      <td className="px-2 py-1.5">
+                        <div className="text-slate-200 truncate max-w-[18rem]" title={job.file.name}>{job.file.name}</div>
+                        <div className="text-slate-600">{formatSize(job.file.size)}</div>
+                      </td>
+                      <td className="px-2 py-1.5 max-w-[24rem]">
+                        <div className={`flex items-center space-x-1 ${statusClass[job.status]}`}>
+                          {job.status === 'running' && <Loader2 size={12} className="animate-spin" />}
+                          <span>{BATCH_STATUS_LABELS[job.status]}</span>
+                        </div>
+                        {note && (
+                          <div className={`truncate ${(job.error && job.status !== 'running') || job.output?.renderError ? 'text-red-400/80' : 'text-slate-500'}`} title={note}>
+                            {note}
+                          </div>
+                        )}
+                      </td>
+                      <td className={`px-2 py-1.5 text-right font-mono ${fidelity ? scoreColor(fidelity.score) : 'text-slate-600'}`}>
+                        {fidelity ? fidelity.score : '—'}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono text-slate-400">{fidelity ? fidelity.iou.toFixed(3) : '—'}</td>
+                      <td className="px-2 py-1.5 text-right font-mono text-slate-400">{job.attempts}</td>
+                      <td className="px-2 py-1.5 text-right font-mono text-slate-400">
+                        {job.elapsedMs !== undefined ? `${(job.elapsedMs / 1000).toFixed(0)}s` : ''}
+                      </td>
+                      <td className="px-4 py-1.5">
+                        <div className="flex items-center justify-end space-x-1">
+                          {job.output?.runId && (
+                            <button onClick={() => onOpenRun(job.output!.runId!)} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700" title="在主界面打开">
+                              <FolderOpen size={13} />
+                            </button>
+                          )}
+                          {!running && (
+                            <button onClick={() => setJobs(prev => prev.filter(j => j.id !== job.id))} className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700" title="移出队列">
+                              <Trash2 size={13} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-3 border-t border-slate-800">
+          <div className="flex items-center space-x-2">
+            <label className={`${button} bg-slate-800 hover:bg-slate-700 text-slate-300 cursor-pointer ${running ? 'opacity-40 pointer-events-none' : ''}`}>
+              <Upload size={12} /><span>添加文件</span>
+              <input type="file" multiple accept={SUPPORTED_EXTENSIONS.join(',')} className="hidden" disabled={running} onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+            <button
+              onClick={() => setJobs(prev => prev.filter(job => job.status !== 'done'))}
+              disabled={running || counts.done === 0}
+              className={`${button} bg-slate-800 hover:bg-slate-700 text-slate-300`}
+            >
+              <Trash2 size={12} /><span>清除已完成</span>
+            </button>
+            {keyMissing && <span className="text-amber-400">Gemini 后端需要 API Key, 请先在设置中填写</span>}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={exportResults} disabled={finished.length === 0} className={`${button} bg-slate-800 hover:bg-slate-700 text-slate-300`}
+              title="每个完成的文件一个文件夹 (脚本、网格、快照、报告), 外加结果汇总表 (CSV / Markdown)">
+              <Download size={12} /><span>导出结果 ({finished.length})</span>
+            </button>
+            {running ? (
+              <button onClick={stop} disabled={stopping} className={`${button} bg-red-600 hover:bg-red-500 text-white`}
+                title="正在处理的文件会完成, 其余的标记为已取消">
+                <Square size={12} /><span>{stopping ? '正在停止...' : '停止'}</span>
+              </button>
+            ) : counts.queued > 0 ? (
+              <button onClick={() => start(jobs)} disabled={keyMissing} className={`${button} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+                <Play size={12} /><span>开始 ({counts.queued})</span>
+              </button>
+            ) : (
+              <button onClick={requeue} disabled={keyMissing || counts.failed + counts.cancelled === 0}
+                className={`${button} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+                <RotateCw size={12} /><span>重试失败 ({counts.failed + counts.cancelled})</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
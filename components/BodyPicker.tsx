@@ -0,0 +1,42 @@
+import React from 'react';
+import { Boxes } from 'lucide-react';
+import { MeshBody } from '../services/meshLoader';
+
+interface BodyPickerProps {
+  bodies: MeshBody[];
+  selected: number | 'all';
+  onSelect: (selection: number | 'all') => void;
+  disabled?: boolean;
+}
+
+// Lists the objects of a multi-body file so one (or all) can be reconstructed
+const BodyPicker: React.FC<BodyPickerProps> = ({ bodies, selected, onSelect, disabled }) => {
+  if (bodies.length < 2) return null;
+
+  const total = bodies.reduce((n, b) => n + b.triangleCount, 0);
+  const itemClass = (active: boolean) =>
+    `flex-shrink-0 px-2 py-1 rounded border text-xs transition-colors disabled:opacity-50 ${
+      active ? 'border-indigo-500 bg-indigo-500/10 text-white' : 'border-slate-700 text-slate-400 hover:border-slate-500'
+    }`;
+
+  return (
+    <div className="flex items-center space-x-2 mb-2 px-1">
+      <Boxes size={14} className="text-indigo-400 flex-shrink-0" />
+      <span className="text-xs text-slate-500 flex-shrink-0">{bodies.length} 个实体:</span>
+      <div className="flex space-x-1 overflow-x-auto pb-0.5">
+        {bodies.map((body, i) => (
+          <button key={i} disabled={disabled} onClick={() => onSelect(i)} className={itemClass(selected === i)}>
+            {body.name}
+            <span className="ml-1 font-mono text-slate-500">{body.triangleCount.toLocaleString()}△</span>
+          </button>
+        ))}
+        <button disabled={disabled} onClick={() => onSelect('all')} className={itemClass(selected === 'all')}>
+          全部合并
+          <span className="ml-1 font-mono text-slate-500">{total.toLocaleString()}△</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BodyPicker;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Camera, ChevronUp } from 'lucide-react';
+import {
+  CaptureProfile,
+  PRESET_PROFILES,
+  RENDER_STYLES,
+  RenderStyle,
+  SectionAxis,
+  formatCustomViews,
+  imageCount,
+  parseCustomViews,
+  sectionPlanes
+} from '../services/captureProfiles';
+
+interface CaptureProfilePanelProps {
+  profile: CaptureProfile;
+  onChange: (profile: CaptureProfile) => void;
+}
+
+const CAPTURE_RESOLUTIONS = [512, 640, 800, 1024, 1280];
+
+const pill = (active: boolean) =>
+  `px-2 py-1 rounded text-xs ${active ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+
+const CaptureProfilePanel: React.FC<CaptureProfilePanelProps> = ({ profile, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [customText, setCustomText] = useState(() => formatCustomViews(profile.views));
+  const [customError, setCustomError] = useState<string | null>(null);
+  const [positionsText, setPositionsText] = useState(() => profile.sections.positions.join(', '));
+
+  // Keep the editor in sync when a preset replaces the directions
+  useEffect(() => {
+    if (profile.preset !== 'custom') setCustomText(formatCustomViews(profile.views));
+  }, [profile.preset, profile.views]);
+
+  const presetLabel = profile.preset === 'custom'
+    ? '自定义'
+    : PRESET_PROFILES.find(p => p.id === profile.preset)?.label ?? profile.preset;
+
+  const selectPreset = (id: string) => {
+    const preset = PRESET_PROFILES.find(p => p.id === id);
+    if (!preset) return;
+    onChange({ ...profile, preset: id, views: preset.profile.views, projection: preset.profile.projection });
+  };
+
+  const toggleStyle = (style: RenderStyle) => {
+    const styles = profile.styles.includes(style)
+      ? profile.styles.filter(s => s !== style)
+      : RENDER_STYLES.map(s => s.id).filter(s => s === style || profile.styles.includes(s));
+    // At least one style must stay selected
+    if (styles.length > 0) onChange({ ...profile, styles });
+  };
+
+  const toggleSectionAxis = (axis: SectionAxis) => {
+    const axes = profile.sections.axes.includes(axis)
+      ? profile.sections.axes.filter(a => a !== axis)
+      : (['x', 'y', 'z'] as SectionAxis[]).filter(a => a === axis || profile.sections.axes.includes(a));
+    if (axes.length > 0) onChange({ ...profile, sections: { ...profile.sections, axes } });
+  };
+
+  // Percentages along the cut axis; anything unparsable falls back to the saved list
+  const applyPositions = () => {
+    const positions = positionsText
+      .split(/[\s,]+/)
+      .map(Number)
+      .filter(n => Number.isFinite(n) && n >= 0 && n <= 100);
+    const unique = Array.from(new Set(positions)).sort((a, b) => a - b);
+    if (unique.length > 0) onChange({ ...profile, sections: { ...profile.sections, positions: unique } });
+    setPositionsText((unique.length > 0 ? unique : profile.sections.positions).join(', '));
+  };
+
+  const applyCustom = () => {
+    try {
+      onChange({ ...profile, preset: 'custom', views: parseCustomViews(customText) });
+      setCustomError(null);
+    } catch (err) {
+      setCustomError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="relative pointer-events-auto">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center space-x-1.5 px-3 py-2 rounded-full bg-slate-900/90 border border-slate-700 text-xs text-slate-400 hover:text-white"
+      >
+        <Camera size={12} />
+        <span>{presetLabel}</span>
+        <span className="font-mono text-slate-500">{imageCount(profile)} 图</span>
+        <ChevronUp size={12} />
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-80 bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 text-xs">
+          <div>
+            <div className="text-slate-500 mb-1">视角预设</div>
+            <div className="flex flex-wrap gap-1">
+              {PRESET_PROFILES.map(p => (
+                <button key={p.id} onClick={() => selectPreset(p.id)} className={pill(profile.preset === p.id)}>{p.label}</button>
+              ))}
+              <button onClick={() => onChange({ ...profile, preset: 'custom' })} className={pill(profile.preset === 'custom')}>自定义</button>
+            </div>
+          </div>
+
+          {profile.preset === 'custom' && (
+            <div>
+              <div className="text-slate-500 mb-1">方向 (STL 坐标系 Z 向上), 每行 "名称: x y z"</div>
+              <textarea
+                value={customText}
+                onChange={e => setCustomText(e.target.value)}
+                onBlur={applyCustom}
+                rows={6}
+                spellCheck={false}
+                className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-[11px] text-slate-200"
+              />
+              {customError && <div className="text-red-400 mt-1">{customError}</div>}
+            </div>
+          )}
+
+          <div>
+            <div className="text-slate-500 mb-1">相机投影</div>
+            <div className="flex gap-1">
+              <button onClick={() => onChange({ ...profile, projection: 'perspective' })} className={pill(profile.projection === 'perspective')}>透视</button>
+              <button onClick={() => onChange({ ...profile, projection: 'orthographic' })} className={pill(profile.projection === 'orthographic')}>正交</button>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-slate-500 mb-1">渲染风格 (每个视角各一张)</div>
+            <div className="flex flex-wrap gap-1">
+              {RENDER_STYLES.map(s => (
+                <button key={s.id} onClick={() => toggleStyle(s.id)} className={pill(profile.styles.includes(s.id))}>{s.label}</button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-slate-400 cursor-pointer" title="在每张图上绘制比例尺、XYZ 坐标轴 (Z 向上) 和包围盒尺寸线">
+            <input
+              type="checkbox"
+              checked={profile.annotations}
+              onChange={e => onChange({ ...profile, annotations: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            <span>标注 (比例尺 / 坐标轴 / 尺寸线)</span>
+          </label>
+
+          <div>
+            <label className="flex items-center space-x-2 text-slate-400 cursor-pointer" title="沿坐标轴剖切网格, 把填充的截面图附在外观视图之后">
+              <input
+                type="checkbox"
+                checked={profile.sections.enabled}
+                onChange={e => onChange({ ...profile, sections: { ...profile.sections, enabled: e.target.checked } })}
+                className="accent-indigo-500"
+              />
+              <span>附加剖面图</span>
+            </label>
+            {profile.sections.enabled && (
+              <div className="mt-1.5 flex items-center space-x-1">
+                {(['x', 'y', 'z'] as SectionAxis[]).map(axis => (
+                  <button key={axis} onClick={() => toggleSectionAxis(axis)} className={pill(profile.sections.axes.includes(axis))}>
+                    {axis.toUpperCase()}
+                  </button>
+                ))}
+                <input
+                  value={positionsText}
+                  onChange={e => setPositionsText(e.target.value)}
+                  onBlur={applyPositions}
+                  title="剖切位置, 包围盒百分比"
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+                />
+                <span className="text-slate-500">%</span>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-slate-500">
+              采集分辨率
+              <select
+                value={profile.resolution}
+                onChange={e => onChange({ ...profile, resolution: Number(e.target.value) })}
+                className="mt-1 w-full bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-300"
+              >
+                {CAPTURE_RESOLUTIONS.map(r => <option key={r} value={r}>{r} px</option>)}
+              </select>
+            </label>
+            <label className="text-slate-500">
+              取景余量 <span className="font-mono text-slate-300">{profile.distanceFactor.toFixed(1)}x</span>
+              <input
+                type="range"
+                min={1.1}
+                max={3}
+                step={0.1}
+                value={profile.distanceFactor}
+                onChange={e => onChange({ ...profile, distanceFactor: Number(e.target.value) })}
+                className="mt-2 w-full accent-indigo-500"
+              />
+            </label>
+          </div>
+
+          <div className="text-slate-500 border-t border-slate-800 pt-2">
+            共 {profile.views.length} 个方向 × {profile.styles.length} 种风格{sectionPlanes(profile).length > 0 ? ` + ${sectionPlanes(profile).length} 张剖面` : ''} = <span className="text-slate-300 font-mono">{imageCount(profile)}</span> 张图像
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptureProfilePanel;
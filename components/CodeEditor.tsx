@@ -1,20 +1,249 @@
-import React from 'react';
-import { Clipboard, Check } from 'lucide-react';
+import React, { useDeferredValue, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Clipboard, Check, Search, X, ChevronUp, ChevronDown, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { BUILTIN_FUNCTIONS, BUILTIN_MODULES, ScadDiagnostic, lintScad, scanBrackets } from '../services/scadLinter';
 
 interface CodeEditorProps {
   code: string;
   loading: boolean;
+  onChange?: (code: string) => void;   // omitted → read-only
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ code, loading }) => {
+// Every keystroke would otherwise re-render the script and rescore it
+const COMMIT_DELAY_MS = 600;
+const LINE_HEIGHT_PX = 20;
+const PADDING_PX = 16;
+const INDENT = '  ';
+
+const KEYWORDS = new Set(['module', 'function', 'if', 'else', 'for', 'let', 'each', 'intersection_for', 'true', 'false', 'undef', 'use', 'include']);
+
+const TOKEN_PATTERN = /(\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))|("(?:\\[\s\S]|[^"\\])*"?)|(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+)|(\$?[A-Za-z_][A-Za-z0-9_]*)|([()[\]{}])/g;
+
+const wordClass = (word: string) => {
+  if (word.startsWith('$')) return 'text-pink-400';
+  if (KEYWORDS.has(word)) return 'text-purple-400';
+  if (BUILTIN_MODULES.has(word)) return 'text-sky-400';
+  if (BUILTIN_FUNCTIONS.has(word)) return 'text-teal-300';
+  return null;
+};
+
+// Regex highlighting is enough for OpenSCAD and, unlike the parser, never fails on half-typed code
+const highlight = (text: string, matched: Set<number>, unmatched: Set<number>): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(TOKEN_PATTERN)) {
+    const start = m.index ?? 0;
+    if (start > last) nodes.push(text.slice(last, start));
+    let className: string | null = null;
+    if (m[1]) className = 'text-slate-500 italic';
+    else if (m[2]) className = 'text-amber-300';
+    else if (m[3]) className = 'text-orange-300';
+    else if (m[4]) className = wordClass(m[4]);
+    else if (m[5]) {
+      className = unmatched.has(start)
+        ? 'text-red-400 bg-red-500/30'
+        : matched.has(start) ? 'text-white bg-indigo-500/50 rounded-sm' : 'text-slate-400';
+    }
+    nodes.push(className ? <span key={start} className={className}>{m[0]}</span> : m[0]);
+    last = start + m[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+const findAll = (text: string, query: string, caseSensitive: boolean): number[] => {
+  if (!query) return [];
+  const haystack = caseSensitive ? text : text.toLowerCase();
+  const needle = caseSensitive ? query : query.toLowerCase();
+  const hits: number[] = [];
+  for (let i = haystack.indexOf(needle); i >= 0; i = haystack.indexOf(needle, i + needle.length)) hits.push(i);
+  return hits;
+};
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ code, loading, onChange }) => {
   const [copied, setCopied] = React.useState(false);
+  const [text, setText] = useState(code);
+  const [cursor, setCursor] = useState(0);
+  const [findOpen, setFindOpen] = useState(false);
+  const [replaceOpen, setReplaceOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [activeMatch, setActiveMatch] = useState(-1);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const findRef = useRef<HTMLInputElement>(null);
+  const committedRef = useRef(code);
+  const pendingSelection = useRef<[number, number] | null>(null);
+
+  // A script from outside (new generation, parameter edit, reset) replaces the buffer; our own commits
+  // echoing back must not, or keystrokes typed since would be lost
+  useEffect(() => {
+    if (code === committedRef.current) return;
+    committedRef.current = code;
+    setText(code);
+  }, [code]);
+
+  useEffect(() => {
+    if (!onChange || text === committedRef.current) return;
+    const timer = setTimeout(() => {
+      committedRef.current = text;
+      onChange(text);
+    }, COMMIT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, onChange]);
+
+  useLayoutEffect(() => {
+    const selection = pendingSelection.current;
+    if (!selection || !textareaRef.current) return;
+    pendingSelection.current = null;
+    textareaRef.current.setSelectionRange(selection[0], selection[1]);
+  });
+
+  const lintSource = useDeferredValue(text);
+  const diagnostics = useMemo(() => lintScad(lintSource), [lintSource]);
+  const brackets = useMemo(() => scanBrackets(text), [text]);
+  const lineCount = useMemo(() => text.split('\n').length, [text]);
+  const matches = useMemo(() => findAll(text, findOpen ? query : '', caseSensitive), [text, query, findOpen, caseSensitive]);
+
+  const diagnosticLines = useMemo(() => {
+    const lines = new Map<number, ScadDiagnostic>();
+    // Errors outrank warnings on the same line
+    diagnostics.forEach(d => {
+      if (!lines.has(d.line) || d.severity === 'error') lines.set(d.line, d);
+    });
+    return lines;
+  }, [diagnostics]);
+
+  const highlighted = useMemo(() => {
+    const at = brackets.pairs.has(cursor - 1) ? cursor - 1 : brackets.pairs.has(cursor) ? cursor : -1;
+    const matched = new Set(at >= 0 ? [at, brackets.pairs.get(at) as number] : []);
+    return highlight(text, matched, new Set(brackets.unmatched.map(u => u.offset)));
+  }, [text, brackets, cursor]);
+
+  const matchLayer = useMemo(() => {
+    const nodes: React.ReactNode[] = [];
+    let last = 0;
+    matches.forEach((start, i) => {
+      nodes.push(text.slice(last, start));
+      nodes.push(
+        <mark key={start} className={`text-transparent rounded-sm ${i === activeMatch ? 'bg-yellow-400/60' : 'bg-yellow-500/25'}`}>
+          {text.slice(start, start + query.length)}
+        </mark>
+      );
+      last = start + query.length;
+    });
+    nodes.push(text.slice(last));
+    return nodes;
+  }, [text, matches, activeMatch, query]);
+
+  const readOnly = !onChange;
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(code);
+    navigator.clipboard.writeText(text);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const scrollToOffset = (offset: number) => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const line = text.slice(0, offset).split('\n').length;
+    const y = PADDING_PX + (line - 1) * LINE_HEIGHT_PX;
+    if (y < container.scrollTop || y + LINE_HEIGHT_PX > container.scrollTop + container.clientHeight) {
+      container.scrollTop = y - container.clientHeight / 2;
+    }
+  };
+
+  const select = (start: number, end: number, focus = true) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (focus) textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(start, end);
+    setCursor(end);
+    scrollToOffset(start);
+  };
+
+  const edit = (next: string, selection?: [number, number]) => {
+    if (selection) pendingSelection.current = selection;
+    setText(next);
+  };
+
+  const jumpToDiagnostic = (d: ScadDiagnostic) => {
+    const lines = text.split('\n');
+    const offset = lines.slice(0, d.line - 1).reduce((sum, l) => sum + l.length + 1, 0) + d.column - 1;
+    select(offset, offset);
+  };
+
+  const goToMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const from = textareaRef.current?.selectionStart ?? 0;
+    let index: number;
+    if (activeMatch >= 0 && matches[activeMatch] === from) {
+      index = (activeMatch + direction + matches.length) % matches.length;
+    } else {
+      index = direction === 1 ? matches.findIndex(m => m >= from) : matches.map(m => m < from).lastIndexOf(true);
+      if (index < 0) index = direction === 1 ? 0 : matches.length - 1;
+    }
+    setActiveMatch(index);
+    select(matches[index], matches[index] + query.length, false);
+  };
+
+  const replaceCurrent = () => {
+    if (readOnly || activeMatch < 0 || activeMatch >= matches.length) return goToMatch(1);
+    const start = matches[activeMatch];
+    const next = text.slice(0, start) + replacement + text.slice(start + query.length);
+    edit(next, [start + replacement.length, start + replacement.length]);
+    setActiveMatch(-1);
+  };
+
+  const replaceAll = () => {
+    if (readOnly || matches.length === 0) return;
+    let next = '';
+    let last = 0;
+    matches.forEach(start => {
+      next += text.slice(last, start) + replacement;
+      last = start + query.length;
+    });
+    edit(next + text.slice(last));
+    setActiveMatch(-1);
+  };
+
+  const openFind = (withReplace: boolean) => {
+    const textarea = textareaRef.current;
+    const selected = textarea ? text.slice(textarea.selectionStart, textarea.selectionEnd) : '';
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    setFindOpen(true);
+    setReplaceOpen(withReplace && !readOnly);
+    setTimeout(() => findRef.current?.select(), 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && (e.key === 'f' || e.key === 'h')) {
+      e.preventDefault();
+      openFind(e.key === 'h');
+      return;
+    }
+    if (e.key === 'Escape' && findOpen) {
+      setFindOpen(false);
+      return;
+    }
+    if (readOnly) return;
+
+    const { selectionStart: start, selectionEnd: end } = e.currentTarget;
+    if (e.key === 'Tab' && !e.shiftKey && start === end) {
+      e.preventDefault();
+      edit(text.slice(0, start) + INDENT + text.slice(end), [start + INDENT.length, start + INDENT.length]);
+    } else if (e.key === 'Enter' && !mod) {
+      // Keep the current indentation, one level deeper after an opening brace
+      e.preventDefault();
+      const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+      const indent = /^[ \t]*/.exec(text.slice(lineStart, start))?.[0] ?? '';
+      const insert = '\n' + indent + (/[{[(]\s*$/.test(text.slice(lineStart, start)) ? INDENT : '');
+      edit(text.slice(0, start) + insert + text.slice(end), [start + insert.length, start + insert.length]);
+    }
+  };
+
   if (loading) {
     return (
       <div className="h-full w-full flex flex-col items-center justify-center space-y-4 bg-slate-900 rounded-lg border border-slate-700 animate-pulse">
@@ -33,6 +262,14 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, loading }) => {
     );
   }
 
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  // Both layers must lay text out identically for the caret to line up with the highlighting
+  const layerClass = 'font-mono text-sm whitespace-pre m-0 p-4 pl-2';
+  const layerStyle: React.CSSProperties = { lineHeight: `${LINE_HEIGHT_PX}px`, fontVariantLigatures: 'none', tabSize: 2 };
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-0.5 text-slate-200 font-mono w-40 focus:outline-none focus:border-indigo-500';
+  const barButton = 'p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40';
+
   return (
     <div className="h-full w-full flex flex-col bg-slate-900 rounded-lg border border-slate-700 overflow-hidden shadow-lg">
       <div className="flex items-center justify-between px-4 py-3 bg-slate-800 border-b border-slate-700">
@@ -41,22 +278,149 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ code, loading }) => {
            <span className="w-3 h-3 rounded-full bg-yellow-500"></span>
            <span className="w-3 h-3 rounded-full bg-green-500"></span>
            <span className="ml-2 text-slate-300 font-mono text-xs">output.scad</span>
+           <span className="text-xs flex items-center space-x-1 pl-2">
+             {diagnostics.length === 0 ? (
+               <><CheckCircle2 size={12} className="text-emerald-400" /><span className="text-slate-500">无问题</span></>
+             ) : (
+               <>
+                 {errorCount > 0 && <span className="text-red-400">{errorCount} 个错误</span>}
+                 {warningCount > 0 && <span className="text-amber-400">{warningCount} 个警告</span>}
+               </>
+             )}
+           </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => openFind(false)}
+            className="flex items-center space-x-1 text-xs font-medium text-slate-400 hover:text-white transition-colors bg-slate-700 hover:bg-slate-600 px-2 py-1.5 rounded"
+            title={readOnly ? '查找 (Ctrl+F)' : '查找 (Ctrl+F) / 替换 (Ctrl+H)'}
+          >
+            <Search size={14} />
+          </button>
+          <button
+            onClick={handleCopy}
+            className="flex items-center space-x-1 text-xs font-medium text-slate-400 hover:text-white transition-colors bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded"
+          >
+            {copied ? <Check size={14} className="text-green-400" /> : <Clipboard size={14} />}
+            <span>{copied ? '已复制' : '复制代码'}</span>
+          </button>
         </div>
-        <button
-          onClick={handleCopy}
-          className="flex items-center space-x-1 text-xs font-medium text-slate-400 hover:text-white transition-colors bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded"
-        >
-          {copied ? <Check size={14} className="text-green-400" /> : <Clipboard size={14} />}
-          <span>{copied ? '已复制' : '复制代码'}</span>
-        </button>
       </div>
-      <div className="flex-1 overflow-auto p-4 bg-[#0d1117]">
-        <pre className="font-mono text-sm text-gray-300 leading-relaxed whitespace-pre-wrap">
-          <code>{code}</code>
-        </pre>
+
+      {findOpen && (
+        <div className="flex flex-col space-y-1.5 px-4 py-2 bg-slate-800/70 border-b border-slate-700 text-xs">
+          <div className="flex items-center space-x-1.5">
+            <input
+              ref={findRef}
+              value={query}
+              onChange={e => { setQuery(e.target.value); setActiveMatch(-1); }}
+              onKeyDown={e => {
+                if (e.key === 'Enter') { e.preventDefault(); goToMatch(e.shiftKey ? -1 : 1); }
+                if (e.key === 'Escape') setFindOpen(false);
+              }}
+              placeholder="查找"
+              className={inputClass}
+            />
+            <button
+              onClick={() => setCaseSensitive(c => !c)}
+              className={`px-1.5 py-0.5 rounded font-mono ${caseSensitive ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+              title="区分大小写"
+            >
+              Aa
+            </button>
+            <span className="text-slate-500 w-14 text-center">
+              {query ? `${activeMatch >= 0 ? activeMatch + 1 : '-'} / ${matches.length}` : ''}
+            </span>
+            <button onClick={() => goToMatch(-1)} disabled={matches.length === 0} className={barButton} title="上一个 (Shift+Enter)"><ChevronUp size={14} /></button>
+            <button onClick={() => goToMatch(1)} disabled={matches.length === 0} className={barButton} title="下一个 (Enter)"><ChevronDown size={14} /></button>
+            {!readOnly && (
+              <button onClick={() => setReplaceOpen(o => !o)} className="px-1.5 py-0.5 rounded text-slate-400 hover:bg-slate-700">
+                {replaceOpen ? '收起替换' : '替换'}
+              </button>
+            )}
+            <button onClick={() => setFindOpen(false)} className={`${barButton} ml-auto`} title="关闭 (Esc)"><X size={14} /></button>
+          </div>
+          {replaceOpen && !readOnly && (
+            <div className="flex items-center space-x-1.5">
+              <input
+                value={replacement}
+                onChange={e => setReplacement(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); replaceCurrent(); } }}
+                placeholder="替换为"
+                className={inputClass}
+              />
+              <button onClick={replaceCurrent} disabled={matches.length === 0} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-300 disabled:opacity-40">替换</button>
+              <button onClick={replaceAll} disabled={matches.length === 0} className="px-2 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-300 disabled:opacity-40">全部替换</button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 overflow-auto bg-[#0d1117]">
+        <div className="flex min-w-max min-h-full">
+          <div
+            className="sticky left-0 z-10 bg-[#0d1117] font-mono text-xs text-right text-slate-600 select-none py-4 pl-3 pr-2 border-r border-slate-800"
+            style={{ lineHeight: `${LINE_HEIGHT_PX}px` }}
+          >
+            {Array.from({ length: lineCount }, (_, i) => {
+              const diag = diagnosticLines.get(i + 1);
+              return (
+                <div
+                  key={i}
+                  title={diag?.message}
+                  className={diag ? (diag.severity === 'error' ? 'text-red-400 bg-red-500/10' : 'text-amber-400 bg-amber-500/10') : undefined}
+                >
+                  {i + 1}
+                </div>
+              );
+            })}
+          </div>
+          <div className="relative flex-1">
+            <pre aria-hidden className={`${layerClass} absolute inset-0 text-transparent pointer-events-none`} style={layerStyle}>
+              {matchLayer}
+            </pre>
+            <pre aria-hidden className={`${layerClass} relative text-gray-300 pointer-events-none`} style={layerStyle}>
+              {highlighted}
+              {'\n'}
+            </pre>
+            <textarea
+              ref={textareaRef}
+              value={text}
+              readOnly={readOnly}
+              onChange={e => setText(e.target.value)}
+              onSelect={e => setCursor(e.currentTarget.selectionStart)}
+              onKeyDown={handleKeyDown}
+              spellCheck={false}
+              wrap="off"
+              autoCapitalize="off"
+              autoComplete="off"
+              className={`${layerClass} absolute inset-0 w-full h-full resize-none overflow-hidden bg-transparent text-transparent caret-white outline-none selection:bg-indigo-500/40`}
+              style={layerStyle}
+            />
+          </div>
+        </div>
       </div>
+
+      {diagnostics.length > 0 && (
+        <ul className="max-h-28 overflow-y-auto border-t border-slate-700 bg-slate-900 py-1 text-xs">
+          {diagnostics.map((d, i) => (
+            <li key={i}>
+              <button
+                onClick={() => jumpToDiagnostic(d)}
+                className="w-full flex items-start space-x-2 px-4 py-0.5 text-left hover:bg-slate-800"
+              >
+                {d.severity === 'error'
+                  ? <AlertCircle size={12} className="text-red-400 mt-0.5 shrink-0" />
+                  : <AlertTriangle size={12} className="text-amber-400 mt-0.5 shrink-0" />}
+                <span className="text-slate-500 font-mono shrink-0">{d.line}:{d.column}</span>
+                <span className="text-slate-300">{d.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
 
-export default CodeEditor;
\ No newline at end of file
+export default CodeEditor;
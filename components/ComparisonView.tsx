@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, Grid } from '@react-three/drei';
+import * as THREE from 'three';
+import { Columns2, Layers, Loader2, AlertTriangle, Crosshair } from 'lucide-react';
+
+type RenderStatus = 'idle' | 'rendering' | 'done' | 'error';
+
+interface ComparisonViewProps {
+  source: THREE.BufferGeometry | null;
+  reconstruction: THREE.BufferGeometry | null;
+  status: RenderStatus;
+  error?: string | null;
+  warnings?: string[];
+}
+
+// Camera pose shared between the two viewports; whoever the user drags owns it
+interface SharedCamera {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  owner: string | null;
+  version: number;
+}
+
+const SOURCE_COLOR = '#6366f1';
+const RECON_COLOR = '#10b981';
+
+// Same frame conversion as MeshViewer: Z-up engineering model -> Three.js Y-up
+export const toViewFrame = (geometry: THREE.BufferGeometry, offset: THREE.Vector3): THREE.BufferGeometry => {
+  const g = geometry.clone();
+  g.rotateX(-Math.PI / 2);
+  g.translate(-offset.x, -offset.y, -offset.z);
+  g.computeVertexNormals();
+  return g;
+};
+
+export const viewFrameCenter = (geometry: THREE.BufferGeometry): THREE.Vector3 => {
+  const g = geometry.clone();
+  g.rotateX(-Math.PI / 2);
+  g.computeBoundingBox();
+  return g.boundingBox ? g.boundingBox.getCenter(new THREE.Vector3()) : new THREE.Vector3();
+};
+
+const SyncedControls: React.FC<{ id: string; shared: React.MutableRefObject<SharedCamera> }> = ({ id, shared }) => {
+  const { camera } = useThree();
+  const controlsRef = useRef<any>(null);
+  const seenVersion = useRef(-1);
+
+  useFrame(() => {
+    const s = shared.current;
+    const controls = controlsRef.current;
+    if (!controls || s.owner === id || s.version === seenVersion.current) return;
+    seenVersion.current = s.version;
+    camera.position.copy(s.position);
+    controls.target.copy(s.target);
+    controls.update();
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      makeDefault
+      onStart={() => { shared.current.owner = id; }}
+      onChange={() => {
+        const s = shared.current;
+        if (s.owner !== id || !controlsRef.current) return;
+        s.position.copy(camera.position);
+        s.target.copy(controlsRef.current.target);
+        s.version++;
+        seenVersion.current = s.version;
+      }}
+    />
+  );
+};
+
+export const SceneContents: React.FC<{ floor: number }> = ({ floor }) => (
+  <>
+    <color attach="background" args={['#0f172a']} />
+    <ambientLight intensity={0.6} />
+    <directionalLight position={[10, 20, 10]} intensity={1.2} />
+    <directionalLight position={[-10, -10, -10]} intensity={0.5} />
+    <Grid
+      position={[0, floor - 0.01, 0]}
+      args={[100, 100]}
+      cellSize={10}
+      cellThickness={1}
+      cellColor="#334155"
+      sectionSize={50}
+      sectionThickness={1.5}
+      sectionColor="#475569"
+      fadeDistance={200}
+      infiniteGrid
+    />
+  </>
+);
+
+const Viewport: React.FC<{
+  id: string;
+  shared: React.MutableRefObject<SharedCamera>;
+  floor: number;
+  label: string;
+  labelColor: string;
+  children: React.ReactNode;
+}> = ({ id, shared, floor, label, labelColor, children }) => (
+  <div className="relative flex-1 min-w-0 h-full">
+    <Canvas
+      camera={{ position: shared.current.position.toArray() as [number, number, number], fov: 40 }}
+      gl={{ preserveDrawingBuffer: true, antialias: true }}
+      dpr={[1, 2]}
+    >
+      <SceneContents floor={floor} />
+      {children}
+      <SyncedControls id={id} shared={shared} />
+    </Canvas>
+    <div className="absolute top-2 left-2 text-[10px] font-mono px-2 py-0.5 rounded bg-slate-900/80 border border-slate-700" style={{ color: labelColor }}>
+      {label}
+    </div>
+  </div>
+);
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ source, reconstruction, status, error, warnings = [] }) => {
+  const [mode, setMode] = useState<'split' | 'overlay'>('split');
+  const [alignCenters, setAlignCenters] = useState(false);
+
+  const { sourceView, reconView, size, floor } = useMemo(() => {
+    // Runs from reference images alone have no source; the reconstruction then frames the scene by itself
+    const frame = source ?? reconstruction;
+    if (!frame) return { sourceView: null, reconView: null, size: 100, floor: 0 };
+    const offset = viewFrameCenter(frame);
+    const sourceView = source ? toViewFrame(source, offset) : null;
+    // Absolute mode keeps the model's own origin so offsets are visible; aligned mode compares shape only
+    const reconView = reconstruction
+      ? toViewFrame(reconstruction, alignCenters && source ? viewFrameCenter(reconstruction) : offset)
+      : null;
+    const framed = (sourceView ?? reconView)!;
+    framed.computeBoundingBox();
+    const box = framed.boundingBox ?? new THREE.Box3();
+    const dims = box.getSize(new THREE.Vector3());
+    return { sourceView, reconView, size: Math.max(dims.x, dims.y, dims.z, 1), floor: box.min.y };
+  }, [source, reconstruction, alignCenters]);
+
+  const shared = useRef<SharedCamera>({
+    position: new THREE.Vector3(size * 1.5, size * 1.2, size * 1.5),
+    target: new THREE.Vector3(),
+    owner: null,
+    version: 0
+  });
+
+  // A new source changes the scale; reframe both viewports instead of keeping the first part's distance
+  useEffect(() => {
+    const s = shared.current;
+    s.position.set(size * 1.5, size * 1.2, size * 1.5);
+    s.target.set(0, 0, 0);
+    s.owner = null;
+    s.version++;
+  }, [size]);
+
+  // The view-frame copies are ours; free them when they are replaced or the view unmounts
+  useEffect(() => () => {
+    sourceView?.dispose();
+    reconView?.dispose();
+  }, [sourceView, reconView]);
+
+  const sourceMesh = sourceView && (
+    <mesh geometry={sourceView}>
+      <meshStandardMaterial color={SOURCE_COLOR} roughness={0.5} metalness={0.1} />
+    </mesh>
+  );
+  const reconMesh = reconView && (
+    <mesh geometry={reconView}>
+      <meshStandardMaterial color={RECON_COLOR} roughness={0.5} metalness={0.1} />
+    </mesh>
+  );
+
+  return (
+    <div className="w-full h-full relative flex flex-col">
+      {source && (
+        <div className="absolute top-2 right-2 z-20 flex items-center space-x-1 bg-slate-900/90 border border-slate-700 rounded-lg p-1">
+          <button
+            onClick={() => setMode('split')}
+            className={`flex items-center space-x-1 px-2 py-1 rounded text-xs ${mode === 'split' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Columns2 size={12} /><span>并排</span>
+          </button>
+          <button
+            onClick={() => setMode('overlay')}
+            className={`flex items-center space-x-1 px-2 py-1 rounded text-xs ${mode === 'overlay' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Layers size={12} /><span>叠加</span>
+          </button>
+          <button
+            onClick={() => setAlignCenters(a => !a)}
+            title="按包围盒中心对齐 (忽略整体偏移)"
+            className={`flex items-center space-x-1 px-2 py-1 rounded text-xs ${alignCenters ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Crosshair size={12} /><span>居中对齐</span>
+          </button>
+        </div>
+      )}
+
+      {!source ? (
+        <div className="flex-1 flex min-h-0">
+          <Viewport id="reconstruction" shared={shared} floor={floor} label="SCAD 重构 (无源网格)" labelColor={RECON_COLOR}>
+            {reconMesh}
+          </Viewport>
+        </div>
+      ) : mode === 'split' ? (
+        <div className="flex-1 flex min-h-0 divide-x divide-slate-700">
+          <Viewport id="source" shared={shared} floor={floor} label="源 STL" labelColor={SOURCE_COLOR}>
+            {sourceMesh}
+          </Viewport>
+          <Viewport id="reconstruction" shared={shared} floor={floor} label="SCAD 重构" labelColor={RECON_COLOR}>
+            {reconMesh}
+          </Viewport>
+        </div>
+      ) : (
+        <div className="flex-1 flex min-h-0">
+          <Viewport id="overlay" shared={shared} floor={floor} label="叠加: 重构 (实体) / 源 (幽灵)" labelColor="#e2e8f0">
+            {reconMesh}
+            {sourceView && (
+              <mesh geometry={sourceView} renderOrder={1}>
+                <meshStandardMaterial color={SOURCE_COLOR} transparent opacity={0.3} depthWrite={false} side={THREE.DoubleSide} />
+              </mesh>
+            )}
+          </Viewport>
+        </div>
+      )}
+
+      {status === 'rendering' && (
+        <div className="absolute inset-0 z-10 bg-slate-900/60 flex items-center justify-center pointer-events-none">
+          <div className="flex items-center space-x-2 text-indigo-300 text-sm bg-slate-900/90 px-4 py-2 rounded-lg border border-indigo-500/30">
+            <Loader2 size={16} className="animate-spin" />
+            <span>正在编译 OpenSCAD...</span>
+          </div>
+        </div>
+      )}
+
+      {status === 'error' && error && (
+        <div className="absolute bottom-2 left-2 right-2 z-10 bg-red-900/30 border border-red-900 rounded px-3 py-2 text-xs text-red-300 font-mono">
+          SCAD 编译失败: {error}
+        </div>
+      )}
+
+      {status === 'done' && warnings.length > 0 && (
+        <div className="absolute bottom-2 left-2 z-10 group/warn">
+          <div className="flex items-center space-x-1 text-xs text-amber-400 bg-slate-900/90 border border-amber-900/50 rounded px-2 py-1">
+            <AlertTriangle size={12} />
+            <span>{warnings.length} 条预览警告</span>
+          </div>
+          <ul className="hidden group-hover/warn:block absolute bottom-full mb-1 left-0 w-80 bg-slate-900 border border-slate-700 rounded p-2 text-[10px] text-slate-400 space-y-0.5">
+            {warnings.map((w, i) => <li key={i}>{w}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonView;
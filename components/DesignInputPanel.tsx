@@ -0,0 +1,120 @@
+import React, { useRef } from 'react';
+import { ImagePlus, Lightbulb, X } from 'lucide-react';
+import { DesignInput, ReferenceImage } from '../types';
+
+interface DesignInputPanelProps {
+  design: DesignInput;
+  onChange: (design: DesignInput) => void;
+  ignored?: boolean;        // the selected backend does not read it (local fitting)
+  disabled?: boolean;
+}
+
+// Each reference is one more image per request, refine rounds included
+const MAX_REFERENCES = 6;
+
+const readDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`无法读取图片: ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+// Photos, drawings and free-text design intent sent to the model next to the rendered views
+const DesignInputPanel: React.FC<DesignInputPanelProps> = ({ design, onChange, ignored, disabled }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const full = design.references.length >= MAX_REFERENCES;
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []).filter(f => f.type.startsWith('image/'));
+    // Allow picking the same file again
+    event.target.value = '';
+    try {
+      const added: ReferenceImage[] = await Promise.all(
+        files.slice(0, MAX_REFERENCES - design.references.length).map(async file => ({
+          name: file.name,
+          caption: '',
+          dataUrl: await readDataUrl(file)
+        }))
+      );
+      if (added.length > 0) onChange({ ...design, references: [...design.references, ...added] });
+    } catch (err) {
+      console.error("Reading reference image failed:", err);
+      window.alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const updateReference = (index: number, patch: Partial<ReferenceImage> | null) =>
+    onChange({
+      ...design,
+      references: patch
+        ? design.references.map((r, i) => (i === index ? { ...r, ...patch } : r))
+        : design.references.filter((_, i) => i !== index)
+    });
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex items-center space-x-2">
+        <Lightbulb size={14} className="text-indigo-400" />
+        <h4 className="font-semibold text-indigo-400 uppercase">参考资料</h4>
+        {design.references.length > 0 && (
+          <span className="text-slate-500 font-mono">{design.references.length} 张参考图</span>
+        )}
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={disabled || full}
+          title={full ? `最多 ${MAX_REFERENCES} 张` : '附加实物照片或图纸'}
+          className="ml-auto flex items-center space-x-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50"
+        >
+          <ImagePlus size={12} />
+          <span>添加图片</span>
+        </button>
+        <input ref={fileInput} type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+      </div>
+
+      {design.references.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {design.references.map((ref, i) => (
+            <div key={i} className="flex items-center space-x-2 px-2 py-1 rounded border border-slate-800">
+              <img src={ref.dataUrl} alt={ref.name} className="w-10 h-10 rounded object-cover flex-shrink-0 bg-slate-800" />
+              <div className="flex-1 min-w-0">
+                <div className="text-slate-500 font-mono truncate">参考 {i + 1} · {ref.name}</div>
+                <input
+                  value={ref.caption}
+                  disabled={disabled}
+                  placeholder="说明, 如: 正面照片 / 带尺寸的图纸"
+                  onChange={e => updateReference(i, { caption: e.target.value })}
+                  className="w-full bg-transparent border-b border-transparent focus:border-slate-600 outline-none text-slate-200 placeholder:text-slate-600"
+                />
+              </div>
+              <button
+                onClick={() => updateReference(i, null)}
+                disabled={disabled}
+                title="移除"
+                className="flex items-center px-1.5 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={design.intent}
+        disabled={disabled}
+        onChange={e => onChange({ ...design, intent: e.target.value })}
+        rows={3}
+        placeholder="设计意图 (可选): 零件的用途、关键尺寸和配合、哪些尺寸需要参数化、扫描中缺失或损坏的部分..."
+        className="mt-2 w-full resize-y bg-slate-800/60 border border-slate-700 rounded px-2 py-1.5 text-slate-200 placeholder:text-slate-600 outline-none focus:border-slate-500 disabled:opacity-50"
+      />
+      <div className={`mt-1 ${ignored ? 'text-amber-400/80' : 'text-slate-500'}`}>
+        {ignored
+          ? '几何拟合在本地运行, 不使用参考图和设计意图。'
+          : '参考图与设计意图会和渲染视图分开发送给模型; 尺寸仍以网格测量为准, 图纸上标注的尺寸除外。'}
+      </div>
+    </div>
+  );
+};
+
+export default DesignInputPanel;
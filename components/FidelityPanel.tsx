@@ -0,0 +1,72 @@
+import React from 'react';
+import { Gauge, Loader2 } from 'lucide-react';
+import { FidelityMetrics } from '../types';
+
+interface FidelityPanelProps {
+  fidelity: FidelityMetrics | null | undefined;
+  computing: boolean;
+}
+
+const fmt = (n: number, digits = 2) => (Number.isFinite(n) ? n.toFixed(digits) : '—');
+const signed = (n: number, digits = 2) => `${n >= 0 ? '+' : ''}${fmt(n, digits)}`;
+
+const scoreColor = (score: number) => {
+  if (score >= 85) return 'text-emerald-400';
+  if (score >= 60) return 'text-amber-400';
+  return 'text-red-400';
+};
+
+const FidelityPanel: React.FC<FidelityPanelProps> = ({ fidelity, computing }) => {
+  if (computing) {
+    return (
+      <div className="flex items-center space-x-2 text-xs text-slate-500 px-3 py-2 bg-slate-900/50 rounded-lg border border-slate-800">
+        <Loader2 size={14} className="animate-spin text-indigo-400" />
+        <span>正在计算重构精度...</span>
+      </div>
+    );
+  }
+
+  if (!fidelity) return null;
+
+  const { bboxDelta } = fidelity;
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <Gauge size={14} className="text-indigo-400" />
+          <h4 className="font-semibold text-indigo-400 uppercase">重构精度</h4>
+          <span className="text-slate-600">{fidelity.aligned === 'bbox' ? '(包围盒中心对齐)' : '(原始坐标)'}</span>
+        </div>
+        <div className={`font-mono text-lg font-bold ${scoreColor(fidelity.score)}`}>
+          {fidelity.score}<span className="text-xs text-slate-500 font-normal"> / 100</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 font-mono text-slate-300">
+        <div title={`源→重构 ${fmt(fidelity.sourceToRecon.max)} / 重构→源 ${fmt(fidelity.reconToSource.max)}`}>
+          <div className="text-slate-500">Hausdorff (mm)</div>
+          <div>{fmt(fidelity.hausdorff)}</div>
+        </div>
+        <div title={`源→重构 ${fmt(fidelity.sourceToRecon.mean, 3)} / 重构→源 ${fmt(fidelity.reconToSource.mean, 3)}`}>
+          <div className="text-slate-500">平均偏差 (mm)</div>
+          <div>{fmt(fidelity.meanDeviation, 3)}</div>
+        </div>
+        <div title={`源 ${fmt(fidelity.volumeSource, 1)} mm³ / 重构 ${fmt(fidelity.volumeRecon, 1)} mm³`}>
+          <div className="text-slate-500">体积差</div>
+          <div>{signed(fidelity.volumeDiffPercent, 1)}%</div>
+        </div>
+        <div>
+          <div className="text-slate-500">体素 IoU</div>
+          <div>{fmt(fidelity.iou, 3)}</div>
+        </div>
+      </div>
+
+      <div className="mt-2 text-slate-500 font-mono">
+        包围盒偏差 ΔX {signed(bboxDelta.x)} · ΔY {signed(bboxDelta.y)} · ΔZ {signed(bboxDelta.z)}
+      </div>
+    </div>
+  );
+};
+
+export default FidelityPanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { History, Star, AlertTriangle } from 'lucide-react';
+import { RefineIteration } from '../types';
+
+interface IterationHistoryProps {
+  iterations: RefineIteration[];
+  selectedIndex: number | null;
+  bestIndex: number | null;
+  onSelect: (iteration: RefineIteration) => void;
+}
+
+const scoreColor = (score: number) => {
+  if (score >= 85) return 'text-emerald-400';
+  if (score >= 60) return 'text-amber-400';
+  return 'text-red-400';
+};
+
+const IterationHistory: React.FC<IterationHistoryProps> = ({ iterations, selectedIndex, bestIndex, onSelect }) => {
+  if (iterations.length === 0) return null;
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex items-center space-x-2 mb-2">
+        <History size={14} className="text-indigo-400" />
+        <h4 className="font-semibold text-indigo-400 uppercase">迭代修正记录</h4>
+        <span className="text-slate-600">点击切换版本</span>
+      </div>
+
+      <div className="flex space-x-1.5 overflow-x-auto pb-1">
+        {iterations.map(it => (
+          <button
+            key={it.index}
+            onClick={() => onSelect(it)}
+            title={it.renderError ? `编译失败: ${it.renderError}` : it.result.explanation}
+            className={`flex-shrink-0 flex flex-col items-center px-3 py-1.5 rounded border transition-colors ${
+              selectedIndex === it.index
+                ? 'border-indigo-500 bg-indigo-500/10'
+                : 'border-slate-700 hover:border-slate-500'
+            }`}
+          >
+            <span className="flex items-center space-x-1 text-slate-400">
+              <span>{it.index === 0 ? '首轮' : `第 ${it.index} 轮`}</span>
+              {bestIndex === it.index && <Star size={10} className="text-yellow-400 fill-yellow-400" />}
+            </span>
+            {it.renderError ? (
+              <AlertTriangle size={14} className="text-red-400 mt-0.5" />
+            ) : (
+              <span className={`font-mono font-bold ${scoreColor(it.score)}`}>{it.score}</span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default IterationHistory;
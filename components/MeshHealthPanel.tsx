@@ -0,0 +1,130 @@
+import React from 'react';
+import { Stethoscope, Loader2, Wrench, Undo2, Eye, EyeOff, CheckCircle2 } from 'lucide-react';
+import { MESH_ISSUES, MeshDiagnostics, MeshIssueKind, issueCount } from '../services/meshDiagnostics';
+import { REPAIR_STEPS, RepairOptions } from '../services/meshRepair';
+
+interface MeshHealthPanelProps {
+  diagnostics: MeshDiagnostics | null;
+  checking: boolean;
+  highlighted: MeshIssueKind[];
+  onToggleHighlight: (kind: MeshIssueKind) => void;
+  repairOptions: RepairOptions;
+  onRepairOptionsChange: (options: RepairOptions) => void;
+  onRepair: () => void;
+  onUndoRepair: () => void;
+  repairing: boolean;
+  repairSummary: string | null;   // set while the viewport shows a repaired mesh
+  disabled?: boolean;
+}
+
+// Topology report for the current source with viewport highlighting, plus the repair controls
+const MeshHealthPanel: React.FC<MeshHealthPanelProps> = ({
+  diagnostics,
+  checking,
+  highlighted,
+  onToggleHighlight,
+  repairOptions,
+  onRepairOptionsChange,
+  onRepair,
+  onUndoRepair,
+  repairing,
+  repairSummary,
+  disabled
+}) => {
+  if (checking || repairing) {
+    return (
+      <div className="flex items-center space-x-2 text-xs text-slate-500 px-3 py-2 bg-slate-900/50 rounded-lg border border-slate-800">
+        <Loader2 size={14} className="animate-spin text-indigo-400" />
+        <span>{repairing ? '正在修复网格...' : '正在检查网格拓扑...'}</span>
+      </div>
+    );
+  }
+
+  if (!diagnostics) return null;
+
+  const issues = MESH_ISSUES.map(issue => ({ ...issue, count: issueCount(diagnostics, issue.kind) }));
+  const healthy = issues.every(issue => issue.count === 0);
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex items-center space-x-2 mb-2">
+        <Stethoscope size={14} className="text-indigo-400" />
+        <h4 className="font-semibold text-indigo-400 uppercase">网格健康</h4>
+        <span className="text-slate-500 font-mono">
+          {diagnostics.vertexCount.toLocaleString()} 顶点 · {diagnostics.shells.length} 个壳体
+          {diagnostics.shells.length > 0 && diagnostics.shells.every(s => s.closed) ? ' · 封闭' : ''}
+        </span>
+        {healthy && (
+          <span className="ml-auto flex items-center space-x-1 text-emerald-400">
+            <CheckCircle2 size={12} /><span>无缺陷</span>
+          </span>
+        )}
+      </div>
+
+      {!healthy && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-1">
+          {issues.map(issue => {
+            const on = highlighted.includes(issue.kind);
+            return (
+              <button
+                key={issue.kind}
+                onClick={() => onToggleHighlight(issue.kind)}
+                disabled={issue.count === 0}
+                title={issue.count > 0 ? (on ? '在视图中隐藏' : '在视图中高亮') : undefined}
+                className="flex items-center space-x-1.5 px-2 py-1 rounded border border-slate-800 hover:border-slate-600 disabled:opacity-40 disabled:hover:border-slate-800 text-left"
+              >
+                <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ background: issue.color }} />
+                <span className="text-slate-400">{issue.label}</span>
+                <span className={`ml-auto font-mono ${issue.count > 0 ? 'text-slate-200' : 'text-slate-600'}`}>
+                  {issue.kind === 'selfIntersection' && diagnostics.selfIntersecting === null ? '未检查' : issue.count.toLocaleString()}
+                </span>
+                {issue.count > 0 && (on ? <Eye size={11} className="text-slate-400" /> : <EyeOff size={11} className="text-slate-600" />)}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-2 text-slate-400">
+        {REPAIR_STEPS.map(step => (
+          <label key={step.id} className="flex items-center space-x-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={repairOptions[step.id]}
+              onChange={e => onRepairOptionsChange({ ...repairOptions, [step.id]: e.target.checked })}
+              className="accent-indigo-500"
+            />
+            <span>{step.label}</span>
+          </label>
+        ))}
+        <div className="ml-auto flex items-center space-x-1">
+          {repairSummary && (
+            <button
+              onClick={onUndoRepair}
+              disabled={disabled}
+              className="flex items-center space-x-1 px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50"
+            >
+              <Undo2 size={12} /><span>还原</span>
+            </button>
+          )}
+          <button
+            onClick={onRepair}
+            disabled={disabled || !REPAIR_STEPS.some(step => repairOptions[step.id])}
+            className="flex items-center space-x-1 px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+          >
+            <Wrench size={12} /><span>修复</span>
+          </button>
+        </div>
+      </div>
+
+      {repairSummary && (
+        <div className="mt-2 text-slate-500">已修复: {repairSummary}</div>
+      )}
+      {diagnostics.selfIntersecting && diagnostics.selfIntersecting.length > 0 && (
+        <div className="mt-1 text-slate-600">自相交无法自动修复, 重构时会按外形处理。</div>
+      )}
+    </div>
+  );
+};
+
+export default MeshHealthPanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Ruler, Loader2 } from 'lucide-react';
+import { MeshMetrics, Vec3 } from '../types';
+import { hasSymmetry, symmetrySummary } from '../services/symmetryDetection';
+
+interface MeshStatsPanelProps {
+  metrics: MeshMetrics | null;
+  analyzing: boolean;
+}
+
+const fmt = (n: number, digits = 2) => n.toFixed(digits);
+
+const axisName = (v: Vec3) => {
+  if (Math.abs(v.x) > 0.999) return 'X';
+  if (Math.abs(v.y) > 0.999) return 'Y';
+  if (Math.abs(v.z) > 0.999) return 'Z';
+  return `(${fmt(v.x)}, ${fmt(v.y)}, ${fmt(v.z)})`;
+};
+
+const MeshStatsPanel: React.FC<MeshStatsPanelProps> = ({ metrics, analyzing }) => {
+  if (analyzing) {
+    return (
+      <div className="flex items-center space-x-2 text-xs text-slate-500 px-3 py-2 bg-slate-900/50 rounded-lg border border-slate-800">
+        <Loader2 size={14} className="animate-spin text-indigo-400" />
+        <span>正在测量几何尺寸...</span>
+      </div>
+    );
+  }
+
+  if (!metrics) return null;
+
+  const { size } = metrics.boundingBox;
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex items-center space-x-2 mb-2">
+        <Ruler size={14} className="text-indigo-400" />
+        <h4 className="font-semibold text-indigo-400 uppercase">几何测量 (mm)</h4>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 font-mono text-slate-300">
+        <div>
+          <div className="text-slate-500">包围盒 X×Y×Z</div>
+          <div>{fmt(size.x)} × {fmt(size.y)} × {fmt(size.z)}</div>
+        </div>
+        <div>
+          <div className="text-slate-500">体积 (mm³)</div>
+          <div>{fmt(metrics.volume, 1)}</div>
+        </div>
+        <div>
+          <div className="text-slate-500">表面积 (mm²)</div>
+          <div>{fmt(metrics.surfaceArea, 1)}</div>
+        </div>
+        <div>
+          <div className="text-slate-500">三角面数</div>
+          <div>{metrics.triangleCount.toLocaleString()}</div>
+        </div>
+      </div>
+
+      <div className="mt-2 text-slate-500">
+        主轴: {metrics.principalAxes.map(ax => `${axisName(ax.direction)} ${fmt(ax.extent)}`).join(' / ')}
+      </div>
+
+      {hasSymmetry(metrics.symmetry) && (
+        <div className="mt-2 text-slate-500">
+          对称: <span className="font-mono text-slate-400">{symmetrySummary(metrics.symmetry).join(' · ')}</span>
+        </div>
+      )}
+
+      {metrics.cylinders.length > 0 && (
+        <div className="mt-2 max-h-24 overflow-y-auto">
+          <div className="text-slate-500 mb-1">圆柱特征 ({metrics.cylinders.length})</div>
+          <ul className="space-y-0.5 font-mono text-slate-400">
+            {metrics.cylinders.map((cyl, idx) => (
+              <li key={idx}>
+                <span className={cyl.kind === 'hole' ? 'text-amber-400' : 'text-emerald-400'}>
+                  {cyl.kind === 'hole' ? '孔' : '凸台'}
+                </span>
+                {' '}Ø{fmt(cyl.radius * 2)} · 轴 {axisName(cyl.axis)} · 长 {fmt(cyl.length)} · {Math.round(cyl.coverageDeg)}°
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MeshStatsPanel;
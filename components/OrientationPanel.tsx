@@ -0,0 +1,58 @@
+import React from 'react';
+import { Compass, Ruler } from 'lucide-react';
+import { MESH_UNITS, MeshUnit, ORIENTATIONS, Orientation, OrientationOptions, UnitGuess } from '../services/meshOrientation';
+
+interface OrientationPanelProps {
+  options: OrientationOptions;
+  unitGuess: UnitGuess | null;
+  onChange: (options: OrientationOptions) => void;
+  disabled?: boolean;
+}
+
+// Up axis and file unit: how the loaded mesh is brought into the Z-up millimetre working frame
+const OrientationPanel: React.FC<OrientationPanelProps> = ({ options, unitGuess, onChange, disabled }) => {
+  const selectClass = 'bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 disabled:opacity-50';
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-slate-400">
+        <label className="flex items-center space-x-1.5">
+          <Compass size={14} className="text-indigo-400" />
+          <span>朝向</span>
+          <select
+            value={options.orientation}
+            disabled={disabled}
+            onChange={e => onChange({ ...options, orientation: e.target.value as Orientation })}
+            className={selectClass}
+          >
+            {ORIENTATIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center space-x-1.5">
+          <Ruler size={14} className="text-indigo-400" />
+          <span>文件单位</span>
+          <select
+            value={options.unit}
+            disabled={disabled}
+            onChange={e => onChange({ ...options, unit: e.target.value as MeshUnit })}
+            className={selectClass}
+          >
+            {MESH_UNITS.map(u => (
+              <option key={u.id} value={u.id}>
+                {u.label}{unitGuess?.unit === u.id ? ' (检测)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="ml-auto text-slate-600">工作坐标系: Z 朝上, 毫米</span>
+      </div>
+      {unitGuess && (
+        <div className={`mt-2 ${unitGuess.unit === options.unit ? 'text-slate-500' : 'text-amber-400/80'}`}>
+          单位检测: {MESH_UNITS.find(u => u.id === unitGuess.unit)!.label} — {unitGuess.reason}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrientationPanel;
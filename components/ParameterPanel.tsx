@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SlidersHorizontal, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { ParameterValue, ScadParameter, applyParameters, parseParameters } from '../services/scadParameters';
+
+interface ParameterPanelProps {
+  code: string;
+  modified: boolean;          // code differs from what the backend generated
+  onChange: (code: string) => void;
+  onReset: () => void;
+}
+
+// Slider drags re-render the whole script, so edits are batched
+const COMMIT_DELAY_MS = 300;
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 font-mono text-slate-200';
+
+const ParameterPanel: React.FC<ParameterPanelProps> = ({ code, modified, onChange, onReset }) => {
+  const [open, setOpen] = useState(true);
+  const [draft, setDraft] = useState<Record<string, ParameterValue>>({});
+  const params = useMemo(() => parseParameters(code), [code]);
+
+  // A new script (generated, reset or committed) supersedes pending edits
+  useEffect(() => setDraft({}), [code]);
+
+  useEffect(() => {
+    const names = Object.keys(draft);
+    if (names.length === 0) return;
+    const timer = setTimeout(() => {
+      const changes = params
+        .filter(p => names.includes(p.name))
+        .map(param => ({ param, value: draft[param.name] }));
+      onChange(applyParameters(code, changes));
+    }, COMMIT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draft, params, code, onChange]);
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, ScadParameter[]>();
+    params.forEach(p => byGroup.set(p.group, [...(byGroup.get(p.group) ?? []), p]));
+    return Array.from(byGroup.entries());
+  }, [params]);
+
+  if (params.length === 0) return null;
+
+  const valueOf = (p: ScadParameter) => (p.name in draft ? draft[p.name] : p.value);
+  const set = (p: ScadParameter, value: ParameterValue) => setDraft(d => ({ ...d, [p.name]: value }));
+
+  const renderControl = (p: ScadParameter) => {
+    const value = valueOf(p);
+    switch (p.kind) {
+      case 'boolean':
+        return <input type="checkbox" checked={value as boolean} onChange={e => set(p, e.target.checked)} className="accent-indigo-500" />;
+      case 'string':
+        return p.options ? (
+          <select value={value as string} onChange={e => set(p, e.target.value)} className={inputClass}>
+            {p.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        ) : (
+          <input value={value as string} onChange={e => set(p, e.target.value)} className={`${inputClass} w-32`} />
+        );
+      case 'vector':
+        return (
+          <div className="flex space-x-1">
+            {(value as number[]).map((n, i) => (
+              <input
+                key={i}
+                type="number"
+                step={p.step}
+                value={n}
+                onChange={e => {
+                  const next = [...(value as number[])];
+                  next[i] = Number(e.target.value);
+                  if (Number.isFinite(next[i])) set(p, next);
+                }}
+                className={`${inputClass} w-16`}
+              />
+            ))}
+          </div>
+        );
+      case 'number':
+        if (p.options) {
+          return (
+            <select value={value as number} onChange={e => set(p, Number(e.target.value))} className={inputClass}>
+              {p.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          );
+        }
+        return (
+          <div className="flex items-center space-x-2">
+            <input
+              type="range"
+              min={Math.min(p.min, value as number)}
+              max={Math.max(p.max, value as number)}
+              step={p.step}
+              value={value as number}
+              onChange={e => set(p, Number(e.target.value))}
+              className="w-28 accent-indigo-500"
+            />
+            <input
+              type="number"
+              step={p.step}
+              value={value as number}
+              onChange={e => {
+                const n = Number(e.target.value);
+                if (e.target.value !== '' && Number.isFinite(n)) set(p, n);
+              }}
+              className={`${inputClass} w-20`}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex items-center space-x-2">
+        <button onClick={() => setOpen(o => !o)} className="flex items-center space-x-2 text-indigo-400">
+          {open ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <SlidersHorizontal size={14} />
+          <h4 className="font-semibold uppercase">参数</h4>
+        </button>
+        <span className="text-slate-600">{params.length} 个顶层变量, 修改后自动重新渲染</span>
+        {modified && (
+          <button onClick={onReset} className="ml-auto flex items-center space-x-1 text-slate-400 hover:text-white" title="恢复生成时的参数">
+            <RotateCcw size={12} /><span>重置</span>
+          </button>
+        )}
+      </div>
+
+      {open && (
+        <div className="mt-2 max-h-64 overflow-y-auto space-y-3 pr-1">
+          {groups.map(([group, list]) => (
+            <div key={group || '_'}>
+              {group && <div className="text-slate-500 mb-1">{group}</div>}
+              <div className="space-y-1.5">
+                {list.map(p => (
+                  <div key={p.name} className="flex items-center justify-between space-x-3" title={p.description || undefined}>
+                    <div className="min-w-0">
+                      <div className="font-mono text-slate-300 truncate">{p.name}</div>
+                      {p.description && <div className="text-slate-500 truncate">{p.description}</div>}
+                    </div>
+                    {renderControl(p)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParameterPanel;
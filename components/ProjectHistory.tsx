@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { History, X, FolderOpen, Pencil, Trash2, GitCompare } from 'lucide-react';
+import { ProjectRun } from '../services/projectStore';
+import { PROVIDER_OPTIONS } from '../services/llmProvider';
+
+interface ProjectHistoryProps {
+  open: boolean;
+  runs: ProjectRun[];
+  currentId: string | null;
+  disabled?: boolean;               // a run is in progress
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onDiff: (a: ProjectRun, b: ProjectRun) => Promise<void>;
+}
+
+const MAX_COMPARE = 4;
+
+const scoreColor = (score: number) => {
+  if (score >= 85) return 'text-emerald-400';
+  if (score >= 60) return 'text-amber-400';
+  return 'text-red-400';
+};
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const providerLabel = (run: ProjectRun) => PROVIDER_OPTIONS.find(o => o.id === run.settings.provider)?.label ?? run.settings.provider;
+
+// Rows of the comparison table: label and how to read it off a run
+const COMPARE_ROWS: { label: string; value: (run: ProjectRun) => string }[] = [
+  { label: '文件', value: r => r.filename },
+  { label: '后端', value: r => `${providerLabel(r)} · ${r.settings.model}` },
+  { label: '精度分数', value: r => (r.result.fidelity ? String(r.result.fidelity.score) : '—') },
+  { label: '体素 IoU', value: r => r.result.fidelity?.iou.toFixed(3) ?? '—' },
+  { label: 'Hausdorff (mm)', value: r => r.result.fidelity?.hausdorff.toFixed(2) ?? '—' },
+  { label: '体积偏差', value: r => (r.result.fidelity ? `${r.result.fidelity.volumeDiffPercent.toFixed(1)}%` : '—') },
+  { label: '代码行数', value: r => String(r.result.code.split('\n').length) },
+  { label: '手动修改', value: r => (r.result.baseCode !== undefined ? '是' : '否') },
+  { label: '修正轮数', value: r => String(Math.max(r.iterations.length - 1, 0)) },
+  { label: '视角数', value: r => String(r.captureProfile.views.length) },
+  { label: '创建时间', value: r => formatTime(r.createdAt) }
+];
+
+// Slide-over list of saved runs: reopen, rename, delete, and compare a few side by side
+const ProjectHistory: React.FC<ProjectHistoryProps> = ({ open, runs, currentId, disabled, onClose, onOpen, onRename, onDelete, onDiff }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const compared = useMemo(
+    () => compareIds.map(id => runs.find(r => r.id === id)).filter((r): r is ProjectRun => !!r),
+    [compareIds, runs]
+  );
+
+  if (!open) return null;
+
+  // A diff overlays both renders on one source, so both runs must be of the same file and body
+  const diffable = compared.length === 2 && compared[0].meshKey === compared[1].meshKey && compared[0].body === compared[1].body;
+
+  const guard = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const commitRename = (id: string) => {
+    const name = draftName.trim();
+    setEditing(null);
+    if (name) guard(() => onRename(id, name));
+  };
+
+  const toggleCompare = (id: string) =>
+    setCompareIds(ids => (ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id].slice(-MAX_COMPARE)));
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside
+        className="w-[26rem] max-w-full h-full bg-slate-900 border-r border-slate-700 shadow-2xl flex flex-col text-xs"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+          <div className="flex items-center space-x-2">
+            <History size={16} className="text-indigo-400" />
+            <h3 className="text-sm font-semibold text-white">项目历史</h3>
+            <span className="text-slate-500">{runs.length} 条记录, 保存在本浏览器</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"><X size={16} /></button>
+        </div>
+
+        {error && <div className="px-4 py-2 bg-red-900/20 text-red-300 border-b border-red-900/40">{error}</div>}
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-slate-800">
+          {runs.length === 0 && <li className="px-4 py-8 text-center text-slate-500">还没有记录。每次完成重构都会自动保存在这里。</li>}
+          {runs.map(run => (
+            <li key={run.id} className={`px-4 py-2.5 ${run.id === currentId ? 'bg-indigo-500/10' : 'hover:bg-slate-800/50'}`}>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(run.id)}
+                  onChange={() => toggleCompare(run.id)}
+                  className="accent-indigo-500"
+                  title="加入对比"
+                />
+                {editing === run.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onBlur={() => commitRename(run.id)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename(run.id);
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200"
+                  />
+                ) : (
+                  <span className="flex-1 min-w-0 truncate font-medium text-slate-200" title={run.name}>{run.name}</span>
+                )}
+                {run.result.fidelity && (
+                  <span className={`font-mono ${scoreColor(run.result.fidelity.score)}`}>{run.result.fidelity.score}</span>
+                )}
+              </div>
+              <div className="flex items-center justify-between mt-1 pl-5">
+                <span className="text-slate-500 truncate">
+                  {formatTime(run.createdAt)} · {run.result.model ?? providerLabel(run)}
+                  {run.result.baseCode !== undefined ? ' · 已修改' : ''}
+                </span>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => onOpen(run.id)}
+                    disabled={disabled}
+                    className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40"
+                    title="打开"
+                  >
+                    <FolderOpen size={13} />
+                  </button>
+                  <button
+                    onClick={() => { setEditing(run.id); setDraftName(run.name); }}
+                    className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700"
+                    title="重命名"
+                  >
+                    <Pencil size={13} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (!window.confirm(`删除记录 "${run.name}"?`)) return;
+                      setCompareIds(ids => ids.filter(x => x !== run.id));
+                      guard(() => onDelete(run.id));
+                    }}
+                    disabled={disabled && run.id === currentId}
+                    className="p-1 rounded text-slate-400 hover:text-red-400 hover:bg-slate-700 disabled:opacity-40"
+                    title="删除"
+                  >
+                    <Trash2 size={13} />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {compared.length > 0 && (
+          <div className="border-t border-slate-700 max-h-[45%] overflow-auto">
+            <div className="flex items-center justify-between px-4 py-2 sticky top-0 bg-slate-900">
+              <div className="flex items-center space-x-2 text-indigo-400">
+                <GitCompare size={14} />
+                <span className="font-semibold">对比 ({compared.length}/{MAX_COMPARE})</span>
+              </div>
+              <div className="flex items-center space-x-3">
+                {compared.length === 2 && (
+                  <button
+                    onClick={() => guard(() => onDiff(compared[0], compared[1]))}
+                    disabled={!diffable}
+                    className="px-2 py-0.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-40 disabled:hover:bg-indigo-600"
+                    title={diffable ? '代码、参数与网格叠加对比' : '只能对比同一源文件 (同一实体) 的两次重构'}
+                  >
+                    差异视图
+                  </button>
+                )}
+                <button onClick={() => setCompareIds([])} className="text-slate-500 hover:text-white">清空</button>
+              </div>
+            </div>
+            <table className="w-full mb-2">
+              <thead>
+                <tr>
+                  <th className="px-4 py-1 text-left font-normal text-slate-500"></th>
+                  {compared.map(run => (
+                    <th key={run.id} className="px-2 py-1 text-left font-medium text-slate-300 truncate max-w-[6rem]" title={run.name}>
+                      {run.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARE_ROWS.map(row => (
+                  <tr key={row.label} className="border-t border-slate-800">
+                    <td className="px-4 py-1 text-slate-500 whitespace-nowrap">{row.label}</td>
+                    {compared.map(run => (
+                      <td key={run.id} className="px-2 py-1 font-mono text-slate-300 truncate max-w-[6rem]" title={row.value(run)}>
+                        {row.value(run)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {compared.length === 1 && (
+              <div className="px-4 pb-2 text-slate-500">再勾选一条记录进行对比</div>
+            )}
+          </div>
+        )}
+      </aside>
+      <div className="flex-1 bg-black/40" />
+    </div>
+  );
+};
+
+export default ProjectHistory;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Cpu, ChevronDown } from 'lucide-react';
+import { LOCAL_PROVIDERS, PROVIDER_OPTIONS, ProviderId, ProviderSettings } from '../services/llmProvider';
+
+interface ProviderPickerProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled?: boolean;
+}
+
+const ProviderPicker: React.FC<ProviderPickerProps> = ({ settings, onChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const current = PROVIDER_OPTIONS.find(o => o.id === settings.provider) ?? PROVIDER_OPTIONS[0];
+
+  const selectProvider = (id: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(o => o.id === id) ?? PROVIDER_OPTIONS[0];
+    // Switching backends resets the model name, which is never portable between them
+    onChange({ ...settings, provider: id, model: option.defaultModel });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg border border-slate-700 hover:border-slate-500 text-xs text-slate-300 disabled:opacity-50"
+      >
+        <Cpu size={14} className="text-indigo-400" />
+        <span>{current.label}</span>
+        {!LOCAL_PROVIDERS.includes(settings.provider) && (
+          <span className="text-slate-500 font-mono max-w-[140px] truncate">{settings.model}</span>
+        )}
+        <ChevronDown size={12} />
+      </button>
+
+      {open && !disabled && (
+        <div className="absolute right-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-3 space-y-3 z-30 text-xs">
+          <div>
+            <div className="text-slate-500 mb-1">模型提供者</div>
+            <div className="grid grid-cols-2 gap-1">
+              {PROVIDER_OPTIONS.map(o => (
+                <button
+                  key={o.id}
+                  onClick={() => selectProvider(o.id)}
+                  className={`px-2 py-1 rounded ${settings.provider === o.id ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!LOCAL_PROVIDERS.includes(settings.provider) && (
+            <label className="block">
+              <span className="text-slate-500">模型名称</span>
+              <input
+                value={settings.model}
+                onChange={e => onChange({ ...settings, model: e.target.value })}
+                className="mt-1 w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+              />
+            </label>
+          )}
+
+          {settings.provider === 'openai' && (
+            <label className="block">
+              <span className="text-slate-500">Base URL</span>
+              <input
+                value={settings.baseUrl}
+                onChange={e => onChange({ ...settings, baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="mt-1 w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-slate-200"
+              />
+            </label>
+          )}
+
+          {settings.provider === 'mock' && (
+            <p className="text-slate-500 leading-relaxed">返回固定示例脚本, 不访问网络, 用于离线调试整条流程。</p>
+          )}
+
+          {settings.provider === 'fitting' && (
+            <p className="text-slate-500 leading-relaxed">不调用模型: 回转体或等截面拉伸体直接提取精确截面轮廓 (直线 + 圆弧) 生成 rotate_extrude / linear_extrude; 其他零件对网格做平面 / 圆柱 / 圆锥 / 球面最小二乘拟合, 识别车削件或长方体主体与孔位。适合规则机加件。</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderPicker;
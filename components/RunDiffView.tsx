@@ -0,0 +1,230 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { GitCompare, X, Loader2, AlertTriangle } from 'lucide-react';
+import { GenerationResult } from '../types';
+import { renderScad } from '../services/openscadService';
+import { DiffKind, diffLines, diffParameters } from '../services/runDiff';
+import { SceneContents, toViewFrame, viewFrameCenter } from './ComparisonView';
+
+export interface DiffSide {
+  label: string;
+  result: GenerationResult;
+}
+
+interface RunDiffViewProps {
+  source: THREE.BufferGeometry | null;   // shared source mesh, shown as a ghost
+  before: DiffSide;
+  after: DiffSide;
+  onClose: () => void;
+}
+
+const BEFORE_COLOR = '#f59e0b';
+const AFTER_COLOR = '#10b981';
+const SOURCE_COLOR = '#94a3b8';
+
+type SideRender = { geometry: THREE.BufferGeometry | null; error: string | null; rendering: boolean };
+
+const rowClass: Record<DiffKind, [string, string]> = {
+  same: ['', ''],
+  changed: ['bg-amber-500/10', 'bg-emerald-500/10'],
+  removed: ['bg-red-500/15', 'bg-slate-800/40'],
+  added: ['bg-slate-800/40', 'bg-emerald-500/15']
+};
+
+const kindLabel: Record<DiffKind, string> = { same: '', changed: '修改', added: '新增', removed: '删除' };
+
+const useRender = (code: string): SideRender => {
+  const [state, setState] = useState<SideRender>({ geometry: null, error: null, rendering: true });
+  useEffect(() => {
+    let cancelled = false;
+    setState({ geometry: null, error: null, rendering: true });
+    renderScad(code)
+      .then(rendered => !cancelled && setState({ geometry: rendered.geometry, error: null, rendering: false }))
+      .catch(err => !cancelled && setState({ geometry: null, error: err instanceof Error ? err.message : String(err), rendering: false }));
+    return () => { cancelled = true; };
+  }, [code]);
+  return state;
+};
+
+const scoreText = (result: GenerationResult) => (result.fidelity ? String(result.fidelity.score) : '—');
+
+// Two results for the same source: SCAD text diff, parameter diff and both renders overlaid
+const RunDiffView: React.FC<RunDiffViewProps> = ({ source, before, after, onClose }) => {
+  const [tab, setTab] = useState<'code' | 'params'>('code');
+  const [visible, setVisible] = useState({ source: true, before: true, after: true });
+  const [changedOnly, setChangedOnly] = useState(false);
+  const beforeRender = useRender(before.result.code);
+  const afterRender = useRender(after.result.code);
+
+  const rows = useMemo(() => diffLines(before.result.code, after.result.code), [before.result.code, after.result.code]);
+  const params = useMemo(() => diffParameters(before.result.code, after.result.code), [before.result.code, after.result.code]);
+  const added = rows.filter(r => r.right && r.kind !== 'same').length;
+  const removed = rows.filter(r => r.left && r.kind !== 'same').length;
+  const changedParams = params.filter(p => p.kind !== 'same').length;
+
+  // Everything shares the source's view frame so offsets between the two scripts stay visible
+  const scene = useMemo(() => {
+    const reference = source ?? beforeRender.geometry ?? afterRender.geometry;
+    if (!reference) return null;
+    const offset = viewFrameCenter(reference);
+    const view = (g: THREE.BufferGeometry | null) => (g ? toViewFrame(g, offset) : null);
+    const sourceView = view(source);
+    const box = new THREE.Box3();
+    [sourceView, view(beforeRender.geometry), view(afterRender.geometry)].forEach(g => {
+      if (!g) return;
+      g.computeBoundingBox();
+      if (g.boundingBox) box.union(g.boundingBox);
+    });
+    const size = box.isEmpty() ? 100 : Math.max(...box.getSize(new THREE.Vector3()).toArray(), 1);
+    return {
+      sourceView,
+      beforeView: view(beforeRender.geometry),
+      afterView: view(afterRender.geometry),
+      size,
+      floor: box.isEmpty() ? 0 : box.min.y
+    };
+  }, [source, beforeRender.geometry, afterRender.geometry]);
+
+  const toggle = (key: keyof typeof visible) => setVisible(v => ({ ...v, [key]: !v[key] }));
+  const legend = (key: keyof typeof visible, color: string, text: string) => (
+    <button
+      onClick={() => toggle(key)}
+      className={`flex items-center space-x-1 px-2 py-1 rounded text-xs ${visible[key] ? 'text-slate-200' : 'text-slate-600 line-through'}`}
+    >
+      <span className="w-2.5 h-2.5 rounded-sm" style={{ background: color }} />
+      <span className="truncate max-w-[10rem]">{text}</span>
+    </button>
+  );
+
+  const status = (side: SideRender, label: string) =>
+    side.rendering ? (
+      <span className="flex items-center space-x-1 text-indigo-300"><Loader2 size={12} className="animate-spin" /><span>{label} 编译中</span></span>
+    ) : side.error ? (
+      <span className="flex items-center space-x-1 text-red-400" title={side.error}><AlertTriangle size={12} /><span>{label} 编译失败</span></span>
+    ) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-7xl h-full max-h-[90vh] bg-slate-900 border border-slate-700 rounded-xl shadow-2xl flex flex-col text-sm"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-800">
+          <div className="flex items-center space-x-3 min-w-0">
+            <GitCompare size={16} className="text-indigo-400 flex-shrink-0" />
+            <h3 className="font-semibold text-white flex-shrink-0">结果对比</h3>
+            <span className="text-xs truncate" style={{ color: BEFORE_COLOR }}>A: {before.label} ({scoreText(before.result)})</span>
+            <span className="text-slate-600">→</span>
+            <span className="text-xs truncate" style={{ color: AFTER_COLOR }}>B: {after.label} ({scoreText(after.result)})</span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          <div className="relative md:w-1/2 h-72 md:h-auto border-b md:border-b-0 md:border-r border-slate-800">
+            {scene && (
+              <Canvas camera={{ position: [scene.size * 1.5, scene.size * 1.2, scene.size * 1.5], fov: 40 }} dpr={[1, 2]}>
+                <SceneContents floor={scene.floor} />
+                {visible.before && scene.beforeView && (
+                  <mesh geometry={scene.beforeView} renderOrder={1}>
+                    <meshStandardMaterial color={BEFORE_COLOR} transparent opacity={0.55} depthWrite={false} side={THREE.DoubleSide} />
+                  </mesh>
+                )}
+                {visible.after && scene.afterView && (
+                  <mesh geometry={scene.afterView} renderOrder={2}>
+                    <meshStandardMaterial color={AFTER_COLOR} transparent opacity={0.55} depthWrite={false} side={THREE.DoubleSide} />
+                  </mesh>
+                )}
+                {visible.source && scene.sourceView && (
+                  <mesh geometry={scene.sourceView} renderOrder={3}>
+                    <meshStandardMaterial color={SOURCE_COLOR} transparent opacity={0.15} depthWrite={false} side={THREE.DoubleSide} />
+                  </mesh>
+                )}
+                <OrbitControls makeDefault />
+              </Canvas>
+            )}
+            <div className="absolute top-2 left-2 flex flex-col items-start bg-slate-900/90 border border-slate-700 rounded-lg p-1">
+              {legend('before', BEFORE_COLOR, `A ${before.label}`)}
+              {legend('after', AFTER_COLOR, `B ${after.label}`)}
+              {source && legend('source', SOURCE_COLOR, '源模型')}
+            </div>
+            <div className="absolute bottom-2 left-2 flex flex-col space-y-1 text-xs">
+              {status(beforeRender, 'A')}
+              {status(afterRender, 'B')}
+            </div>
+          </div>
+
+          <div className="md:w-1/2 min-h-0 flex-1 flex flex-col">
+            <div className="flex items-center space-x-1 px-3 py-2 border-b border-slate-800 text-xs">
+              <button
+                onClick={() => setTab('code')}
+                className={`px-2 py-1 rounded ${tab === 'code' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                代码差异 <span className="text-emerald-400">+{added}</span> <span className="text-red-400">-{removed}</span>
+              </button>
+              <button
+                onClick={() => setTab('params')}
+                className={`px-2 py-1 rounded ${tab === 'params' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                参数差异 <span className="text-amber-400">{changedParams}</span>
+              </button>
+              <label className="ml-auto flex items-center space-x-1 text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={changedOnly} onChange={e => setChangedOnly(e.target.checked)} className="accent-indigo-500" />
+                <span>只看变化</span>
+              </label>
+            </div>
+
+            {tab === 'code' ? (
+              <div className="flex-1 overflow-auto bg-[#0d1117] font-mono text-xs leading-5">
+                <table className="w-full border-collapse">
+                  <tbody>
+                    {rows.map((row, i) => (changedOnly && row.kind === 'same') ? null : (
+                      <tr key={i}>
+                        <td className={`w-8 px-1 text-right text-slate-600 select-none align-top ${rowClass[row.kind][0]}`}>{row.left?.line ?? ''}</td>
+                        <td className={`w-1/2 px-2 whitespace-pre text-slate-300 align-top ${rowClass[row.kind][0]}`}>{row.left?.text ?? ''}</td>
+                        <td className={`w-8 px-1 text-right text-slate-600 select-none align-top border-l border-slate-800 ${rowClass[row.kind][1]}`}>{row.right?.line ?? ''}</td>
+                        <td className={`w-1/2 px-2 whitespace-pre text-slate-300 align-top ${rowClass[row.kind][1]}`}>{row.right?.text ?? ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {added === 0 && removed === 0 && <p className="p-4 text-slate-500 font-sans">两份脚本完全相同。</p>}
+              </div>
+            ) : (
+              <div className="flex-1 overflow-auto text-xs">
+                {params.length === 0 ? (
+                  <p className="p-4 text-slate-500">两份脚本都没有可识别的顶层参数。</p>
+                ) : (
+                  <table className="w-full">
+                    <thead>
+                      <tr className="text-slate-500">
+                        <th className="px-3 py-1.5 text-left font-normal">参数</th>
+                        <th className="px-3 py-1.5 text-left font-normal" style={{ color: BEFORE_COLOR }}>A</th>
+                        <th className="px-3 py-1.5 text-left font-normal" style={{ color: AFTER_COLOR }}>B</th>
+                        <th className="px-3 py-1.5 text-left font-normal"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {params.map(p => (changedOnly && p.kind === 'same') ? null : (
+                        <tr key={p.name} className={`border-t border-slate-800 ${p.kind === 'same' ? 'text-slate-500' : 'text-slate-200'}`}>
+                          <td className="px-3 py-1 font-mono">{p.name}</td>
+                          <td className="px-3 py-1 font-mono">{p.before ?? '—'}</td>
+                          <td className="px-3 py-1 font-mono">{p.after ?? '—'}</td>
+                          <td className="px-3 py-1 text-amber-400">{kindLabel[p.kind]}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunDiffView;
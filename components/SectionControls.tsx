@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { Scissors } from 'lucide-react';
+import type { BufferGeometry } from 'three';
+import { SectionAxis, SectionCut } from '../services/captureProfiles';
+import { renderSection, sliceGeometry } from '../services/crossSection';
+import { formatMm } from '../services/snapshotAnnotations';
+import { getTriangleArray } from '../services/meshUtils';
+
+interface SectionControlsProps {
+  geometry: BufferGeometry;
+  section: SectionCut | null;
+  onChange: (section: SectionCut | null) => void;
+}
+
+const PREVIEW_SIZE = 320;
+
+// Scrubs the viewport clipping plane and previews the filled profile at the cut
+const SectionControls: React.FC<SectionControlsProps> = ({ geometry, section, onChange }) => {
+  const tris = useMemo(() => getTriangleArray(geometry), [geometry]);
+
+  const preview = useMemo(() => {
+    if (!section) return null;
+    const slice = sliceGeometry(geometry, section.axis, section.position, tris);
+    return { slice, image: renderSection(slice, geometry.boundingBox!, PREVIEW_SIZE) };
+  }, [geometry, tris, section]);
+
+  const axisClass = (active: boolean) =>
+    `w-6 py-0.5 rounded text-xs font-mono ${active ? 'bg-amber-500 text-slate-900' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="absolute top-4 left-4 z-10 w-48 space-y-2">
+      <div className="bg-slate-900/90 border border-slate-700 rounded-lg p-2 text-xs text-slate-400 space-y-2">
+        <label className="flex items-center space-x-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!section}
+            onChange={e => onChange(e.target.checked ? { axis: 'z', position: 50 } : null)}
+            className="accent-amber-500"
+          />
+          <Scissors size={12} /><span>剖切视图</span>
+        </label>
+        {section && (
+          <>
+            <div className="flex items-center space-x-1">
+              {(['x', 'y', 'z'] as SectionAxis[]).map(axis => (
+                <button key={axis} onClick={() => onChange({ ...section, axis })} className={axisClass(section.axis === axis)}>
+                  {axis.toUpperCase()}
+                </button>
+              ))}
+              <span className="ml-auto font-mono text-slate-300">{section.position}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={1}
+              value={section.position}
+              onChange={e => onChange({ ...section, position: Number(e.target.value) })}
+              className="w-full accent-amber-500"
+            />
+            {preview && (
+              <div className="font-mono text-[10px] text-slate-500">
+                {section.axis.toUpperCase()} = {formatMm(preview.slice.offset)} mm · {preview.slice.area.toFixed(1)} mm²
+              </div>
+            )}
+          </>
+        )}
+      </div>
+      {preview && (
+        <img src={preview.image} alt="cross-section" className="w-48 h-48 rounded-lg border border-slate-700" />
+      )}
+    </div>
+  );
+};
+
+export default SectionControls;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Puzzle, Loader2, Scissors, X } from 'lucide-react';
+import { SEGMENT_MODES, SegmentMode, Segmentation } from '../services/meshSegmentation';
+
+interface SegmentPanelProps {
+  segmentation: Segmentation | null;
+  mode: SegmentMode;
+  onModeChange: (mode: SegmentMode) => void;
+  onSegment: () => void;
+  onClear: () => void;
+  segmenting: boolean;
+  labels: string[];
+  onLabelChange: (index: number, label: string) => void;
+  included: boolean[];
+  onToggleIncluded: (index: number) => void;
+  selected: number | null;
+  onSelect: (index: number | null) => void;
+  disabled?: boolean;
+}
+
+const fmt = (n: number) => (n >= 100 ? n.toFixed(0) : n.toFixed(1));
+
+// Splits the source into parts that are reconstructed as separate modules; rows and viewport clicks select a part
+const SegmentPanel: React.FC<SegmentPanelProps> = ({
+  segmentation,
+  mode,
+  onModeChange,
+  onSegment,
+  onClear,
+  segmenting,
+  labels,
+  onLabelChange,
+  included,
+  onToggleIncluded,
+  selected,
+  onSelect,
+  disabled
+}) => {
+  const selectClass = 'bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 disabled:opacity-50';
+  const count = included.filter(Boolean).length;
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg border border-slate-800 p-3 text-xs">
+      <div className="flex items-center space-x-2">
+        <Puzzle size={14} className="text-indigo-400" />
+        <h4 className="font-semibold text-indigo-400 uppercase">部件拆分</h4>
+        {segmentation && (
+          <span className="text-slate-500 font-mono">{segmentation.segments.length} 个部件</span>
+        )}
+        <div className="ml-auto flex items-center space-x-1">
+          <select
+            value={mode}
+            disabled={disabled || segmenting}
+            onChange={e => onModeChange(e.target.value as SegmentMode)}
+            className={selectClass}
+          >
+            {SEGMENT_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+          {segmentation && (
+            <button
+              onClick={onClear}
+              disabled={disabled}
+              title="整体重构"
+              className="flex items-center px-1.5 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 disabled:opacity-50"
+            >
+              <X size={12} />
+            </button>
+          )}
+          <button
+            onClick={onSegment}
+            disabled={disabled || segmenting}
+            className="flex items-center space-x-1 px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+          >
+            {segmenting ? <Loader2 size={12} className="animate-spin" /> : <Scissors size={12} />}
+            <span>拆分</span>
+          </button>
+        </div>
+      </div>
+
+      {segmentation && (
+        <>
+          <div className="mt-2 max-h-48 overflow-y-auto space-y-1">
+            {segmentation.segments.map((segment, i) => {
+              const { min, max } = segment.box;
+              return (
+                <div
+                  key={i}
+                  onClick={() => onSelect(selected === i ? null : i)}
+                  className={`flex items-center space-x-2 px-2 py-1 rounded border cursor-pointer ${
+                    selected === i ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-800 hover:border-slate-600'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={included[i] ?? true}
+                    disabled={disabled}
+                    onClick={e => e.stopPropagation()}
+                    onChange={() => onToggleIncluded(i)}
+                    className="accent-indigo-500"
+                    title="参与重构"
+                  />
+                  <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ background: segment.color }} />
+                  <input
+                    value={labels[i] ?? ''}
+                    disabled={disabled}
+                    onClick={e => e.stopPropagation()}
+                    onChange={e => onLabelChange(i, e.target.value)}
+                    className="flex-1 min-w-0 bg-transparent border-b border-transparent focus:border-slate-600 outline-none text-slate-200"
+                  />
+                  <span className="font-mono text-slate-500 flex-shrink-0">
+                    {fmt(max.x - min.x)}×{fmt(max.y - min.y)}×{fmt(max.z - min.z)} · {segment.triangleCount.toLocaleString()}△
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+          <div className="mt-2 text-slate-500">
+            {count >= 2
+              ? `${count} 个部件将各自采集、测量并重构为独立模块, 再按测量位置组装。未勾选的部件不参与重构。`
+              : '至少勾选两个部件才会分部件重构, 否则按整体重构。'}
+            {' '}在视图中点击可选中部件。
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SegmentPanel;
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, X, Eye, EyeOff, Lock, Unlock, Trash2 } from 'lucide-react';
+import { LOCAL_PROVIDERS, PROVIDER_OPTIONS, ProviderId } from '../services/llmProvider';
+import { AppSettings, IMAGE_RESOLUTIONS, KeyStorage, chooseKeyStorage } from '../services/settingsStore';
+
+interface SettingsDialogProps {
+  open: boolean;
+  settings: AppSettings;
+  // Set while a passphrase-protected key is stored but not yet unlocked this session
+  locked: boolean;
+  // Set while the stored key is passphrase-protected, locked or not
+  encrypted: boolean;
+  onClose: () => void;
+  onSave: (settings: AppSettings, storage: KeyStorage) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onClear: () => void;
+}
+
+const inputClass = 'mt-1 w-full bg-slate-800 border border-slate-700 rounded px-2 py-1.5 text-slate-200 focus:outline-none focus:border-indigo-500';
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, settings, locked, encrypted, onClose, onSave, onUnlock, onClear }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Start from the live settings every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDraft(settings);
+    setEncrypt(encrypted);
+    setPassphrase('');
+    setUnlockPassphrase('');
+    setError(null);
+  }, [open, settings, encrypted]);
+
+  if (!open) return null;
+
+  const update = (patch: Partial<AppSettings>) => setDraft(d => ({ ...d, ...patch }));
+
+  const selectProvider = (id: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(o => o.id === id) ?? PROVIDER_OPTIONS[0];
+    update({ provider: id, model: option.defaultModel });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    await onSave(draft, chooseKeyStorage(draft, settings.apiKey, { encrypted, encrypt, passphrase }));
+    onClose();
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-slate-900 border border-slate-700 rounded-xl shadow-2xl text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-800">
+          <div className="flex items-center space-x-2">
+            <Settings size={16} className="text-indigo-400" />
+            <h3 className="font-semibold text-white">运行设置</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><X size={16} /></button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {locked && (
+            <div className="bg-amber-900/10 border border-amber-900/40 rounded-lg p-3 space-y-2">
+              <div className="flex items-center space-x-2 text-amber-300 text-xs">
+                <Lock size={12} /><span>已保存的 API Key 受口令保护, 输入口令解锁后才能使用。</span>
+              </div>
+              <div className="flex space-x-2">
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={e => setUnlockPassphrase(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') run(() => onUnlock(unlockPassphrase)); }}
+                  placeholder="口令"
+                  className={`${inputClass} mt-0`}
+                />
+                <button
+                  onClick={() => run(() => onUnlock(unlockPassphrase))}
+                  disabled={busy || !unlockPassphrase}
+                  className="flex items-center space-x-1 px-3 rounded bg-amber-600 hover:bg-amber-500 text-white text-xs disabled:opacity-50"
+                >
+                  <Unlock size={12} /><span>解锁</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-xs text-slate-500 mb-1">模型提供者</div>
+            <div className="grid grid-cols-2 gap-1">
+              {PROVIDER_OPTIONS.map(o => (
+                <button
+                  key={o.id}
+                  onClick={() => selectProvider(o.id)}
+                  className={`px-2 py-1 rounded text-xs ${draft.provider === o.id ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {o.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!LOCAL_PROVIDERS.includes(draft.provider) && (
+            <label className="block text-xs text-slate-500">
+              模型名称
+              <input value={draft.model} onChange={e => update({ model: e.target.value })} className={`${inputClass} font-mono`} />
+            </label>
+          )}
+
+          {draft.provider === 'openai' && (
+            <label className="block text-xs text-slate-500">
+              Base URL
+              <input value={draft.baseUrl} onChange={e => update({ baseUrl: e.target.value })} className={`${inputClass} font-mono`} />
+            </label>
+          )}
+
+          {!LOCAL_PROVIDERS.includes(draft.provider) && (
+            <label className="block text-xs text-slate-500">
+              API Key {draft.provider === 'openai' && <span className="text-slate-600">(本地服务可留空)</span>}
+              <div className="relative">
+                <input
+                  type={showKey ? 'text' : 'password'}
+                  value={draft.apiKey}
+                  onChange={e => update({ apiKey: e.target.value })}
+                  placeholder={locked ? '已加密保存, 请先解锁' : ''}
+                  autoComplete="off"
+                  className={`${inputClass} font-mono pr-8`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowKey(s => !s)}
+                  className="absolute right-2 top-1/2 -translate-y-1/2 mt-0.5 text-slate-500 hover:text-white"
+                >
+                  {showKey ? <EyeOff size={14} /> : <Eye size={14} />}
+                </button>
+              </div>
+            </label>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-xs text-slate-500">
+              温度 <span className="font-mono text-slate-300">{draft.temperature.toFixed(2)}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={draft.temperature}
+                onChange={e => update({ temperature: Number(e.target.value) })}
+                className="mt-2 w-full accent-indigo-500"
+              />
+            </label>
+            <label className="block text-xs text-slate-500">
+              图像分辨率 (最长边)
+              <select
+                value={draft.imageResolution}
+                onChange={e => update({ imageResolution: Number(e.target.value) })}
+                className={inputClass}
+              >
+                {IMAGE_RESOLUTIONS.map(r => <option key={r} value={r}>{r} px</option>)}
+              </select>
+            </label>
+          </div>
+
+          {!LOCAL_PROVIDERS.includes(draft.provider) && draft.apiKey && (
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-xs text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={encrypt} onChange={e => setEncrypt(e.target.checked)} className="accent-indigo-500" />
+                <span>用口令加密保存 API Key (AES-GCM)</span>
+              </label>
+              {encrypt && (
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={e => setPassphrase(e.target.value)}
+                  placeholder={encrypted && draft.apiKey === settings.apiKey ? '留空则保留现有的加密口令' : '加密口令 (每次打开页面需输入)'}
+                  className={inputClass}
+                />
+              )}
+            </div>
+          )}
+
+          <p className="text-[11px] text-slate-600 leading-relaxed">
+            设置仅保存在本浏览器的 localStorage 中, 不会打包进构建产物。
+          </p>
+
+          {error && (
+            <div className="text-xs text-red-300 bg-red-900/20 border border-red-900 rounded px-3 py-2">{error}</div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-3 border-t border-slate-800">
+          <button
+            onClick={() => { onClear(); onClose(); }}
+            className="flex items-center space-x-1 text-xs text-slate-500 hover:text-red-400"
+          >
+            <Trash2 size={12} /><span>清除已保存设置</span>
+          </button>
+          <div className="flex space-x-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded text-xs text-slate-400 hover:text-white">取消</button>
+            <button
+              onClick={handleSave}
+              disabled={busy}
+              className="px-4 py-1.5 rounded bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-medium disabled:opacity-50"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
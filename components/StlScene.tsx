@@ -1,8 +1,9 @@
-import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { Canvas, useThree, useLoader } from '@react-three/fiber';
-import { OrbitControls, Center, Grid, Html, useProgress } from '@react-three/drei';
+import React, { useEffect, useMemo } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls, Center, Grid } from '@react-three/drei';
 import * as THREE from 'three';
-import { STLLoader } from 'three/examples/jsm/loaders/STLLoader';
+import { applyDeviationColors, deviationScale } from '../services/fidelity';
+import { SectionCut, stlToView } from '../services/captureProfiles';
 
 // Add global type declarations for React Three Fiber elements
 declare global {
@@ -10,6 +11,8 @@ declare global {
     interface IntrinsicElements {
       mesh: any;
       meshStandardMaterial: any;
+      meshBasicMaterial: any;
+      primitive: any;
       color: any;
       ambientLight: any;
       directionalLight: any;
@@ -23,6 +26,8 @@ declare module 'react' {
     interface IntrinsicElements {
       mesh: any;
       meshStandardMaterial: any;
+      meshBasicMaterial: any;
+      primitive: any;
       color: any;
       ambientLight: any;
       directionalLight: any;
@@ -32,27 +37,105 @@ declare module 'react' {
 }
 
 interface StlSceneProps {
-  url: string;
-  onSnapshotReady: (captureFn: () => Promise<string[]>) => void;
+  // Selected body in its original file frame (Z-up, mm)
+  geometry: THREE.BufferGeometry;
+  // Per-vertex distance to the reconstruction; shown as a heatmap when present
+  deviation?: Float32Array | null;
+  // Clipping plane; everything beyond the cut (towards +axis) is hidden
+  section?: SectionCut | null;
+  // Mesh defects and part segments drawn over the model, in the same frame as `geometry`
+  highlights?: MeshHighlight[];
+  // Clicked triangle, as an index into `geometry`'s triangles (not fired for orbit drags)
+  onPickTriangle?: (triangle: number) => void;
 }
 
-// Loading Indicator Component
-function Loader() {
-  const { progress } = useProgress();
+export interface MeshHighlight {
+  color: string;
+  primitive: 'edges' | 'faces';
+  positions: Float32Array;
+}
+
+const AXIS_UNIT: Record<SectionCut['axis'], [number, number, number]> = { x: [1, 0, 0], y: [0, 1, 0], z: [0, 0, 1] };
+
+// Clipping plane in the centred view frame MeshViewer draws in
+const sectionPlane = (geometry: THREE.BufferGeometry, section: SectionCut): THREE.Plane => {
+  geometry.computeBoundingBox();
+  const size = (geometry.boundingBox ?? new THREE.Box3()).getSize(new THREE.Vector3());
+  const unit = AXIS_UNIT[section.axis];
+  const extent = size.x * unit[0] + size.y * unit[1] + size.z * unit[2];
+  // Keep points with stl_axis - centre <= cut: normal points back along the axis
+  const normal = new THREE.Vector3(...stlToView([-unit[0], -unit[1], -unit[2]]));
+  return new THREE.Plane(normal, -extent / 2 + (extent * section.position) / 100);
+};
+
+// Colour ramp legend for the deviation heatmap
+const DeviationLegend: React.FC<{ max: number }> = ({ max }) => (
+  <div className="absolute top-4 right-4 z-10 bg-slate-900/80 border border-slate-700 rounded px-2 py-1.5 text-[10px] font-mono text-slate-400 pointer-events-none">
+    <div className="mb-1">偏差 (mm)</div>
+    <div className="w-32 h-2 rounded" style={{ background: 'linear-gradient(to right, hsl(238,85%,50%), hsl(120,85%,50%), hsl(60,85%,50%), hsl(0,85%,50%))' }} />
+    <div className="flex justify-between mt-0.5">
+      <span>0</span>
+      <span>≥{max.toFixed(2)}</span>
+    </div>
+  </div>
+);
+
+// Defect overlay: edges draw through the model so holes on the far side stay visible, faces sit just in front
+const IssueOverlay: React.FC<{
+  rawGeometry: THREE.BufferGeometry;
+  highlights: MeshHighlight[];
+  clipPlane?: THREE.Plane | null;
+}> = ({ rawGeometry, highlights, clipPlane }) => {
+  const objects = useMemo(() => {
+    // Same transform MeshViewer applies: Z-up to Y-up, then centred on the source box
+    rawGeometry.computeBoundingBox();
+    const center = (rawGeometry.boundingBox ?? new THREE.Box3()).getCenter(new THREE.Vector3());
+    const [cx, cy, cz] = stlToView([center.x, center.y, center.z]);
+    const clippingPlanes = clipPlane ? [clipPlane] : [];
+
+    return highlights.filter(h => h.positions.length > 0).map(h => {
+      const g = new THREE.BufferGeometry();
+      g.setAttribute('position', new THREE.BufferAttribute(h.positions, 3));
+      g.rotateX(-Math.PI / 2);
+      g.translate(-cx, -cy, -cz);
+      if (h.primitive === 'edges') {
+        const lines = new THREE.LineSegments(g, new THREE.LineBasicMaterial({ color: h.color, depthTest: false, clippingPlanes }));
+        lines.renderOrder = 10;
+        return lines;
+      }
+      return new THREE.Mesh(g, new THREE.MeshBasicMaterial({
+        color: h.color,
+        side: THREE.DoubleSide,
+        polygonOffset: true,
+        polygonOffsetFactor: -1,
+        polygonOffsetUnits: -1,
+        clippingPlanes
+      }));
+    });
+  }, [rawGeometry, highlights, clipPlane]);
+
+  useEffect(() => () => {
+    objects.forEach(o => {
+      o.geometry.dispose();
+      (o.material as THREE.Material).dispose();
+    });
+  }, [objects]);
+
   return (
-    <Html center>
-      <div className="flex flex-col items-center justify-center p-4 bg-slate-900/90 rounded-lg border border-indigo-500/30 backdrop-blur-sm shadow-xl z-50">
-        <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-3"></div>
-        <p className="text-white font-medium text-sm whitespace-nowrap">正在解析模型数据...</p>
-        <p className="text-indigo-400 text-xs mt-1">{progress.toFixed(0)}%</p>
-      </div>
-    </Html>
+    <>
+      {objects.map((o, i) => <primitive key={i} object={o} />)}
+    </>
   );
-}
+};
+
+const MeshViewer: React.FC<{
+  rawGeometry: THREE.BufferGeometry;
+  deviation?: Float32Array | null;
+  deviationMax?: number;
+  clipPlane?: THREE.Plane | null;
+  onPickTriangle?: (triangle: number) => void;
+}> = ({ rawGeometry, deviation, deviationMax = 0, clipPlane, onPickTriangle }) => {
 
-const MeshViewer: React.FC<{ url: string }> = ({ url }) => {
-  const rawGeometry = useLoader(STLLoader, url);
-  
   // Process geometry: Clone -> Fix Orientation (Z-up to Y-up) -> Center
   const geometry = useMemo(() => {
     const g = rawGeometry.clone();
@@ -65,173 +148,60 @@ const MeshViewer: React.FC<{ url: string }> = ({ url }) => {
     
     // We strictly Center the geometry here for the OrbitControls to pivot correctly
     g.center();
+
+    // Deviation values follow the raw (non-indexed) vertex order, which clone/rotate preserve
+    if (deviation && deviation.length === g.getAttribute('position').count) {
+      applyDeviationColors(g, deviation, deviationMax);
+    }
     return g;
-  }, [rawGeometry]);
+  }, [rawGeometry, deviation, deviationMax]);
+
+  const showHeatmap = !!geometry.getAttribute('color') && !!deviation;
+  const clippingPlanes = clipPlane ? [clipPlane] : [];
 
   return (
-    <mesh geometry={geometry} castShadow receiveShadow name="target-mesh">
-      <meshStandardMaterial 
-        color="#6366f1" 
-        roughness={0.5} 
-        metalness={0.1}
-        flatShading={false}
-      />
-    </mesh>
+    <>
+      <mesh
+        geometry={geometry}
+        castShadow
+        receiveShadow
+        name="target-mesh"
+        // Non-indexed geometry, so the face index is the source triangle
+        onClick={onPickTriangle ? (e: { faceIndex?: number; stopPropagation: () => void }) => {
+          e.stopPropagation();
+          if (e.faceIndex !== undefined) onPickTriangle(e.faceIndex);
+        } : undefined}
+      >
+        <meshStandardMaterial 
+          key={showHeatmap ? 'heatmap' : 'solid'}
+          color={showHeatmap ? '#ffffff' : '#6366f1'}
+          vertexColors={showHeatmap}
+          roughness={0.5} 
+          metalness={0.1}
+          flatShading={false}
+          clippingPlanes={clippingPlanes}
+        />
+      </mesh>
+      {clipPlane && (
+        // Inner faces exposed by the cut show up in amber, which reads as the section fill
+        <mesh geometry={geometry}>
+          <meshBasicMaterial color="#f59e0b" side={THREE.BackSide} clippingPlanes={clippingPlanes} />
+        </mesh>
+      )}
+    </>
   );
 };
 
-// Component to handle multi-view snapshot triggering
-const ScreenshotHandler: React.FC<{ onSnapshotReady: (fn: () => Promise<string[]>) => void }> = ({ onSnapshotReady }) => {
-  const { gl, scene, camera, controls } = useThree();
-  const controlsRef = useRef<any>(controls);
-
-  // Update ref when controls change
-  useEffect(() => {
-    controlsRef.current = controls;
-  }, [controls]);
-
-  useEffect(() => {
-    const captureMultiViews = async (): Promise<string[]> => {
-      // --- 1. Identify Target (Bounding Box Center) ---
-      let targetMesh: THREE.Mesh | null = null;
-      scene.traverse((child) => {
-        if (child instanceof THREE.Mesh && child.name === 'target-mesh') {
-          targetMesh = child;
-        }
-      });
-
-      // Fallback if named mesh not found
-      if (!targetMesh) {
-         scene.traverse((child) => {
-           if (child instanceof THREE.Mesh) targetMesh = child;
-         });
-      }
-
-      const center = new THREE.Vector3(0,0,0);
-      let fitDistance = 100;
-
-      if (targetMesh) {
-        // Calculate Bounding Box from the object in World Space
-        const box = new THREE.Box3().setFromObject(targetMesh as THREE.Object3D);
-        box.getCenter(center); // Update center vector
-        const size = box.getSize(new THREE.Vector3());
-
-        // --- 2. Calculate Fit-to-View Base Distance ---
-        // Formula: distance = (maxDim / 2) / tan(FOV / 2)
-        const maxDim = Math.max(size.x, size.y, size.z);
-        const fov = (camera as THREE.PerspectiveCamera).fov * (Math.PI / 180);
-        
-        // The distance where the object fits exactly in the view
-        const exactFitDist = Math.abs((maxDim / 2) / Math.tan(fov / 2));
-        fitDistance = exactFitDist;
-      }
-
-      // Standard View (1.6x margin for global context)
-      const standardDist = fitDistance * 1.6;
-
-      // Save original state
-      const originalPosition = camera.position.clone();
-      const originalRotation = camera.rotation.clone();
-      const originalUp = camera.up.clone();
-      
-      const snapshots: string[] = [];
-
-      // --- 3. Define 18 Spherical Orientations ---
-      const baseOrientations = [
-        // Group 1: The 6 Cardinal Views (Face-Normal)
-        { name: 'Top',    vec: [0, 1, 0],  up: [0, 0, -1] },
-        { name: 'Bottom', vec: [0, -1, 0], up: [0, 0, 1] },
-        { name: 'Front',  vec: [0, 0, 1],  up: [0, 1, 0] },
-        { name: 'Back',   vec: [0, 0, -1], up: [0, 1, 0] },
-        { name: 'Left',   vec: [-1, 0, 0], up: [0, 1, 0] },
-        { name: 'Right',  vec: [1, 0, 0],  up: [0, 1, 0] },
+const StlScene: React.FC<StlSceneProps> = ({ geometry, deviation, section, highlights, onPickTriangle }) => {
+  const deviationMax = useMemo(() => (deviation ? deviationScale(deviation) : 0), [deviation]);
+  const clipPlane = useMemo(() => (section ? sectionPlane(geometry, section) : null), [geometry, section]);
+  const planeHelper = useMemo(() => {
+    if (!clipPlane) return null;
+    geometry.computeBoundingBox();
+    const size = (geometry.boundingBox ?? new THREE.Box3()).getSize(new THREE.Vector3()).length();
+    return new THREE.PlaneHelper(clipPlane, size, 0xf59e0b);
+  }, [geometry, clipPlane]);
 
-        // Group 2.1: Horizontal Ring (Y-Ring) - 45 degrees
-        { name: 'Front-Right', vec: [1, 0, 1],   up: [0, 1, 0] },
-        { name: 'Right-Back',  vec: [1, 0, -1],  up: [0, 1, 0] },
-        { name: 'Back-Left',   vec: [-1, 0, -1], up: [0, 1, 0] },
-        { name: 'Left-Front',  vec: [-1, 0, 1],  up: [0, 1, 0] },
-
-        // Group 2.2: Vertical X-Ring - 45 degrees
-        { name: 'Top-Front',    vec: [0, 1, 1],   up: [0, 1, 0] },
-        { name: 'Front-Bottom', vec: [0, -1, 1],  up: [0, 1, 0] },
-        { name: 'Bottom-Back',  vec: [0, -1, -1], up: [0, 1, 0] },
-        { name: 'Back-Top',     vec: [0, 1, -1],  up: [0, 1, 0] },
-
-        // Group 2.3: Vertical Z-Ring - 45 degrees
-        { name: 'Top-Right',    vec: [1, 1, 0],   up: [0, 1, 0] },
-        { name: 'Right-Bottom', vec: [1, -1, 0],  up: [0, 1, 0] },
-        { name: 'Bottom-Left',  vec: [-1, -1, 0], up: [0, 1, 0] },
-        { name: 'Left-Top',     vec: [-1, 1, 0],  up: [0, 1, 0] },
-      ];
-
-      // --- 4. Generate 18 Global Views Only ---
-      const views = [];
-
-      // Set A: Global 18 Views
-      baseOrientations.forEach(o => {
-        const dir = new THREE.Vector3(o.vec[0], o.vec[1], o.vec[2]).normalize();
-        views.push({
-          name: o.name,
-          offset: dir.multiplyScalar(standardDist),
-          up: new THREE.Vector3(o.up[0], o.up[1], o.up[2])
-        });
-      });
-
-      // Temporarily disable controls
-      if (controlsRef.current) {
-         controlsRef.current.enabled = false;
-         controlsRef.current.autoRotate = false;
-      }
-
-      try {
-        for (const view of views) {
-          // Calculate absolute position: Center + Offset
-          const camPos = new THREE.Vector3().copy(center).add(view.offset);
-
-          camera.position.copy(camPos);
-          camera.up.copy(view.up);
-          camera.lookAt(center);
-          
-          // Force update matrices
-          camera.updateMatrixWorld();
-          camera.updateProjectionMatrix(); 
-          
-          // Wait for renderer
-          await new Promise(resolve => setTimeout(resolve, 80)); // Slightly faster capture per frame
-          
-          // Explicit render
-          gl.render(scene, camera);
-          
-          const dataUrl = gl.domElement.toDataURL('image/jpeg', 0.90);
-          snapshots.push(dataUrl);
-        }
-      } finally {
-        // Restore original state
-        camera.up.copy(originalUp);
-        camera.position.copy(originalPosition);
-        camera.rotation.copy(originalRotation);
-        camera.updateProjectionMatrix();
-        
-        if (controlsRef.current) {
-          controlsRef.current.enabled = true;
-          controlsRef.current.autoRotate = true;
-          controlsRef.current.update();
-        }
-        
-        gl.render(scene, camera);
-      }
-
-      return snapshots;
-    };
-
-    onSnapshotReady(captureMultiViews);
-  }, [gl, scene, camera, onSnapshotReady]);
-
-  return null;
-};
-
-const StlScene: React.FC<StlSceneProps> = ({ url, onSnapshotReady }) => {
   return (
     <div className="w-full h-full relative bg-slate-900 rounded-lg overflow-hidden border border-slate-700 shadow-inner group">
       <Canvas
@@ -239,6 +209,7 @@ const StlScene: React.FC<StlSceneProps> = ({ url, onSnapshotReady }) => {
         camera={{ position: [50, 50, 50], fov: 40 }}
         gl={{ preserveDrawingBuffer: true, antialias: true }}
         dpr={[1, 2]}
+        onCreated={({ gl }) => { gl.localClippingEnabled = true; }}
       >
         <color attach="background" args={['#0f172a']} />
         
@@ -246,11 +217,13 @@ const StlScene: React.FC<StlSceneProps> = ({ url, onSnapshotReady }) => {
         <directionalLight position={[10, 20, 10]} intensity={1.2} castShadow />
         <directionalLight position={[-10, -10, -10]} intensity={0.5} />
 
-        <React.Suspense fallback={<Loader />}>
-           <Center>
-             <MeshViewer url={url} />
-           </Center>
-        </React.Suspense>
+        <Center>
+          <MeshViewer rawGeometry={geometry} deviation={deviation} deviationMax={deviationMax} clipPlane={clipPlane} onPickTriangle={onPickTriangle} />
+          {highlights && highlights.length > 0 && (
+            <IssueOverlay rawGeometry={geometry} highlights={highlights} clipPlane={clipPlane} />
+          )}
+        </Center>
+        {planeHelper && <primitive object={planeHelper} />}
         
         <Grid 
           position={[0, -0.01, 0]} 
@@ -266,9 +239,10 @@ const StlScene: React.FC<StlSceneProps> = ({ url, onSnapshotReady }) => {
         />
         
         <OrbitControls makeDefault autoRotate autoRotateSpeed={1} />
-        <ScreenshotHandler onSnapshotReady={onSnapshotReady} />
       </Canvas>
       
+      {deviation && <DeviationLegend max={deviationMax} />}
+
       <div className="absolute bottom-4 left-4 pointer-events-none text-xs text-slate-500 bg-slate-900/80 px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity z-10">
         左键: 旋转 • 右键: 平移 • 滚轮: 缩放
       </div>
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { DEFAULT_SETTINGS, AppSettings } from './settingsStore';
+import { PRESET_PROFILES } from './captureProfiles';
+import { analyzeGeometry } from './geometryAnalysis';
+import { softwareRenderer } from './softwareRenderer';
+import { parseScad } from './scadParser';
+import { assembleScad, convertAssembly, partModuleName, partOrigin, partSnapshotLabels } from './assemblyPipeline';
+
+const mockSettings: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  provider: 'mock',
+  captureProfile: {
+    ...PRESET_PROFILES.find(p => p.id === 'ortho6')!.profile,
+    resolution: 96,
+    annotations: false
+  }
+};
+
+const boxAt = (x: number, y: number, z: number) => new THREE.BoxGeometry(10, 10, 10).toNonIndexed().translate(x, y, z);
+
+describe('partOrigin', () => {
+  it('puts the local origin at the bounding-box centre of the part base', () => {
+    expect(partOrigin(boxAt(20, -5, 15)).toArray()).toEqual([20, -5, 10]);
+  });
+});
+
+describe('partModuleName', () => {
+  it('prefixes the index and keeps an ASCII slug of the label', () => {
+    expect(partModuleName('Left Arm #2', 0)).toBe('part_1_left_arm_2');
+    expect(partModuleName('部件 3', 2)).toBe('part_3');
+    expect(partModuleName('Part 2', 1)).toBe('part_2');
+  });
+});
+
+describe('partSnapshotLabels', () => {
+  it('repeats the view labels once per part', () => {
+    const profile = mockSettings.captureProfile;
+    const views = partSnapshotLabels(profile, null);
+    const labels = partSnapshotLabels(profile, ['a', 'b']);
+    expect(labels).toHaveLength(views.length * 2);
+    expect(labels[views.length]).toBe(`b · ${views[0]}`);
+  });
+});
+
+describe('assembleScad', () => {
+  const code = assembleScad('robot.stl', [
+    { label: 'Base', origin: new THREE.Vector3(0, 0, 0), result: { code: 'use <MCAD/boxes.scad>\nw = 10;\ncube(w);', explanation: '' } },
+    { label: 'Arm', origin: new THREE.Vector3(1.25, -2, 10), result: { code: 'use <MCAD/boxes.scad>\n\ncylinder(h = 5, r = 2);', explanation: '' } }
+  ]);
+
+  it('wraps each part in its own module and translates it into place', () => {
+    expect(code).toContain('module part_1_base() {\n  w = 10;\n  cube(w);\n}');
+    expect(code).toContain('translate([0, 0, 0]) part_1_base();');
+    expect(code).toContain('translate([1.25, -2, 10]) part_2_arm();');
+    expect(() => parseScad(code)).not.toThrow();
+  });
+
+  it('hoists use/include lines to file level once', () => {
+    expect(code.match(/use <MCAD\/boxes.scad>/g)).toHaveLength(1);
+    expect(code.indexOf('use <')).toBeLessThan(code.indexOf('module '));
+  });
+});
+
+describe('convertAssembly with the mock provider', () => {
+  it('reconstructs every part and keeps the symmetry each part script missed, naming the part', async () => {
+    // The mock script has a 2-count loop and centred primitives, which covers a box but not a 5-fold prism
+    const prism = new THREE.CylinderGeometry(10, 10, 8, 5).rotateX(Math.PI / 2).toNonIndexed().translate(40, 0, 4);
+    const parts = [{ label: 'Plate', geometry: boxAt(0, 0, 5) }, { label: 'Knob', geometry: prism }];
+    const whole = new THREE.BufferGeometry();
+    whole.setAttribute('position', new THREE.Float32BufferAttribute(
+      [...parts[0].geometry.getAttribute('position').array, ...prism.getAttribute('position').array], 3));
+
+    const outcome = await convertAssembly(parts, {
+      settings: mockSettings,
+      filename: 'assembly.stl',
+      metrics: analyzeGeometry(whole),
+      refine: null,
+      renderer: softwareRenderer,
+      cutFromSolid: false
+    });
+
+    expect(outcome.snapshots).toHaveLength(12);
+    expect(outcome.result.code).toContain('part_2_knob();');
+    expect(outcome.context).toContain('part_1_plate: "Plate"');
+    expect(outcome.result.constraintWarnings).toEqual([expect.stringMatching(/^部件 2 \(Knob\): .*5 重旋转/)]);
+  });
+});
@@ -0,0 +1,149 @@
+import * as THREE from 'three';
+import { GenerationResult } from '../types';
+import { CaptureProfile, getViewLabels } from './captureProfiles';
+import { analyzeGeometry } from './geometryAnalysis';
+import { ConvertOptions, ConvertOutcome, baseContextLines, convertGeometry } from './conversionPipeline';
+
+// Multi-part reconstruction: every part gets its own captures, measurements and script, written around a
+// local origin, and the scripts become modules of one top-level SCAD that places them at their measured positions.
+
+export interface AssemblyPart {
+  label: string;
+  geometry: THREE.BufferGeometry;     // working frame, cut out of the whole source
+}
+
+export interface AssemblyOptions extends ConvertOptions {
+  // Parts were cut along creases of one solid (convex segmentation) rather than being separate shells
+  cutFromSolid: boolean;
+}
+
+const fmt = (n: number) => String(+(Math.abs(n) < 1e-9 ? 0 : n).toFixed(3));
+
+// Local origin of a part: bounding-box centre in XY, base at Z=0, so repeated parts come out identical
+export const partOrigin = (geometry: THREE.BufferGeometry): THREE.Vector3 => {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox ?? new THREE.Box3();
+  const center = box.getCenter(new THREE.Vector3());
+  return new THREE.Vector3(center.x, center.y, box.min.z);
+};
+
+// OpenSCAD identifier for a part; labels with no ASCII words (the default "部件 N", or just "part N")
+// fall back to the index alone
+export const partModuleName = (label: string, index: number): string => {
+  const base = `part_${index + 1}`;
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return /[a-z]/.test(slug) && slug !== base ? `${base}_${slug}` : base;
+};
+
+// Capture labels for a run whose snapshots are the per-part captures one after another
+export const partSnapshotLabels = (profile: CaptureProfile, parts: string[] | null): string[] => {
+  const labels = getViewLabels(profile);
+  return parts && parts.length > 0 ? parts.flatMap(part => labels.map(label => `${part} · ${label}`)) : labels;
+};
+
+// A part's script as a module body: use/include must stay at file level, everything else nests
+// (assignments and modules are local to the wrapping module, so parts cannot clash)
+const wrapModule = (name: string, code: string): { imports: string[]; body: string } => {
+  const imports: string[] = [];
+  const lines = code.split('\n').filter(line => {
+    if (/^\s*(use|include)\s*</.test(line)) {
+      imports.push(line.trim());
+      return false;
+    }
+    return true;
+  });
+  const inner = lines.join('\n').trim().split('\n').map(line => (line ? `  ${line}` : line)).join('\n');
+  return { imports, body: `module ${name}() {\n${inner}\n}` };
+};
+
+export const assembleScad = (
+  filename: string,
+  parts: { label: string; origin: THREE.Vector3; result: GenerationResult }[]
+): string => {
+  const imports = new Set<string>();
+  const modules = parts.map((part, i) => {
+    const wrapped = wrapModule(partModuleName(part.label, i), part.result.code);
+    wrapped.imports.forEach(line => imports.add(line));
+    return `// ===== 部件 ${i + 1}: ${part.label} =====\n${wrapped.body}`;
+  });
+  const placements = parts.map((part, i) =>
+    `translate([${fmt(part.origin.x)}, ${fmt(part.origin.y)}, ${fmt(part.origin.z)}]) ${partModuleName(part.label, i)}();`
+  );
+  return [
+    `// 装配体: ${filename}, ${parts.length} 个部件分别重构后按测量位置组装`,
+    `// 单位: 毫米, +Z 朝上 (工作坐标系)`,
+    ...(imports.size > 0 ? ['', ...imports] : []),
+    '',
+    modules.join('\n\n'),
+    '',
+    `// 装配: 每个部件以其包围盒底面中心为原点建模, 平移回测量位置`,
+    ...placements,
+    ''
+  ].join('\n');
+};
+
+const partNote = (
+  label: string,
+  index: number,
+  count: number,
+  origin: THREE.Vector3,
+  cutFromSolid: boolean,
+  withReferences: boolean
+): string => [
+  `Reconstructing part "${label}" (${index + 1} of ${count}) on its own; the other parts are reconstructed separately and assembled afterwards.`,
+  `The part has been moved so its bounding box is centred on the XY origin with its base at Z=0. Model it at that origin; it is placed back with translate([${fmt(origin.x)}, ${fmt(origin.y)}, ${fmt(origin.z)}]).`,
+  ...(cutFromSolid ? ['It was cut out of a larger solid along concave creases, so its surface is open where it met the neighbouring parts: close those openings with flat faces.'] : []),
+  ...(withReferences ? ['The reference images show the whole assembly: use only what they show of this part.'] : [])
+].join(' ');
+
+// Whole-assembly context, kept for refining the assembled script later
+const assemblyContext = (options: AssemblyOptions, parts: { label: string; origin: THREE.Vector3 }[]): string => [
+  ...baseContextLines(options.filename, options.bodyNote, options.metrics, options.orientation),
+  [
+    `[ASSEMBLY — ${parts.length} parts, each reconstructed as its own module around a local origin and translated into place]`,
+    ...parts.map((part, i) =>
+      `  - ${partModuleName(part.label, i)}: "${part.label}" at (${fmt(part.origin.x)}, ${fmt(part.origin.y)}, ${fmt(part.origin.z)})`
+    ),
+    'Keep this module structure when correcting the script; fix parts inside their own module.'
+  ].join('\n')
+].join('\n\n');
+
+export const convertAssembly = async (parts: AssemblyPart[], options: AssemblyOptions): Promise<ConvertOutcome> => {
+  const { settings, onProgress } = options;
+  const profile = settings.captureProfile;
+  const done: { label: string; origin: THREE.Vector3; result: GenerationResult }[] = [];
+  const snapshots: string[] = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const origin = partOrigin(part.geometry);
+    const local = part.geometry.clone();
+    local.translate(-origin.x, -origin.y, -origin.z);
+    const prefix = `部件 ${i + 1}/${parts.length} (${part.label}): `;
+    onProgress?.(`${prefix}正在测量几何尺寸...`);
+
+    const outcome = await convertGeometry(local, {
+      ...options,
+      bodyNote: [options.bodyNote, partNote(part.label, i, parts.length, origin, options.cutFromSolid, (options.design?.references.length ?? 0) > 0)].filter(Boolean).join('\n'),
+      metrics: analyzeGeometry(local),
+      onProgress: text => onProgress?.(`${prefix}${text}`),
+      onSnapshots: captured => options.onSnapshots?.([...snapshots, ...captured], profile),
+      // Per-part refine rounds are not iterations of the assembled script
+      onIteration: undefined
+    });
+    snapshots.push(...outcome.snapshots);
+    done.push({ label: part.label, origin, result: outcome.result });
+  }
+
+  // Each part was checked against its own symmetry; keep what they missed, saying which part it was
+  const constraintWarnings = done.flatMap((part, i) =>
+    (part.result.constraintWarnings ?? []).map(warning => `部件 ${i + 1} (${part.label}): ${warning}`)
+  );
+  const result: GenerationResult = {
+    code: assembleScad(options.filename, done),
+    explanation: done.map((part, i) => `【部件 ${i + 1}: ${part.label}】\n${part.result.explanation}`).join('\n\n'),
+    model: done[0]?.result.model,
+    ...(constraintWarnings.length > 0 ? { constraintWarnings } : {})
+  };
+  return { result, snapshots, iterations: [], best: null, context: assemblyContext(options, done), profile };
+};
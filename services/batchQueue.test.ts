@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { DEFAULT_SETTINGS } from './settingsStore';
+import { exportStl } from './meshExport';
+import { BatchJob, BatchOptions, batchSummary, createBatchJob, runBatch } from './batchQueue';
+
+const boxFile = (name: string) => new File([exportStl(new THREE.BoxGeometry(40, 30, 10).toNonIndexed())], name);
+
+// The fitting backend needs neither captures nor a network, so whole files convert under Node
+const options = (overrides: Partial<BatchOptions> = {}): BatchOptions => ({
+  settings: { ...DEFAULT_SETTINGS, provider: 'fitting' },
+  refine: null,
+  concurrency: 1,
+  maxAttempts: 3,
+  intervalMs: 0,
+  onUpdate: () => {},
+  shouldStop: () => false,
+  ...overrides
+});
+
+// Keeps the latest state of every job, the way the batch panel does
+const track = (jobs: BatchJob[]) => {
+  const latest = new Map(jobs.map(job => [job.id, job]));
+  return { latest, onUpdate: (job: BatchJob) => { latest.set(job.id, job); } };
+};
+
+describe('runBatch', () => {
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it('converts readable files and fails unreadable ones without retrying them', async () => {
+    // Project history lives in IndexedDB, which Node lacks; a failed save is logged and the run still counts
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const jobs = [createBatchJob(boxFile('box.stl')), createBatchJob(new File(['not a mesh'], 'notes.txt'))];
+    const { latest, onUpdate } = track(jobs);
+    await runBatch(jobs, options({ onUpdate }));
+
+    const [box, notes] = jobs.map(job => latest.get(job.id)!);
+    expect(box).toMatchObject({ status: 'done', attempts: 1, progress: '' });
+    expect(box.output?.result.fidelity?.score).toBeGreaterThan(90);
+    expect(box.output?.runId).toBeNull();
+    expect(notes).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(notes.error).toBeTruthy();
+  });
+
+  it('cancels the files still queued when asked to stop', async () => {
+    const jobs = [createBatchJob(boxFile('a.stl')), createBatchJob(boxFile('b.stl'))];
+    const { latest, onUpdate } = track(jobs);
+    await runBatch(jobs, options({ onUpdate, shouldStop: () => true }));
+    expect(jobs.map(job => latest.get(job.id)!.status)).toEqual(['cancelled', 'cancelled']);
+  });
+});
+
+describe('batchSummary', () => {
+  it('writes one row per file with the failure reason for files that did not finish', () => {
+    const job: BatchJob = { ...createBatchJob(new File([], 'x.stl')), status: 'failed', attempts: 3, elapsedMs: 1500, error: 'HTTP 429' };
+    const { head, rows } = batchSummary([job]);
+    expect(rows).toEqual([['x.stl', '失败', '', '', '', '', '3', '1.5', 'HTTP 429']]);
+    expect(rows[0]).toHaveLength(head.length);
+  });
+});
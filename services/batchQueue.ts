@@ -0,0 +1,235 @@
+import type { BufferGeometry } from 'three';
+import { CaptureProfile, getViewLabels } from './captureProfiles';
+import { GenerationResult, GeometryData, MeshMetrics, RefineIteration } from '../types';
+import { AppSettings } from './settingsStore';
+import { LoadedMesh, mergeBodies, parseMesh } from './meshLoader';
+import { analyzeGeometry } from './geometryAnalysis';
+import { DEFAULT_ORIENTATION, OrientationOptions, detectUnits, orientMesh } from './meshOrientation';
+import { convertGeometry, renderAndScore } from './conversionPipeline';
+import { ProjectRun, saveRun, toRunSettings } from './projectStore';
+import { BatchSummary, ExportInput } from './exportBundle';
+
+// Unattended conversion of many files: a small worker pool over a queue, with spaced-out starts
+// and per-file retries. Every file goes through the same pipeline as an interactive run.
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: '排队中',
+  running: '处理中',
+  done: '完成',
+  failed: '失败',
+  cancelled: '已取消'
+};
+
+export interface BatchOutput {
+  geometry: GeometryData;
+  body?: string;                 // set when a multi-body file was merged
+  result: GenerationResult;      // with fidelity once it rendered
+  snapshots: string[];
+  profile: CaptureProfile;
+  iterations: RefineIteration[];
+  metrics: MeshMetrics | null;
+  reconstruction: BufferGeometry | null;
+  renderError: string | null;
+  renderWarnings: string[];
+  runId: string | null;          // project history entry, null when saving failed
+}
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  attempts: number;
+  progress: string;
+  error?: string;                // last failure, kept while a retry is queued
+  elapsedMs?: number;
+  output?: BatchOutput;
+}
+
+export interface BatchOptions {
+  settings: AppSettings;
+  refine: { maxRounds: number; targetScore: number } | null;
+  concurrency: number;
+  maxAttempts: number;
+  intervalMs: number;            // minimum gap between two files starting, to stay under provider rate limits
+  onUpdate: (job: BatchJob) => void;
+  onSaved?: (run: ProjectRun) => void;
+  shouldStop: () => boolean;
+}
+
+// A file that cannot be read will not read on the next attempt either
+class UnreadableFileError extends Error {}
+
+export const createBatchJob = (file: File): BatchJob => ({
+  id: crypto.randomUUID(),
+  file,
+  status: 'queued',
+  attempts: 0,
+  progress: ''
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const convertFile = async (
+  file: File,
+  { settings, refine, onSaved, shouldStop }: BatchOptions,
+  onProgress: (text: string) => void
+): Promise<BatchOutput> => {
+  onProgress('正在读取网格...');
+  const buffer = await file.arrayBuffer();
+  let loaded: LoadedMesh;
+  try {
+    loaded = parseMesh(file.name, buffer);
+  } catch (err) {
+    throw new UnreadableFileError(err instanceof Error ? err.message : String(err));
+  }
+  // Batches reconstruct whole files; an assembly becomes one model
+  const merged = loaded.bodies.length > 1;
+  const original = merged ? mergeBodies(loaded.bodies) : loaded.bodies[0].geometry;
+  // Nobody is there to pick a unit, so the detected one is used; the up axis stays as written
+  const orientation: OrientationOptions = { ...DEFAULT_ORIENTATION, unit: detectUnits(original).unit };
+  const source = orientMesh(original, orientation);
+  const geometry: GeometryData = { filename: file.name, format: loaded.format };
+
+  onProgress('正在测量几何尺寸...');
+  let metrics: MeshMetrics | null = null;
+  try {
+    metrics = analyzeGeometry(source);
+  } catch (err) {
+    console.error(`Geometry analysis failed for ${file.name}:`, err);
+  }
+
+  const outcome = await convertGeometry(source, {
+    settings,
+    filename: file.name,
+    bodyNote: merged ? `Reconstructing all ${loaded.bodies.length} bodies of the file as one model.` : undefined,
+    orientation,
+    metrics,
+    refine,
+    onProgress,
+    shouldStop
+  });
+
+  const { result, reconstruction, renderError, renderWarnings } = await renderAndScore(source, outcome.result, onProgress);
+
+  let runId: string | null = null;
+  try {
+    const run = await saveRun({
+      filename: file.name,
+      format: loaded.format,
+      source: buffer,
+      body: merged ? 'all' : 0,
+      orientation,
+      captureProfile: outcome.profile,
+      prompt: outcome.context,
+      settings: toRunSettings(settings),
+      result,
+      snapshots: outcome.snapshots,
+      iterations: outcome.iterations,
+      bestIteration: outcome.best
+    });
+    runId = run.id;
+    onSaved?.(run);
+  } catch (err) {
+    console.error(`Saving batch run for ${file.name} failed:`, err);
+  }
+
+  return {
+    geometry,
+    body: merged ? `全部 ${loaded.bodies.length} 个实体` : undefined,
+    result,
+    snapshots: outcome.snapshots,
+    profile: outcome.profile,
+    iterations: outcome.iterations,
+    metrics,
+    reconstruction,
+    renderError,
+    renderWarnings,
+    runId
+  };
+};
+
+// Runs every queued job; failed files go to the back of the queue until they run out of attempts.
+// Stopping lets running files finish and marks the rest cancelled, so they can be resumed later.
+export const runBatch = async (jobs: BatchJob[], options: BatchOptions): Promise<void> => {
+  const { concurrency, maxAttempts, intervalMs, onUpdate, shouldStop } = options;
+  const queue = jobs.filter(job => job.status === 'queued').map(job => ({ ...job }));
+  let nextStart = 0;
+
+  const update = (job: BatchJob, patch: Partial<BatchJob>) => {
+    Object.assign(job, patch);
+    onUpdate({ ...job });
+  };
+
+  const worker = async () => {
+    while (!shouldStop()) {
+      const job = queue.shift();
+      if (!job) return;
+
+      const wait = nextStart - Date.now();
+      nextStart = Math.max(nextStart, Date.now()) + intervalMs;
+      if (wait > 0) {
+        update(job, { progress: `等待 ${Math.ceil(wait / 1000)} 秒 (请求间隔)...` });
+        await sleep(wait);
+        if (shouldStop()) {
+          queue.unshift(job);
+          return;
+        }
+      }
+
+      update(job, { status: 'running', attempts: job.attempts + 1, progress: '开始处理...' });
+      const started = Date.now();
+      try {
+        const output = await convertFile(job.file, options, progress => update(job, { progress }));
+        update(job, { status: 'done', progress: '', error: undefined, output, elapsedMs: Date.now() - started });
+      } catch (err) {
+        console.error(`Batch conversion of ${job.file.name} failed:`, err);
+        const error = err instanceof Error ? err.message : String(err);
+        const retry = !(err instanceof UnreadableFileError) && job.attempts < maxAttempts;
+        update(job, {
+          status: retry ? 'queued' : 'failed',
+          progress: retry ? `等待重试 (已尝试 ${job.attempts}/${maxAttempts} 次)` : '',
+          error,
+          elapsedMs: Date.now() - started
+        });
+        if (retry) queue.push(job);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+  queue.forEach(job => update(job, { status: 'cancelled', progress: '' }));
+};
+
+export const toExportInput = (output: BatchOutput): ExportInput => ({
+  geometry: output.geometry,
+  body: output.body,
+  result: output.result,
+  reconstruction: output.reconstruction,
+  renderError: output.renderError,
+  renderWarnings: output.renderWarnings,
+  snapshots: output.snapshots,
+  snapshotLabels: getViewLabels(output.profile),
+  metrics: output.metrics,
+  iterations: output.iterations
+});
+
+// The results table, one row per file in queue order
+export const batchSummary = (jobs: BatchJob[]): BatchSummary => ({
+  head: ['文件', '状态', '精度分数', '体素 IoU', 'Hausdorff (mm)', '体积差 (%)', '尝试次数', '耗时 (s)', '备注'],
+  rows: jobs.map(job => {
+    const fidelity = job.output?.result.fidelity;
+    return [
+      job.file.name,
+      BATCH_STATUS_LABELS[job.status],
+      fidelity ? String(fidelity.score) : '',
+      fidelity ? fidelity.iou.toFixed(3) : '',
+      fidelity ? fidelity.hausdorff.toFixed(2) : '',
+      fidelity ? fidelity.volumeDiffPercent.toFixed(1) : '',
+      String(job.attempts),
+      job.elapsedMs !== undefined ? (job.elapsedMs / 1000).toFixed(1) : '',
+      job.output?.renderError ? `编译失败: ${job.output.renderError}` : job.status === 'done' ? '' : job.error ?? ''
+    ];
+  })
+});
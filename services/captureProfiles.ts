@@ -0,0 +1,221 @@
+// Capture profiles: which directions to shoot, with which camera and in which rendering styles.
+// The same profile drives the renderer, the on-screen labels and the prompt text, so they cannot drift.
+
+export type CameraProjection = 'perspective' | 'orthographic';
+export type RenderStyle = 'shaded' | 'silhouette' | 'edges' | 'depth' | 'normal';
+export type SectionAxis = 'x' | 'y' | 'z';
+
+// Directions live in Three.js view space (Y-up, +Z front), i.e. the STL frame rotated by -90° about X
+export interface CaptureView {
+  name: string;
+  vec: [number, number, number];   // from the object centre towards the camera
+  up: [number, number, number];
+}
+
+// Cross-sections sent after the exterior views: every axis is cut at every position
+export interface SectionPlan {
+  enabled: boolean;
+  axes: SectionAxis[];             // cut-plane normals in the STL frame
+  positions: number[];             // percent of the bounding box along the cut axis
+}
+
+export interface SectionCut {
+  axis: SectionAxis;
+  position: number;                // percent of the bounding box along the axis
+}
+
+export interface CaptureProfile {
+  preset: string;                  // id of the preset it started from, 'custom' for free-form directions
+  views: CaptureView[];
+  projection: CameraProjection;
+  styles: RenderStyle[];
+  resolution: number;              // square capture size in px
+  distanceFactor: number;          // camera distance as a multiple of the fit-to-view distance
+  quality: number;                 // JPEG quality
+  annotations: boolean;            // burn scale bar, axis triad and bbox dimensions into every image
+  sections: SectionPlan;
+}
+
+export const RENDER_STYLES: { id: RenderStyle; label: string; prompt: string }[] = [
+  { id: 'shaded', label: '着色', prompt: 'shaded: lit solid on a dark background' },
+  { id: 'silhouette', label: '剪影', prompt: 'silhouette: flat white object on black, outline only' },
+  { id: 'edges', label: '边线', prompt: 'edge-line: dark solid with feature edges (dihedral > 30°) drawn in white' },
+  { id: 'depth', label: '深度图', prompt: 'depth map: grayscale, brighter = closer to the camera, normalised to the object' },
+  { id: 'normal', label: '法线图', prompt: 'normal map: RGB encodes the camera-space surface normal (flat faces share one colour)' }
+];
+
+const CARDINAL: CaptureView[] = [
+  { name: 'Top',    vec: [0, 1, 0],  up: [0, 0, -1] },
+  { name: 'Bottom', vec: [0, -1, 0], up: [0, 0, 1] },
+  { name: 'Front',  vec: [0, 0, 1],  up: [0, 1, 0] },
+  { name: 'Back',   vec: [0, 0, -1], up: [0, 1, 0] },
+  { name: 'Left',   vec: [-1, 0, 0], up: [0, 1, 0] },
+  { name: 'Right',  vec: [1, 0, 0],  up: [0, 1, 0] },
+];
+
+const SPHERICAL_18: CaptureView[] = [
+  // Group 1: The 6 Cardinal Views (Face-Normal)
+  ...CARDINAL,
+
+  // Group 2.1: Horizontal Ring (Y-Ring) - 45 degrees
+  { name: 'Front-Right', vec: [1, 0, 1],   up: [0, 1, 0] },
+  { name: 'Right-Back',  vec: [1, 0, -1],  up: [0, 1, 0] },
+  { name: 'Back-Left',   vec: [-1, 0, -1], up: [0, 1, 0] },
+  { name: 'Left-Front',  vec: [-1, 0, 1],  up: [0, 1, 0] },
+
+  // Group 2.2: Vertical X-Ring - 45 degrees
+  { name: 'Top-Front',    vec: [0, 1, 1],   up: [0, 1, 0] },
+  { name: 'Front-Bottom', vec: [0, -1, 1],  up: [0, 1, 0] },
+  { name: 'Bottom-Back',  vec: [0, -1, -1], up: [0, 1, 0] },
+  { name: 'Back-Top',     vec: [0, 1, -1],  up: [0, 1, 0] },
+
+  // Group 2.3: Vertical Z-Ring - 45 degrees
+  { name: 'Top-Right',    vec: [1, 1, 0],   up: [0, 1, 0] },
+  { name: 'Right-Bottom', vec: [1, -1, 0],  up: [0, 1, 0] },
+  { name: 'Bottom-Left',  vec: [-1, -1, 0], up: [0, 1, 0] },
+  { name: 'Left-Top',     vec: [-1, 1, 0],  up: [0, 1, 0] },
+];
+
+// A camera looking straight down (or up) the vertical axis needs a horizontal up vector
+const upFor = (vec: [number, number, number]): [number, number, number] => {
+  const len = Math.hypot(...vec) || 1;
+  if (Math.abs(vec[1]) / len > 0.99) return vec[1] > 0 ? [0, 0, -1] : [0, 0, 1];
+  return [0, 1, 0];
+};
+
+// Face, edge and corner directions of a cube: 6 + 12 + 8
+const sphere26 = (): CaptureView[] => {
+  const views: CaptureView[] = [];
+  for (const y of [1, 0, -1]) {
+    for (const z of [1, 0, -1]) {
+      for (const x of [-1, 0, 1]) {
+        if (x === 0 && y === 0 && z === 0) continue;
+        const parts = [
+          y > 0 ? 'Top' : y < 0 ? 'Bottom' : '',
+          z > 0 ? 'Front' : z < 0 ? 'Back' : '',
+          x < 0 ? 'Left' : x > 0 ? 'Right' : ''
+        ].filter(Boolean);
+        const vec: [number, number, number] = [x, y, z];
+        views.push({ name: parts.join('-'), vec, up: upFor(vec) });
+      }
+    }
+  }
+  return views;
+};
+
+// 12 stops around the vertical axis at 25° elevation, plus straight top and bottom
+const turntable = (): CaptureView[] => {
+  const elevation = 25 * Math.PI / 180;
+  const ring: CaptureView[] = Array.from({ length: 12 }, (_, i) => {
+    const azimuth = i * 30 * Math.PI / 180;
+    const vec: [number, number, number] = [
+      Math.sin(azimuth) * Math.cos(elevation),
+      Math.sin(elevation),
+      Math.cos(azimuth) * Math.cos(elevation)
+    ];
+    return { name: `Turntable ${String(i * 30).padStart(3, '0')}°`, vec, up: [0, 1, 0] };
+  });
+  return [...ring, CARDINAL[0], CARDINAL[1]];
+};
+
+const baseProfile = {
+  styles: ['shaded'] as RenderStyle[],
+  resolution: 800,
+  distanceFactor: 1.6,
+  quality: 0.9,
+  annotations: true,
+  sections: { enabled: false, axes: ['x', 'y', 'z'] as SectionAxis[], positions: [25, 50, 75] }
+};
+
+export const PRESET_PROFILES: { id: string; label: string; profile: CaptureProfile }[] = [
+  { id: 'ortho6', label: '6 正交视图', profile: { ...baseProfile, preset: 'ortho6', views: CARDINAL, projection: 'orthographic' } },
+  { id: 'spherical18', label: '18 球面视图', profile: { ...baseProfile, preset: 'spherical18', views: SPHERICAL_18, projection: 'perspective' } },
+  { id: 'sphere26', label: '26 球面视图', profile: { ...baseProfile, preset: 'sphere26', views: sphere26(), projection: 'perspective' } },
+  { id: 'turntable', label: '转台 (12+2)', profile: { ...baseProfile, preset: 'turntable', views: turntable(), projection: 'perspective' } }
+];
+
+export const DEFAULT_CAPTURE_PROFILE: CaptureProfile = PRESET_PROFILES[1].profile;
+
+// STL frame (Z-up) <-> view space (Y-up): view = (x, z, -y), stl = (x, -z, y)
+export const stlToView = ([x, y, z]: [number, number, number]): [number, number, number] => [x, z, -y];
+export const viewToStl = ([x, y, z]: [number, number, number]): [number, number, number] => [x, -z, y];
+
+// Custom directions, one per line: "name: x y z" with the direction in the STL frame (Z-up)
+export const parseCustomViews = (text: string): CaptureView[] => {
+  const views: CaptureView[] = [];
+  text.split('\n').forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) return;
+    const match = trimmed.match(/^(?:(.+?)\s*:)?\s*(-?[\d.]+)[\s,]+(-?[\d.]+)[\s,]+(-?[\d.]+)$/);
+    if (!match) throw new Error(`第 ${i + 1} 行格式错误, 应为 "名称: x y z"`);
+    const stl: [number, number, number] = [Number(match[2]), Number(match[3]), Number(match[4])];
+    if (stl.every(v => v === 0)) throw new Error(`第 ${i + 1} 行方向不能为零向量`);
+    const vec = stlToView(stl);
+    views.push({ name: match[1]?.trim() || `View ${views.length + 1}`, vec, up: upFor(vec) });
+  });
+  if (views.length === 0) throw new Error("至少需要一个视角方向");
+  return views;
+};
+
+export const formatCustomViews = (views: CaptureView[]): string =>
+  views.map(v => `${v.name}: ${viewToStl(v.vec).map(n => +n.toFixed(3)).join(' ')}`).join('\n');
+
+// Planned cuts in capture order (axis-major), empty when sections are off
+export const sectionPlanes = (profile: CaptureProfile): SectionCut[] =>
+  profile.sections.enabled
+    ? profile.sections.axes.flatMap(axis => profile.sections.positions.map(position => ({ axis, position })))
+    : [];
+
+export const sectionLabel = (axis: SectionAxis, position: number) => `Section ${axis.toUpperCase()} @ ${position}%`;
+
+// One label per captured image: view-major then style, followed by the sections, matching the capture order
+export const getViewLabels = (profile: CaptureProfile): string[] => [
+  ...profile.views.flatMap(v =>
+    profile.styles.map(style =>
+      profile.styles.length > 1 ? `${v.name} · ${RENDER_STYLES.find(s => s.id === style)?.label ?? style}` : v.name
+    )
+  ),
+  ...sectionPlanes(profile).map(p => sectionLabel(p.axis, p.position))
+];
+
+export const imageCount = (profile: CaptureProfile) =>
+  profile.views.length * profile.styles.length + sectionPlanes(profile).length;
+
+const describeDirection = (vec: [number, number, number]): string => {
+  const stl = viewToStl(vec);
+  const len = Math.hypot(...stl) || 1;
+  return `(${stl.map(n => (n / len).toFixed(2)).join(', ')})`;
+};
+
+// The [VIEW SET] block: tells the model exactly what each image is
+export const describeProfileForPrompt = (profile: CaptureProfile): string => {
+  const styles = profile.styles.map(id => RENDER_STYLES.find(s => s.id === id)?.prompt ?? id);
+  const viewCount = profile.views.length * profile.styles.length;
+  const labels = getViewLabels(profile).slice(0, viewCount);
+  const sections = sectionPlanes(profile);
+  const lines = [
+    `[VIEW SET — ${imageCount(profile)} images]`,
+    `Camera: ${profile.projection === 'orthographic'
+      ? 'orthographic (parallel projection, no perspective distortion; equal lengths look equal)'
+      : 'perspective (40° vertical FOV)'}, fit-to-view with ${profile.distanceFactor}x margin, aimed at the bounding-box centre.`,
+    `Rendering styles, in this order for every view:`,
+    ...styles.map(s => `  - ${s}`),
+    `Directions are unit vectors from the object centre to the camera in the working frame (Z-up, millimetres).`,
+    ...(profile.annotations ? [
+      `Annotations burned into every image (all lengths in mm, working frame):`,
+      `  - bottom-left: scale bar${profile.projection === 'perspective' ? ', exact only at the depth of the bounding-box centre' : ''}`,
+      `  - bottom-right: axis triad, X red, Y green, Z blue (⊙ = axis points at the camera, ⊗ = away)`,
+      `  - coloured dimension lines along the bounding-box edges, labelled with the overall X / Y / Z extents`,
+      `  Use them to size features; they are not part of the geometry.`
+    ] : []),
+    `Image order:`,
+    ...labels.map((label, i) => `  ${i + 1}. ${label} — from ${describeDirection(profile.views[Math.floor(i / profile.styles.length)].vec)}`),
+    ...(sections.length > 0 ? [
+      `Cross-section images follow the views: the mesh cut by a plane perpendicular to the named axis, material filled, holes empty.`,
+      `Each image prints its exact offset in mm, its in-plane axes and a scale bar; all sections of one axis share the same scale and framing (the full bounding box).`,
+      `The [SECTIONS] block in the user context lists every cut with its offset and filled area.`,
+      ...sections.map((p, i) => `  ${viewCount + i + 1}. ${sectionLabel(p.axis, p.position)}`)
+    ] : [])
+  ];
+  return lines.join('\n');
+};
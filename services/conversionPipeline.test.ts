@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { DEFAULT_SETTINGS, AppSettings } from './settingsStore';
+import { PRESET_PROFILES } from './captureProfiles';
+import { analyzeGeometry } from './geometryAnalysis';
+import { convertDesign, convertGeometry, renderAndScore } from './conversionPipeline';
+import { softwareRenderer } from './softwareRenderer';
+import { parseScad } from './scadParser';
+
+// The mock fixture is a 40 × 30 × 10 plate with two Ø6 holes; a plain box of the same size scores high against it
+const plate = () => new THREE.BoxGeometry(40, 30, 10).toNonIndexed();
+
+const mockSettings: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  provider: 'mock',
+  captureProfile: {
+    ...PRESET_PROFILES.find(p => p.id === 'ortho6')!.profile,
+    resolution: 96,
+    annotations: false
+  }
+};
+
+describe('convertGeometry with the mock provider', () => {
+  it('captures, generates, compiles and scores without a network', async () => {
+    const source = plate();
+    const outcome = await convertGeometry(source, {
+      settings: mockSettings,
+      filename: 'plate.stl',
+      metrics: analyzeGeometry(source),
+      refine: null,
+      renderer: softwareRenderer
+    });
+
+    expect(outcome.snapshots).toHaveLength(6);
+    expect(outcome.context).toContain('Source file: plate.stl');
+    expect(() => parseScad(outcome.result.code)).not.toThrow();
+
+    const { result, reconstruction, renderError } = await renderAndScore(source, outcome.result);
+    expect(renderError).toBeNull();
+    expect(reconstruction?.getAttribute('position').count).toBeGreaterThan(0);
+    expect(result.fidelity?.score).toBeGreaterThan(80);
+    expect(result.fidelity?.bboxDelta.x).toBeCloseTo(0, 3);
+  });
+
+  it('runs refine rounds that echo the script and keep the best iteration', async () => {
+    const source = plate();
+    const outcome = await convertGeometry(source, {
+      settings: mockSettings,
+      filename: 'plate.stl',
+      metrics: null,
+      refine: { maxRounds: 1, targetScore: 101 },
+      renderer: softwareRenderer
+    });
+
+    expect(outcome.iterations).toHaveLength(2);
+    expect(outcome.iterations[1].result.code).toBe(outcome.iterations[0].result.code);
+    expect(outcome.best).not.toBeNull();
+    expect(outcome.result.fidelity?.score).toBe(outcome.iterations[0].score);
+  });
+});
+
+describe('convertDesign', () => {
+  const design = { intent: '带两个安装孔的底板, 孔距需可调', references: [] };
+
+  it('generates from the design intent alone', async () => {
+    const outcome = await convertDesign(design, { settings: mockSettings, renderer: softwareRenderer });
+    expect(outcome.snapshots).toEqual([]);
+    expect(outcome.context).toContain('no mesh');
+    expect(() => parseScad(outcome.result.code)).not.toThrow();
+  });
+
+  it('needs a model backend and something to work from', async () => {
+    await expect(convertDesign(design, { settings: { ...mockSettings, provider: 'fitting' } })).rejects.toThrow('需要网格');
+    await expect(convertDesign({ intent: ' ', references: [] }, { settings: mockSettings })).rejects.toThrow('参考图像');
+  });
+});
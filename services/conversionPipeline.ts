@@ -0,0 +1,188 @@
+import type { BufferGeometry } from 'three';
+import { DesignInput, GenerationResult, MeshMetrics, RefineIteration } from '../types';
+import { AppSettings } from './settingsStore';
+import { CaptureProfile, imageCount, sectionPlanes } from './captureProfiles';
+import { ViewRenderer, browserRenderer } from './viewRenderer';
+import { captureSections, formatSectionsForPrompt } from './crossSection';
+import { formatMetricsForPrompt } from './geometryAnalysis';
+import { fitPrimitives, fitToScad, formatFitForPrompt } from './primitiveFitting';
+import { detectSweep, formatSweepForPrompt, sweepToScad } from './sweepDetection';
+import { OrientationOptions, DEFAULT_ORIENTATION, formatOrientationForPrompt } from './meshOrientation';
+import { formatSymmetryForPrompt, hasSymmetry } from './symmetryDetection';
+import { createProvider } from './llmProvider';
+import { DesignBrief, generateScadFromImage, generateScadFromReferences } from './reconstructionService';
+import { runRefinement } from './refineLoop';
+import { renderScad } from './openscadService';
+import { computeFidelity } from './fidelity';
+
+// One source mesh to one script: capture, prompt, generate and optionally refine.
+// Shared by the interactive run, the batch queue and the CLI; UI state is only touched through the callbacks.
+
+export interface ConvertOptions {
+  settings: AppSettings;
+  filename: string;
+  bodyNote?: string;             // which body of a multi-body file is being reconstructed, for the prompt
+  orientation?: OrientationOptions; // how the source was normalized from the file frame; defaults to as-is
+  metrics: MeshMetrics | null;
+  design?: DesignInput;          // user reference images and design intent, sent apart from the captures
+  refine: { maxRounds: number; targetScore: number } | null;
+  renderer?: ViewRenderer;       // defaults to WebGL/canvas; the CLI passes the software renderer
+  onProgress?: (text: string) => void;
+  onSnapshots?: (snapshots: string[], profile: CaptureProfile) => void;
+  onRefineStart?: () => void;
+  onIteration?: (iteration: RefineIteration) => void;
+  shouldStop?: () => boolean;
+}
+
+export interface ConvertOutcome {
+  result: GenerationResult;
+  snapshots: string[];           // full-resolution captures, empty for the fitting backend
+  iterations: RefineIteration[];
+  best: number | null;           // index of the kept iteration when refined
+  context: string;               // prompt context, reused when refining later
+  profile: CaptureProfile;
+}
+
+export interface RenderedOutcome {
+  result: GenerationResult;      // with fidelity once it rendered
+  reconstruction: BufferGeometry | null;
+  renderError: string | null;
+  renderWarnings: string[];
+}
+
+// File name, body, frame, measurements and symmetry: the part of the prompt context that needs no captures
+export const baseContextLines = (
+  filename: string,
+  bodyNote: string | undefined,
+  metrics: MeshMetrics | null,
+  orientation: OrientationOptions = DEFAULT_ORIENTATION
+): string[] => {
+  const lines = [`Source file: ${filename}`];
+  if (bodyNote) lines.push(bodyNote);
+  lines.push(formatOrientationForPrompt(orientation));
+  if (metrics) lines.push(formatMetricsForPrompt(metrics));
+  if (metrics && hasSymmetry(metrics.symmetry)) lines.push(formatSymmetryForPrompt(metrics.symmetry));
+  return lines;
+};
+
+export const EMPTY_DESIGN: DesignInput = { intent: '', references: [] };
+
+// Reference images resized like the captures and labelled by position and caption; undefined when nothing is attached
+export const prepareDesign = async (
+  design: DesignInput | undefined,
+  maxDim: number,
+  renderer: ViewRenderer = browserRenderer
+): Promise<DesignBrief | undefined> => {
+  if (!design || (!design.intent.trim() && design.references.length === 0)) return undefined;
+  const images = await Promise.all(design.references.map(r => renderer.optimizeImage(r.dataUrl, maxDim)));
+  return {
+    intent: design.intent,
+    references: design.references.map((r, i) => ({
+      label: `REFERENCE ${i + 1}: ${r.caption.trim() || r.name}`,
+      base64: images[i].split(',')[1]
+    }))
+  };
+};
+
+export const convertGeometry = async (source: BufferGeometry, options: ConvertOptions): Promise<ConvertOutcome> => {
+  const { settings, onProgress, renderer = browserRenderer } = options;
+  const profile = settings.captureProfile;
+
+  // The fitting backend works on the mesh itself: no captures, no model, no refine rounds
+  if (settings.provider === 'fitting') {
+    onProgress?.("正在本地拟合解析曲面...");
+    // Let the progress text paint before the synchronous fit blocks the thread
+    await new Promise(resolve => setTimeout(resolve, 0));
+    // An exact revolve/extrude profile beats piecing the part together from primitives
+    const sweep = detectSweep(source);
+    const result = sweep ? sweepToScad(sweep) : fitToScad(fitPrimitives(source));
+    return { result, snapshots: [], iterations: [], best: null, context: '', profile };
+  }
+
+  // 1. Capture the views of the selected profile on an offscreen renderer
+  onProgress?.(`正在进行全方位几何覆盖采集 (${imageCount(profile)} 张)...`);
+  const viewSnapshots = await renderer.captureViews(source, profile);
+  // Cross-sections expose bores and pockets the exterior views cannot see
+  const sections = captureSections(source, sectionPlanes(profile), profile.resolution, profile.quality, renderer.renderSection);
+  const snapshots = [...viewSnapshots, ...sections.images];
+  options.onSnapshots?.(snapshots, profile);
+
+  // 2. Optimize all images and strip the data URL header for the API
+  onProgress?.(`正在优化 ${snapshots.length} 张全景几何图像...`);
+  const optimized = await Promise.all(snapshots.map(snap => renderer.optimizeImage(snap, settings.imageResolution)));
+  const base64Images = optimized.map(s => s.split(',')[1]);
+
+  // 3. Send to the selected model provider
+  const provider = createProvider(settings);
+  onProgress?.(`${provider.label} 正在执行单层几何拓扑分析...`);
+  const contextLines = baseContextLines(options.filename, options.bodyNote, options.metrics, options.orientation);
+  if (sections.slices.length > 0) contextLines.push(formatSectionsForPrompt(sections.slices));
+  if (settings.fitHints) {
+    const sweep = detectSweep(source);
+    contextLines.push(sweep ? formatSweepForPrompt(sweep) : formatFitForPrompt(fitPrimitives(source)));
+  }
+  const context = contextLines.join('\n\n');
+  const design = await prepareDesign(options.design, settings.imageResolution, renderer);
+  const response = await generateScadFromImage(provider, base64Images, context, profile, onProgress, options.metrics?.symmetry, design);
+
+  // 4. Optional refine loop: render, compare against the source and send the diff back
+  if (!options.refine) return { result: response, snapshots, iterations: [], best: null, context, profile };
+
+  options.onRefineStart?.();
+  const outcome = await runRefinement(source, response, {
+    provider,
+    maxRounds: options.refine.maxRounds,
+    targetScore: options.refine.targetScore,
+    context,
+    profile,
+    symmetry: options.metrics?.symmetry,
+    design,
+    renderer,
+    onProgress,
+    onIteration: options.onIteration,
+    shouldStop: options.shouldStop
+  });
+  return { result: outcome.best.result, snapshots, iterations: outcome.iterations, best: outcome.best.index, context, profile };
+};
+
+export interface DesignConvertOptions {
+  settings: AppSettings;
+  renderer?: ViewRenderer;
+  onProgress?: (text: string) => void;
+}
+
+// Reconstruction from reference images and design intent alone: no captures, no measurements and
+// no source to score or refine against
+export const convertDesign = async (design: DesignInput, options: DesignConvertOptions): Promise<ConvertOutcome> => {
+  const { settings, onProgress, renderer = browserRenderer } = options;
+  if (settings.provider === 'fitting') throw new Error("几何拟合需要网格; 仅凭参考资料重构请选择模型后端。");
+
+  onProgress?.(`正在准备 ${design.references.length} 张参考图像...`);
+  const brief = await prepareDesign(design, settings.imageResolution, renderer);
+  if (!brief) throw new Error("请先添加参考图像或填写设计意图。");
+
+  const provider = createProvider(settings);
+  onProgress?.(`${provider.label} 正在根据参考资料建模...`);
+  const context = 'Source: reference images and design intent only, no mesh file.';
+  const result = await generateScadFromReferences(provider, brief, context, onProgress);
+  return { result, snapshots: [], iterations: [], best: null, context, profile: settings.captureProfile };
+};
+
+// Compile the final script and score it when the refine loop has not already; a failed compile is reported, not thrown
+export const renderAndScore = async (
+  source: BufferGeometry,
+  result: GenerationResult,
+  onProgress?: (text: string) => void
+): Promise<RenderedOutcome> => {
+  try {
+    onProgress?.('正在编译 OpenSCAD...');
+    const rendered = await renderScad(result.code);
+    if (!result.fidelity) {
+      onProgress?.('正在计算重构精度...');
+      result = { ...result, fidelity: computeFidelity(source, rendered.geometry).metrics };
+    }
+    return { result, reconstruction: rendered.geometry, renderError: null, renderWarnings: rendered.warnings };
+  } catch (err) {
+    return { result, reconstruction: null, renderError: err instanceof Error ? err.message : String(err), renderWarnings: [] };
+  }
+};
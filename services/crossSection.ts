@@ -0,0 +1,265 @@
+import * as THREE from 'three';
+import { SectionAxis, SectionCut } from './captureProfiles';
+import { getTriangleArray } from './meshUtils';
+import { formatMm, niceLength } from './snapshotAnnotations';
+
+type Point2 = [number, number];
+
+export interface SectionSlice extends SectionCut {
+  offset: number;        // absolute plane coordinate in mm (STL frame)
+  loops: Point2[][];     // in-plane polylines, closed unless the mesh is open
+  area: number;          // filled area in mm², holes subtracted
+}
+
+const AXIS_INDEX: Record<SectionAxis, number> = { x: 0, y: 1, z: 2 };
+
+// In-plane (horizontal, vertical) axes of each cut, i.e. the section seen from +X, -Y and +Z respectively
+export const SECTION_PLANE_AXES: Record<SectionAxis, [number, number]> = { x: [1, 2], y: [0, 2], z: [0, 1] };
+export const AXIS_NAMES = ['X', 'Y', 'Z'];
+
+// Triangle/plane intersection segments, chained into polylines by shared endpoints
+export const sliceTriangles = (tris: Float32Array, axis: SectionAxis, offset: number, tolerance = 1e-6): Point2[][] => {
+  const k = AXIS_INDEX[axis];
+  const [h, v] = SECTION_PLANE_AXES[axis];
+  const segments: [Point2, Point2][] = [];
+  const d = [0, 0, 0];
+  const pts: Point2[] = [];
+
+  for (let t = 0; t < tris.length; t += 9) {
+    // Vertices exactly on the plane count as above it so no segment degenerates
+    for (let i = 0; i < 3; i++) {
+      const dist = tris[t + i * 3 + k] - offset;
+      d[i] = dist === 0 ? tolerance : dist;
+    }
+    if ((d[0] > 0 && d[1] > 0 && d[2] > 0) || (d[0] < 0 && d[1] < 0 && d[2] < 0)) continue;
+
+    pts.length = 0;
+    for (let i = 0; i < 3; i++) {
+      const j = (i + 1) % 3;
+      if ((d[i] > 0) === (d[j] > 0)) continue;
+      const s = d[i] / (d[i] - d[j]);
+      const a = t + i * 3;
+      const b = t + j * 3;
+      pts.push([
+        tris[a + h] + (tris[b + h] - tris[a + h]) * s,
+        tris[a + v] + (tris[b + v] - tris[a + v]) * s
+      ]);
+    }
+    if (pts.length === 2) segments.push([pts[0], pts[1]]);
+  }
+
+  return chainSegments(segments, tolerance);
+};
+
+const chainSegments = (segments: [Point2, Point2][], tolerance: number): Point2[][] => {
+  const scale = 1 / Math.max(tolerance * 100, 1e-9);
+  const key = (p: Point2) => `${Math.round(p[0] * scale)},${Math.round(p[1] * scale)}`;
+  const byEndpoint = new Map<string, number[]>();
+  segments.forEach((seg, i) => {
+    seg.forEach(p => {
+      const k = key(p);
+      const list = byEndpoint.get(k);
+      if (list) list.push(i);
+      else byEndpoint.set(k, [i]);
+    });
+  });
+
+  const used = new Uint8Array(segments.length);
+  const next = (p: Point2): Point2 | null => {
+    for (const i of byEndpoint.get(key(p)) ?? []) {
+      if (used[i]) continue;
+      used[i] = 1;
+      const [a, b] = segments[i];
+      return key(a) === key(p) ? b : a;
+    }
+    return null;
+  };
+
+  const loops: Point2[][] = [];
+  segments.forEach((seg, i) => {
+    if (used[i]) return;
+    used[i] = 1;
+    const loop: Point2[] = [seg[0], seg[1]];
+    // Walk forward, then backward from the start for open chains
+    for (let p = next(seg[1]); p; p = next(p)) loop.push(p);
+    for (let p = next(seg[0]); p; p = next(p)) loop.unshift(p);
+    if (loop.length > 2 && key(loop[0]) === key(loop[loop.length - 1])) loop.pop();
+    loops.push(loop);
+  });
+  return loops;
+};
+
+const signedArea = (loop: Point2[]): number => {
+  let sum = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const [x0, y0] = loop[i];
+    const [x1, y1] = loop[(i + 1) % loop.length];
+    sum += x0 * y1 - x1 * y0;
+  }
+  return sum / 2;
+};
+
+const pointInLoop = ([x, y]: Point2, loop: Point2[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    const [xi, yi] = loop[i];
+    const [xj, yj] = loop[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Even-odd area: a loop nested inside an odd number of others is a hole
+const filledArea = (loops: Point2[][]): number =>
+  loops.reduce((sum, loop, i) => {
+    const depth = loops.filter((other, j) => j !== i && pointInLoop(loop[0], other)).length;
+    const area = Math.abs(signedArea(loop));
+    return sum + (depth % 2 === 0 ? area : -area);
+  }, 0);
+
+export const sliceGeometry = (
+  geometry: THREE.BufferGeometry,
+  axis: SectionAxis,
+  position: number,
+  tris: Float32Array = getTriangleArray(geometry)
+): SectionSlice => {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox ?? new THREE.Box3();
+  const k = AXIS_INDEX[axis];
+  const min = box.min.getComponent(k);
+  const max = box.max.getComponent(k);
+  // Nudge the extreme cuts inwards so 0% / 100% still hit the end faces
+  const eps = (max - min) * 1e-4;
+  const offset = Math.min(Math.max(min + ((max - min) * position) / 100, min + eps), max - eps);
+  const loops = sliceTriangles(tris, axis, offset);
+  return { axis, position, offset, loops, area: filledArea(loops) };
+};
+
+// Pixel layout of a section image framed on the whole bounding box, so every section of one axis shares a scale
+export const sectionFrame = (axis: SectionAxis, box: THREE.Box3, size: number) => {
+  const [h, v] = SECTION_PLANE_AXES[axis];
+  const minH = box.min.getComponent(h);
+  const minV = box.min.getComponent(v);
+  const spanH = Math.max(box.max.getComponent(h) - minH, 1e-6);
+  const spanV = Math.max(box.max.getComponent(v) - minV, 1e-6);
+  const margin = size * 0.12;
+  const pxPerMm = Math.min((size - margin * 2) / spanH, (size - margin * 2) / spanV);
+  const originX = (size - spanH * pxPerMm) / 2;
+  const originY = (size + spanV * pxPerMm) / 2;
+  const toPx = ([x, y]: Point2): Point2 => [originX + (x - minH) * pxPerMm, originY - (y - minV) * pxPerMm];
+  return { h, v, spanH, spanV, margin, pxPerMm, originX, originY, toPx };
+};
+
+// The two caption lines printed in the top-left corner of a section image
+export const sectionCaption = (slice: SectionSlice): [string, string] => [
+  `SECTION ${slice.axis.toUpperCase()} = ${formatMm(slice.offset)} mm (${slice.position}%)`,
+  `area ${slice.area.toFixed(1)} mm² · ${slice.loops.length} loop${slice.loops.length === 1 ? '' : 's'}`
+];
+
+// Filled 2D profile with its caption, in-plane axes and a scale bar
+export const renderSection = (slice: SectionSlice, box: THREE.Box3, size: number, quality = 0.9): string => {
+  const { h, v, spanH, spanV, margin, pxPerMm, originX, originY, toPx } = sectionFrame(slice.axis, box, size);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context creation failed");
+
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, size, size);
+
+  // Bounding box outline for reference
+  ctx.setLineDash([6, 4]);
+  ctx.strokeStyle = '#475569';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(originX, originY - spanV * pxPerMm, spanH * pxPerMm, spanV * pxPerMm);
+  ctx.setLineDash([]);
+
+  ctx.beginPath();
+  slice.loops.forEach(loop => {
+    loop.forEach((p, i) => {
+      const [x, y] = toPx(p);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+  });
+  ctx.fillStyle = '#6366f1';
+  ctx.fill('evenodd');
+  ctx.strokeStyle = '#e2e8f0';
+  ctx.lineWidth = Math.max(1, size / 400);
+  ctx.stroke();
+
+  const font = Math.round(size / 36);
+  ctx.font = `${font}px monospace`;
+  ctx.fillStyle = '#e2e8f0';
+  ctx.textBaseline = 'top';
+  const [title, detail] = sectionCaption(slice);
+  ctx.fillText(title, 8, 8);
+  ctx.fillStyle = '#94a3b8';
+  ctx.fillText(detail, 8, 12 + font);
+
+  // In-plane axes in the bottom-right corner, scale bar in the bottom-left
+  const ax = size - margin * 0.9;
+  const ay = size - margin * 0.35;
+  const arrow = size * 0.06;
+  ctx.strokeStyle = '#94a3b8';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(ax, ay);
+  ctx.lineTo(ax + arrow, ay);
+  ctx.moveTo(ax, ay);
+  ctx.lineTo(ax, ay - arrow);
+  ctx.stroke();
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`+${AXIS_NAMES[h]}`, ax + arrow + 4, ay);
+  ctx.fillText(`+${AXIS_NAMES[v]}`, ax - font * 0.6, ay - arrow - font * 0.7);
+
+  const barMm = niceLength((size * 0.25) / pxPerMm);
+  const barPx = barMm * pxPerMm;
+  const bx = margin * 0.5;
+  ctx.strokeStyle = '#e2e8f0';
+  ctx.beginPath();
+  ctx.moveTo(bx, ay);
+  ctx.lineTo(bx + barPx, ay);
+  ctx.moveTo(bx, ay - 5);
+  ctx.lineTo(bx, ay + 5);
+  ctx.moveTo(bx + barPx, ay - 5);
+  ctx.lineTo(bx + barPx, ay + 5);
+  ctx.stroke();
+  ctx.fillStyle = '#e2e8f0';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(`${formatMm(barMm)} mm`, bx, ay - 8);
+
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+export type SectionRenderer = (slice: SectionSlice, box: THREE.Box3, size: number, quality?: number) => string;
+
+// Slice and render every planned cut; images come back in plan order
+export const captureSections = (
+  geometry: THREE.BufferGeometry,
+  planes: SectionCut[],
+  size: number,
+  quality = 0.9,
+  render: SectionRenderer = renderSection
+): { slices: SectionSlice[]; images: string[] } => {
+  const tris = getTriangleArray(geometry);
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox ?? new THREE.Box3();
+  const slices = planes.map(p => sliceGeometry(geometry, p.axis, p.position, tris));
+  return { slices, images: slices.map(s => render(s, box, size, quality)) };
+};
+
+export const formatSectionsForPrompt = (slices: SectionSlice[]): string => {
+  if (slices.length === 0) return '';
+  const lines = ['[SECTIONS] (cuts of the source mesh, STL frame, mm)'];
+  slices.forEach(s => {
+    const [h, v] = SECTION_PLANE_AXES[s.axis];
+    lines.push(
+      `- ${s.axis.toUpperCase()} = ${s.offset.toFixed(2)} (${s.position}%): ${s.loops.length} loop(s), filled area ${s.area.toFixed(1)} mm², in-plane axes ${AXIS_NAMES[h]} → right, ${AXIS_NAMES[v]} → up`
+    );
+  });
+  return lines.join('\n');
+};
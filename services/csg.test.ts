@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { CSG } from './csg';
+import { makeCube, makeCylinder } from './scadGeometry';
+import { getTriangleArray } from './meshUtils';
+import { signedVolume } from './fidelity';
+
+const volume = (solid: CSG) => signedVolume(getTriangleArray(solid.toBufferGeometry()));
+
+// Cube of edge `s` with its minimum corner at `at`
+const cubeAt = (s: number, at: [number, number, number]) =>
+  makeCube([s, s, s], false).transform(new THREE.Matrix4().makeTranslation(...at));
+
+describe('CSG booleans', () => {
+  it('unions overlapping cubes without counting the overlap twice', () => {
+    expect(volume(cubeAt(10, [0, 0, 0]).union(cubeAt(10, [5, 0, 0])))).toBeCloseTo(1500, 4);
+  });
+
+  it('unions disjoint cubes into both volumes', () => {
+    expect(volume(cubeAt(10, [0, 0, 0]).union(cubeAt(10, [20, 0, 0])))).toBeCloseTo(2000, 4);
+  });
+
+  it('subtracts and intersects overlapping cubes', () => {
+    const a = cubeAt(10, [0, 0, 0]);
+    const b = cubeAt(10, [5, 5, 5]);
+    expect(volume(a.subtract(b))).toBeCloseTo(1000 - 125, 4);
+    expect(volume(a.intersect(b))).toBeCloseTo(125, 4);
+  });
+
+  it('drills a hole that matches the polygonal cylinder volume', () => {
+    const fragments = 32;
+    const hole = makeCylinder(30, 3, 3, true, fragments);
+    const polygonArea = 0.5 * fragments * 9 * Math.sin((2 * Math.PI) / fragments);
+    expect(volume(makeCube([20, 20, 10], true).subtract(hole))).toBeCloseTo(4000 - polygonArea * 10, 3);
+  });
+
+  it('leaves nothing when a solid is subtracted from itself', () => {
+    const a = cubeAt(10, [0, 0, 0]);
+    expect(a.subtract(a.clone()).isEmpty()).toBe(true);
+    expect(a.intersect(cubeAt(5, [20, 20, 20])).isEmpty()).toBe(true);
+  });
+});
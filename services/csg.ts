@@ -0,0 +1,281 @@
+import * as THREE from 'three';
+
+// Constructive Solid Geometry on BSP trees (after Evan Wallace's csg.js).
+// Solids are plain lists of convex polygons; the boolean operations clip the
+// polygons of each operand against the other's BSP tree.
+
+const EPSILON = 1e-5;
+
+const COPLANAR = 0;
+const FRONT = 1;
+const BACK = 2;
+const SPANNING = 3;
+
+export type Vec3Tuple = [number, number, number];
+
+class Plane {
+  constructor(public normal: THREE.Vector3, public w: number) {}
+
+  static fromPoints(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): Plane | null {
+    const n = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+    const len = n.length();
+    if (len < 1e-12) return null;
+    n.divideScalar(len);
+    return new Plane(n, n.dot(a));
+  }
+
+  clone(): Plane {
+    return new Plane(this.normal.clone(), this.w);
+  }
+
+  flip() {
+    this.normal.negate();
+    this.w = -this.w;
+  }
+
+  // Sort `polygon` into the given lists, splitting it when it spans the plane
+  splitPolygon(
+    polygon: Polygon,
+    coplanarFront: Polygon[],
+    coplanarBack: Polygon[],
+    front: Polygon[],
+    back: Polygon[]
+  ) {
+    let polygonType = 0;
+    const types: number[] = [];
+    for (const v of polygon.vertices) {
+      const t = this.normal.dot(v) - this.w;
+      const type = t < -EPSILON ? BACK : t > EPSILON ? FRONT : COPLANAR;
+      polygonType |= type;
+      types.push(type);
+    }
+
+    switch (polygonType) {
+      case COPLANAR:
+        (this.normal.dot(polygon.plane.normal) > 0 ? coplanarFront : coplanarBack).push(polygon);
+        break;
+      case FRONT:
+        front.push(polygon);
+        break;
+      case BACK:
+        back.push(polygon);
+        break;
+      case SPANNING: {
+        const f: THREE.Vector3[] = [];
+        const b: THREE.Vector3[] = [];
+        const count = polygon.vertices.length;
+        for (let i = 0; i < count; i++) {
+          const j = (i + 1) % count;
+          const ti = types[i], tj = types[j];
+          const vi = polygon.vertices[i], vj = polygon.vertices[j];
+          if (ti !== BACK) f.push(vi);
+          if (ti !== FRONT) b.push(ti !== BACK ? vi.clone() : vi);
+          if ((ti | tj) === SPANNING) {
+            const t = (this.w - this.normal.dot(vi)) / this.normal.dot(new THREE.Vector3().subVectors(vj, vi));
+            const v = vi.clone().lerp(vj, t);
+            f.push(v);
+            b.push(v.clone());
+          }
+        }
+        if (f.length >= 3) front.push(new Polygon(f, polygon.plane));
+        if (b.length >= 3) back.push(new Polygon(b, polygon.plane));
+        break;
+      }
+    }
+  }
+}
+
+export class Polygon {
+  plane: Plane;
+
+  constructor(public vertices: THREE.Vector3[], plane?: Plane) {
+    this.plane = plane ?? (Plane.fromPoints(vertices[0], vertices[1], vertices[2]) as Plane);
+  }
+
+  // Returns null for degenerate (zero-area) input so callers can drop it
+  static create(vertices: THREE.Vector3[]): Polygon | null {
+    if (vertices.length < 3) return null;
+    for (let i = 2; i < vertices.length; i++) {
+      const plane = Plane.fromPoints(vertices[0], vertices[i - 1], vertices[i]);
+      if (plane) return new Polygon(vertices, plane);
+    }
+    return null;
+  }
+
+  clone(): Polygon {
+    return new Polygon(this.vertices.map(v => v.clone()), this.plane.clone());
+  }
+
+  flip() {
+    this.vertices.reverse();
+    this.plane.flip();
+  }
+}
+
+class BspNode {
+  plane: Plane | null = null;
+  front: BspNode | null = null;
+  back: BspNode | null = null;
+  polygons: Polygon[] = [];
+
+  constructor(polygons?: Polygon[]) {
+    if (polygons) this.build(polygons);
+  }
+
+  invert() {
+    for (const p of this.polygons) p.flip();
+    this.plane?.flip();
+    this.front?.invert();
+    this.back?.invert();
+    const tmp = this.front;
+    this.front = this.back;
+    this.back = tmp;
+  }
+
+  clipPolygons(polygons: Polygon[]): Polygon[] {
+    if (!this.plane) return polygons.slice();
+    let front: Polygon[] = [];
+    let back: Polygon[] = [];
+    for (const p of polygons) this.plane.splitPolygon(p, front, back, front, back);
+    if (this.front) front = this.front.clipPolygons(front);
+    back = this.back ? this.back.clipPolygons(back) : [];
+    return front.concat(back);
+  }
+
+  clipTo(bsp: BspNode) {
+    this.polygons = bsp.clipPolygons(this.polygons);
+    this.front?.clipTo(bsp);
+    this.back?.clipTo(bsp);
+  }
+
+  allPolygons(): Polygon[] {
+    let polygons = this.polygons.slice();
+    if (this.front) polygons = polygons.concat(this.front.allPolygons());
+    if (this.back) polygons = polygons.concat(this.back.allPolygons());
+    return polygons;
+  }
+
+  build(polygons: Polygon[]) {
+    if (!polygons.length) return;
+    if (!this.plane) this.plane = polygons[0].plane.clone();
+    const front: Polygon[] = [];
+    const back: Polygon[] = [];
+    for (const p of polygons) this.plane.splitPolygon(p, this.polygons, this.polygons, front, back);
+    if (front.length) {
+      if (!this.front) this.front = new BspNode();
+      this.front.build(front);
+    }
+    if (back.length) {
+      if (!this.back) this.back = new BspNode();
+      this.back.build(back);
+    }
+  }
+}
+
+const polygonsBounds = (polygons: Polygon[]): THREE.Box3 => {
+  const box = new THREE.Box3();
+  for (const p of polygons) for (const v of p.vertices) box.expandByPoint(v);
+  return box;
+};
+
+export class CSG {
+  constructor(public polygons: Polygon[] = []) {}
+
+  static fromTriangles(triangles: Vec3Tuple[][]): CSG {
+    const polygons: Polygon[] = [];
+    for (const face of triangles) {
+      const p = Polygon.create(face.map(([x, y, z]) => new THREE.Vector3(x, y, z)));
+      if (p) polygons.push(p);
+    }
+    return new CSG(polygons);
+  }
+
+  clone(): CSG {
+    return new CSG(this.polygons.map(p => p.clone()));
+  }
+
+  bounds(): THREE.Box3 {
+    return polygonsBounds(this.polygons);
+  }
+
+  isEmpty(): boolean {
+    return this.polygons.length === 0;
+  }
+
+  union(other: CSG): CSG {
+    if (this.isEmpty()) return other.clone();
+    if (other.isEmpty()) return this.clone();
+    // Disjoint operands do not interact; skip the BSP work entirely
+    if (!this.bounds().intersectsBox(other.bounds())) {
+      return new CSG(this.clone().polygons.concat(other.clone().polygons));
+    }
+    const a = new BspNode(this.clone().polygons);
+    const b = new BspNode(other.clone().polygons);
+    a.clipTo(b);
+    b.clipTo(a);
+    b.invert();
+    b.clipTo(a);
+    b.invert();
+    a.build(b.allPolygons());
+    return new CSG(a.allPolygons());
+  }
+
+  subtract(other: CSG): CSG {
+    if (this.isEmpty() || other.isEmpty()) return this.clone();
+    if (!this.bounds().intersectsBox(other.bounds())) return this.clone();
+    const a = new BspNode(this.clone().polygons);
+    const b = new BspNode(other.clone().polygons);
+    a.invert();
+    a.clipTo(b);
+    b.clipTo(a);
+    b.invert();
+    b.clipTo(a);
+    b.invert();
+    a.build(b.allPolygons());
+    a.invert();
+    return new CSG(a.allPolygons());
+  }
+
+  intersect(other: CSG): CSG {
+    if (this.isEmpty() || other.isEmpty()) return new CSG();
+    if (!this.bounds().intersectsBox(other.bounds())) return new CSG();
+    const a = new BspNode(this.clone().polygons);
+    const b = new BspNode(other.clone().polygons);
+    a.invert();
+    b.clipTo(a);
+    b.invert();
+    a.clipTo(b);
+    b.clipTo(a);
+    a.build(b.allPolygons());
+    a.invert();
+    return new CSG(a.allPolygons());
+  }
+
+  // Apply a 4x4 transform; mirrored transforms flip the winding to keep normals outward
+  transform(matrix: THREE.Matrix4): CSG {
+    const flip = matrix.determinant() < 0;
+    const polygons: Polygon[] = [];
+    for (const p of this.polygons) {
+      const vertices = p.vertices.map(v => v.clone().applyMatrix4(matrix));
+      if (flip) vertices.reverse();
+      const poly = Polygon.create(vertices);
+      if (poly) polygons.push(poly);
+    }
+    return new CSG(polygons);
+  }
+
+  // Fan-triangulate the convex polygons into a non-indexed BufferGeometry
+  toBufferGeometry(): THREE.BufferGeometry {
+    const positions: number[] = [];
+    for (const p of this.polygons) {
+      const v = p.vertices;
+      for (let i = 2; i < v.length; i++) {
+        positions.push(v[0].x, v[0].y, v[0].z, v[i - 1].x, v[i - 1].y, v[i - 1].z, v[i].x, v[i].y, v[i].z);
+      }
+    }
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.computeVertexNormals();
+    return geometry;
+  }
+}
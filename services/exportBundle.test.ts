@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { strFromU8, unzipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { ExportInput, buildBatchExport, buildExportBundle, exportBaseName } from './exportBundle';
+import { export3mf } from './meshExport';
+
+const input = (filename: string, reconstruction: THREE.BufferGeometry | null = null): ExportInput => ({
+  geometry: { filename, format: 'stl' },
+  result: { code: 'width = 40; // [10:100]\ncube(width);', explanation: '底板' },
+  reconstruction,
+  renderWarnings: [],
+  snapshots: [`data:image/jpeg;base64,${btoa('front')}`],
+  snapshotLabels: ['Front 45%'],
+  metrics: null,
+  iterations: []
+});
+
+describe('exportBaseName', () => {
+  it('drops the extension and replaces characters no file system accepts', () => {
+    expect(exportBaseName('bracket.v2.stl')).toBe('bracket.v2');
+    expect(exportBaseName('a/b:c?.obj')).toBe('a_b_c_');
+    expect(exportBaseName('.stl')).toBe('model');
+  });
+});
+
+describe('export3mf', () => {
+  it('welds triangle soup corners into a shared vertex list', () => {
+    const cube = new THREE.BoxGeometry(10, 10, 10).toNonIndexed();
+    const files = unzipSync(export3mf(cube, 'a<b'));
+    expect(Object.keys(files).sort()).toEqual(['3D/3dmodel.model', '[Content_Types].xml', '_rels/.rels']);
+
+    const model = strFromU8(files['3D/3dmodel.model']);
+    expect(model).toContain('name="a&lt;b"');
+    expect(model.match(/<vertex /g)).toHaveLength(8);
+    expect(model.match(/<triangle /g)).toHaveLength(12);
+  });
+});
+
+describe('buildExportBundle', () => {
+  it('packs the script, captures and reports, with meshes only when the script rendered', () => {
+    const files = unzipSync(buildExportBundle(input('part.stl')));
+    expect(Object.keys(files).sort()).toEqual(['part.scad', 'report.html', 'report.md', 'snapshots/01_front-45.jpg']);
+    expect(strFromU8(files['snapshots/01_front-45.jpg'])).toBe('front');
+
+    const report = strFromU8(files['report.md']);
+    expect(report).toContain('# part 重构报告');
+    expect(report).toContain('| width | 40 |');
+
+    const rendered = unzipSync(buildExportBundle(input('part.stl', new THREE.BoxGeometry(1, 1, 1))));
+    expect(Object.keys(rendered)).toEqual(expect.arrayContaining(['part.stl', 'part.3mf']));
+  });
+});
+
+describe('buildBatchExport', () => {
+  it('numbers folders of files with the same base name and writes the summary as CSV', () => {
+    const summary = { head: ['文件', '说明'], rows: [['part.stl', 'a, "b"'], ['part.obj', '—']] };
+    const files = unzipSync(buildBatchExport([input('part.stl'), input('part.obj')], summary));
+    expect(files['part/part.scad']).toBeDefined();
+    expect(files['part-2/part.scad']).toBeDefined();
+
+    expect([...files['summary.csv'].slice(0, 3)]).toEqual([0xef, 0xbb, 0xbf]);
+    const csv = strFromU8(files['summary.csv']);
+    expect(csv.startsWith('文件,说明\r\n')).toBe(true);
+    expect(csv).toContain('part.stl,"a, ""b"""\r\n');
+  });
+});
@@ -0,0 +1,313 @@
+import type { BufferGeometry } from 'three';
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { DesignInput, GenerationResult, GeometryData, MeshMetrics, RefineIteration, Vec3 } from '../types';
+import { formatParameterValue, parseParameters } from './scadParameters';
+import { export3mf, exportStl } from './meshExport';
+import { hasSymmetry, symmetrySummary } from './symmetryDetection';
+
+// Everything the app knows about one reconstruction, packaged for an engineering change ticket:
+// the script, its rendered mesh, the captures the model saw and a human-readable report.
+
+export interface ExportInput {
+  geometry: GeometryData;
+  body?: string;                    // which body of a multi-body file, when there is more than one
+  result: GenerationResult;
+  reconstruction: BufferGeometry | null;   // result.code rendered; meshes are left out when it failed
+  renderError?: string | null;
+  renderWarnings: string[];
+  snapshots: string[];              // data URLs, parallel to snapshotLabels
+  snapshotLabels: string[];
+  metrics: MeshMetrics | null;
+  iterations: RefineIteration[];
+  design?: DesignInput;             // reference images and design intent the user attached
+}
+
+// One block of the report, rendered to both Markdown and HTML
+type ReportSection = {
+  title: string;
+  text?: string;
+  table?: { head: string[]; rows: string[][] };
+  images?: { path: string; label: string }[];
+  code?: string;
+};
+
+const fmt = (n: number, digits = 2) => (Number.isFinite(n) ? n.toFixed(digits) : '—');
+const signed = (n: number, digits = 2) => `${n >= 0 ? '+' : ''}${fmt(n, digits)}`;
+const vec = (v: Vec3) => `${fmt(v.x)} × ${fmt(v.y)} × ${fmt(v.z)}`;
+
+const axisName = (v: Vec3) => {
+  if (Math.abs(v.x) > 0.999) return 'X';
+  if (Math.abs(v.y) > 0.999) return 'Y';
+  if (Math.abs(v.z) > 0.999) return 'Z';
+  return `(${fmt(v.x)}, ${fmt(v.y)}, ${fmt(v.z)})`;
+};
+
+// Source file name without its extension, safe to use as a file name on every OS
+export const exportBaseName = (filename: string) =>
+  filename.replace(/\.[^.]+$/, '').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'model';
+
+const slug = (label: string) =>
+  label.toLowerCase().replace(/%/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'view';
+
+// Captures are JPEG today; reference images keep whatever format the user attached
+const imageExt = (dataUrl: string) => {
+  const type = /^data:image\/([a-z]+)/.exec(dataUrl)?.[1] ?? 'jpeg';
+  return type === 'jpeg' ? 'jpg' : type;
+};
+
+const decodeDataUrl = (url: string): Uint8Array => {
+  const binary = atob(url.slice(url.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const snapshotPaths = (input: ExportInput) =>
+  input.snapshots.map((url, i) => {
+    const ext = imageExt(url);
+    const label = input.snapshotLabels[i] ?? `view ${i + 1}`;
+    return { path: `snapshots/${String(i + 1).padStart(2, '0')}_${slug(label)}.${ext}`, label };
+  });
+
+const referencePaths = (input: ExportInput) =>
+  (input.design?.references ?? []).map((ref, i) => ({
+    path: `references/${String(i + 1).padStart(2, '0')}_${slug(ref.name.replace(/\.[^.]+$/, ''))}.${imageExt(ref.dataUrl)}`,
+    label: `参考 ${i + 1}: ${ref.caption.trim() || ref.name}`
+  }));
+
+const buildSections = (input: ExportInput, scadName: string, exportedAt: Date): ReportSection[] => {
+  const { geometry, result, metrics, iterations } = input;
+  const sections: ReportSection[] = [];
+
+  const summary: string[][] = [
+    ['源文件', geometry.filename],
+    ...(input.body ? [['实体', input.body]] : []),
+    ['脚本', scadName],
+    ['生成后端', result.model ?? '—'],
+    ['手动修改', result.baseCode !== undefined ? '是' : '否'],
+    ['导出时间', exportedAt.toLocaleString('zh-CN')]
+  ];
+  if (input.reconstruction) summary.push(['重构网格三角面数', (input.reconstruction.getAttribute('position').count / 3).toLocaleString()]);
+  if (input.renderError) summary.push(['编译错误', input.renderError]);
+  sections.push({ title: '概要', table: { head: ['项目', '值'], rows: summary } });
+
+  const fidelity = result.fidelity;
+  if (fidelity) {
+    sections.push({
+      title: '重构精度',
+      text: fidelity.aligned === 'bbox' ? '包围盒中心对齐后比较。' : '按原始坐标比较。',
+      table: {
+        head: ['指标', '值'],
+        rows: [
+          ['精度分数', `${fidelity.score} / 100`],
+          ['Hausdorff (mm)', fmt(fidelity.hausdorff)],
+          ['平均偏差 (mm)', fmt(fidelity.meanDeviation, 3)],
+          ['源→重构 最大 / 平均 (mm)', `${fmt(fidelity.sourceToRecon.max)} / ${fmt(fidelity.sourceToRecon.mean, 3)}`],
+          ['重构→源 最大 / 平均 (mm)', `${fmt(fidelity.reconToSource.max)} / ${fmt(fidelity.reconToSource.mean, 3)}`],
+          ['体积 源 / 重构 (mm³)', `${fmt(fidelity.volumeSource, 1)} / ${fmt(fidelity.volumeRecon, 1)}`],
+          ['体积差', `${signed(fidelity.volumeDiffPercent, 1)}%`],
+          ['体素 IoU', fmt(fidelity.iou, 3)],
+          ['包围盒偏差 ΔX / ΔY / ΔZ (mm)', `${signed(fidelity.bboxDelta.x)} / ${signed(fidelity.bboxDelta.y)} / ${signed(fidelity.bboxDelta.z)}`]
+        ]
+      }
+    });
+  }
+
+  if (metrics) {
+    const { min, max, size } = metrics.boundingBox;
+    sections.push({
+      title: '源模型测量 (mm)',
+      table: {
+        head: ['测量', '值'],
+        rows: [
+          ['包围盒 X × Y × Z', vec(size)],
+          ['包围盒最小点', vec(min)],
+          ['包围盒最大点', vec(max)],
+          ['体积 (mm³)', fmt(metrics.volume, 1)],
+          ['表面积 (mm²)', fmt(metrics.surfaceArea, 1)],
+          ['三角面数', metrics.triangleCount.toLocaleString()],
+          ['质心', vec(metrics.centroid)],
+          ['主轴', metrics.principalAxes.map(ax => `${axisName(ax.direction)} ${fmt(ax.extent)}`).join(' / ')]
+        ]
+      }
+    });
+    if (metrics.cylinders.length > 0) {
+      sections.push({
+        title: `圆柱特征 (${metrics.cylinders.length})`,
+        table: {
+          head: ['类型', '直径', '轴', '长度', '中心', '覆盖'],
+          rows: metrics.cylinders.map(cyl => [
+            cyl.kind === 'hole' ? '孔' : '凸台',
+            fmt(cyl.radius * 2),
+            axisName(cyl.axis),
+            fmt(cyl.length),
+            `(${fmt(cyl.center.x)}, ${fmt(cyl.center.y)}, ${fmt(cyl.center.z)})`,
+            `${Math.round(cyl.coverageDeg)}°`
+          ])
+        }
+      });
+    }
+  }
+
+  if (metrics && hasSymmetry(metrics.symmetry)) {
+    sections.push({ title: '对称约束', table: { head: ['约束'], rows: symmetrySummary(metrics.symmetry).map(item => [item]) } });
+  }
+
+  const params = parseParameters(result.code);
+  sections.push(params.length > 0
+    ? {
+        title: `参数 (${params.length})`,
+        table: {
+          head: ['名称', '值', '分组', '说明'],
+          rows: params.map(p => [p.name, formatParameterValue(p.value), p.group, p.description])
+        }
+      }
+    : { title: '参数', text: '脚本没有可识别的顶层参数。' });
+
+  sections.push({ title: '说明', text: result.explanation || '—' });
+
+  if (iterations.length > 1) {
+    sections.push({
+      title: '迭代修正',
+      table: {
+        head: ['轮次', '分数', '备注'],
+        rows: iterations.map(it => [it.index === 0 ? '初次生成' : `第 ${it.index} 轮`, String(it.score), it.renderError ?? ''])
+      }
+    });
+  }
+
+  if (input.renderWarnings.length > 0) {
+    sections.push({ title: '编译警告', table: { head: ['警告'], rows: input.renderWarnings.map(w => [w]) } });
+  }
+
+  if (result.constraintWarnings && result.constraintWarnings.length > 0) {
+    sections.push({ title: '未表达的对称约束', table: { head: ['约束'], rows: result.constraintWarnings.map(w => [w]) } });
+  }
+
+  if (input.design?.intent.trim()) sections.push({ title: '设计意图', text: input.design.intent.trim() });
+  if (input.design && input.design.references.length > 0) sections.push({ title: '参考图像', images: referencePaths(input) });
+
+  if (input.snapshots.length > 0) sections.push({ title: '快照', images: snapshotPaths(input) });
+
+  sections.push({ title: '脚本', code: result.code });
+  return sections;
+};
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const toMarkdown = (title: string, sections: ReportSection[]): string => {
+  const out: string[] = [`# ${title}`];
+  for (const s of sections) {
+    out.push('', `## ${s.title}`);
+    if (s.text) out.push('', s.text);
+    if (s.table) {
+      out.push('', `| ${s.table.head.map(mdCell).join(' | ')} |`, `| ${s.table.head.map(() => '---').join(' | ')} |`);
+      s.table.rows.forEach(row => out.push(`| ${row.map(mdCell).join(' | ')} |`));
+    }
+    if (s.images) s.images.forEach(img => out.push('', `![${img.label}](${img.path})`));
+    if (s.code !== undefined) out.push('', '```openscad', s.code, '```');
+  }
+  return out.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[c] as string);
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;max-width:960px;margin:2rem auto;padding:0 1rem;color:#1e293b}
+h1{font-size:1.5rem}h2{font-size:1.1rem;margin-top:2rem;border-bottom:1px solid #e2e8f0;padding-bottom:.25rem}
+table{border-collapse:collapse;font-size:.85rem}td,th{border:1px solid #e2e8f0;padding:.25rem .5rem;text-align:left;vertical-align:top}
+th{background:#f8fafc}p{white-space:pre-wrap}figure{display:inline-block;margin:.5rem}figure img{max-width:280px;border:1px solid #e2e8f0}
+figcaption{font-size:.75rem;color:#64748b}pre{background:#0d1117;color:#c9d1d9;padding:1rem;overflow:auto;font-size:.8rem}`;
+
+const toHtml = (title: string, sections: ReportSection[]): string => {
+  const out: string[] = [
+    '<!DOCTYPE html>',
+    '<html lang="zh-CN"><head><meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title><style>${HTML_STYLE}</style></head><body>`,
+    `<h1>${escapeHtml(title)}</h1>`
+  ];
+  for (const s of sections) {
+    out.push(`<h2>${escapeHtml(s.title)}</h2>`);
+    if (s.text) out.push(`<p>${escapeHtml(s.text)}</p>`);
+    if (s.table) {
+      out.push(`<table><tr>${s.table.head.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr>`);
+      s.table.rows.forEach(row => out.push(`<tr>${row.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`));
+      out.push('</table>');
+    }
+    if (s.images) {
+      out.push(`<div>${s.images.map(img =>
+        `<figure><img src="${escapeHtml(img.path)}" alt="${escapeHtml(img.label)}"><figcaption>${escapeHtml(img.label)}</figcaption></figure>`
+      ).join('')}</div>`);
+    }
+    if (s.code !== undefined) out.push(`<pre><code>${escapeHtml(s.code)}</code></pre>`);
+  }
+  out.push('</body></html>');
+  return out.join('\n') + '\n';
+};
+
+// Bundle contents: <name>.scad, <name>.stl / .3mf (the rendered script), snapshots/NN_<view>.jpg,
+// references/NN_<file>.<ext>, report.md, report.html
+const bundleFiles = (input: ExportInput, exportedAt: Date): Record<string, Uint8Array> => {
+  const base = exportBaseName(input.geometry.filename);
+  const scadName = `${base}.scad`;
+  const files: Record<string, Uint8Array> = { [scadName]: strToU8(input.result.code) };
+
+  if (input.reconstruction) {
+    files[`${base}.stl`] = exportStl(input.reconstruction);
+    files[`${base}.3mf`] = export3mf(input.reconstruction, base);
+  }
+
+  snapshotPaths(input).forEach(({ path }, i) => {
+    files[path] = decodeDataUrl(input.snapshots[i]);
+  });
+  referencePaths(input).forEach(({ path }, i) => {
+    files[path] = decodeDataUrl(input.design!.references[i].dataUrl);
+  });
+
+  const title = `${base} 重构报告`;
+  const sections = buildSections(input, scadName, exportedAt);
+  files['report.md'] = strToU8(toMarkdown(title, sections));
+  files['report.html'] = strToU8(toHtml(title, sections));
+  return files;
+};
+
+export const buildExportBundle = (input: ExportInput, exportedAt = new Date()): Uint8Array =>
+  zipSync(bundleFiles(input, exportedAt));
+
+export interface BatchSummary {
+  head: string[];
+  rows: string[][];
+}
+
+const csvCell = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// One bundle folder per converted file, plus the batch results table as CSV and Markdown.
+// Files with the same base name get numbered folders.
+export const buildBatchExport = (inputs: ExportInput[], summary: BatchSummary, exportedAt = new Date()): Uint8Array => {
+  const files: Record<string, Uint8Array> = {};
+  const used = new Set<string>();
+  for (const input of inputs) {
+    const base = exportBaseName(input.geometry.filename);
+    let folder = base;
+    for (let n = 2; used.has(folder); n++) folder = `${base}-${n}`;
+    used.add(folder);
+    Object.entries(bundleFiles(input, exportedAt)).forEach(([path, data]) => {
+      files[`${folder}/${path}`] = data;
+    });
+  }
+
+  const csv = [summary.head, ...summary.rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+  // BOM so spreadsheet apps read the Chinese headers as UTF-8
+  files['summary.csv'] = strToU8('\ufeff' + csv + '\r\n');
+  files['summary.md'] = strToU8(toMarkdown(`批量重构结果 (${exportedAt.toLocaleString('zh-CN')})`, [{ title: '结果', table: summary }]));
+  return zipSync(files);
+};
+
+export const downloadFile = (data: Uint8Array | string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data as BlobPart], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { computeFidelity, signedVolume } from './fidelity';
+import { getTriangleArray } from './meshUtils';
+import { renderScadSync } from './openscadService';
+
+const mesh = (code: string) => renderScadSync(code).geometry;
+
+describe('signedVolume', () => {
+  it('measures closed meshes regardless of winding', () => {
+    expect(signedVolume(getTriangleArray(mesh('cube([10, 20, 5]);')))).toBeCloseTo(1000, 6);
+    const flipped = new THREE.BoxGeometry(10, 10, 10).toNonIndexed();
+    flipped.scale(-1, 1, 1);
+    expect(signedVolume(getTriangleArray(flipped))).toBeCloseTo(1000, 6);
+  });
+});
+
+describe('computeFidelity', () => {
+  it('scores a mesh against itself as a perfect match', () => {
+    const box = mesh('cube(10);');
+    const { metrics, vertexDeviation } = computeFidelity(box, box);
+    expect(metrics.score).toBe(100);
+    expect(metrics.iou).toBe(1);
+    expect(metrics.hausdorff).toBeCloseTo(0, 6);
+    expect(metrics.volumeDiffPercent).toBeCloseTo(0, 6);
+    expect(vertexDeviation).toHaveLength(box.getAttribute('position').count);
+    expect(Math.max(...vertexDeviation)).toBeCloseTo(0, 6);
+  });
+
+  it('reports an offset as Hausdorff distance unless aligned by bounding box', () => {
+    const source = mesh('cube(10);');
+    const shifted = mesh('translate([2, 0, 0]) cube(10);');
+
+    const absolute = computeFidelity(source, shifted).metrics;
+    expect(absolute.hausdorff).toBeCloseTo(2, 3);
+    // 800 mm³ overlap out of 1200 mm³ union
+    expect(absolute.iou).toBeCloseTo(2 / 3, 1);
+    expect(absolute.bboxDelta.x).toBeCloseTo(0, 6);
+
+    const aligned = computeFidelity(source, shifted, 'bbox').metrics;
+    expect(aligned.hausdorff).toBeCloseTo(0, 6);
+    expect(aligned.score).toBe(100);
+  });
+
+  it('measures a half-height reconstruction', () => {
+    const { metrics } = computeFidelity(mesh('cube(10);'), mesh('cube([10, 10, 5]);'));
+    expect(metrics.volumeSource).toBeCloseTo(1000, 6);
+    expect(metrics.volumeRecon).toBeCloseTo(500, 6);
+    expect(metrics.volumeDiffPercent).toBeCloseTo(-50, 6);
+    expect(metrics.iou).toBeCloseTo(0.5, 1);
+    expect(metrics.hausdorff).toBeCloseTo(5, 3);
+    expect(metrics.bboxDelta.z).toBeCloseTo(-5, 6);
+    expect(metrics.score).toBeLessThan(90);
+  });
+
+  it('scores an empty reconstruction as zero', () => {
+    const { metrics } = computeFidelity(mesh('cube(10);'), new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute([], 3)));
+    expect(metrics.score).toBe(0);
+    expect(metrics.iou).toBe(0);
+    expect(metrics.hausdorff).toBe(Infinity);
+  });
+});
@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import { FidelityMetrics } from '../types';
+import { TriangleGrid, getTriangleArray, sampleSurface, weldTriangles } from './meshUtils';
+
+const SURFACE_SAMPLES = 20000;
+const VOXEL_RESOLUTION = 64;
+// Mean deviation at which the distance half of the score reaches zero, as a fraction of the diagonal
+const DEVIATION_TOLERANCE = 0.05;
+
+export interface FidelityReport {
+  metrics: FidelityMetrics;
+  // Distance from every source vertex (in the geometry's own vertex order) to the reconstruction
+  vertexDeviation: Float32Array;
+}
+
+const boundsOf = (tris: Float32Array): THREE.Box3 => {
+  const box = new THREE.Box3();
+  const p = new THREE.Vector3();
+  for (let i = 0; i < tris.length; i += 3) box.expandByPoint(p.set(tris[i], tris[i + 1], tris[i + 2]));
+  return box;
+};
+
+export const signedVolume = (tris: Float32Array): number => {
+  let volume = 0;
+  for (let o = 0; o < tris.length; o += 9) {
+    const ax = tris[o], ay = tris[o + 1], az = tris[o + 2];
+    const bx = tris[o + 3], by = tris[o + 4], bz = tris[o + 5];
+    const cx = tris[o + 6], cy = tris[o + 7], cz = tris[o + 8];
+    volume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+  }
+  return Math.abs(volume);
+};
+
+// Inside/outside occupancy on a regular grid using ray parity along +Z for every column
+const voxelize = (tris: Float32Array, box: THREE.Box3, res: number): Uint8Array => {
+  const size = box.getSize(new THREE.Vector3());
+  const step = Math.max(size.x, size.y, size.z, 1e-6) / res;
+  const nx = Math.max(1, Math.ceil(size.x / step));
+  const ny = Math.max(1, Math.ceil(size.y / step));
+  const nz = Math.max(1, Math.ceil(size.z / step));
+  const columns: number[][] = Array.from({ length: nx * ny }, () => []);
+  // Tiny irrational offset keeps rays off shared edges and vertices
+  const jitter = step * 0.0137;
+
+  for (let o = 0; o < tris.length; o += 9) {
+    const ax = tris[o], ay = tris[o + 1], az = tris[o + 2];
+    const bx = tris[o + 3], by = tris[o + 4], bz = tris[o + 5];
+    const cx = tris[o + 6], cy = tris[o + 7], cz = tris[o + 8];
+    const det = (by - cy) * (ax - cx) + (cx - bx) * (ay - cy);
+    if (Math.abs(det) < 1e-12) continue;
+
+    const i0 = Math.max(0, Math.floor((Math.min(ax, bx, cx) - box.min.x) / step - 0.5));
+    const i1 = Math.min(nx - 1, Math.ceil((Math.max(ax, bx, cx) - box.min.x) / step - 0.5));
+    const j0 = Math.max(0, Math.floor((Math.min(ay, by, cy) - box.min.y) / step - 0.5));
+    const j1 = Math.min(ny - 1, Math.ceil((Math.max(ay, by, cy) - box.min.y) / step - 0.5));
+
+    for (let i = i0; i <= i1; i++) {
+      const px = box.min.x + (i + 0.5) * step + jitter;
+      for (let j = j0; j <= j1; j++) {
+        const py = box.min.y + (j + 0.5) * step + jitter * 0.7;
+        const l1 = ((by - cy) * (px - cx) + (cx - bx) * (py - cy)) / det;
+        const l2 = ((cy - ay) * (px - cx) + (ax - cx) * (py - cy)) / det;
+        const l3 = 1 - l1 - l2;
+        if (l1 < 0 || l2 < 0 || l3 < 0) continue;
+        columns[i * ny + j].push(l1 * az + l2 * bz + l3 * cz);
+      }
+    }
+  }
+
+  const grid = new Uint8Array(nx * ny * nz);
+  columns.forEach((hits, c) => {
+    if (hits.length < 2) return;
+    hits.sort((a, b) => a - b);
+    for (let h = 0; h + 1 < hits.length; h += 2) {
+      const k0 = Math.max(0, Math.ceil((hits[h] - box.min.z) / step - 0.5));
+      const k1 = Math.min(nz - 1, Math.floor((hits[h + 1] - box.min.z) / step - 0.5));
+      for (let k = k0; k <= k1; k++) grid[c * nz + k] = 1;
+    }
+  });
+  return grid;
+};
+
+const directedDistance = (
+  points: Float32Array,
+  grid: TriangleGrid
+): { max: number; mean: number; distances: Float32Array } => {
+  const count = points.length / 3;
+  const distances = new Float32Array(count);
+  const p = new THREE.Vector3();
+  let max = 0, sum = 0;
+  for (let i = 0; i < count; i++) {
+    p.set(points[i * 3], points[i * 3 + 1], points[i * 3 + 2]);
+    const d = grid.closestPoint(p).distance;
+    distances[i] = d;
+    sum += d;
+    if (d > max) max = d;
+  }
+  return { max, mean: count ? sum / count : 0, distances };
+};
+
+const translateTris = (tris: Float32Array, offset: THREE.Vector3): Float32Array => {
+  const out = new Float32Array(tris.length);
+  for (let i = 0; i < tris.length; i += 3) {
+    out[i] = tris[i] + offset.x;
+    out[i + 1] = tris[i + 1] + offset.y;
+    out[i + 2] = tris[i + 2] + offset.z;
+  }
+  return out;
+};
+
+// Compare a reconstruction against the source mesh, both in the source frame (Z-up, mm).
+// `aligned = 'bbox'` removes any global offset by matching bounding-box centres first.
+export const computeFidelity = (
+  source: THREE.BufferGeometry,
+  reconstruction: THREE.BufferGeometry,
+  aligned: 'absolute' | 'bbox' = 'absolute'
+): FidelityReport => {
+  const srcTris = getTriangleArray(source);
+  let recTris = getTriangleArray(reconstruction);
+
+  const srcBox = boundsOf(srcTris);
+  let recBox = boundsOf(recTris);
+  if (aligned === 'bbox' && !recBox.isEmpty()) {
+    const offset = srcBox.getCenter(new THREE.Vector3()).sub(recBox.getCenter(new THREE.Vector3()));
+    recTris = translateTris(recTris, offset);
+    recBox = boundsOf(recTris);
+  }
+
+  const srcSize = srcBox.getSize(new THREE.Vector3());
+  const recSize = recBox.isEmpty() ? new THREE.Vector3() : recBox.getSize(new THREE.Vector3());
+  const diagonal = Math.max(srcSize.length(), 1e-6);
+
+  const srcGrid = new TriangleGrid(srcTris);
+  const recGrid = new TriangleGrid(recTris);
+
+  // Per-vertex deviation on the welded source, mapped back to the original vertex order
+  const welded = weldTriangles(srcTris, Math.max(diagonal * 1e-7, 1e-6));
+  const vertexResult = directedDistance(welded.positions, recGrid);
+  const vertexDeviation = new Float32Array(welded.indices.length);
+  welded.indices.forEach((id, i) => { vertexDeviation[i] = vertexResult.distances[id]; });
+
+  const srcSamples = directedDistance(sampleSurface(srcTris, SURFACE_SAMPLES, 7), recGrid);
+  const recSamples = directedDistance(sampleSurface(recTris, SURFACE_SAMPLES, 11), srcGrid);
+  const recVertices = directedDistance(weldTriangles(recTris, Math.max(diagonal * 1e-7, 1e-6)).positions, srcGrid);
+
+  const sourceToRecon = { max: Math.max(srcSamples.max, vertexResult.max), mean: srcSamples.mean };
+  const reconToSource = { max: Math.max(recSamples.max, recVertices.max), mean: recSamples.mean };
+  const meanDeviation = (sourceToRecon.mean + reconToSource.mean) / 2;
+
+  // Voxel IoU over the union of both bounding boxes
+  const unionBox = srcBox.clone().union(recBox);
+  const srcVox = voxelize(srcTris, unionBox, VOXEL_RESOLUTION);
+  const recVox = voxelize(recTris, unionBox, VOXEL_RESOLUTION);
+  let inter = 0, union = 0;
+  for (let i = 0; i < srcVox.length; i++) {
+    if (srcVox[i] && recVox[i]) inter++;
+    if (srcVox[i] || recVox[i]) union++;
+  }
+  const iou = union ? inter / union : 0;
+
+  const volumeSource = signedVolume(srcTris);
+  const volumeRecon = signedVolume(recTris);
+  const empty = recTris.length === 0;
+
+  // Half overlap, half surface closeness
+  const closeness = empty ? 0 : Math.max(0, 1 - meanDeviation / (DEVIATION_TOLERANCE * diagonal));
+  const score = Math.round(100 * (0.5 * iou + 0.5 * closeness));
+
+  return {
+    metrics: {
+      hausdorff: empty ? Infinity : Math.max(sourceToRecon.max, reconToSource.max),
+      meanDeviation: empty ? Infinity : meanDeviation,
+      sourceToRecon,
+      reconToSource,
+      volumeSource,
+      volumeRecon,
+      volumeDiffPercent: volumeSource > 0 ? ((volumeRecon - volumeSource) / volumeSource) * 100 : 0,
+      iou,
+      bboxDelta: { x: recSize.x - srcSize.x, y: recSize.y - srcSize.y, z: recSize.z - srcSize.z },
+      score,
+      aligned
+    },
+    vertexDeviation
+  };
+};
+
+// Blue (on the surface) -> green -> yellow -> red (at or beyond maxDeviation)
+export const deviationColor = (value: number, maxDeviation: number, out: THREE.Color): THREE.Color => {
+  const t = THREE.MathUtils.clamp(maxDeviation > 0 ? value / maxDeviation : 0, 0, 1);
+  return out.setHSL((1 - t) * 0.66, 0.85, 0.5);
+};
+
+// Colour-scale ceiling: 95th percentile, so a few outlier vertices don't wash out the map
+export const deviationScale = (deviation: Float32Array): number => {
+  if (deviation.length === 0) return 0;
+  const sorted = Float32Array.from(deviation).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+};
+
+// Attach a per-vertex heatmap colour attribute to a (cloned) geometry
+export const applyDeviationColors = (
+  geometry: THREE.BufferGeometry,
+  deviation: Float32Array,
+  maxDeviation: number
+): THREE.BufferGeometry => {
+  const count = geometry.getAttribute('position').count;
+  const colors = new Float32Array(count * 3);
+  const c = new THREE.Color();
+  for (let i = 0; i < count; i++) {
+    deviationColor(deviation[i] ?? 0, maxDeviation, c);
+    colors[i * 3] = c.r;
+    colors[i * 3 + 1] = c.g;
+    colors[i * 3 + 2] = c.b;
+  }
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  return geometry;
+};
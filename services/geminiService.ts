@@ -1,132 +1,70 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { GenerationResult } from "../types";
+import { LlmProvider, ProviderSettings, ScadRequest, imageMimeType } from "./llmProvider";
 
-const SYSTEM_INSTRUCTION = `
-You are a Senior Reverse Engineering Specialist and OpenSCAD Expert.
-Your task is "Visual Reverse Engineering": reconstructing a physical 3D object into high-precision, parametric OpenSCAD code based on visual inputs.
+export const createGeminiProvider = (settings: ProviderSettings): LlmProvider => {
+  const label = `Gemini · ${settings.model}`;
 
-**STRICT INPUT PROTOCOL: The Single-Dataset Geometric Reconstruction Protocol**
-You will receive exactly 18 images. These are ALL "Global/Fit-to-View" images.
-You must ignore surface textures, micro-defects, or layer lines. Focus 100% on geometric topology.
-
----
-
-### DATASET: 18 SPHERICAL GLOBAL VIEWS
-*   **Visuals:** Fit-to-View (Whole object visible).
-*   **Composition:** 6 Cardinal Views + 12 Inter-Cardinal (45°) Views.
-
-### ANALYSIS LOGIC: "Volumetric Ambiguity Resolution"
-You must use the 18 views to solve 3D puzzles.
-
-1.  **Cardinal Views (6)**: Establish the Bounding Box and Primitives.
-    *   (e.g., "Front is rect, Top is rect -> Could be Cube or Cylinder").
-
-2.  **Inter-Cardinal Views (12)**: **CRITICAL STEP**. Use these to resolve the ambiguity.
-    *   Look at the "Front-Top" 45° angle.
-    *   If the edge is flat -> Chamfer.
-    *   If the edge curves smoothly -> Fillet.
-    *   If the edge is sharp -> No operation.
-    *   Use these views to see *inside* holes or behind occlusions.
-
-### SPATIAL INTEGRITY RULES (PREVENT FRACTURE & MISALIGNMENT):
-1.  **Single Coordinate System**: Determine the "Global Origin" (usually center of base) immediately. All parts must anchor to this (0,0,0).
-2.  **Modular Parametric Logic**: 
-    *   **Detect Symmetry**: If you see 3 claws, write \`module claw()\` and loop it. Do NOT write 3 separate blocks of code.
-    *   **Manifold Union**: Ensure parts overlap by epsilon (0.01mm) to prevent "floating parts".
-3.  **No Voxelization**: 
-    *   **BANNED**: Stacking thin slices to approximate a curve.
-    *   **REQUIRED**: Use continuous math (\`rotate_extrude\`, \`intersection\`, \`difference\`).
-
-### OUTPUT REQUIREMENTS:
-1.  **Language**: Logic/Variables in English.
-2.  **Comments**: **ALL COMMENTS inside the code must be in CHINESE (中文).**
-3.  **Explanation**: **The 'explanation' field must be in CHINESE (中文).**
-
-Output JSON Format:
-{
-  "code": "The OpenSCAD script...",
-  "explanation": "Reconstruction logic in Chinese..."
-}
-`;
-
-export const generateScadFromImage = async (
-  imagesBase64: string[],
-  additionalContext: string
-): Promise<GenerationResult> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please check your environment variables.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey });
-
-  // Structured Prompt based on Input Data Protocol
-  const promptText = `
-[CRITICAL INSTRUCTION: SINGLE-DATASET GEOMETRY ONLY]
-Input: 18 Global Views.
-Goal: 100% Topological Accuracy. Zero Skin Details.
-
-[TASK]
-1. Scan the 6 Cardinal views to build the "Mental Bounding Box".
-2. Scan the 12 Inter-Cardinal views to resolve "Edge Ambiguities" (Chamfer vs Fillet) and "Occlusions".
-3. Write the OpenSCAD code using **Modular Logic** (loops for repeating parts) to prevent misalignment.
-4. **Stop looking for skin details.** We are strictly building the mesh. Use the 18 angles solely to ensure the 3D geometry has no blind spots.
+  const generate = async ({ systemInstruction, prompt, imagesBase64, references = [] }: ScadRequest): Promise<string> => {
+    if (!settings.apiKey) {
+      throw new Error("API Key is missing. Please enter it in the settings dialog.");
+    }
 
-User Context: ${additionalContext}
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey });
 
-Remember:
-1. Code variables in English.
-2. **ALL COMMENTS** in the code must be in **CHINESE**.
-3. The **explanation** field must be in **CHINESE**.
-`;
+    const parts: any[] = [{ text: prompt }];
 
-  const parts: any[] = [{ text: promptText }];
+    // Add all images to the request
+    imagesBase64.forEach((imgData) => {
+      parts.push({
+        inlineData: {
+          mimeType: imageMimeType(imgData),
+          data: imgData
+        }
+      });
+    });
 
-  // Add all images to the request
-  imagesBase64.forEach((imgData) => {
-    parts.push({
-      inlineData: {
-        mimeType: 'image/jpeg',
-        data: imgData
-      }
+    // Reference images follow the renders, each introduced by its label so the prompt can point at it
+    references.forEach(({ label, base64 }) => {
+      parts.push({ text: `[${label}]` });
+      parts.push({ inlineData: { mimeType: imageMimeType(base64), data: base64 } });
     });
-  });
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview', 
-      contents: {
-        parts: parts
-      },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            code: {
-              type: Type.STRING,
+    try {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: {
+          parts: parts
+        },
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              code: {
+                type: Type.STRING,
+              },
+              explanation: {
+                type: Type.STRING,
+              }
             },
-            explanation: {
-              type: Type.STRING,
-            }
+            required: ["code", "explanation"],
           },
-          required: ["code", "explanation"],
-        },
-        temperature: 0.1, 
+          temperature: settings.temperature,
+        }
+      });
+
+      const text = response.text;
+      if (!text) {
+        throw new Error("Gemini 未生成任何响应。");
       }
-    });
 
-    const text = response.text;
-    if (!text) {
-      throw new Error("Gemini 未生成任何响应。");
-    }
+      return text;
 
-    const result = JSON.parse(text) as GenerationResult;
-    return result;
+    } catch (error) {
+      throw new Error("重构失败: " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("重构失败: " + (error instanceof Error ? error.message : String(error)));
-  }
-};
\ No newline at end of file
+  return { id: 'gemini', label, generate };
+};
@@ -0,0 +1,373 @@
+import * as THREE from 'three';
+import { CylinderCandidate, MeshMetrics, PrincipalAxis, Vec3 } from '../types';
+import {
+  buildEdgeFaces,
+  getTriangleArray,
+  planeBasis,
+  symmetricEigen3,
+  triangleNormal,
+  weldTriangles
+} from './meshUtils';
+import { detectSymmetry } from './symmetryDetection';
+
+// Wall faces must be this close to perpendicular to the candidate axis (|n·axis|)
+const WALL_TOLERANCE = 0.02;
+// Dihedral angle window (radians) for two facets of the same cylinder
+const MIN_FACET_TURN = THREE.MathUtils.degToRad(0.5);
+const MAX_FACET_TURN = THREE.MathUtils.degToRad(45);
+// Only report arcs that cover at least this much of the circumference
+const MIN_COVERAGE_DEG = 120;
+const MAX_CYLINDERS = 16;
+
+const toVec3 = (v: THREE.Vector3): Vec3 => ({ x: v.x, y: v.y, z: v.z });
+
+interface CylinderCluster {
+  axisIndex: number;
+  kind: 'hole' | 'boss';
+  cu: number;
+  cv: number;
+  radius: number;
+  weight: number;
+  coverage: number;
+  axialMin: number;
+  axialMax: number;
+}
+
+interface WallFacet {
+  nu: number;        // in-plane unit normal
+  nv: number;
+  tMin: number;      // extent along the in-plane tangent (-nv, nu)
+  tMax: number;
+  offset: number;    // signed distance of the facet line from the origin
+  axialMin: number;
+  axialMax: number;
+}
+
+// Detect circular walls around each candidate axis.
+// Wall triangles are first merged into connected coplanar facets (boolean
+// operations split facets into slivers). For a faceted cylinder the lines through
+// each facet's midpoint along its normal meet at the axis, so every pair of
+// adjacent facets votes for a centre/radius.
+const detectCylinders = (
+  tris: Float32Array,
+  axes: THREE.Vector3[],
+  maxDim: number
+): CylinderCandidate[] => {
+  const mesh = weldTriangles(tris, Math.max(maxDim * 1e-7, 1e-6));
+  const edges = buildEdgeFaces(mesh);
+
+  const normals: THREE.Vector3[] = [];
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    const n = new THREE.Vector3();
+    triangleNormal(tris, t, n);
+    normals.push(n);
+  }
+
+  const tolerance = Math.max(maxDim * 0.005, 0.02);
+  const clusters: CylinderCluster[] = [];
+  const facetsPerAxis: WallFacet[][] = [];
+  const pos = mesh.positions;
+  const pa = new THREE.Vector3(), pb = new THREE.Vector3();
+
+  axes.forEach((axis, axisIndex) => {
+    const [u, v] = planeBasis(axis);
+
+    // --- 1. Union coplanar, edge-connected wall triangles into facets ---
+    const isWall = new Uint8Array(mesh.triangleCount);
+    const planeKey: string[] = [];
+    for (let t = 0; t < mesh.triangleCount; t++) {
+      const n = normals[t];
+      if (Math.abs(n.dot(axis)) > WALL_TOLERANCE) continue;
+      isWall[t] = 1;
+      const nu = n.dot(u), nv = n.dot(v);
+      const len = Math.hypot(nu, nv);
+      const o = t * 9;
+      const offset = (tris[o] * (u.x * nu + v.x * nv) + tris[o + 1] * (u.y * nu + v.y * nv) + tris[o + 2] * (u.z * nu + v.z * nv)) / len;
+      planeKey[t] = `${Math.round(Math.atan2(nv, nu) * 2000)}_${Math.round(offset / (tolerance * 0.1))}`;
+    }
+
+    const parent = new Int32Array(mesh.triangleCount).map((_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+    edges.forEach(faces => {
+      if (faces.length !== 2) return;
+      const [fa, fb] = faces;
+      if (isWall[fa] && isWall[fb] && planeKey[fa] === planeKey[fb]) parent[find(fa)] = find(fb);
+    });
+
+    const facetOf = new Int32Array(mesh.triangleCount).fill(-1);
+    const facets: WallFacet[] = [];
+    const rootToFacet = new Map<number, number>();
+    for (let t = 0; t < mesh.triangleCount; t++) {
+      if (!isWall[t]) continue;
+      const root = find(t);
+      let id = rootToFacet.get(root);
+      if (id === undefined) {
+        const n = normals[root];
+        const nu = n.dot(u), nv = n.dot(v);
+        const len = Math.hypot(nu, nv);
+        id = facets.length;
+        facets.push({ nu: nu / len, nv: nv / len, tMin: Infinity, tMax: -Infinity, offset: 0, axialMin: Infinity, axialMax: -Infinity });
+        rootToFacet.set(root, id);
+      }
+      facetOf[t] = id;
+      const f = facets[id];
+      for (let k = 0; k < 3; k++) {
+        const o = t * 9 + k * 3;
+        pa.set(tris[o], tris[o + 1], tris[o + 2]);
+        const pu = pa.dot(u), pv = pa.dot(v);
+        const along = -f.nv * pu + f.nu * pv;
+        f.tMin = Math.min(f.tMin, along);
+        f.tMax = Math.max(f.tMax, along);
+        f.offset = f.nu * pu + f.nv * pv;
+        const ax = pa.dot(axis);
+        f.axialMin = Math.min(f.axialMin, ax);
+        f.axialMax = Math.max(f.axialMax, ax);
+      }
+    }
+    facetsPerAxis.push(facets);
+
+    const midpoint = (f: WallFacet): [number, number] => {
+      const tm = (f.tMin + f.tMax) / 2;
+      return [f.nu * f.offset - f.nv * tm, f.nv * f.offset + f.nu * tm];
+    };
+
+    // --- 2. Every pair of facets meeting at an axial edge votes for a circle ---
+    const seenPairs = new Set<string>();
+    edges.forEach((faces, key) => {
+      if (faces.length !== 2) return;
+      const ia = facetOf[faces[0]], ib = facetOf[faces[1]];
+      if (ia < 0 || ib < 0 || ia === ib) return;
+      const pairKey = ia < ib ? `${ia}_${ib}` : `${ib}_${ia}`;
+      if (seenPairs.has(pairKey)) return;
+
+      const [va, vb] = key.split('_').map(Number);
+      pa.set(pos[va * 3], pos[va * 3 + 1], pos[va * 3 + 2]);
+      pb.set(pos[vb * 3], pos[vb * 3 + 1], pos[vb * 3 + 2]);
+      const edgeLen = pa.distanceTo(pb);
+      if (edgeLen === 0) return;
+      if (Math.abs(pb.clone().sub(pa).dot(axis)) / edgeLen < 0.98) return;
+      seenPairs.add(pairKey);
+
+      const fa = facets[ia], fb = facets[ib];
+      const turn = Math.acos(THREE.MathUtils.clamp(fa.nu * fb.nu + fa.nv * fb.nv, -1, 1));
+      if (turn < MIN_FACET_TURN || turn > MAX_FACET_TURN) return;
+
+      const [mau, mav] = midpoint(fa);
+      const [mbu, mbv] = midpoint(fb);
+
+      // Solve ma + s*na = mb + t*nb
+      const det = fa.nu * (-fb.nv) - fa.nv * (-fb.nu);
+      if (Math.abs(det) < 1e-9) return;
+      const du = mbu - mau, dv = mbv - mav;
+      const s = (du * (-fb.nv) - dv * (-fb.nu)) / det;
+      const cu = mau + s * fa.nu;
+      const cv = mav + s * fa.nv;
+
+      const radius = Math.hypot(pa.dot(u) - cu, pa.dot(v) - cv);
+      if (!isFinite(radius) || radius < tolerance || radius > maxDim) return;
+
+      // Normals pointing towards the axis mean the wall is the inside of a bore
+      const kind: 'hole' | 'boss' = s > 0 ? 'hole' : 'boss';
+
+      let cluster = clusters.find(c =>
+        c.axisIndex === axisIndex &&
+        c.kind === kind &&
+        Math.abs(c.radius - radius) < tolerance &&
+        Math.hypot(c.cu - cu, c.cv - cv) < tolerance
+      );
+      if (!cluster) {
+        if (clusters.length > 4000) return;
+        cluster = { axisIndex, kind, cu: 0, cv: 0, radius: 0, weight: 0, coverage: 0, axialMin: Infinity, axialMax: -Infinity };
+        clusters.push(cluster);
+      }
+
+      // Running weighted average keeps the cluster centre stable
+      const weight = Math.min(fa.tMax - fa.tMin, fb.tMax - fb.tMin);
+      const w = cluster.weight + weight;
+      if (w <= 0) return;
+      cluster.cu = (cluster.cu * cluster.weight + cu * weight) / w;
+      cluster.cv = (cluster.cv * cluster.weight + cv * weight) / w;
+      cluster.radius = (cluster.radius * cluster.weight + radius * weight) / w;
+      cluster.weight = w;
+      cluster.axialMin = Math.min(cluster.axialMin, fa.axialMin, fb.axialMin);
+      cluster.axialMax = Math.max(cluster.axialMax, fa.axialMax, fb.axialMax);
+    });
+  });
+
+  // --- 3. Coverage: sum the angular span of all facets lying on each circle ---
+  clusters.forEach(c => {
+    if (c.weight <= 0) return;
+    const bins = new Uint8Array(72);
+    for (const f of facetsPerAxis[c.axisIndex]) {
+      const x0 = f.nu * f.offset - f.nv * f.tMin, y0 = f.nv * f.offset + f.nu * f.tMin;
+      const x1 = f.nu * f.offset - f.nv * f.tMax, y1 = f.nv * f.offset + f.nu * f.tMax;
+      const d0 = Math.hypot(x0 - c.cu, y0 - c.cv), d1 = Math.hypot(x1 - c.cu, y1 - c.cv);
+      const slack = tolerance * 2 + c.radius * 0.05;
+      if (Math.abs(d0 - c.radius) > slack || Math.abs(d1 - c.radius) > slack) continue;
+      // The facet must also face along the radius (towards or away from the axis)
+      const mx = (x0 + x1) / 2 - c.cu, my = (y0 + y1) / 2 - c.cv;
+      const ml = Math.hypot(mx, my);
+      if (ml === 0 || Math.abs((mx * f.nu + my * f.nv) / ml) < 0.9) continue;
+
+      let start = Math.atan2(y0 - c.cv, x0 - c.cu);
+      let span = Math.atan2(y1 - c.cv, x1 - c.cu) - start;
+      if (span > Math.PI) span -= 2 * Math.PI;
+      if (span < -Math.PI) span += 2 * Math.PI;
+      if (span < 0) { start += span; span = -span; }
+      const first = Math.floor(((start + Math.PI) / (2 * Math.PI)) * 72);
+      const last = Math.floor(((start + span + Math.PI) / (2 * Math.PI)) * 72);
+      for (let bin = first; bin <= last; bin++) bins[((bin % 72) + 72) % 72] = 1;
+    }
+    c.coverage = bins.reduce((sum, b) => sum + b, 0) * 5;
+  });
+
+  return clusters
+    .filter(c => c.coverage >= MIN_COVERAGE_DEG && c.axialMax > c.axialMin)
+    .sort((a, b) => b.coverage * (b.axialMax - b.axialMin) - a.coverage * (a.axialMax - a.axialMin))
+    .slice(0, MAX_CYLINDERS)
+    .map(c => {
+      const axis = axes[c.axisIndex];
+      const [u, v] = planeBasis(axis);
+      const mid = (c.axialMin + c.axialMax) / 2;
+      const center = u.clone().multiplyScalar(c.cu)
+        .add(v.clone().multiplyScalar(c.cv))
+        .add(axis.clone().multiplyScalar(mid));
+      return {
+        kind: c.kind,
+        axis: toVec3(axis),
+        center: toVec3(center),
+        radius: c.radius,
+        length: c.axialMax - c.axialMin,
+        coverageDeg: c.coverage
+      };
+    });
+};
+
+// Compute exact measurements of a mesh in its own coordinate frame
+export const analyzeGeometry = (geometry: THREE.BufferGeometry): MeshMetrics => {
+  const tris = getTriangleArray(geometry);
+  const triangleCount = tris.length / 9;
+
+  const box = new THREE.Box3();
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+  const centroid = new THREE.Vector3();
+  const triCenter = new THREE.Vector3();
+
+  let volume = 0;
+  let area = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const o = t * 9;
+    a.set(tris[o], tris[o + 1], tris[o + 2]);
+    b.set(tris[o + 3], tris[o + 4], tris[o + 5]);
+    c.set(tris[o + 6], tris[o + 7], tris[o + 8]);
+    box.expandByPoint(a).expandByPoint(b).expandByPoint(c);
+
+    // Signed tetrahedron volume against the origin
+    volume += a.dot(cross.crossVectors(b, c)) / 6;
+
+    const triArea = cross.crossVectors(b.clone().sub(a), c.clone().sub(a)).length() / 2;
+    area += triArea;
+    triCenter.copy(a).add(b).add(c).divideScalar(3);
+    centroid.addScaledVector(triCenter, triArea);
+  }
+  if (area > 0) centroid.divideScalar(area);
+
+  // Area-weighted covariance of the surface for the principal axes
+  const cov = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (let t = 0; t < triangleCount; t++) {
+    const o = t * 9;
+    a.set(tris[o], tris[o + 1], tris[o + 2]);
+    b.set(tris[o + 3], tris[o + 4], tris[o + 5]);
+    c.set(tris[o + 6], tris[o + 7], tris[o + 8]);
+    const triArea = cross.crossVectors(b.clone().sub(a), c.clone().sub(a)).length() / 2;
+    const d = triCenter.copy(a).add(b).add(c).divideScalar(3).sub(centroid);
+    const comps = [d.x, d.y, d.z];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        cov[i][j] += comps[i] * comps[j] * triArea;
+      }
+    }
+  }
+  if (area > 0) cov.forEach(row => row.forEach((_, j) => { row[j] /= area; }));
+
+  const eigen = symmetricEigen3(cov);
+  const principalAxes: PrincipalAxis[] = eigen.vectors.map((dir, i) => {
+    let min = Infinity, max = -Infinity;
+    for (let k = 0; k < tris.length; k += 3) {
+      const p = tris[k] * dir.x + tris[k + 1] * dir.y + tris[k + 2] * dir.z;
+      if (p < min) min = p;
+      if (p > max) max = p;
+    }
+    return { direction: toVec3(dir), variance: eigen.values[i], extent: max - min };
+  });
+
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z, 1e-6);
+
+  // Test the coordinate axes first, then any principal axis that is not already covered
+  const axes = [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+  eigen.vectors.forEach(dir => {
+    if (axes.every(ax => Math.abs(ax.dot(dir)) < 0.99)) axes.push(dir.clone());
+  });
+
+  const cylinders = triangleCount > 0 ? detectCylinders(tris, axes, maxDim) : [];
+
+  return {
+    boundingBox: {
+      min: toVec3(box.min),
+      max: toVec3(box.max),
+      size: toVec3(size)
+    },
+    volume: Math.abs(volume),
+    surfaceArea: area,
+    triangleCount,
+    centroid: toVec3(centroid),
+    principalAxes,
+    cylinders,
+    symmetry: detectSymmetry(tris, centroid, axes, cylinders, size.length())
+  };
+};
+
+const fmt = (n: number, digits = 2) => (Math.abs(n) < 1e-9 ? 0 : n).toFixed(digits);
+const fmtVec = (v: Vec3, digits = 2) => `(${fmt(v.x, digits)}, ${fmt(v.y, digits)}, ${fmt(v.z, digits)})`;
+
+const describeAxis = (v: Vec3): string => {
+  const comps: [string, number][] = [['X', v.x], ['Y', v.y], ['Z', v.z]];
+  const dominant = comps.find(([, value]) => Math.abs(value) > 0.999);
+  return dominant ? dominant[0] : fmtVec(v, 3);
+};
+
+// Structured measurement block that is sent to the model as ground truth
+export const formatMetricsForPrompt = (metrics: MeshMetrics): string => {
+  const { boundingBox: bb } = metrics;
+  const lines = [
+    '[MEASURED GEOMETRY — exact values computed from the mesh. Units: mm. Frame: working frame, Z-up]',
+    `Bounding box min: ${fmtVec(bb.min, 3)}  max: ${fmtVec(bb.max, 3)}`,
+    `Bounding box size: X=${fmt(bb.size.x, 3)} Y=${fmt(bb.size.y, 3)} Z=${fmt(bb.size.z, 3)}`,
+    `Volume: ${fmt(metrics.volume)} mm^3   Surface area: ${fmt(metrics.surfaceArea)} mm^2   Triangles: ${metrics.triangleCount}`,
+    `Surface centroid: ${fmtVec(metrics.centroid, 3)}`,
+    'Principal axes (largest spread first):',
+    ...metrics.principalAxes.map((ax, i) => `  ${i + 1}. direction ${describeAxis(ax.direction)}, extent ${fmt(ax.extent, 3)}`)
+  ];
+
+  if (metrics.cylinders.length > 0) {
+    lines.push('Cylindrical features (hole = bore/inner wall, boss = outer round surface):');
+    metrics.cylinders.forEach(cyl => {
+      lines.push(
+        `  - ${cyl.kind} Ø${fmt(cyl.radius * 2, 3)} (r=${fmt(cyl.radius, 3)}), axis ${describeAxis(cyl.axis)} through ${fmtVec(cyl.center)}, length ${fmt(cyl.length)}, arc ${Math.round(cyl.coverageDeg)}°`
+      );
+    });
+  } else {
+    lines.push('Cylindrical features: none detected');
+  }
+
+  return lines.join('\n');
+};
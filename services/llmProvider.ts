@@ -0,0 +1,72 @@
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openaiCompatibleService";
+import { createMockProvider } from "./mockProvider";
+import { FITTING_LABEL } from "./primitiveFitting";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock' | 'fitting';
+
+// Everything a backend needs for one call; prompts are built by reconstructionService
+export interface ScadRequest {
+  kind: 'generate' | 'refine';
+  systemInstruction: string;
+  prompt: string;
+  imagesBase64: string[];   // JPEG (browser) or PNG (CLI), no data-URL header
+  references?: ReferenceAttachment[];   // user photos and drawings, sent after the rendered images
+  previousCode?: string;    // refine rounds only
+}
+
+// One reference image with the label the prompt refers to it by
+export interface ReferenceAttachment {
+  label: string;            // e.g. "REFERENCE 1: front photo"
+  base64: string;           // same encoding rules as imagesBase64
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  label: string;            // shown in progress text and on results
+  generate(request: ScadRequest): Promise<string>;   // raw reply text; responseValidation parses and checks it
+}
+
+// Base64 PNG always starts with the encoded signature; everything else the pipeline produces is JPEG
+export const imageMimeType = (base64: string): string => (base64.startsWith('iVBORw0KGgo') ? 'image/png' : 'image/jpeg');
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl: string;          // OpenAI-compatible only
+  apiKey: string;
+  temperature: number;
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Gemini', defaultModel: 'gemini-3-pro-preview' },
+  { id: 'openai', label: 'OpenAI 兼容', defaultModel: 'gpt-4o' },
+  { id: 'mock', label: '离线 Mock', defaultModel: 'fixture' },
+  { id: 'fitting', label: FITTING_LABEL, defaultModel: 'primitives' }
+];
+
+// Backends that never call a model: no model name, no API key
+export const LOCAL_PROVIDERS: ProviderId[] = ['mock', 'fitting'];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  model: 'gemini-3-pro-preview',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  temperature: 0.1
+};
+
+export const createProvider = (settings: ProviderSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    case 'fitting':
+      // Runs locally on the mesh (see primitiveFitting); it never goes through the model pipeline
+      throw new Error("几何拟合在本地运行, 不调用模型接口。");
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings);
+  }
+};
@@ -0,0 +1,401 @@
+import * as THREE from 'three';
+import { WeldedMesh, edgeKey, getTriangleArray, weldTriangles } from './meshUtils';
+
+// Mesh health check: the topology and orientation defects that make captures and metrics lie.
+// Works on the welded triangle soup; triangle indices refer to getTriangleArray order, which is
+// the vertex order of the loaded (non-indexed) geometry.
+
+export type MeshIssueKind = 'boundary' | 'nonManifold' | 'degenerate' | 'inverted' | 'selfIntersection' | 'shells';
+
+export const MESH_ISSUES: { kind: MeshIssueKind; label: string; color: string; primitive: 'edges' | 'faces' }[] = [
+  { kind: 'boundary', label: '开放边界', color: '#ef4444', primitive: 'edges' },
+  { kind: 'nonManifold', label: '非流形边', color: '#d946ef', primitive: 'edges' },
+  { kind: 'degenerate', label: '退化三角形', color: '#facc15', primitive: 'edges' },
+  { kind: 'inverted', label: '法线反向', color: '#f97316', primitive: 'faces' },
+  { kind: 'selfIntersection', label: '自相交', color: '#a3e635', primitive: 'faces' },
+  { kind: 'shells', label: '分离壳体', color: '#22d3ee', primitive: 'faces' }
+];
+
+export interface MeshShell {
+  id: number;
+  triangles: number;
+  area: number;                    // mm²
+  closed: boolean;                 // no boundary edge
+}
+
+export interface MeshDiagnostics {
+  triangleCount: number;
+  vertexCount: number;             // after welding coincident vertices
+  boundaryEdges: Float32Array;     // segment endpoints (STL frame), 6 floats per edge used by one triangle
+  nonManifoldEdges: Float32Array;  // same, for edges shared by three or more triangles
+  degenerate: number[];            // zero-area or collapsed triangles
+  inverted: number[];              // triangles wound against the rest of their shell
+  selfIntersecting: number[] | null;   // null when the mesh is too large to check
+  shells: MeshShell[];             // connected components, largest area first
+  shellOf: Int32Array;             // shell id per triangle, -1 for degenerate ones
+}
+
+// Above this the all-pairs broad phase gets slow enough to notice in the browser
+const SELF_INTERSECTION_LIMIT = 200000;
+export const WELD_TOLERANCE = 1e-5;
+
+export const meshDiagonal = (tris: Float32Array): number => {
+  const box = new THREE.Box3();
+  const p = new THREE.Vector3();
+  for (let i = 0; i < tris.length; i += 3) box.expandByPoint(p.set(tris[i], tris[i + 1], tris[i + 2]));
+  return box.isEmpty() ? 0 : box.getSize(p).length();
+};
+
+// Twice the area of welded triangle t
+const weldedArea2 = (mesh: WeldedMesh, t: number): number => {
+  const [a, b, c] = [0, 1, 2].map(k => mesh.indices[t * 3 + k] * 3);
+  const p = mesh.positions;
+  const ux = p[b] - p[a], uy = p[b + 1] - p[a + 1], uz = p[b + 2] - p[a + 2];
+  const vx = p[c] - p[a], vy = p[c + 1] - p[a + 1], vz = p[c + 2] - p[a + 2];
+  return Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx);
+};
+
+export const findDegenerate = (mesh: WeldedMesh, diag: number): Uint8Array => {
+  const out = new Uint8Array(mesh.triangleCount);
+  const minArea2 = diag * diag * 1e-12;
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    const [a, b, c] = [0, 1, 2].map(k => mesh.indices[t * 3 + k]);
+    if (a === b || b === c || a === c || weldedArea2(mesh, t) <= minArea2) out[t] = 1;
+  }
+  return out;
+};
+
+// Undirected edge -> triangles using it, skipping the triangles flagged in `skip`
+export const buildEdgeMap = (mesh: WeldedMesh, skip: Uint8Array): Map<string, number[]> => {
+  const edges = new Map<string, number[]>();
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    if (skip[t]) continue;
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(mesh.indices[t * 3 + k], mesh.indices[t * 3 + ((k + 1) % 3)]);
+      const list = edges.get(key);
+      if (list) list.push(t);
+      else edges.set(key, [t]);
+    }
+  }
+  return edges;
+};
+
+// True when triangle t walks the edge a -> b (rather than b -> a)
+export const traverses = (mesh: WeldedMesh, t: number, a: number, b: number): boolean => {
+  for (let k = 0; k < 3; k++) {
+    if (mesh.indices[t * 3 + k] === a && mesh.indices[t * 3 + ((k + 1) % 3)] === b) return true;
+  }
+  return false;
+};
+
+// Connected components over shared vertices (union-find), as a shell id per triangle
+export const labelShells = (mesh: WeldedMesh, skip: Uint8Array): { shellOf: Int32Array; count: number } => {
+  const parent = new Int32Array(mesh.vertexCount).map((_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    if (skip[t]) continue;
+    const a = find(mesh.indices[t * 3]);
+    [1, 2].forEach(k => {
+      const b = find(mesh.indices[t * 3 + k]);
+      if (a !== b) parent[b] = a;
+    });
+  }
+
+  const ids = new Map<number, number>();
+  const shellOf = new Int32Array(mesh.triangleCount).fill(-1);
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    if (skip[t]) continue;
+    const root = find(mesh.indices[t * 3]);
+    let id = ids.get(root);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(root, id);
+    }
+    shellOf[t] = id;
+  }
+  return { shellOf, count: ids.size };
+};
+
+// Flood-fill a consistent winding over manifold edges, then point each shell outwards by its signed volume.
+// Returns the triangles whose stored winding disagrees with that orientation.
+export const orientShells = (
+  mesh: WeldedMesh,
+  edges: Map<string, number[]>,
+  shellOf: Int32Array,
+  shellCount: number
+): Uint8Array => {
+  const flip = new Uint8Array(mesh.triangleCount);
+  const seen = new Uint8Array(mesh.triangleCount);
+  const volume = new Float64Array(shellCount);
+  const members: number[][] = Array.from({ length: shellCount }, () => []);
+  const p = mesh.positions;
+
+  for (let seed = 0; seed < mesh.triangleCount; seed++) {
+    if (seen[seed] || shellOf[seed] < 0) continue;
+    seen[seed] = 1;
+    const stack = [seed];
+    while (stack.length > 0) {
+      const t = stack.pop()!;
+      members[shellOf[t]].push(t);
+      for (let k = 0; k < 3; k++) {
+        const a = mesh.indices[t * 3 + k];
+        const b = mesh.indices[t * 3 + ((k + 1) % 3)];
+        const list = edges.get(edgeKey(a, b));
+        if (!list || list.length !== 2) continue;
+        const u = list[0] === t ? list[1] : list[0];
+        if (seen[u]) continue;
+        seen[u] = 1;
+        // Neighbours must walk the shared edge in opposite directions once flips are applied
+        const tForward = !flip[t];
+        flip[u] = traverses(mesh, u, a, b) === tForward ? 1 : 0;
+        stack.push(u);
+      }
+    }
+  }
+
+  // Signed volume about each shell's first vertex, so open shells far from the origin still get a sign
+  members.forEach((tris, shell) => {
+    if (tris.length === 0) return;
+    const o = mesh.indices[tris[0] * 3] * 3;
+    let sum = 0;
+    tris.forEach(t => {
+      let [a, b, c] = [0, 1, 2].map(k => mesh.indices[t * 3 + k] * 3);
+      if (flip[t]) [b, c] = [c, b];
+      const ax = p[a] - p[o], ay = p[a + 1] - p[o + 1], az = p[a + 2] - p[o + 2];
+      const bx = p[b] - p[o], by = p[b + 1] - p[o + 1], bz = p[b + 2] - p[o + 2];
+      const cx = p[c] - p[o], cy = p[c + 1] - p[o + 1], cz = p[c + 2] - p[o + 2];
+      sum += ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx);
+    });
+    volume[shell] = sum;
+  });
+
+  const wrong = new Uint8Array(mesh.triangleCount);
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    if (shellOf[t] < 0) continue;
+    wrong[t] = (volume[shellOf[t]] < 0 ? 1 - flip[t] : flip[t]) as 0 | 1;
+  }
+  return wrong;
+};
+
+// Scratch vectors for the narrow phase, which runs once per candidate pair
+const dir = new THREE.Vector3();
+const e1 = new THREE.Vector3();
+const e2 = new THREE.Vector3();
+const h = new THREE.Vector3();
+const s = new THREE.Vector3();
+const qv = new THREE.Vector3();
+
+// Segment pq crossing the interior of triangle abc (Möller-Trumbore, endpoints and rims excluded)
+const segmentCrosses = (
+  p: THREE.Vector3, q: THREE.Vector3,
+  a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3,
+  eps: number
+): boolean => {
+  dir.subVectors(q, p);
+  e1.subVectors(b, a);
+  e2.subVectors(c, a);
+  h.crossVectors(dir, e2);
+  const det = e1.dot(h);
+  if (Math.abs(det) < 1e-12) return false;
+  s.subVectors(p, a);
+  const u = s.dot(h) / det;
+  if (u <= eps || u >= 1 - eps) return false;
+  qv.crossVectors(s, e1);
+  const v = dir.dot(qv) / det;
+  if (v <= eps || u + v >= 1 - eps) return false;
+  const t = e2.dot(qv) / det;
+  return t > eps && t < 1 - eps;
+};
+
+// Pairs of triangles that pierce each other without sharing a vertex, found through a uniform grid
+const findSelfIntersections = (tris: Float32Array, mesh: WeldedMesh, skip: Uint8Array): number[] => {
+  const count = mesh.triangleCount;
+  const lo = new Float32Array(count * 3);
+  const hi = new Float32Array(count * 3);
+  const box = new THREE.Box3();
+  const pt = new THREE.Vector3();
+  for (let t = 0; t < count; t++) {
+    for (let k = 0; k < 3; k++) {
+      lo[t * 3 + k] = Math.min(tris[t * 9 + k], tris[t * 9 + 3 + k], tris[t * 9 + 6 + k]);
+      hi[t * 3 + k] = Math.max(tris[t * 9 + k], tris[t * 9 + 3 + k], tris[t * 9 + 6 + k]);
+    }
+    box.expandByPoint(pt.set(lo[t * 3], lo[t * 3 + 1], lo[t * 3 + 2]));
+    box.expandByPoint(pt.set(hi[t * 3], hi[t * 3 + 1], hi[t * 3 + 2]));
+  }
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z, 1e-6);
+  const resolution = THREE.MathUtils.clamp(Math.round(Math.cbrt(count) * 1.5), 4, 128);
+  const cell = maxDim / resolution;
+  const dims = [size.x, size.y, size.z].map(s => Math.max(1, Math.ceil(s / cell) + 1));
+  const coord = (v: number, k: number) =>
+    THREE.MathUtils.clamp(Math.floor((v - box.min.getComponent(k)) / cell), 0, dims[k] - 1);
+
+  const cells = new Map<number, number[]>();
+  const cellRange = (t: number) => [0, 1, 2].map(k => [coord(lo[t * 3 + k], k), coord(hi[t * 3 + k], k)]);
+  for (let t = 0; t < count; t++) {
+    if (skip[t]) continue;
+    const [[x0, x1], [y0, y1], [z0, z1]] = cellRange(t);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          const key = (x * dims[1] + y) * dims[2] + z;
+          const list = cells.get(key);
+          if (list) list.push(t);
+          else cells.set(key, [t]);
+        }
+      }
+    }
+  }
+
+  const eps = 1e-7;
+  const hit = new Uint8Array(count);
+  const stamp = new Int32Array(count).fill(-1);
+  const A = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const B = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const load = (t: number, out: THREE.Vector3[]) => out.forEach((v, k) => v.fromArray(tris, t * 9 + k * 3));
+
+  for (let t = 0; t < count; t++) {
+    if (skip[t]) continue;
+    const [[x0, x1], [y0, y1], [z0, z1]] = cellRange(t);
+    const ti = [0, 1, 2].map(k => mesh.indices[t * 3 + k]);
+    load(t, A);
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          for (const u of cells.get((x * dims[1] + y) * dims[2] + z) ?? []) {
+            if (u <= t || stamp[u] === t) continue;
+            stamp[u] = t;
+            if (
+              lo[t * 3] > hi[u * 3] || lo[u * 3] > hi[t * 3] ||
+              lo[t * 3 + 1] > hi[u * 3 + 1] || lo[u * 3 + 1] > hi[t * 3 + 1] ||
+              lo[t * 3 + 2] > hi[u * 3 + 2] || lo[u * 3 + 2] > hi[t * 3 + 2]
+            ) continue;
+            const u0 = mesh.indices[u * 3], u1 = mesh.indices[u * 3 + 1], u2 = mesh.indices[u * 3 + 2];
+            if (ti.includes(u0) || ti.includes(u1) || ti.includes(u2)) continue;
+            load(u, B);
+            const crosses =
+              [0, 1, 2].some(k => segmentCrosses(A[k], A[(k + 1) % 3], B[0], B[1], B[2], eps)) ||
+              [0, 1, 2].some(k => segmentCrosses(B[k], B[(k + 1) % 3], A[0], A[1], A[2], eps));
+            if (crosses) {
+              hit[t] = 1;
+              hit[u] = 1;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const out: number[] = [];
+  hit.forEach((h, t) => h && out.push(t));
+  return out;
+};
+
+const segments = (mesh: WeldedMesh, keys: string[]): Float32Array => {
+  const out = new Float32Array(keys.length * 6);
+  keys.forEach((key, i) => {
+    const [a, b] = key.split('_').map(Number);
+    out.set(mesh.positions.subarray(a * 3, a * 3 + 3), i * 6);
+    out.set(mesh.positions.subarray(b * 3, b * 3 + 3), i * 6 + 3);
+  });
+  return out;
+};
+
+export const diagnoseMesh = (geometry: THREE.BufferGeometry): MeshDiagnostics => {
+  const tris = getTriangleArray(geometry);
+  const mesh = weldTriangles(tris, WELD_TOLERANCE);
+  const degenerateMask = findDegenerate(mesh, meshDiagonal(tris));
+  const edges = buildEdgeMap(mesh, degenerateMask);
+
+  const boundary: string[] = [];
+  const nonManifold: string[] = [];
+  const openTriangles = new Set<number>();
+  edges.forEach((list, key) => {
+    if (list.length === 1) {
+      boundary.push(key);
+      openTriangles.add(list[0]);
+    } else if (list.length > 2) {
+      nonManifold.push(key);
+    }
+  });
+
+  const { shellOf, count } = labelShells(mesh, degenerateMask);
+  const wrong = orientShells(mesh, edges, shellOf, count);
+
+  const shells: MeshShell[] = Array.from({ length: count }, (_, id) => ({ id, triangles: 0, area: 0, closed: true }));
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    if (shellOf[t] < 0) continue;
+    const shell = shells[shellOf[t]];
+    shell.triangles++;
+    shell.area += weldedArea2(mesh, t) / 2;
+    if (openTriangles.has(t)) shell.closed = false;
+  }
+  shells.sort((a, b) => b.area - a.area);
+
+  const indicesOf = (mask: Uint8Array) => {
+    const out: number[] = [];
+    mask.forEach((m, t) => m && out.push(t));
+    return out;
+  };
+
+  return {
+    triangleCount: mesh.triangleCount,
+    vertexCount: mesh.vertexCount,
+    boundaryEdges: segments(mesh, boundary),
+    nonManifoldEdges: segments(mesh, nonManifold),
+    degenerate: indicesOf(degenerateMask),
+    inverted: indicesOf(wrong),
+    selfIntersecting: mesh.triangleCount <= SELF_INTERSECTION_LIMIT ? findSelfIntersections(tris, mesh, degenerateMask) : null,
+    shells,
+    shellOf
+  };
+};
+
+// Triangles outside the largest shell
+const strayShellTriangles = (d: MeshDiagnostics): number[] => {
+  if (d.shells.length < 2) return [];
+  const main = d.shells[0].id;
+  const out: number[] = [];
+  d.shellOf.forEach((s, t) => s >= 0 && s !== main && out.push(t));
+  return out;
+};
+
+export const issueCount = (d: MeshDiagnostics, kind: MeshIssueKind): number => {
+  switch (kind) {
+    case 'boundary': return d.boundaryEdges.length / 6;
+    case 'nonManifold': return d.nonManifoldEdges.length / 6;
+    case 'degenerate': return d.degenerate.length;
+    case 'inverted': return d.inverted.length;
+    case 'selfIntersection': return d.selfIntersecting?.length ?? 0;
+    case 'shells': return Math.max(0, d.shells.length - 1);
+  }
+};
+
+export const isHealthy = (d: MeshDiagnostics): boolean => MESH_ISSUES.every(issue => issueCount(d, issue.kind) === 0);
+
+// Positions to draw for one issue: line-segment pairs for edge issues, triangles for face issues (STL frame)
+export const issueGeometry = (geometry: THREE.BufferGeometry, d: MeshDiagnostics, kind: MeshIssueKind): Float32Array => {
+  if (kind === 'boundary') return d.boundaryEdges;
+  if (kind === 'nonManifold') return d.nonManifoldEdges;
+
+  const tris = getTriangleArray(geometry);
+  if (kind === 'degenerate') {
+    // A flat triangle has no face to fill; its outline still shows where it is
+    const out = new Float32Array(d.degenerate.length * 18);
+    d.degenerate.forEach((t, i) => {
+      [0, 1, 1, 2, 2, 0].forEach((k, j) => out.set(tris.subarray(t * 9 + k * 3, t * 9 + k * 3 + 3), i * 18 + j * 3));
+    });
+    return out;
+  }
+
+  const list = kind === 'inverted' ? d.inverted : kind === 'selfIntersection' ? d.selfIntersecting ?? [] : strayShellTriangles(d);
+  const out = new Float32Array(list.length * 9);
+  list.forEach((t, i) => out.set(tris.subarray(t * 9, t * 9 + 9), i * 9));
+  return out;
+};
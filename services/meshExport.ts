@@ -0,0 +1,77 @@
+import * as THREE from 'three';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+
+// Both writers take geometry in the SCAD/STL frame (Z-up, mm) and write it unchanged
+
+export const exportStl = (geometry: THREE.BufferGeometry): Uint8Array => {
+  const view = new STLExporter().parse(new THREE.Mesh(geometry), { binary: true });
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c] as string);
+
+// 3MF wants a shared vertex list; triangle soup corners are welded at 1e-5 mm
+const weld = (geometry: THREE.BufferGeometry): { vertices: number[]; triangles: number[] } => {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const count = index ? index.count : position.count;
+  const ids = new Map<string, number>();
+  const vertices: number[] = [];
+  const triangles: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const v = index ? index.getX(i) : i;
+    const [x, y, z] = [position.getX(v), position.getY(v), position.getZ(v)];
+    const key = `${Math.round(x * 1e5)},${Math.round(y * 1e5)},${Math.round(z * 1e5)}`;
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = vertices.length / 3;
+      ids.set(key, id);
+      vertices.push(x, y, z);
+    }
+    triangles.push(id);
+  }
+  return { vertices, triangles };
+};
+
+const fmt = (n: number) => String(Number(n.toFixed(5)));
+
+export const export3mf = (geometry: THREE.BufferGeometry, name: string): Uint8Array => {
+  const { vertices, triangles } = weld(geometry);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">',
+    ' <resources>',
+    `  <object id="1" type="model" name="${escapeXml(name)}">`,
+    '   <mesh>',
+    '    <vertices>'
+  ];
+  for (let i = 0; i < vertices.length; i += 3) {
+    lines.push(`     <vertex x="${fmt(vertices[i])}" y="${fmt(vertices[i + 1])}" z="${fmt(vertices[i + 2])}"/>`);
+  }
+  lines.push('    </vertices>', '    <triangles>');
+  for (let i = 0; i < triangles.length; i += 3) {
+    // Welding can collapse sliver triangles; 3MF rejects repeated corners
+    const [a, b, c] = [triangles[i], triangles[i + 1], triangles[i + 2]];
+    if (a !== b && b !== c && a !== c) lines.push(`     <triangle v1="${a}" v2="${b}" v3="${c}"/>`);
+  }
+  lines.push('    </triangles>', '   </mesh>', '  </object>', ' </resources>', ' <build>', '  <item objectid="1"/>', ' </build>', '</model>');
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(RELS),
+    '3D/3dmodel.model': strToU8(lines.join('\n'))
+  });
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { bodyGeometry, detectFormat, mergeBodies, parseMesh } from './meshLoader';
+
+const text = (s: string): ArrayBuffer => new TextEncoder().encode(s).buffer as ArrayBuffer;
+
+const facet = (a: number[], b: number[], c: number[]) =>
+  `facet normal 0 0 1\n outer loop\n  vertex ${a.join(' ')}\n  vertex ${b.join(' ')}\n  vertex ${c.join(' ')}\n endloop\nendfacet`;
+
+// Two solids in one ASCII file, one and two triangles
+const TWO_SOLIDS = [
+  'solid bracket', facet([0, 0, 0], [1, 0, 0], [0, 1, 0]), 'endsolid bracket',
+  'solid pin', facet([5, 0, 0], [6, 0, 0], [5, 1, 0]), facet([5, 0, 1], [6, 0, 1], [5, 1, 1]), 'endsolid pin'
+].join('\n');
+
+const binaryStl = (triangles: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(84 + triangles * 50);
+  const view = new DataView(buffer);
+  view.setUint32(80, triangles, true);
+  for (let t = 0; t < triangles; t++) {
+    // Normal left zero; vertices (0,0,t) (1,0,t) (0,1,t)
+    const base = 84 + t * 50 + 12;
+    [[0, 0, t], [1, 0, t], [0, 1, t]].flat().forEach((v, i) => view.setFloat32(base + i * 4, v, true));
+  }
+  return buffer;
+};
+
+const TWO_OBJECTS = [
+  'o Base', 'v 0 0 0', 'v 1 0 0', 'v 0 1 0', 'f 1 2 3',
+  'o Lid', 'v 0 0 5', 'v 1 0 5', 'v 0 1 5', 'v 1 1 5', 'f 4 5 6', 'f 5 7 6'
+].join('\n');
+
+const PLY_HEADER = (faces: number) => [
+  'ply', 'format ascii 1.0', 'element vertex 3', 'property float x', 'property float y', 'property float z',
+  ...(faces > 0 ? [`element face ${faces}`, 'property list uchar int vertex_indices'] : []), 'end_header',
+  '0 0 0', '1 0 0', '0 1 0', ...(faces > 0 ? ['3 0 1 2'] : [])
+].join('\n');
+
+describe('detectFormat', () => {
+  it('trusts the content over the extension', () => {
+    expect(detectFormat('part.obj', binaryStl(2))).toBe('stl');
+    expect(detectFormat('part.bin', text(TWO_SOLIDS))).toBe('stl');
+    expect(detectFormat('scan.stl', text(PLY_HEADER(1)))).toBe('ply');
+    expect(detectFormat('part.stl', new Uint8Array([0x50, 0x4b, 3, 4, 0, 0]).buffer)).toBe('3mf');
+  });
+
+  it('falls back to the extension, then to an OBJ sniff', () => {
+    expect(detectFormat('part.OBJ', text('# empty'))).toBe('obj');
+    expect(detectFormat('export.txt', text('# exported\nv 1.5 0 0\n'))).toBe('obj');
+    expect(() => detectFormat('notes.txt', text('hello'))).toThrow('无法识别的文件格式');
+  });
+});
+
+describe('parseMesh', () => {
+  it('keeps each ASCII STL solid as a named body', () => {
+    const { format, bodies } = parseMesh('pair.stl', text(TWO_SOLIDS));
+    expect(format).toBe('stl');
+    expect(bodies.map(b => [b.name, b.triangleCount])).toEqual([['bracket', 1], ['pin', 2]]);
+    expect(bodyGeometry(bodies, 1)).toBe(bodies[1].geometry);
+    expect(mergeBodies(bodies).getAttribute('position').count).toBe(9);
+  });
+
+  it('reads binary STL as one body', () => {
+    const { bodies } = parseMesh('part.stl', binaryStl(3));
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0].triangleCount).toBe(3);
+  });
+
+  it('splits OBJ objects into bodies', () => {
+    const { format, bodies } = parseMesh('box.obj', text(TWO_OBJECTS));
+    expect(format).toBe('obj');
+    expect(bodies.map(b => [b.name, b.triangleCount])).toEqual([['Base', 1], ['Lid', 2]]);
+  });
+
+  it('reads PLY faces and rejects point clouds', () => {
+    expect(parseMesh('tri.ply', text(PLY_HEADER(1))).bodies[0].triangleCount).toBe(1);
+    expect(() => parseMesh('cloud.ply', text(PLY_HEADER(0)))).toThrow('点云');
+  });
+});
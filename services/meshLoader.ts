@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { ThreeMFLoader } from 'three/examples/jsm/loaders/3MFLoader.js';
+import { MeshFormat } from '../types';
+import { getTriangleArray } from './meshUtils';
+
+export interface MeshBody {
+  name: string;
+  geometry: THREE.BufferGeometry;   // non-indexed, file frame (Z-up, mm), transforms baked in
+  triangleCount: number;
+}
+
+export interface LoadedMesh {
+  format: MeshFormat;
+  bodies: MeshBody[];
+}
+
+export const SUPPORTED_EXTENSIONS = ['.stl', '.obj', '.ply', '.3mf'];
+
+const startsWith = (bytes: Uint8Array, text: string, offset = 0) =>
+  text.split('').every((ch, i) => bytes[offset + i] === ch.charCodeAt(0));
+
+// Magic bytes first (a renamed file still loads), then the extension, then an OBJ text sniff
+export const detectFormat = (filename: string, buffer: ArrayBuffer): MeshFormat => {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 512));
+
+  if (startsWith(bytes, 'PK\x03\x04')) return '3mf';
+  if (startsWith(bytes, 'ply')) return 'ply';
+  if (buffer.byteLength >= 84) {
+    const faces = new DataView(buffer).getUint32(80, true);
+    if (84 + faces * 50 === buffer.byteLength) return 'stl';
+  }
+  if (startsWith(bytes, 'solid')) return 'stl';
+
+  const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'));
+  if (ext === '.stl' || ext === '.obj' || ext === '.ply' || ext === '.3mf') return ext.slice(1) as MeshFormat;
+
+  const head = new TextDecoder().decode(bytes);
+  if (/^\s*v\s+-?[\d.]/m.test(head)) return 'obj';
+
+  throw new Error(`无法识别的文件格式: ${filename}`);
+};
+
+const makeBody = (name: string, tris: Float32Array): MeshBody => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(tris, 3));
+  geometry.computeVertexNormals();
+  return { name, geometry, triangleCount: tris.length / 9 };
+};
+
+const concatTriangles = (parts: Float32Array[]): Float32Array => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+// World-space triangles of every mesh below `root`
+const collectTriangles = (root: THREE.Object3D): Float32Array => {
+  root.updateMatrixWorld(true);
+  const parts: Float32Array[] = [];
+  root.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const g = (child.geometry as THREE.BufferGeometry).clone();
+    g.applyMatrix4(child.matrixWorld);
+    parts.push(getTriangleArray(g));
+    g.dispose();
+  });
+  return concatTriangles(parts);
+};
+
+// One body per top-level child (3MF build item, OBJ object/group)
+const bodiesFromScene = (root: THREE.Object3D, fallbackName: string): MeshBody[] => {
+  root.updateMatrixWorld(true);
+  const bodies: MeshBody[] = [];
+  root.children.forEach((child, i) => {
+    const tris = collectTriangles(child);
+    if (tris.length > 0) bodies.push(makeBody(child.name || `${fallbackName} ${i + 1}`, tris));
+  });
+  return bodies;
+};
+
+// ASCII STL keeps each `solid` block as a geometry group
+const bodiesFromStl = (geometry: THREE.BufferGeometry): MeshBody[] => {
+  const tris = getTriangleArray(geometry);
+  const names: string[] = geometry.userData.groupNames ?? [];
+  if (geometry.groups.length <= 1) return [makeBody(names[0]?.trim() || '实体 1', tris)];
+
+  return geometry.groups.map((group, i) =>
+    makeBody(names[i]?.trim() || `实体 ${i + 1}`, tris.slice(group.start * 3, (group.start + group.count) * 3))
+  );
+};
+
+export const parseMesh = (filename: string, buffer: ArrayBuffer): LoadedMesh => {
+  const format = detectFormat(filename, buffer);
+  let bodies: MeshBody[];
+
+  switch (format) {
+    case 'stl':
+      bodies = bodiesFromStl(new STLLoader().parse(buffer));
+      break;
+    case 'ply': {
+      const geometry = new PLYLoader().parse(buffer);
+      if (!geometry.getIndex()) throw new Error(`PLY 文件只包含点云, 没有面: ${filename}`);
+      bodies = [makeBody('实体 1', getTriangleArray(geometry))];
+      break;
+    }
+    case 'obj':
+      bodies = bodiesFromScene(new OBJLoader().parse(new TextDecoder().decode(buffer)), '对象');
+      break;
+    case '3mf':
+      bodies = bodiesFromScene(new ThreeMFLoader().parse(buffer), '零件');
+      break;
+  }
+
+  if (bodies.length === 0 || bodies.every(b => b.triangleCount === 0)) {
+    throw new Error(`文件中没有可用的三角网格: ${filename}`);
+  }
+  return { format, bodies };
+};
+
+export const loadMeshFile = async (file: File): Promise<LoadedMesh> =>
+  parseMesh(file.name, await file.arrayBuffer());
+
+// All bodies as one geometry, for reconstructing an assembly in one go
+export const mergeBodies = (bodies: MeshBody[]): THREE.BufferGeometry =>
+  makeBody('全部', concatTriangles(bodies.map(b => getTriangleArray(b.geometry)))).geometry;
+
+// Geometry for a body selection: one body, or all of them merged
+export const bodyGeometry = (bodies: MeshBody[], selection: number | 'all'): THREE.BufferGeometry =>
+  selection === 'all' ? mergeBodies(bodies) : bodies[selection].geometry;
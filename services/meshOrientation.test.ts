@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { DEFAULT_ORIENTATION, describeOrientation, detectUnits, formatOrientationForPrompt, orientMesh } from './meshOrientation';
+
+const box = (x: number, y: number, z: number) => new THREE.BoxGeometry(x, y, z).toNonIndexed();
+
+const bounds = (geometry: THREE.BufferGeometry) => {
+  geometry.computeBoundingBox();
+  const b = geometry.boundingBox!;
+  return { size: b.getSize(new THREE.Vector3()).toArray().map(v => +v.toFixed(4)), minZ: +b.min.z.toFixed(4) };
+};
+
+describe('detectUnits', () => {
+  it('keeps millimetres for a part that is already a plausible size', () => {
+    expect(detectUnits(box(40, 30, 10)).unit).toBe('mm');
+  });
+
+  it('picks the unit that makes a tiny part plausible and its dimensions round', () => {
+    const inch = detectUnits(box(2, 1.5, 0.5));
+    expect(inch.unit).toBe('inch');
+    expect(inch.reason).toContain('按英寸为 50.8 mm');
+    expect(detectUnits(box(0.12, 0.08, 0.02)).unit).toBe('m');
+  });
+
+  it('falls back to millimetres for an empty mesh', () => {
+    expect(detectUnits(new THREE.BufferGeometry().setAttribute('position', new THREE.Float32BufferAttribute([], 3))))
+      .toEqual({ unit: 'mm', reason: '空网格' });
+  });
+});
+
+describe('orientMesh', () => {
+  it('returns the input untouched for the identity orientation', () => {
+    const g = box(1, 2, 3);
+    expect(orientMesh(g, DEFAULT_ORIENTATION)).toBe(g);
+  });
+
+  it('rotates the chosen up axis onto +Z and scales to millimetres', () => {
+    expect(bounds(orientMesh(box(40, 10, 30), { orientation: '+y', unit: 'mm' })).size).toEqual([40, 30, 10]);
+    expect(bounds(orientMesh(box(1, 2, 3), { orientation: '+z', unit: 'inch' })).size).toEqual([25.4, 50.8, 76.2]);
+  });
+
+  it('lays a standing plate on its largest face, long side along X, base at Z = 0', () => {
+    const standing = box(30, 5, 40).rotateZ(Math.PI / 6);
+    const { size, minZ } = bounds(orientMesh(standing, { orientation: 'flatFace', unit: 'mm' }));
+    expect(size).toEqual([40, 30, 5]);
+    expect(minZ).toBe(0);
+  });
+
+  it('puts the largest extent on X and the smallest on Z for principal axes', () => {
+    const { size, minZ } = bounds(orientMesh(box(10, 40, 25), { orientation: 'principal', unit: 'mm' }));
+    expect(size).toEqual([40, 25, 10]);
+    expect(minZ).toBe(0);
+  });
+});
+
+describe('describeOrientation', () => {
+  it('names the orientation and unit for the UI and states the transform for the prompt', () => {
+    expect(describeOrientation({ orientation: '-y', unit: 'cm' })).toBe('-Y 朝上 · 厘米');
+    expect(formatOrientationForPrompt(DEFAULT_ORIENTATION)).toContain('It is the original file frame.');
+    expect(formatOrientationForPrompt({ orientation: '-y', unit: 'cm' }))
+      .toContain('written in centimetres and has been scaled to millimetres (x10); its -Y axis was "up"');
+  });
+});
@@ -0,0 +1,246 @@
+import * as THREE from 'three';
+import { getTriangleArray, symmetricEigen3 } from './meshUtils';
+
+// Brings a mesh from its file frame into the working frame everything downstream assumes: Z-up, millimetres.
+// Viewer, captures, measurements, fitting and fidelity all read the normalized geometry, so the prompt only
+// has to say what was done to the file. Deterministic for a given mesh and options, so saved runs can re-apply it.
+
+export type UpAxis = '+z' | '-z' | '+y' | '-y' | '+x' | '-x';
+// A fixed up axis, or one derived from the shape
+export type Orientation = UpAxis | 'flatFace' | 'principal';
+export type MeshUnit = 'mm' | 'cm' | 'inch' | 'm';
+
+export interface OrientationOptions {
+  orientation: Orientation;
+  unit: MeshUnit;                // unit the file was written in
+}
+
+export const DEFAULT_ORIENTATION: OrientationOptions = { orientation: '+z', unit: 'mm' };
+
+export const ORIENTATIONS: { id: Orientation; label: string }[] = [
+  { id: '+z', label: '+Z 朝上' },
+  { id: '+y', label: '+Y 朝上' },
+  { id: '-y', label: '-Y 朝上' },
+  { id: '+x', label: '+X 朝上' },
+  { id: '-x', label: '-X 朝上' },
+  { id: '-z', label: '-Z 朝上' },
+  { id: 'flatFace', label: '最大平面朝下' },
+  { id: 'principal', label: '对齐主轴' }
+];
+
+export const MESH_UNITS: { id: MeshUnit; label: string; name: string; toMm: number }[] = [
+  { id: 'mm', label: '毫米', name: 'millimetres', toMm: 1 },
+  { id: 'cm', label: '厘米', name: 'centimetres', toMm: 10 },
+  { id: 'inch', label: '英寸', name: 'inches', toMm: 25.4 },
+  { id: 'm', label: '米', name: 'metres', toMm: 1000 }
+];
+
+const unitInfo = (unit: MeshUnit) => MESH_UNITS.find(u => u.id === unit)!;
+
+export const isIdentityOrientation = (options: OrientationOptions): boolean =>
+  options.orientation === '+z' && options.unit === 'mm';
+
+export interface UnitGuess {
+  unit: MeshUnit;
+  reason: string;                // why, for the UI
+}
+
+// Size range (mm) most printable parts fall into, and the grid their designed dimensions usually snap to
+const PLAUSIBLE_MM: [number, number] = [10, 300];
+const ROUND_STEP: Record<MeshUnit, number> = { mm: 0.5, cm: 0.1, inch: 1 / 16, m: 0.001 };
+// Most files are millimetres and another unit has to beat it clearly; imperial CAD exports outnumber centimetre ones
+const PRIOR: Record<MeshUnit, number> = { mm: 0.65, cm: 0, inch: 0.1, m: 0 };
+
+const sizeScore = (mm: number): number => {
+  if (mm >= PLAUSIBLE_MM[0] && mm <= PLAUSIBLE_MM[1]) return 1;
+  if (mm >= PLAUSIBLE_MM[0] / 3 && mm <= PLAUSIBLE_MM[1] * 3) return 0.5;
+  return 0;
+};
+
+// Share of the box dimensions that sit on the unit's design grid
+const roundness = (dims: number[], step: number): number => {
+  const round = dims.filter(d => {
+    const steps = d / step;
+    return Math.abs(steps - Math.round(steps)) < 0.02;
+  });
+  return round.length / dims.length;
+};
+
+// Guess the file unit from the bounding box: the unit that makes the part a plausible size and its
+// dimensions round numbers wins. Ties go to the earlier unit in MESH_UNITS.
+export const detectUnits = (geometry: THREE.BufferGeometry): UnitGuess => {
+  geometry.computeBoundingBox();
+  const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+  const dims = [size.x, size.y, size.z].filter(d => d > 1e-9);
+  if (dims.length === 0) return { unit: 'mm', reason: '空网格' };
+  const maxDim = Math.max(...dims);
+
+  let best = { unit: 'mm' as MeshUnit, score: -Infinity };
+  MESH_UNITS.forEach(({ id, toMm }) => {
+    const score = sizeScore(maxDim * toMm) + 0.8 * roundness(dims, ROUND_STEP[id]) + PRIOR[id];
+    if (score > best.score) best = { unit: id, score };
+  });
+
+  const info = unitInfo(best.unit);
+  const extent = `最大尺寸 ${+maxDim.toPrecision(4)}`;
+  if (best.unit === 'mm') return { unit: 'mm', reason: `${extent}, 按毫米是合理的零件尺寸` };
+  const round = roundness(dims, ROUND_STEP[best.unit]) > 0.5 ? `, 尺寸是整${info.label}刻度` : '';
+  return {
+    unit: best.unit,
+    reason: `${extent}, 按毫米只有 ${+maxDim.toPrecision(3)} mm, 按${info.label}为 ${+(maxDim * info.toMm).toPrecision(4)} mm${round}`
+  };
+};
+
+// Rotation taking the named axis onto +Z
+const upAxisRotation = (up: UpAxis): THREE.Matrix4 => {
+  const m = new THREE.Matrix4();
+  switch (up) {
+    case '+z': return m;
+    case '-z': return m.makeRotationX(Math.PI);
+    case '+y': return m.makeRotationX(Math.PI / 2);
+    case '-y': return m.makeRotationX(-Math.PI / 2);
+    case '+x': return m.makeRotationY(-Math.PI / 2);
+    case '-x': return m.makeRotationY(Math.PI / 2);
+  }
+};
+
+// Largest planar region that the part can rest on, as its outward normal
+const largestFlatFace = (tris: Float32Array): THREE.Vector3 | null => {
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3(), n = new THREE.Vector3();
+  const box = new THREE.Box3();
+  for (let i = 0; i < tris.length; i += 3) box.expandByPoint(a.fromArray(tris, i));
+  const tol = Math.max(box.getSize(new THREE.Vector3()).length() * 1e-3, 1e-9);
+
+  // Coplanar triangles share a quantized normal and plane offset
+  const planes = new Map<string, { normal: THREE.Vector3; offset: number; area: number }>();
+  for (let o = 0; o < tris.length; o += 9) {
+    a.fromArray(tris, o); b.fromArray(tris, o + 3); c.fromArray(tris, o + 6);
+    n.crossVectors(b.clone().sub(a), c.clone().sub(a));
+    const area = n.length() / 2;
+    if (area < 1e-12) continue;
+    n.normalize();
+    const offset = n.dot(a);
+    const key = `${Math.round(n.x * 100)}_${Math.round(n.y * 100)}_${Math.round(n.z * 100)}_${Math.round(offset / tol)}`;
+    const plane = planes.get(key);
+    if (plane) plane.area += area;
+    else planes.set(key, { normal: n.clone(), offset, area });
+  }
+
+  // A pocket floor is flat too, but only a supporting plane (nothing beyond it) can sit on the bed
+  const extreme = (dir: THREE.Vector3) => {
+    let max = -Infinity;
+    for (let i = 0; i < tris.length; i += 3) max = Math.max(max, tris[i] * dir.x + tris[i + 1] * dir.y + tris[i + 2] * dir.z);
+    return max;
+  };
+  const candidates = [...planes.values()].sort((p, q) => q.area - p.area);
+  for (const plane of candidates.slice(0, 20)) {
+    if (extreme(plane.normal) - plane.offset < tol) return plane.normal;
+  }
+  return null;
+};
+
+// Largest spread onto X, smallest onto Z, right-handed; each axis signed so its dominant component is positive
+const principalRotation = (tris: Float32Array): THREE.Matrix4 => {
+  const centroid = new THREE.Vector3();
+  const count = tris.length / 3;
+  for (let i = 0; i < tris.length; i += 3) {
+    centroid.x += tris[i]; centroid.y += tris[i + 1]; centroid.z += tris[i + 2];
+  }
+  centroid.divideScalar(Math.max(count, 1));
+  const cov = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  for (let i = 0; i < tris.length; i += 3) {
+    const d = [tris[i] - centroid.x, tris[i + 1] - centroid.y, tris[i + 2] - centroid.z];
+    for (let r = 0; r < 3; r++) for (let s = 0; s < 3; s++) cov[r][s] += d[r] * d[s];
+  }
+  const [e1, e2] = symmetricEigen3(cov).vectors.map(v => {
+    const comps = [v.x, v.y, v.z];
+    const dominant = comps.reduce((best, x) => (Math.abs(x) > Math.abs(best) ? x : best), 0);
+    return dominant < 0 ? v.negate() : v;
+  });
+  const e3 = new THREE.Vector3().crossVectors(e1, e2).normalize();
+  // Rows are the new axes: a point's new coordinates are its projections onto them
+  return new THREE.Matrix4().makeBasis(e1, e2, e3).transpose();
+};
+
+// Turn about Z so the part's longest in-plane direction runs along X once it lies on the bed
+const alignInPlane = (tris: Float32Array, rotation: THREE.Matrix4): THREE.Matrix4 => {
+  const p = new THREE.Vector3();
+  let mx = 0, my = 0;
+  const count = tris.length / 3;
+  for (let i = 0; i < tris.length; i += 3) {
+    p.fromArray(tris, i).applyMatrix4(rotation);
+    mx += p.x; my += p.y;
+  }
+  mx /= Math.max(count, 1); my /= Math.max(count, 1);
+  let sxx = 0, syy = 0, sxy = 0;
+  for (let i = 0; i < tris.length; i += 3) {
+    p.fromArray(tris, i).applyMatrix4(rotation);
+    const dx = p.x - mx, dy = p.y - my;
+    sxx += dx * dx; syy += dy * dy; sxy += dx * dy;
+  }
+  return new THREE.Matrix4().makeRotationZ(-0.5 * Math.atan2(2 * sxy, sxx - syy));
+};
+
+// The transform from file frame to working frame. Fixed up axes are pure rotations about the origin so
+// the file's coordinates stay recognisable; derived orientations also centre the part on the bed (min Z = 0).
+export const orientationMatrix = (geometry: THREE.BufferGeometry, options: OrientationOptions): THREE.Matrix4 => {
+  const tris = getTriangleArray(geometry);
+  let rotation: THREE.Matrix4;
+  if (options.orientation === 'flatFace') {
+    const normal = largestFlatFace(tris);
+    rotation = new THREE.Matrix4();
+    if (normal) rotation.makeRotationFromQuaternion(new THREE.Quaternion().setFromUnitVectors(normal, new THREE.Vector3(0, 0, -1)));
+  } else if (options.orientation === 'principal') {
+    rotation = principalRotation(tris);
+  } else {
+    rotation = upAxisRotation(options.orientation);
+  }
+
+  if (options.orientation === 'flatFace') rotation.premultiply(alignInPlane(tris, rotation));
+
+  const matrix = new THREE.Matrix4().makeScale(...(Array(3).fill(unitInfo(options.unit).toMm) as [number, number, number]))
+    .multiply(rotation);
+  if (options.orientation === 'flatFace' || options.orientation === 'principal') {
+    const box = new THREE.Box3();
+    const p = new THREE.Vector3();
+    for (let i = 0; i < tris.length; i += 3) box.expandByPoint(p.fromArray(tris, i).applyMatrix4(matrix));
+    const center = box.getCenter(p);
+    matrix.premultiply(new THREE.Matrix4().makeTranslation(-center.x, -center.y, -box.min.z));
+  }
+  return matrix;
+};
+
+// The geometry in the working frame; the input itself when nothing needs to change
+export const orientMesh = (geometry: THREE.BufferGeometry, options: OrientationOptions): THREE.BufferGeometry => {
+  if (isIdentityOrientation(options)) return geometry;
+  const oriented = geometry.clone();
+  oriented.applyMatrix4(orientationMatrix(geometry, options));
+  oriented.computeVertexNormals();
+  oriented.computeBoundingBox();
+  return oriented;
+};
+
+export const describeOrientation = (options: OrientationOptions): string => {
+  const orientation = ORIENTATIONS.find(o => o.id === options.orientation)!.label;
+  return `${orientation} · ${unitInfo(options.unit).label}`;
+};
+
+// Frame statement for the prompt: what was done to the file and that every number is in the result
+export const formatOrientationForPrompt = (options: OrientationOptions): string => {
+  const steps: string[] = [];
+  if (options.unit !== 'mm') {
+    const { name, toMm } = unitInfo(options.unit);
+    steps.push(`the file was written in ${name} and has been scaled to millimetres (x${toMm})`);
+  }
+  if (options.orientation === 'flatFace') {
+    steps.push('it has been rotated to rest on its largest flat face and centred on the XY origin with its base at Z=0');
+  } else if (options.orientation === 'principal') {
+    steps.push('it has been rotated onto its principal axes (largest extent along X, smallest along Z), centred on the XY origin with its base at Z=0');
+  } else if (options.orientation !== '+z') {
+    steps.push(`its ${options.orientation.toUpperCase()} axis was "up" and has been rotated onto +Z`);
+  }
+  const frame = 'Working frame: Z-up, millimetres.';
+  return steps.length === 0
+    ? `${frame} It is the original file frame.`
+    : `${frame} Normalized from the file: ${steps.join('; ')}. Every image and measurement uses the working frame.`;
+};
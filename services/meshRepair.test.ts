@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { getTriangleArray } from './meshUtils';
+import { signedVolume } from './fidelity';
+import { diagnoseMesh, isHealthy, issueCount, issueGeometry } from './meshDiagnostics';
+import { DEFAULT_REPAIR_OPTIONS, repairMesh, repairSummary } from './meshRepair';
+
+// A closed 10 mm cube as triangle soup: 12 triangles, two per face
+const cubeSoup = () => getTriangleArray(new THREE.BoxGeometry(10, 10, 10).toNonIndexed());
+
+const fromSoup = (tris: Float32Array | number[]) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(Float32Array.from(tris), 3));
+  return geometry;
+};
+
+// Swapping two corners reverses a triangle's winding
+const flip = (tris: Float32Array, t: number) => {
+  const out = tris.slice();
+  out.set(tris.subarray(t * 9 + 6, t * 9 + 9), t * 9 + 3);
+  out.set(tris.subarray(t * 9 + 3, t * 9 + 6), t * 9 + 6);
+  return out;
+};
+
+const counts = (geometry: THREE.BufferGeometry) => {
+  const d = diagnoseMesh(geometry);
+  return Object.fromEntries((['boundary', 'nonManifold', 'degenerate', 'inverted', 'selfIntersection', 'shells'] as const)
+    .map(kind => [kind, issueCount(d, kind)]));
+};
+
+describe('diagnoseMesh', () => {
+  it('finds nothing wrong with a closed, consistently wound cube', () => {
+    const d = diagnoseMesh(fromSoup(cubeSoup()));
+    expect(isHealthy(d)).toBe(true);
+    expect(d).toMatchObject({ triangleCount: 12, vertexCount: 8 });
+    expect(d.shells).toEqual([{ id: 0, triangles: 12, area: expect.closeTo(600, 3), closed: true }]);
+  });
+
+  it('reports the open rim of a missing face', () => {
+    const d = diagnoseMesh(fromSoup(cubeSoup().slice(18)));
+    expect(issueCount(d, 'boundary')).toBe(4);
+    expect(d.shells[0].closed).toBe(false);
+  });
+
+  it('reports a triangle wound against the rest of its shell', () => {
+    const d = diagnoseMesh(fromSoup(flip(cubeSoup(), 5)));
+    expect(d.inverted).toEqual([5]);
+    expect(issueGeometry(fromSoup(flip(cubeSoup(), 5)), d, 'inverted')).toHaveLength(9);
+  });
+
+  it('reports collapsed triangles and loose shells', () => {
+    const sliver = [0, 0, 0, 5, 0, 0, 10, 0, 0];
+    const stray = [50, 50, 50, 51, 50, 50, 50, 51, 50];
+    expect(counts(fromSoup([...cubeSoup(), ...sliver, ...stray]))).toMatchObject({ degenerate: 1, shells: 1, boundary: 3 });
+  });
+});
+
+describe('repairMesh', () => {
+  it('leaves a healthy mesh as it was', () => {
+    const { geometry, report } = repairMesh(fromSoup(cubeSoup()), DEFAULT_REPAIR_OPTIONS);
+    expect(getTriangleArray(geometry)).toHaveLength(12 * 9);
+    expect(repairSummary(report)).toBe('没有需要修复的问题');
+  });
+
+  it('flips inverted triangles, drops stray shells and closes holes into a solid', () => {
+    const broken = [...flip(cubeSoup(), 5).slice(18), 50, 50, 50, 51, 50, 50, 50, 51, 50];
+    const { geometry, report } = repairMesh(fromSoup(broken), DEFAULT_REPAIR_OPTIONS);
+    expect(report).toMatchObject({ removedShells: 1, removedShellTriangles: 1, flipped: 1, filledHoles: 1 });
+    expect(isHealthy(diagnoseMesh(geometry))).toBe(true);
+    expect(Math.abs(signedVolume(getTriangleArray(geometry)))).toBeCloseTo(1000, 3);
+    expect(repairSummary(report)).toContain('填补 1 个孔');
+  });
+
+  it('only runs the steps that are switched on', () => {
+    const open = fromSoup(cubeSoup().slice(18));
+    const { geometry, report } = repairMesh(open, { ...DEFAULT_REPAIR_OPTIONS, fillHoles: false });
+    expect(report.filledHoles).toBe(0);
+    expect(counts(geometry).boundary).toBe(4);
+  });
+});
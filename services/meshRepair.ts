@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+import { WeldedMesh, getTriangleArray, weldTriangles } from './meshUtils';
+import { WELD_TOLERANCE, buildEdgeMap, findDegenerate, labelShells, meshDiagonal, orientShells, traverses } from './meshDiagnostics';
+
+// Repairs for the defects meshDiagnostics reports, applied in a fixed order: weld, drop stray shells,
+// unify winding, then close holes (so the patches inherit the corrected winding).
+// Deterministic for a given mesh and options, so a saved run can re-apply them to its source file.
+
+export interface RepairOptions {
+  weld: boolean;                 // merge near-coincident vertices, drop degenerate and duplicate triangles
+  removeSmallShells: boolean;    // drop shells under SMALL_SHELL_RATIO of the largest shell's area
+  unifyNormals: boolean;         // one consistent, outward winding per shell
+  fillHoles: boolean;            // close every boundary loop with a fan around its centroid
+}
+
+export interface RepairReport {
+  mergedVertices: number;
+  removedDegenerate: number;
+  removedDuplicates: number;
+  removedShells: number;
+  removedShellTriangles: number;
+  flipped: number;
+  filledHoles: number;
+  addedTriangles: number;
+}
+
+export const DEFAULT_REPAIR_OPTIONS: RepairOptions = {
+  weld: true,
+  removeSmallShells: true,
+  unifyNormals: true,
+  fillHoles: true
+};
+
+export const REPAIR_STEPS: { id: keyof RepairOptions; label: string }[] = [
+  { id: 'weld', label: '焊接顶点' },
+  { id: 'removeSmallShells', label: '移除碎片' },
+  { id: 'unifyNormals', label: '统一法线' },
+  { id: 'fillHoles', label: '填补孔洞' }
+];
+
+export const SMALL_SHELL_RATIO = 0.01;
+// Weld distance as a fraction of the bounding-box diagonal: closes export cracks, keeps real features
+const WELD_FRACTION = 1e-5;
+
+const toMesh = (positions: number[], faces: number[][]): WeldedMesh => ({
+  positions: new Float32Array(positions),
+  indices: Uint32Array.from(faces.flat()),
+  vertexCount: positions.length / 3,
+  triangleCount: faces.length
+});
+
+// Boundary loops, walked opposite to the triangles that own the edges so a patch continues their winding
+const boundaryLoops = (mesh: WeldedMesh, diag: number): number[][] => {
+  const degenerate = findDegenerate(mesh, diag);
+  const edges = buildEdgeMap(mesh, degenerate);
+  const next = new Map<number, number[]>();
+  edges.forEach((list, key) => {
+    if (list.length !== 1) return;
+    const [a, b] = key.split('_').map(Number);
+    const [from, to] = traverses(mesh, list[0], a, b) ? [b, a] : [a, b];
+    const out = next.get(from);
+    if (out) out.push(to);
+    else next.set(from, [to]);
+  });
+
+  const loops: number[][] = [];
+  next.forEach((targets, start) => {
+    while (targets.length > 0) {
+      const loop = [start];
+      let at = targets.pop()!;
+      while (at !== start) {
+        const outgoing = next.get(at);
+        // A dead end means a non-manifold rim; leave that one open
+        if (!outgoing || outgoing.length === 0 || loop.length > mesh.triangleCount) break;
+        loop.push(at);
+        at = outgoing.pop()!;
+      }
+      if (at === start && loop.length >= 3) loops.push(loop);
+    }
+  });
+  return loops;
+};
+
+export const repairMesh = (
+  geometry: THREE.BufferGeometry,
+  options: RepairOptions
+): { geometry: THREE.BufferGeometry; report: RepairReport } => {
+  const report: RepairReport = {
+    mergedVertices: 0, removedDegenerate: 0, removedDuplicates: 0, removedShells: 0,
+    removedShellTriangles: 0, flipped: 0, filledHoles: 0, addedTriangles: 0
+  };
+  const tris = getTriangleArray(geometry);
+  const diag = meshDiagonal(tris);
+
+  const exact = weldTriangles(tris, WELD_TOLERANCE);
+  const welded = options.weld ? weldTriangles(tris, Math.max(WELD_TOLERANCE, diag * WELD_FRACTION)) : exact;
+  report.mergedVertices = exact.vertexCount - welded.vertexCount;
+
+  const positions = Array.from(welded.positions);
+  let faces: number[][] = [];
+  const degenerate = findDegenerate(welded, diag);
+  const seen = new Set<string>();
+  for (let t = 0; t < welded.triangleCount; t++) {
+    const face = [0, 1, 2].map(k => welded.indices[t * 3 + k]);
+    if (options.weld) {
+      if (degenerate[t]) {
+        report.removedDegenerate++;
+        continue;
+      }
+      // The same three vertices twice, in either winding, is one triangle too many
+      const key = [...face].sort((a, b) => a - b).join('_');
+      if (seen.has(key)) {
+        report.removedDuplicates++;
+        continue;
+      }
+      seen.add(key);
+    }
+    faces.push(face);
+  }
+
+  if (options.removeSmallShells) {
+    const mesh = toMesh(positions, faces);
+    const { shellOf, count } = labelShells(mesh, findDegenerate(mesh, diag));
+    const area = new Float64Array(count);
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+    faces.forEach((face, t) => {
+      if (shellOf[t] < 0) return;
+      [a, b, c].forEach((v, k) => v.fromArray(positions, face[k] * 3));
+      area[shellOf[t]] += new THREE.Triangle(a, b, c).getArea();
+    });
+    const largest = Math.max(0, ...area);
+    const drop = area.map(s => (s < largest * SMALL_SHELL_RATIO ? 1 : 0));
+    report.removedShells = drop.reduce((n, d) => n + d, 0);
+    const kept = faces.filter((_, t) => shellOf[t] < 0 || !drop[shellOf[t]]);
+    report.removedShellTriangles = faces.length - kept.length;
+    faces = kept;
+  }
+
+  if (options.unifyNormals) {
+    const mesh = toMesh(positions, faces);
+    const skip = findDegenerate(mesh, diag);
+    const { shellOf, count } = labelShells(mesh, skip);
+    const wrong = orientShells(mesh, buildEdgeMap(mesh, skip), shellOf, count);
+    faces = faces.map((face, t) => {
+      if (!wrong[t]) return face;
+      report.flipped++;
+      return [face[0], face[2], face[1]];
+    });
+  }
+
+  if (options.fillHoles) {
+    boundaryLoops(toMesh(positions, faces), diag).forEach(loop => {
+      report.filledHoles++;
+      if (loop.length === 3) {
+        faces.push(loop);
+        report.addedTriangles++;
+        return;
+      }
+      const centroid = [0, 1, 2].map(k => loop.reduce((sum, v) => sum + positions[v * 3 + k], 0) / loop.length);
+      const hub = positions.length / 3;
+      positions.push(...centroid);
+      loop.forEach((v, i) => faces.push([v, loop[(i + 1) % loop.length], hub]));
+      report.addedTriangles += loop.length;
+    });
+  }
+
+  const out = new Float32Array(faces.length * 9);
+  faces.forEach((face, t) => face.forEach((v, k) => {
+    out[t * 9 + k * 3] = positions[v * 3];
+    out[t * 9 + k * 3 + 1] = positions[v * 3 + 1];
+    out[t * 9 + k * 3 + 2] = positions[v * 3 + 2];
+  }));
+  const repaired = new THREE.BufferGeometry();
+  repaired.setAttribute('position', new THREE.BufferAttribute(out, 3));
+  repaired.computeVertexNormals();
+  return { geometry: repaired, report };
+};
+
+export const repairSummary = (report: RepairReport): string => {
+  const parts: string[] = [];
+  if (report.mergedVertices > 0) parts.push(`合并 ${report.mergedVertices} 个顶点`);
+  if (report.removedDegenerate + report.removedDuplicates > 0) {
+    parts.push(`删除 ${report.removedDegenerate} 个退化、${report.removedDuplicates} 个重复三角形`);
+  }
+  if (report.removedShells > 0) parts.push(`移除 ${report.removedShells} 个碎片 (${report.removedShellTriangles} 个三角形)`);
+  if (report.flipped > 0) parts.push(`翻转 ${report.flipped} 个三角形`);
+  if (report.filledHoles > 0) parts.push(`填补 ${report.filledHoles} 个孔 (+${report.addedTriangles} 个三角形)`);
+  return parts.length > 0 ? parts.join(', ') : '没有需要修复的问题';
+};
@@ -0,0 +1,338 @@
+import * as THREE from 'three';
+import { ConvexHull } from 'three/examples/jsm/math/ConvexHull.js';
+import { WeldedMesh, getTriangleArray, planeBasis, weldTriangles } from './meshUtils';
+import { WELD_TOLERANCE, buildEdgeMap, labelShells, meshDiagonal } from './meshDiagnostics';
+
+// Splits one mesh into parts that are reconstructed separately: its connected components, or additionally
+// convex-ish segments cut by planes through concave creases. A segment is a component clipped by its cut
+// planes; labels per source triangle let the viewer pick a segment from a clicked face.
+// Deterministic for a given mesh and mode.
+
+export type SegmentMode = 'components' | 'convex';
+
+export const SEGMENT_MODES: { id: SegmentMode; label: string }[] = [
+  { id: 'components', label: '连通部件' },
+  { id: 'convex', label: '近似凸分解' }
+];
+
+export interface MeshSegment {
+  component: number;
+  cuts: THREE.Plane[];           // the segment keeps the side where every plane's distance is >= 0
+  triangleCount: number;         // source triangles labelled with this segment
+  box: THREE.Box3;
+  color: string;
+}
+
+export interface Segmentation {
+  mode: SegmentMode;
+  componentOf: Int32Array;       // connected component per source triangle
+  segmentOf: Int32Array;         // segment index per source triangle
+  segments: MeshSegment[];       // largest first
+}
+
+// Distinct from the indigo model colour and the defect colours
+const SEGMENT_COLORS = ['#f59e0b', '#10b981', '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#a855f7', '#eab308', '#14b8a6', '#ef4444'];
+
+// A crease folding inwards by more than this proposes cut planes; gentler tessellated curves do not
+const CONCAVE_ANGLE_DEG = 25;
+// A cut is kept when the two halves' convex hulls fill less than this share of the piece's hull...
+const CUT_GAIN = 0.85;
+// ...and neither half is a sliver under this share of it
+const MIN_PIECE_RATIO = 0.03;
+// Cut planes tried per piece, longest crease first
+const MAX_CANDIDATES = 12;
+// Hull inputs are thinned to this many points
+const HULL_POINTS = 4000;
+export const MAX_SEGMENTS = 24;
+
+const hullVolume = (soup: number[]): number => {
+  const count = soup.length / 3;
+  if (count < 4) return 0;
+  const step = Math.max(1, Math.floor(count / HULL_POINTS));
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i < count; i += step) points.push(new THREE.Vector3(soup[i * 3], soup[i * 3 + 1], soup[i * 3 + 2]));
+  try {
+    const hull = new ConvexHull().setFromPoints(points);
+    return hull.faces.reduce((v, f) => v + (f.area * f.normal.dot(f.midpoint)) / 3, 0);
+  } catch {
+    // Coplanar or collinear input has no volume
+    return 0;
+  }
+};
+
+// Clip a triangle against half-spaces (Sutherland-Hodgman) and fan the remaining polygon back into triangles.
+// A triangle lying in a cut plane is a face of the material behind it, so it stays only on that side.
+const clipTriangle = (corners: THREE.Vector3[], cuts: THREE.Plane[], eps: number, out: number[]) => {
+  let polygon = corners;
+  for (const plane of cuts) {
+    const distances = polygon.map(v => plane.distanceToPoint(v));
+    if (distances.every(d => Math.abs(d) <= eps)) {
+      const normal = new THREE.Vector3().crossVectors(polygon[1].clone().sub(polygon[0]), polygon[2].clone().sub(polygon[0]));
+      if (normal.dot(plane.normal) >= 0) return;
+      continue;
+    }
+    const next: THREE.Vector3[] = [];
+    polygon.forEach((current, i) => {
+      const j = (i + 1) % polygon.length;
+      const dc = distances[i], df = distances[j];
+      if (dc >= -eps) next.push(current);
+      if ((dc < -eps && df > eps) || (dc > eps && df < -eps)) next.push(current.clone().lerp(polygon[j], dc / (dc - df)));
+    });
+    polygon = next;
+    if (polygon.length < 3) return;
+  }
+  for (let i = 1; i + 1 < polygon.length; i++) {
+    [polygon[0], polygon[i], polygon[i + 1]].forEach(v => out.push(v.x, v.y, v.z));
+  }
+};
+
+const clipSoup = (soup: ArrayLike<number>, cuts: THREE.Plane[], eps: number): number[] => {
+  const out: number[] = [];
+  for (let o = 0; o + 9 <= soup.length; o += 9) {
+    const corners = [0, 1, 2].map(k => new THREE.Vector3(soup[o + k * 3], soup[o + k * 3 + 1], soup[o + k * 3 + 2]));
+    clipTriangle(corners, cuts, eps, out);
+  }
+  return out;
+};
+
+// Planes of the faces meeting at concave creases, weighted by crease length
+const creasePlanes = (tris: Float32Array, mesh: WeldedMesh, componentOf: Int32Array): Map<number, { plane: THREE.Plane; weight: number }[]> => {
+  const n = mesh.triangleCount;
+  const planes = new Array<THREE.Plane>(n);
+  const centroids = new Array<THREE.Vector3>(n);
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+  for (let t = 0; t < n; t++) {
+    a.fromArray(tris, t * 9); b.fromArray(tris, t * 9 + 3); c.fromArray(tris, t * 9 + 6);
+    planes[t] = new THREE.Plane().setFromCoplanarPoints(a, b, c);
+    centroids[t] = a.clone().add(b).add(c).divideScalar(3);
+  }
+  const cosLimit = Math.cos((CONCAVE_ANGLE_DEG * Math.PI) / 180);
+  const tol = Math.max(meshDiagonal(tris) * 1e-3, 1e-9);
+  const byComponent = new Map<number, Map<string, { plane: THREE.Plane; weight: number }>>();
+
+  buildEdgeMap(mesh, new Uint8Array(n)).forEach((list, key) => {
+    if (list.length !== 2) return;
+    const [t1, t2] = list;
+    // The neighbour's centroid in front of this triangle's plane means the surface folds inwards
+    if (planes[t1].normal.dot(planes[t2].normal) >= cosLimit || planes[t1].distanceToPoint(centroids[t2]) <= 0) return;
+    const [v, w] = key.split('_').map(Number);
+    const length = a.fromArray(mesh.positions, v * 3).distanceTo(b.fromArray(mesh.positions, w * 3));
+    const component = componentOf[t1];
+    if (!byComponent.has(component)) byComponent.set(component, new Map());
+    const found = byComponent.get(component)!;
+    [planes[t1], planes[t2]].forEach(plane => {
+      const { normal: nrm, constant } = plane;
+      const key = `${Math.round(nrm.x * 50)}_${Math.round(nrm.y * 50)}_${Math.round(nrm.z * 50)}_${Math.round(constant / tol)}`;
+      const entry = found.get(key);
+      if (entry) entry.weight += length;
+      else found.set(key, { plane: plane.clone(), weight: length });
+    });
+  });
+
+  const result = new Map<number, { plane: THREE.Plane; weight: number }[]>();
+  byComponent.forEach((found, component) => {
+    result.set(component, [...found.values()].sort((p, q) => q.weight - p.weight).slice(0, MAX_CANDIDATES));
+  });
+  return result;
+};
+
+export const segmentMesh = (geometry: THREE.BufferGeometry, mode: SegmentMode): Segmentation => {
+  const tris = getTriangleArray(geometry);
+  const diag = meshDiagonal(tris);
+  const mesh = weldTriangles(tris, Math.max(WELD_TOLERANCE, diag * 1e-6));
+  const n = mesh.triangleCount;
+  const { shellOf: componentOf, count } = labelShells(mesh, new Uint8Array(n));
+
+  const eps = Math.max(diag * 1e-6, 1e-9);
+  // Triangle soup per component, the input for the hull volumes
+  const componentSoups: number[][] = Array.from({ length: count }, () => []);
+  for (let t = 0; t < n; t++) {
+    const soup = componentSoups[componentOf[t]];
+    for (let k = 0; k < 9; k++) soup.push(tris[t * 9 + k]);
+  }
+
+  type Piece = { component: number; cuts: THREE.Plane[]; soup: number[]; hull: number };
+  let pieces: Piece[] = componentSoups.map((soup, component) => ({ component, cuts: [], soup, hull: hullVolume(soup) }));
+
+  if (mode === 'convex') {
+    const candidates = creasePlanes(tris, mesh, componentOf);
+    // Split the piece with the largest hull first until no cut pays off or the segment budget is spent
+    const queue = [...pieces].sort((p, q) => q.hull - p.hull);
+    const final: Piece[] = [];
+    while (queue.length > 0) {
+      const piece = queue.shift()!;
+      if (final.length + queue.length + 2 > MAX_SEGMENTS || piece.hull <= 0) {
+        final.push(piece);
+        continue;
+      }
+      let best: { front: Piece; back: Piece; total: number } | null = null;
+      for (const { plane } of candidates.get(piece.component) ?? []) {
+        const opposite = plane.clone().negate();
+        const front = clipSoup(piece.soup, [plane], eps);
+        const back = clipSoup(piece.soup, [opposite], eps);
+        if (front.length === 0 || back.length === 0) continue;
+        const hf = hullVolume(front), hb = hullVolume(back);
+        if (Math.min(hf, hb) < piece.hull * MIN_PIECE_RATIO) continue;
+        if (hf + hb < piece.hull * CUT_GAIN && (!best || hf + hb < best.total)) {
+          best = {
+            front: { component: piece.component, cuts: [...piece.cuts, plane.clone()], soup: front, hull: hf },
+            back: { component: piece.component, cuts: [...piece.cuts, opposite], soup: back, hull: hb },
+            total: hf + hb
+          };
+        }
+      }
+      if (!best) {
+        final.push(piece);
+        continue;
+      }
+      queue.push(best.front, best.back);
+      queue.sort((p, q) => q.hull - p.hull);
+    }
+    pieces = final;
+  }
+  pieces.sort((p, q) => q.hull - p.hull);
+
+  const segments: MeshSegment[] = pieces.map((piece, i) => ({
+    component: piece.component,
+    cuts: piece.cuts,
+    triangleCount: 0,
+    box: new THREE.Box3().setFromArray(piece.soup),
+    color: SEGMENT_COLORS[i % SEGMENT_COLORS.length]
+  }));
+
+  // Label every triangle with the segment that keeps most of it
+  const segmentOf = new Int32Array(n);
+  const byComponent = new Map<number, number[]>();
+  segments.forEach((segment, i) => byComponent.set(segment.component, [...(byComponent.get(segment.component) ?? []), i]));
+  const kept = (soup: number[]) => {
+    let area = 0;
+    for (let o = 0; o < soup.length; o += 9) area += new THREE.Vector3(soup[o + 3] - soup[o], soup[o + 4] - soup[o + 1], soup[o + 5] - soup[o + 2])
+      .cross(new THREE.Vector3(soup[o + 6] - soup[o], soup[o + 7] - soup[o + 1], soup[o + 8] - soup[o + 2])).length();
+    return area;
+  };
+  for (let t = 0; t < n; t++) {
+    const options = byComponent.get(componentOf[t])!;
+    let index = options[0];
+    if (options.length > 1) {
+      const triangle = Array.from(tris.subarray(t * 9, t * 9 + 9));
+      let most = -1;
+      options.forEach(i => {
+        const area = kept(clipSoup(triangle, segments[i].cuts, eps));
+        if (area > most) {
+          most = area;
+          index = i;
+        }
+      });
+    }
+    segmentOf[t] = index;
+    segments[index].triangleCount++;
+  }
+  return { mode, componentOf, segmentOf, segments };
+};
+
+// Triangle soup of one segment, for the viewer: the source triangles labelled with it
+export const segmentPositions = (geometry: THREE.BufferGeometry, segmentation: Segmentation, index: number): Float32Array => {
+  const tris = getTriangleArray(geometry);
+  const out = new Float32Array(segmentation.segments[index].triangleCount * 9);
+  let o = 0;
+  segmentation.segmentOf.forEach((s, t) => {
+    if (s !== index) return;
+    out.set(tris.subarray(t * 9, t * 9 + 9), o);
+    o += 9;
+  });
+  return out;
+};
+
+// Chain undirected boundary edges into closed loops of vertex ids
+const chainLoops = (edges: [number, number][]): number[][] => {
+  const around = new Map<number, number[]>();
+  edges.forEach(([a, b]) => {
+    around.set(a, [...(around.get(a) ?? []), b]);
+    around.set(b, [...(around.get(b) ?? []), a]);
+  });
+  const used = new Set<string>();
+  const loops: number[][] = [];
+  edges.forEach(([a, b]) => {
+    if (used.has(`${a}_${b}`)) return;
+    const loop = [a];
+    let prev = a, at = b;
+    used.add(`${a}_${b}`).add(`${b}_${a}`);
+    while (at !== a) {
+      loop.push(at);
+      const next = (around.get(at) ?? []).find(v => v !== prev && !used.has(`${at}_${v}`));
+      if (next === undefined) return;
+      used.add(`${at}_${next}`).add(`${next}_${at}`);
+      prev = at;
+      at = next;
+    }
+    if (loop.length >= 3) loops.push(loop);
+  });
+  return loops;
+};
+
+// Close the openings a cut leaves: boundary loops lying in a cut plane are triangulated in that plane
+// (outer loops with the loops nested inside them as holes), facing out of the kept side
+const capCuts = (soup: number[], cuts: THREE.Plane[], eps: number): number[] => {
+  const mesh = weldTriangles(Float32Array.from(soup), eps * 10);
+  const boundary: [number, number][] = [];
+  buildEdgeMap(mesh, new Uint8Array(mesh.triangleCount)).forEach((list, key) => {
+    if (list.length === 1) boundary.push(key.split('_').map(Number) as [number, number]);
+  });
+  const vertex = (v: number) => new THREE.Vector3().fromArray(mesh.positions, v * 3);
+  const caps: number[] = [];
+
+  cuts.forEach(plane => {
+    const onPlane = boundary.filter(edge => edge.every(v => Math.abs(plane.distanceToPoint(vertex(v))) <= eps * 10));
+    if (onPlane.length < 3) return;
+    const [u, w] = planeBasis(plane.normal);
+    const loops = chainLoops(onPlane).map(ids => {
+      const points = ids.map(v => vertex(v));
+      const flat = points.map(p => new THREE.Vector2(p.dot(u), p.dot(w)));
+      return { points, flat, area: Math.abs(THREE.ShapeUtils.area(flat)) };
+    }).sort((p, q) => q.area - p.area);
+
+    // Nesting depth decides outer (even) or hole (odd); a hole belongs to the smallest outer around it
+    const contains = (outer: THREE.Vector2[], p: THREE.Vector2) => {
+      let hit = false;
+      for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+        const a = outer[i], b = outer[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) hit = !hit;
+      }
+      return hit;
+    };
+    const parents = loops.map((loop, i) => loops.slice(0, i).filter(o => contains(o.flat, loop.flat[0])));
+    loops.forEach((loop, i) => {
+      if (parents[i].length % 2 === 1) return;
+      const holes = loops.filter((_, j) => parents[j].length === parents[i].length + 1 && parents[j].includes(loop));
+      const contour = loop.flat;
+      const holeFlats = holes.map(h => h.flat);
+      const all = [...loop.points, ...holes.flatMap(h => h.points)];
+      THREE.ShapeUtils.triangulateShape(contour, holeFlats).forEach(([a, b, c]) => {
+        const [pa, pb, pc] = [all[a], all[b], all[c]];
+        const normal = new THREE.Vector3().crossVectors(pb.clone().sub(pa), pc.clone().sub(pa));
+        // The kept material is on the +normal side of the cut, so the cap faces -normal
+        const ordered = normal.dot(plane.normal) > 0 ? [pa, pc, pb] : [pa, pb, pc];
+        ordered.forEach(p => caps.push(p.x, p.y, p.z));
+      });
+    });
+  });
+  return caps;
+};
+
+// The segment as a closed mesh for reconstruction: its component cut exactly at the segment's planes, openings capped
+export const segmentGeometry = (geometry: THREE.BufferGeometry, segmentation: Segmentation, index: number): THREE.BufferGeometry => {
+  const tris = getTriangleArray(geometry);
+  const { component, cuts } = segmentation.segments[index];
+  const eps = Math.max(meshDiagonal(tris) * 1e-6, 1e-9);
+  const soup: number[] = [];
+  segmentation.componentOf.forEach((c, t) => {
+    if (c !== component) return;
+    for (let k = 0; k < 9; k++) soup.push(tris[t * 9 + k]);
+  });
+  const clipped = cuts.length > 0 ? clipSoup(soup, cuts, eps) : soup;
+  const closed = cuts.length > 0 ? [...clipped, ...capCuts(clipped, cuts, eps)] : clipped;
+  const g = new THREE.BufferGeometry();
+  g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(closed), 3));
+  g.computeVertexNormals();
+  return g;
+};
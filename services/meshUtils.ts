@@ -0,0 +1,303 @@
+import * as THREE from 'three';
+
+// Low-level helpers shared by the analysis modules. Everything here works on
+// flat "triangle soup" arrays (9 floats per triangle) so the same code can run
+// on STL output (non-indexed) and on indexed geometry alike.
+
+export interface WeldedMesh {
+  positions: Float32Array;   // unique vertex positions, 3 floats per vertex
+  indices: Uint32Array;      // 3 indices per triangle
+  vertexCount: number;
+  triangleCount: number;
+}
+
+// Flatten any BufferGeometry into a non-indexed triangle array
+export const getTriangleArray = (geometry: THREE.BufferGeometry): Float32Array => {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const count = index ? index.count : position.count;
+  const out = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    const vi = index ? index.getX(i) : i;
+    out[i * 3] = position.getX(vi);
+    out[i * 3 + 1] = position.getY(vi);
+    out[i * 3 + 2] = position.getZ(vi);
+  }
+  return out;
+};
+
+// Merge coincident vertices (quantized to `tolerance`) so that adjacency can be computed
+export const weldTriangles = (tris: Float32Array, tolerance = 1e-5): WeldedMesh => {
+  const triangleCount = Math.floor(tris.length / 9);
+  const lookup = new Map<string, number>();
+  const positions: number[] = [];
+  const indices = new Uint32Array(triangleCount * 3);
+  const inv = 1 / tolerance;
+
+  for (let v = 0; v < triangleCount * 3; v++) {
+    const x = tris[v * 3], y = tris[v * 3 + 1], z = tris[v * 3 + 2];
+    const key = `${Math.round(x * inv)}_${Math.round(y * inv)}_${Math.round(z * inv)}`;
+    let id = lookup.get(key);
+    if (id === undefined) {
+      id = positions.length / 3;
+      positions.push(x, y, z);
+      lookup.set(key, id);
+    }
+    indices[v] = id;
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    indices,
+    vertexCount: positions.length / 3,
+    triangleCount
+  };
+};
+
+export const edgeKey = (a: number, b: number): string => (a < b ? `${a}_${b}` : `${b}_${a}`);
+
+// Map every undirected edge to the triangles that use it
+export const buildEdgeFaces = (mesh: WeldedMesh): Map<string, number[]> => {
+  const edges = new Map<string, number[]>();
+  for (let t = 0; t < mesh.triangleCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const a = mesh.indices[t * 3 + k];
+      const b = mesh.indices[t * 3 + ((k + 1) % 3)];
+      if (a === b) continue;
+      const key = edgeKey(a, b);
+      const list = edges.get(key);
+      if (list) list.push(t);
+      else edges.set(key, [t]);
+    }
+  }
+  return edges;
+};
+
+export const getTriangle = (tris: Float32Array, t: number, a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => {
+  const o = t * 9;
+  a.set(tris[o], tris[o + 1], tris[o + 2]);
+  b.set(tris[o + 3], tris[o + 4], tris[o + 5]);
+  c.set(tris[o + 6], tris[o + 7], tris[o + 8]);
+};
+
+// Unit normal of triangle t; returns twice the triangle area
+export const triangleNormal = (tris: Float32Array, t: number, out: THREE.Vector3): number => {
+  const o = t * 9;
+  const ux = tris[o + 3] - tris[o], uy = tris[o + 4] - tris[o + 1], uz = tris[o + 5] - tris[o + 2];
+  const vx = tris[o + 6] - tris[o], vy = tris[o + 7] - tris[o + 1], vz = tris[o + 8] - tris[o + 2];
+  out.set(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx);
+  const len = out.length();
+  if (len > 0) out.divideScalar(len);
+  return len;
+};
+
+// Eigen-decomposition of a symmetric 3x3 matrix (Jacobi rotations).
+// Returns eigenvalues in descending order with matching unit eigenvectors.
+export const symmetricEigen3 = (m: number[][]): { values: number[]; vectors: THREE.Vector3[] } => {
+  const a = m.map(row => row.slice());
+  const v = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const off = Math.abs(a[0][1]) + Math.abs(a[0][2]) + Math.abs(a[1][2]);
+    if (off < 1e-12) break;
+
+    for (let p = 0; p < 2; p++) {
+      for (let q = p + 1; q < 3; q++) {
+        if (Math.abs(a[p][q]) < 1e-15) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < 3; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 3; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 3; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = [0, 1, 2].sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => new THREE.Vector3(v[0][i], v[1][i], v[2][i]).normalize())
+  };
+};
+
+// Any unit vector perpendicular to `axis`, plus the completing basis vector
+export const planeBasis = (axis: THREE.Vector3): [THREE.Vector3, THREE.Vector3] => {
+  const helper = Math.abs(axis.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  const u = new THREE.Vector3().crossVectors(axis, helper).normalize();
+  const v = new THREE.Vector3().crossVectors(axis, u).normalize();
+  return [u, v];
+};
+
+// Uniform grid over the triangles of a mesh for nearest-surface queries
+export class TriangleGrid {
+  private cells = new Map<number, number[]>();
+  private stamp: Uint32Array;
+  private query = 0;
+  private min: THREE.Vector3;
+  private cellSize: number;
+  private dims: [number, number, number];
+  private tri = new THREE.Triangle();
+  private closest = new THREE.Vector3();
+
+  constructor(private tris: Float32Array) {
+    const count = tris.length / 9;
+    this.stamp = new Uint32Array(count);
+
+    const box = new THREE.Box3();
+    const p = new THREE.Vector3();
+    for (let i = 0; i < tris.length; i += 3) box.expandByPoint(p.set(tris[i], tris[i + 1], tris[i + 2]));
+    const size = box.getSize(new THREE.Vector3());
+    const maxDim = Math.max(size.x, size.y, size.z, 1e-6);
+
+    // Aim for a handful of triangles per cell
+    const resolution = THREE.MathUtils.clamp(Math.round(Math.cbrt(count) * 1.5), 4, 128);
+    this.cellSize = maxDim / resolution;
+    this.min = box.min.clone().subScalar(this.cellSize * 0.5);
+    this.dims = [
+      Math.max(1, Math.ceil((size.x + this.cellSize) / this.cellSize)),
+      Math.max(1, Math.ceil((size.y + this.cellSize) / this.cellSize)),
+      Math.max(1, Math.ceil((size.z + this.cellSize) / this.cellSize))
+    ];
+
+    for (let t = 0; t < count; t++) {
+      const o = t * 9;
+      const lo = [0, 1, 2].map(k => Math.min(tris[o + k], tris[o + 3 + k], tris[o + 6 + k]));
+      const hi = [0, 1, 2].map(k => Math.max(tris[o + k], tris[o + 3 + k], tris[o + 6 + k]));
+      const c0 = lo.map((v, k) => this.cellCoord(v, k));
+      const c1 = hi.map((v, k) => this.cellCoord(v, k));
+      for (let x = c0[0]; x <= c1[0]; x++) {
+        for (let y = c0[1]; y <= c1[1]; y++) {
+          for (let z = c0[2]; z <= c1[2]; z++) {
+            const key = this.key(x, y, z);
+            const list = this.cells.get(key);
+            if (list) list.push(t);
+            else this.cells.set(key, [t]);
+          }
+        }
+      }
+    }
+  }
+
+  get triangleCount(): number {
+    return this.stamp.length;
+  }
+
+  private cellCoord(v: number, axis: number): number {
+    const base = axis === 0 ? this.min.x : axis === 1 ? this.min.y : this.min.z;
+    return THREE.MathUtils.clamp(Math.floor((v - base) / this.cellSize), 0, this.dims[axis] - 1);
+  }
+
+  private key(x: number, y: number, z: number): number {
+    return (x * this.dims[1] + y) * this.dims[2] + z;
+  }
+
+  // Distance from `point` to the closest point on the mesh surface.
+  // Writes the closest point into `out` when given and also returns the triangle index.
+  closestPoint(point: THREE.Vector3, out?: THREE.Vector3): { distance: number; triangle: number } {
+    if (this.stamp.length === 0) return { distance: Infinity, triangle: -1 };
+    this.query = (this.query + 1) >>> 0;
+    if (this.query === 0) {
+      this.stamp.fill(0);
+      this.query = 1;
+    }
+
+    const cx = this.cellCoord(point.x, 0), cy = this.cellCoord(point.y, 1), cz = this.cellCoord(point.z, 2);
+    // Distance from the point to the clamped cell (non-zero when the point is outside the grid)
+    const outside = Math.hypot(
+      Math.max(0, this.min.x - point.x, point.x - (this.min.x + this.dims[0] * this.cellSize)),
+      Math.max(0, this.min.y - point.y, point.y - (this.min.y + this.dims[1] * this.cellSize)),
+      Math.max(0, this.min.z - point.z, point.z - (this.min.z + this.dims[2] * this.cellSize))
+    );
+    const maxRing = Math.max(...this.dims);
+    let best = Infinity;
+    let bestTri = -1;
+
+    for (let r = 0; r <= maxRing; r++) {
+      for (let x = cx - r; x <= cx + r; x++) {
+        if (x < 0 || x >= this.dims[0]) continue;
+        for (let y = cy - r; y <= cy + r; y++) {
+          if (y < 0 || y >= this.dims[1]) continue;
+          for (let z = cz - r; z <= cz + r; z++) {
+            if (z < 0 || z >= this.dims[2]) continue;
+            // Only the shell of the cube at Chebyshev distance r is new
+            if (Math.max(Math.abs(x - cx), Math.abs(y - cy), Math.abs(z - cz)) !== r) continue;
+            const list = this.cells.get(this.key(x, y, z));
+            if (!list) continue;
+            for (const t of list) {
+              if (this.stamp[t] === this.query) continue;
+              this.stamp[t] = this.query;
+              const o = t * 9;
+              this.tri.a.set(this.tris[o], this.tris[o + 1], this.tris[o + 2]);
+              this.tri.b.set(this.tris[o + 3], this.tris[o + 4], this.tris[o + 5]);
+              this.tri.c.set(this.tris[o + 6], this.tris[o + 7], this.tris[o + 8]);
+              this.tri.closestPointToPoint(point, this.closest);
+              const d = this.closest.distanceTo(point);
+              if (d < best) {
+                best = d;
+                bestTri = t;
+                out?.copy(this.closest);
+              }
+            }
+          }
+        }
+      }
+      // Anything in ring r+1 is at least r cells away
+      if (best <= outside + r * this.cellSize) break;
+    }
+    return { distance: best, triangle: bestTri };
+  }
+}
+
+// Area-weighted random points on the surface (deterministic for a given seed)
+export const sampleSurface = (tris: Float32Array, count: number, seed = 1): Float32Array => {
+  const triCount = tris.length / 9;
+  const out = new Float32Array(count * 3);
+  if (triCount === 0) return new Float32Array(0);
+
+  const cumulative = new Float64Array(triCount);
+  const n = new THREE.Vector3();
+  let total = 0;
+  for (let t = 0; t < triCount; t++) {
+    total += triangleNormal(tris, t, n) / 2;
+    cumulative[t] = total;
+  }
+
+  let state = seed >>> 0 || 1;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+
+  for (let i = 0; i < count; i++) {
+    const target = random() * total;
+    let lo = 0, hi = triCount - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] < target) lo = mid + 1;
+      else hi = mid;
+    }
+    let u = random(), v = random();
+    if (u + v > 1) { u = 1 - u; v = 1 - v; }
+    const o = lo * 9;
+    for (let k = 0; k < 3; k++) {
+      out[i * 3 + k] = tris[o + k] + u * (tris[o + 3 + k] - tris[o + k]) + v * (tris[o + 6 + k] - tris[o + k]);
+    }
+  }
+  return out;
+};
@@ -0,0 +1,35 @@
+import { LlmProvider, ScadRequest } from "./llmProvider";
+
+// Fixed, compilable reply so the whole pipeline (render, scoring, refine loop) runs without a network
+const FIXTURE_CODE = `// 离线 Mock 固定输出: 带两个通孔的底板
+base_w = 40;
+base_d = 30;
+base_h = 10;
+hole_d = 6;
+hole_spacing = 20;
+
+difference() {
+  // 底板主体
+  cube([base_w, base_d, base_h], center = true);
+  // 两个对称通孔
+  for (x = [-hole_spacing / 2, hole_spacing / 2])
+    translate([x, 0, -base_h])
+      cylinder(h = base_h * 3, d = hole_d, $fn = 32);
+}
+`;
+
+const FIXTURE_EXPLANATION = '离线 Mock 提供者返回的固定示例脚本, 未调用任何模型, 仅用于离线演示和流程调试。';
+
+export const createMockProvider = (): LlmProvider => {
+  const label = '离线 Mock';
+
+  const generate = async ({ kind, previousCode }: ScadRequest): Promise<string> => {
+    // Refine rounds echo the previous script unchanged, so scores stay reproducible
+    if (kind === 'refine' && previousCode) {
+      return JSON.stringify({ code: previousCode, explanation: '离线 Mock: 修正轮次原样返回上一版脚本。' });
+    }
+    return JSON.stringify({ code: FIXTURE_CODE, explanation: FIXTURE_EXPLANATION });
+  };
+
+  return { id: 'mock', label, generate };
+};
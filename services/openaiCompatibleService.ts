@@ -0,0 +1,57 @@
+import { LlmProvider, ProviderSettings, ScadRequest, imageMimeType } from "./llmProvider";
+
+// Any server speaking the OpenAI chat-completions protocol (OpenAI, vLLM, Ollama, LM Studio, ...)
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): LlmProvider => {
+  const label = `${settings.model} @ ${settings.baseUrl}`;
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const generate = async ({ systemInstruction, prompt, imagesBase64, references = [] }: ScadRequest): Promise<string> => {
+    const content: any[] = [{ type: 'text', text: prompt }];
+    imagesBase64.forEach((imgData) => {
+      content.push({ type: 'image_url', image_url: { url: `data:${imageMimeType(imgData)};base64,${imgData}` } });
+    });
+    // Reference images follow the renders, each introduced by its label so the prompt can point at it
+    references.forEach(({ label, base64 }) => {
+      content.push({ type: 'text', text: `[${label}]` });
+      content.push({ type: 'image_url', image_url: { url: `data:${imageMimeType(base64)};base64,${base64}` } });
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without auth
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: settings.temperature,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: systemInstruction },
+            { role: 'user', content }
+          ]
+        })
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`HTTP ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+      }
+
+      const data = await response.json();
+      const text: string | undefined = data?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("模型未生成任何响应。");
+      }
+
+      return text;
+
+    } catch (error) {
+      throw new Error("重构失败: " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  return { id: 'openai', label, generate };
+};
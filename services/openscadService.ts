@@ -0,0 +1,44 @@
+import * as THREE from 'three';
+import { parseScad } from './scadParser';
+import { ScadEvaluator } from './scadEvaluator';
+import { nodeToCSG } from './scadGeometry';
+
+export interface ScadRenderResult {
+  geometry: THREE.BufferGeometry;
+  triangleCount: number;
+  warnings: string[];
+  echoes: string[];
+  elapsedMs: number;
+}
+
+// Compile OpenSCAD source into a mesh in its native frame (Z-up, mm).
+// Throws ScadError for syntax and evaluation errors.
+export const renderScadSync = (code: string): ScadRenderResult => {
+  const started = performance.now();
+  const program = parseScad(code);
+  const evaluator = new ScadEvaluator();
+  const { nodes, warnings, echoes } = evaluator.run(program);
+
+  const solid = nodeToCSG({ kind: 'boolean', op: 'union', children: nodes }, warnings);
+  const geometry = solid.toBufferGeometry();
+
+  return {
+    geometry,
+    triangleCount: geometry.getAttribute('position').count / 3,
+    warnings: Array.from(new Set(warnings)),
+    echoes,
+    elapsedMs: performance.now() - started
+  };
+};
+
+// Async wrapper that yields once so callers can paint a loading state first
+export const renderScad = (code: string): Promise<ScadRenderResult> =>
+  new Promise((resolve, reject) => {
+    setTimeout(() => {
+      try {
+        resolve(renderScadSync(code));
+      } catch (err) {
+        reject(err);
+      }
+    }, 0);
+  });
@@ -0,0 +1,166 @@
+import { unzlibSync, zlibSync } from 'three/examples/jsm/libs/fflate.module.js';
+
+// Minimal PNG reader/writer for the software renderer: 8-bit RGB out, 8-bit RGB or RGBA in,
+// no interlacing. Pure TypeScript so it runs the same in Node and the browser.
+
+export interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;              // RGB, row-major, 3 bytes per pixel
+}
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, body: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(body.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, body.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(body, 8);
+  view.setUint32(body.length + 8, crc32(out.subarray(4, body.length + 8)));
+  return out;
+};
+
+export const createImage = (width: number, height: number, [r, g, b]: number[]): RgbImage => {
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0; i < data.length; i += 3) {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+  }
+  return { width, height, data };
+};
+
+export const encodePng = ({ width, height, data }: RgbImage): Uint8Array => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8);    // 8-bit, truecolour, deflate, adaptive filtering, no interlace
+
+  // Every row uses the Up filter: renders are mostly flat colour, which it turns into long zero runs
+  const stride = width * 3;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    raw[row] = y === 0 ? 0 : 2;
+    for (let x = 0; x < stride; x++) {
+      const value = data[y * stride + x];
+      raw[row + 1 + x] = y === 0 ? value : (value - data[(y - 1) * stride + x]) & 0xff;
+    }
+  }
+
+  const parts = [new Uint8Array(SIGNATURE), chunk('IHDR', header), chunk('IDAT', zlibSync(raw)), chunk('IEND', new Uint8Array(0))];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const paeth = (a: number, b: number, c: number) => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+export const decodePng = (bytes: Uint8Array): RgbImage => {
+  if (!SIGNATURE.every((b, i) => bytes[i] === b)) throw new Error('不是 PNG 图像。');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Uint8Array[] = [];
+  for (let pos = 8; pos < bytes.length;) {
+    const length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const body = bytes.subarray(pos + 8, pos + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(pos + 8);
+      height = view.getUint32(pos + 12);
+      const [depth, colour, , , interlace] = body.subarray(8, 13);
+      if (depth !== 8 || (colour !== 2 && colour !== 6) || interlace !== 0) {
+        throw new Error('只支持 8 位 RGB/RGBA 非隔行 PNG。');
+      }
+      channels = colour === 6 ? 4 : 3;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    pos += length + 12;
+  }
+
+  const compressed = new Uint8Array(idat.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  idat.forEach(p => {
+    compressed.set(p, offset);
+    offset += p.length;
+  });
+  const raw = unzlibSync(compressed);
+
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[row - stride + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[row - stride + x - channels] : 0;
+      const predictor =
+        filter === 1 ? left :
+        filter === 2 ? up :
+        filter === 3 ? (left + up) >> 1 :
+        filter === 4 ? paeth(left, up, upLeft) : 0;
+      pixels[row + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+
+  if (channels === 3) return { width, height, data: pixels };
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < pixels.length; i += 4, j += 3) {
+    data[j] = pixels[i];
+    data[j + 1] = pixels[i + 1];
+    data[j + 2] = pixels[i + 2];
+  }
+  return { width, height, data };
+};
+
+// btoa/atob exist in browsers and in Node 16+, so data URLs need no Buffer
+export const toPngDataUrl = (image: RgbImage): string => {
+  const bytes = encodePng(image);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+};
+
+export const fromPngDataUrl = (url: string): RgbImage => {
+  const binary = atob(url.slice(url.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return decodePng(bytes);
+};
@@ -0,0 +1,725 @@
+import * as THREE from 'three';
+import { FittedBody, FittedSurface, GenerationResult, PrimitiveFit, Vec3 } from '../types';
+import { getTriangleArray, planeBasis, symmetricEigen3, triangleNormal, weldTriangles } from './meshUtils';
+
+// Triangles join a flat patch when their normal is this close to the patch seed normal
+const FLAT_COS = Math.cos(THREE.MathUtils.degToRad(1));
+// Adjacent patches belong to the same smooth region below this dihedral angle
+const SMOOTH_COS = Math.cos(THREE.MathUtils.degToRad(20));
+// A curved fit needs at least this many facets
+const MIN_CURVED_PATCHES = 3;
+// Regions larger than this that fit nothing are left as freeform instead of being peeled patch by patch
+const MAX_PEEL_PATCHES = 200;
+const PARALLEL_COS = 0.999;
+const SNAP_COS = Math.cos(THREE.MathUtils.degToRad(0.5));
+
+export const FITTING_LABEL = '几何拟合';
+
+// Allowed RMS deviation of a region from its fitted surface
+const fitTolerance = (maxDim: number) => Math.max(maxDim * 0.002, 0.005);
+
+const toVec3 = (v: THREE.Vector3): Vec3 => ({ x: v.x, y: v.y, z: v.z });
+const fromVec3 = (v: Vec3) => new THREE.Vector3(v.x, v.y, v.z);
+
+// Flip an axis so its largest component is positive, and snap it onto X/Y/Z when it is
+// within half a degree; CAD parts are almost always drawn on the coordinate axes
+const canonicalAxis = (axis: THREE.Vector3): THREE.Vector3 => {
+  const comps = [axis.x, axis.y, axis.z];
+  const dominant = comps.reduce((best, c, i) => (Math.abs(c) > Math.abs(comps[best]) ? i : best), 0);
+  const out = comps[dominant] < 0 ? axis.clone().negate() : axis.clone();
+  if (Math.abs(comps[dominant]) > SNAP_COS) out.set(0, 0, 0).setComponent(dominant, 1);
+  return out;
+};
+
+interface Segmentation {
+  tris: Float32Array;
+  indices: Uint32Array;
+  positions: Float32Array;
+  normals: THREE.Vector3[];
+  areas: Float32Array;
+  patches: number[][];              // triangle ids per flat patch
+  patchNormals: THREE.Vector3[];
+  patchAreas: number[];
+  smoothNeighbours: Set<number>[];  // patch adjacency across gentle edges
+}
+
+// --- 1. Segmentation: flat patches, then smooth regions of patches ---
+const segment = (tris: Float32Array, maxDim: number): Segmentation => {
+  const mesh = weldTriangles(tris, Math.max(maxDim * 1e-7, 1e-6));
+  const triCount = mesh.triangleCount;
+  const planeTol = Math.max(maxDim * 1e-4, 1e-4);
+
+  const normals: THREE.Vector3[] = [];
+  const areas = new Float32Array(triCount);
+  for (let t = 0; t < triCount; t++) {
+    const n = new THREE.Vector3();
+    areas[t] = triangleNormal(tris, t, n) / 2;
+    normals.push(n);
+  }
+
+  // Vertex-sharing adjacency: boolean output often has T-junctions, where edge adjacency breaks
+  const byVertex: number[][] = Array.from({ length: mesh.vertexCount }, () => []);
+  for (let t = 0; t < triCount; t++) {
+    for (let k = 0; k < 3; k++) byVertex[mesh.indices[t * 3 + k]].push(t);
+  }
+  const neighbours = (t: number): Set<number> => {
+    const out = new Set<number>();
+    for (let k = 0; k < 3; k++) byVertex[mesh.indices[t * 3 + k]].forEach(nb => { if (nb !== t) out.add(nb); });
+    return out;
+  };
+
+  // Grow each patch from a seed, comparing against the seed plane so slow drift on
+  // finely tessellated curves does not merge a whole cylinder into one "plane"
+  const patchOf = new Int32Array(triCount).fill(-1);
+  const patches: number[][] = [];
+  const patchNormals: THREE.Vector3[] = [];
+  const patchAreas: number[] = [];
+  const seeds = Array.from({ length: triCount }, (_, i) => i).sort((a, b) => areas[b] - areas[a]);
+  for (const seed of seeds) {
+    if (patchOf[seed] >= 0 || areas[seed] === 0) continue;
+    const id = patches.length;
+    const n0 = normals[seed];
+    const d0 = n0.x * tris[seed * 9] + n0.y * tris[seed * 9 + 1] + n0.z * tris[seed * 9 + 2];
+    const members = [seed];
+    patchOf[seed] = id;
+    const sum = n0.clone().multiplyScalar(areas[seed]);
+    let area = areas[seed];
+    for (let i = 0; i < members.length; i++) {
+      for (const nb of neighbours(members[i])) {
+        if (patchOf[nb] >= 0 || normals[nb].dot(n0) < FLAT_COS) continue;
+        let onPlane = true;
+        for (let k = 0; k < 9; k += 3) {
+          const o = nb * 9 + k;
+          if (Math.abs(n0.x * tris[o] + n0.y * tris[o + 1] + n0.z * tris[o + 2] - d0) > planeTol) onPlane = false;
+        }
+        if (!onPlane) continue;
+        patchOf[nb] = id;
+        members.push(nb);
+        sum.addScaledVector(normals[nb], areas[nb]);
+        area += areas[nb];
+      }
+    }
+    patches.push(members);
+    patchNormals.push(sum.normalize());
+    patchAreas.push(area);
+  }
+
+  const smoothNeighbours: Set<number>[] = patches.map(() => new Set<number>());
+  byVertex.forEach(faces => {
+    for (let i = 0; i < faces.length; i++) {
+      for (let j = i + 1; j < faces.length; j++) {
+        const pa = patchOf[faces[i]], pb = patchOf[faces[j]];
+        if (pa < 0 || pb < 0 || pa === pb) continue;
+        if (patchNormals[pa].dot(patchNormals[pb]) >= SMOOTH_COS) {
+          smoothNeighbours[pa].add(pb);
+          smoothNeighbours[pb].add(pa);
+        }
+      }
+    }
+  });
+
+  return {
+    tris,
+    indices: mesh.indices,
+    positions: mesh.positions,
+    normals,
+    areas,
+    patches,
+    patchNormals,
+    patchAreas,
+    smoothNeighbours
+  };
+};
+
+// Connected components of a patch subset over smooth adjacency
+const components = (seg: Segmentation, subset: number[]): number[][] => {
+  const inSubset = new Set(subset);
+  const seen = new Set<number>();
+  const out: number[][] = [];
+  subset.forEach(start => {
+    if (seen.has(start)) return;
+    const comp = [start];
+    seen.add(start);
+    for (let i = 0; i < comp.length; i++) {
+      seg.smoothNeighbours[comp[i]].forEach(nb => {
+        if (inSubset.has(nb) && !seen.has(nb)) {
+          seen.add(nb);
+          comp.push(nb);
+        }
+      });
+    }
+    out.push(comp);
+  });
+  return out;
+};
+
+interface RegionSamples {
+  triangles: number[];
+  area: number;
+  vertices: THREE.Vector3[];        // unique welded vertices of the region
+  centroids: THREE.Vector3[];
+  normals: THREE.Vector3[];
+  weights: number[];
+  bounds: THREE.Box3;
+}
+
+const sampleRegion = (seg: Segmentation, patchIds: number[]): RegionSamples => {
+  const triangles = patchIds.flatMap(p => seg.patches[p]);
+  const vertexIds = new Set<number>();
+  const centroids: THREE.Vector3[] = [];
+  const normals: THREE.Vector3[] = [];
+  const weights: number[] = [];
+  let area = 0;
+  triangles.forEach(t => {
+    const o = t * 9;
+    const s = seg.tris;
+    centroids.push(new THREE.Vector3((s[o] + s[o + 3] + s[o + 6]) / 3, (s[o + 1] + s[o + 4] + s[o + 7]) / 3, (s[o + 2] + s[o + 5] + s[o + 8]) / 3));
+    normals.push(seg.normals[t]);
+    weights.push(seg.areas[t]);
+    area += seg.areas[t];
+    for (let k = 0; k < 3; k++) vertexIds.add(seg.indices[t * 3 + k]);
+  });
+  const vertices = Array.from(vertexIds, id =>
+    new THREE.Vector3(seg.positions[id * 3], seg.positions[id * 3 + 1], seg.positions[id * 3 + 2])
+  );
+  return { triangles, area, vertices, centroids, normals, weights, bounds: new THREE.Box3().setFromPoints(vertices) };
+};
+
+const boundsOf = (box: THREE.Box3) => ({ min: toVec3(box.min), max: toVec3(box.max) });
+
+// Least-squares meeting point of the 2D lines p + t*n (normal lines of a surface of revolution)
+const meetingPoint2 = (points: [number, number][], dirs: [number, number][], weights: number[]): [number, number] | null => {
+  let a11 = 0, a12 = 0, a22 = 0, b1 = 0, b2 = 0;
+  points.forEach(([px, py], i) => {
+    const len = Math.hypot(dirs[i][0], dirs[i][1]);
+    if (len < 1e-6) return;
+    const nx = dirs[i][0] / len, ny = dirs[i][1] / len;
+    const w = weights[i];
+    const m11 = 1 - nx * nx, m12 = -nx * ny, m22 = 1 - ny * ny;
+    a11 += w * m11; a12 += w * m12; a22 += w * m22;
+    b1 += w * (m11 * px + m12 * py);
+    b2 += w * (m12 * px + m22 * py);
+  });
+  const det = a11 * a22 - a12 * a12;
+  if (Math.abs(det) < 1e-12 * Math.max(a11 * a22, 1e-12)) return null;
+  return [(b1 * a22 - b2 * a12) / det, (a11 * b2 - a12 * b1) / det];
+};
+
+// Angular coverage (degrees) of the region around an axis, from the angular span of every triangle
+const arcCoverage = (seg: Segmentation, triangles: number[], base: THREE.Vector3, axis: THREE.Vector3): number => {
+  const [u, v] = planeBasis(axis);
+  const bins = new Uint8Array(72);
+  const p = new THREE.Vector3();
+  triangles.forEach(t => {
+    const angles: number[] = [];
+    for (let k = 0; k < 3; k++) {
+      const o = t * 9 + k * 3;
+      p.set(seg.tris[o], seg.tris[o + 1], seg.tris[o + 2]).sub(base);
+      angles.push(Math.atan2(p.dot(v), p.dot(u)));
+    }
+    angles.sort((a, b) => a - b);
+    let start = angles[0];
+    let span = angles[2] - angles[0];
+    // The triangle straddles ±180°
+    if (span > Math.PI) {
+      const gaps = [angles[1] - angles[0], angles[2] - angles[1], angles[0] + 2 * Math.PI - angles[2]];
+      const widest = gaps.indexOf(Math.max(...gaps));
+      start = angles[(widest + 1) % 3];
+      span = 2 * Math.PI - gaps[widest];
+    }
+    const first = Math.floor(((start + Math.PI) / (2 * Math.PI)) * 72);
+    const last = Math.floor(((start + span + Math.PI) / (2 * Math.PI)) * 72);
+    for (let bin = first; bin <= last; bin++) bins[((bin % 72) + 72) % 72] = 1;
+  });
+  return bins.reduce((sum, b) => sum + b, 0) * 5;
+};
+
+const weightedNormalMatrix = (r: RegionSamples, centre?: THREE.Vector3): number[][] => {
+  const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  r.normals.forEach((n, i) => {
+    const d = centre ? n.clone().sub(centre) : n;
+    const c = [d.x, d.y, d.z];
+    for (let a = 0; a < 3; a++) for (let b = 0; b < 3; b++) m[a][b] += r.weights[i] * c[a] * c[b];
+  });
+  return m.map(row => row.map(x => x / r.area));
+};
+
+// Surface of revolution about `axis`: locate the axis line from the normal lines, then
+// fit radius as a linear function of height (slope 0 = cylinder)
+const fitRevolution = (
+  seg: Segmentation,
+  r: RegionSamples,
+  axisIn: THREE.Vector3,
+  kind: 'cylinder' | 'cone',
+  tol: number
+): FittedSurface | null => {
+  const axis = canonicalAxis(axisIn);
+  const [u, v] = planeBasis(axis);
+  const meet = meetingPoint2(
+    r.centroids.map(c => [c.dot(u), c.dot(v)]),
+    r.normals.map(n => [n.dot(u), n.dot(v)]),
+    r.weights
+  );
+  if (!meet) return null;
+  const base = u.clone().multiplyScalar(meet[0]).addScaledVector(v, meet[1]);
+
+  const hs = r.vertices.map(p => p.dot(axis));
+  const rs = r.vertices.map(p => Math.hypot(p.dot(u) - meet[0], p.dot(v) - meet[1]));
+  const n = hs.length;
+  const meanH = hs.reduce((s, h) => s + h, 0) / n;
+  const meanR = rs.reduce((s, x) => s + x, 0) / n;
+  let slope = 0;
+  if (kind === 'cone') {
+    let sxy = 0, sxx = 0;
+    hs.forEach((h, i) => { sxy += (h - meanH) * (rs[i] - meanR); sxx += (h - meanH) ** 2; });
+    if (sxx < 1e-12) return null;
+    slope = sxy / sxx;
+    if (Math.abs(slope) < 0.02) return null;
+  }
+  const radiusAt = (h: number) => meanR + slope * (h - meanH);
+  const residual = Math.sqrt(rs.reduce((s, x, i) => s + (x - radiusAt(hs[i])) ** 2, 0) / n);
+  const axialMin = Math.min(...hs);
+  const axialMax = Math.max(...hs);
+  if (residual > tol || meanR <= tol || axialMax - axialMin <= tol) return null;
+
+  // Normals pointing towards the axis mean the wall is the inside of a bore
+  let inward = 0;
+  r.centroids.forEach((c, i) => {
+    const radial = c.clone().sub(base).projectOnPlane(axis);
+    inward += r.weights[i] * r.normals[i].dot(radial);
+  });
+
+  return {
+    kind,
+    area: r.area,
+    triangleCount: r.triangles.length,
+    residual,
+    bounds: boundsOf(r.bounds),
+    axis: toVec3(axis),
+    origin: toVec3(base.clone().addScaledVector(axis, axialMin)),
+    axialMin,
+    axialMax,
+    radius: Math.max(radiusAt(axialMin), 0),
+    radius2: Math.max(radiusAt(axialMax), 0),
+    concave: inward < 0,
+    arcDeg: arcCoverage(seg, r.triangles, base, axis)
+  };
+};
+
+const fitCylinder = (seg: Segmentation, r: RegionSamples, tol: number): FittedSurface | null => {
+  const eigen = symmetricEigen3(weightedNormalMatrix(r));
+  // Normals perpendicular to one direction, and actually turning around it
+  if (eigen.values[2] > 0.01 || eigen.values[1] < 0.002) return null;
+  return fitRevolution(seg, r, eigen.vectors[2], 'cylinder', tol);
+};
+
+const fitCone = (seg: Segmentation, r: RegionSamples, tol: number): FittedSurface | null => {
+  // Cone normals keep a fixed angle to the axis, so their tips lie on a plane
+  const mean = new THREE.Vector3();
+  r.normals.forEach((n, i) => mean.addScaledVector(n, r.weights[i] / r.area));
+  const eigen = symmetricEigen3(weightedNormalMatrix(r, mean));
+  const axis = eigen.vectors[2];
+  if (eigen.values[2] > 1e-4 || eigen.values[1] < 0.002) return null;
+  const cos = mean.dot(axis);
+  if (Math.abs(cos) < 0.05 || Math.abs(cos) > 0.97) return null;
+  return fitRevolution(seg, r, axis, 'cone', tol);
+};
+
+const fitSphere = (r: RegionSamples, tol: number): FittedSurface | null => {
+  const eigen = symmetricEigen3(weightedNormalMatrix(r));
+  if (eigen.values[2] < 0.02) return null;
+
+  // Least-squares meeting point of the normal lines in 3D
+  const a = new THREE.Matrix3().set(0, 0, 0, 0, 0, 0, 0, 0, 0);
+  const b = new THREE.Vector3();
+  const e = a.elements;
+  r.centroids.forEach((c, i) => {
+    const n = r.normals[i];
+    const w = r.weights[i];
+    const nn = [n.x, n.y, n.z];
+    const cc = [c.x, c.y, c.z];
+    for (let row = 0; row < 3; row++) {
+      let sum = 0;
+      for (let col = 0; col < 3; col++) {
+        const m = (row === col ? 1 : 0) - nn[row] * nn[col];
+        e[col * 3 + row] += w * m;
+        sum += m * cc[col];
+      }
+      b.setComponent(row, b.getComponent(row) + w * sum);
+    }
+  });
+  if (Math.abs(a.determinant()) < 1e-12) return null;
+  const center = b.applyMatrix3(a.clone().invert());
+
+  const dists = r.vertices.map(p => p.distanceTo(center));
+  const radius = dists.reduce((s, d) => s + d, 0) / dists.length;
+  const residual = Math.sqrt(dists.reduce((s, d) => s + (d - radius) ** 2, 0) / dists.length);
+  if (residual > tol || radius <= tol) return null;
+
+  let inward = 0;
+  r.centroids.forEach((c, i) => { inward += r.weights[i] * r.normals[i].dot(c.clone().sub(center)); });
+  return {
+    kind: 'sphere',
+    area: r.area,
+    triangleCount: r.triangles.length,
+    residual,
+    bounds: boundsOf(r.bounds),
+    center: toVec3(center),
+    radius,
+    concave: inward < 0
+  };
+};
+
+const planeFromPatch = (seg: Segmentation, patch: number): FittedSurface => {
+  const r = sampleRegion(seg, [patch]);
+  const normal = seg.patchNormals[patch];
+  const offsets = r.vertices.map(p => p.dot(normal));
+  const offset = offsets.reduce((s, d) => s + d, 0) / offsets.length;
+  const residual = Math.sqrt(offsets.reduce((s, d) => s + (d - offset) ** 2, 0) / offsets.length);
+  return {
+    kind: 'plane',
+    area: r.area,
+    triangleCount: r.triangles.length,
+    residual,
+    bounds: boundsOf(r.bounds),
+    normal: toVec3(normal),
+    offset
+  };
+};
+
+const axisDistance = (point: THREE.Vector3, origin: THREE.Vector3, axis: THREE.Vector3) =>
+  point.clone().sub(origin).projectOnPlane(axis).length();
+
+// A bore interrupted by a cross hole (or a boss by a slot) comes out as several regions of one cylinder
+const mergeCoaxial = (surfaces: FittedSurface[], tol: number): FittedSurface[] => {
+  const out: FittedSurface[] = [];
+  surfaces.forEach(s => {
+    if (s.kind !== 'cylinder') {
+      out.push(s);
+      return;
+    }
+    const axis = fromVec3(s.axis);
+    const match = out.find(o =>
+      o.kind === 'cylinder' &&
+      o.concave === s.concave &&
+      Math.abs(o.radius - s.radius) < tol * 2 &&
+      Math.abs(fromVec3(o.axis).dot(axis)) > PARALLEL_COS &&
+      axisDistance(fromVec3(o.origin), fromVec3(s.origin), axis) < tol * 2
+    );
+    if (!match || match.kind !== 'cylinder') {
+      out.push({ ...s });
+      return;
+    }
+    const base = fromVec3(match.origin).addScaledVector(fromVec3(match.axis), -match.axialMin);
+    const total = match.area + s.area;
+    match.radius = (match.radius * match.area + s.radius * s.area) / total;
+    match.radius2 = match.radius;
+    match.residual = Math.max(match.residual, s.residual);
+    match.axialMin = Math.min(match.axialMin, s.axialMin);
+    match.axialMax = Math.max(match.axialMax, s.axialMax);
+    match.origin = toVec3(base.addScaledVector(fromVec3(match.axis), match.axialMin));
+    match.arcDeg = Math.max(match.arcDeg, s.arcDeg);
+    match.area = total;
+    match.triangleCount += s.triangleCount;
+    match.bounds = {
+      min: toVec3(fromVec3(match.bounds.min).min(fromVec3(s.bounds.min))),
+      max: toVec3(fromVec3(match.bounds.max).max(fromVec3(s.bounds.max)))
+    };
+  });
+  return out;
+};
+
+// --- 2. Body recognition ---
+const recogniseBody = (surfaces: FittedSurface[], box: THREE.Box3, tol: number): FittedBody => {
+  // Turned: every convex curved surface shares one axis line
+  const convexRevolved = surfaces.filter(s => (s.kind === 'cylinder' || s.kind === 'cone') && !s.concave);
+  const convexSpheres = surfaces.filter(s => s.kind === 'sphere' && !s.concave);
+  let axis: THREE.Vector3 | null = null;
+  let origin: THREE.Vector3 | null = null;
+  const largest = [...convexRevolved].sort((a, b) => b.area - a.area)[0];
+  if (largest && (largest.kind === 'cylinder' || largest.kind === 'cone')) {
+    axis = fromVec3(largest.axis);
+    origin = fromVec3(largest.origin);
+  } else if (convexSpheres.length > 0 && convexSpheres[0].kind === 'sphere') {
+    axis = new THREE.Vector3(0, 0, 1);
+    origin = fromVec3(convexSpheres[0].center);
+  }
+  if (axis && origin) {
+    const coaxial = surfaces.every(s => {
+      if (s.kind === 'plane' || s.concave) return true;
+      if (s.kind === 'sphere') return axisDistance(fromVec3(s.center), origin!, axis!) < tol * 5;
+      if (s.kind === 'cylinder' || s.kind === 'cone') {
+        return Math.abs(fromVec3(s.axis).dot(axis!)) > PARALLEL_COS && axisDistance(fromVec3(s.origin), origin!, axis!) < tol * 5;
+      }
+      return true;
+    });
+    if (coaxial) {
+      const base = origin.clone().sub(axis.clone().multiplyScalar(origin.dot(axis)));
+      return { kind: 'turned', axis: toVec3(axis), origin: toVec3(base) };
+    }
+  }
+
+  // Box: each face of the bounding box is at least partly a coplanar, outward-facing plane
+  const size = box.getSize(new THREE.Vector3());
+  const faces = [0, 1, 2].flatMap(k => [-1, 1].map(sign => ({ k, sign })));
+  const covered = faces.every(({ k, sign }) => {
+    const coord = sign < 0 ? box.min.getComponent(k) : box.max.getComponent(k);
+    const faceArea = (size.x * size.y * size.z) / Math.max(size.getComponent(k), 1e-9);
+    const area = surfaces.reduce((sum, s) => {
+      if (s.kind !== 'plane') return sum;
+      const n = [s.normal.x, s.normal.y, s.normal.z][k];
+      return n * sign > PARALLEL_COS && Math.abs(s.offset - coord * sign) < tol ? sum + s.area : sum;
+    }, 0);
+    return area >= faceArea * 0.25;
+  });
+  if (covered) return { kind: 'box', min: toVec3(box.min), max: toVec3(box.max) };
+
+  return { kind: 'unknown' };
+};
+
+// Segment the mesh into planar, cylindrical, conical and spherical regions and recognise the body
+export const fitPrimitives = (geometry: THREE.BufferGeometry): PrimitiveFit => {
+  const tris = getTriangleArray(geometry);
+  const box = new THREE.Box3().setFromBufferAttribute(new THREE.BufferAttribute(tris, 3));
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z, 1e-6);
+  const tol = fitTolerance(maxDim);
+
+  const seg = segment(tris, maxDim);
+  const surfaces: FittedSurface[] = [];
+  let unexplainedArea = 0;
+
+  const queue = components(seg, seg.patches.map((_, i) => i));
+  while (queue.length > 0) {
+    const region = queue.pop()!;
+    if (region.length === 1) {
+      surfaces.push(planeFromPatch(seg, region[0]));
+      continue;
+    }
+    if (region.length >= MIN_CURVED_PATCHES) {
+      const samples = sampleRegion(seg, region);
+      // Cones first: a narrow strip of a cone also passes as a tilted cylinder
+      const fit = fitCone(seg, samples, tol) ?? fitCylinder(seg, samples, tol) ?? fitSphere(samples, tol);
+      if (fit) {
+        surfaces.push(fit);
+        continue;
+      }
+    }
+    // Peel off the largest facet as a plane (a face bordering a fillet) and retry the rest
+    const largest = region.reduce((best, p) => (seg.patchAreas[p] > seg.patchAreas[best] ? p : best), region[0]);
+    const regionArea = region.reduce((sum, p) => sum + seg.patchAreas[p], 0);
+    if (region.length > MAX_PEEL_PATCHES && seg.patchAreas[largest] < regionArea * 0.05) {
+      unexplainedArea += regionArea;
+      continue;
+    }
+    surfaces.push(planeFromPatch(seg, largest));
+    queue.push(...components(seg, region.filter(p => p !== largest)));
+  }
+
+  // Dense freeform meshes end up as thousands of tiny "planes"; those explain nothing
+  const totalArea = seg.patchAreas.reduce((s, a) => s + a, 0);
+  const meaningful = surfaces.filter(s => s.kind !== 'plane' || s.area >= totalArea * 1e-4);
+  unexplainedArea += surfaces.filter(s => !meaningful.includes(s)).reduce((sum, s) => sum + s.area, 0);
+  const merged = mergeCoaxial(meaningful, tol);
+  merged.sort((a, b) => b.area - a.area);
+
+  return {
+    surfaces: merged,
+    body: recogniseBody(merged, box, tol),
+    totalArea,
+    unexplainedArea,
+    boundingBox: { min: toVec3(box.min), max: toVec3(box.max) }
+  };
+};
+
+// --- 3. SCAD emission ---
+const num = (n: number) => {
+  const rounded = Number(n.toFixed(3));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+const vec = (v: Vec3) => `[${num(v.x)}, ${num(v.y)}, ${num(v.z)}]`;
+
+// rotate() taking +Z onto `axis`
+const rotateFor = (axis: Vec3): string => {
+  if (axis.z > PARALLEL_COS) return '';
+  if (axis.z < -PARALLEL_COS) return 'rotate([180, 0, 0]) ';
+  if (axis.x > PARALLEL_COS) return 'rotate([0, 90, 0]) ';
+  if (axis.x < -PARALLEL_COS) return 'rotate([0, -90, 0]) ';
+  if (axis.y > PARALLEL_COS) return 'rotate([-90, 0, 0]) ';
+  if (axis.y < -PARALLEL_COS) return 'rotate([90, 0, 0]) ';
+  const tilt = THREE.MathUtils.radToDeg(Math.acos(THREE.MathUtils.clamp(axis.z, -1, 1)));
+  const heading = THREE.MathUtils.radToDeg(Math.atan2(axis.y, axis.x));
+  return `rotate([0, ${num(tilt)}, ${num(heading)}]) `;
+};
+
+const axisName = (axis: Vec3): string => {
+  if (Math.abs(axis.x) > PARALLEL_COS) return 'X';
+  if (Math.abs(axis.y) > PARALLEL_COS) return 'Y';
+  if (Math.abs(axis.z) > PARALLEL_COS) return 'Z';
+  return vec(axis);
+};
+
+// Extent of the bounding box projected onto an axis
+const projectedExtent = (fit: PrimitiveFit, axis: Vec3): [number, number] => {
+  const { min, max } = fit.boundingBox;
+  let lo = Infinity, hi = -Infinity;
+  for (const x of [min.x, max.x]) for (const y of [min.y, max.y]) for (const z of [min.z, max.z]) {
+    const d = x * axis.x + y * axis.y + z * axis.z;
+    lo = Math.min(lo, d);
+    hi = Math.max(hi, d);
+  }
+  return [lo, hi];
+};
+
+const SURFACE_NAMES: Record<FittedSurface['kind'], string> = { plane: '平面', cylinder: '圆柱面', cone: '圆锥面', sphere: '球面' };
+
+export const fitToScad = (fit: PrimitiveFit): GenerationResult => {
+  const { min: bbMin, max: bbMax } = fit.boundingBox;
+  const tol = fitTolerance(Math.max(bbMax.x - bbMin.x, bbMax.y - bbMin.y, bbMax.z - bbMin.z));
+  const params: string[] = [];
+  const solids: string[] = [];
+  const cuts: string[] = [];
+  const skipped: string[] = [];
+  const { body } = fit;
+
+  // Base solid
+  if (body.kind === 'turned') {
+    let section = 0;
+    fit.surfaces.forEach(s => {
+      if (s.kind === 'plane' || s.concave) return;
+      if (s.kind === 'cylinder' || s.kind === 'cone') {
+        section++;
+        const name = `section_${section}`;
+        params.push(`${name}_h = ${num(s.axialMax - s.axialMin)};`);
+        if (s.kind === 'cylinder') {
+          params.push(`${name}_d = ${num(s.radius * 2)};`);
+          solids.push(`  // 回转段 ${section}: 圆柱\n  translate(${vec(s.origin)}) ${rotateFor(s.axis)}cylinder(h = ${name}_h, d = ${name}_d);`);
+        } else {
+          params.push(`${name}_d1 = ${num(s.radius * 2)};`, `${name}_d2 = ${num(s.radius2 * 2)};`);
+          solids.push(`  // 回转段 ${section}: 圆锥台\n  translate(${vec(s.origin)}) ${rotateFor(s.axis)}cylinder(h = ${name}_h, d1 = ${name}_d1, d2 = ${name}_d2);`);
+        }
+      } else if (s.kind === 'sphere') {
+        section++;
+        const name = `section_${section}`;
+        params.push(`${name}_r = ${num(s.radius)};`);
+        // Only the axial band the spherical region actually covers
+        const axis = fromVec3(body.axis);
+        const band = [s.bounds.min.x, s.bounds.max.x].flatMap(x =>
+          [s.bounds.min.y, s.bounds.max.y].flatMap(y => [s.bounds.min.z, s.bounds.max.z].map(z => axis.dot(new THREE.Vector3(x, y, z))))
+        );
+        const lo = Math.min(...band), hi = Math.max(...band);
+        const centre = axis.dot(fromVec3(s.center));
+        if (lo <= centre - s.radius + tol && hi >= centre + s.radius - tol) {
+          solids.push(`  // 回转段 ${section}: 整球\n  translate(${vec(s.center)}) sphere(r = ${name}_r);`);
+          return;
+        }
+        const start = fromVec3(body.origin).addScaledVector(axis, lo);
+        solids.push(
+          `  // 回转段 ${section}: 球面\n  intersection() {\n    translate(${vec(s.center)}) sphere(r = ${name}_r);\n    translate(${vec(toVec3(start))}) ${rotateFor(body.axis)}cylinder(h = ${num(hi - lo)}, r = ${name}_r + eps);\n  }`
+        );
+      }
+    });
+  } else {
+    const { min, max } = fit.boundingBox;
+    params.push(
+      `body_size = [${num(max.x - min.x)}, ${num(max.y - min.y)}, ${num(max.z - min.z)}];`,
+      `body_origin = ${vec(min)};`
+    );
+    solids.push(`  // 主体: ${body.kind === 'box' ? '轴对齐长方体' : '包围盒 (未识别主体形状)'}\n  translate(body_origin) cube(body_size);`);
+    fit.surfaces.forEach(s => {
+      if (s.kind !== 'plane' && !s.concave) skipped.push(`${SURFACE_NAMES[s.kind]} r=${num(s.radius)} (凸面, 长方体主体无法表达)`);
+    });
+  }
+
+  // Subtractive features: bores, countersinks, spherical sockets
+  let hole = 0;
+  fit.surfaces.forEach(s => {
+    if ((s.kind === 'cylinder' || s.kind === 'cone') && s.concave) {
+      hole++;
+      const name = `hole_${hole}`;
+      const [lo, hi] = projectedExtent(fit, s.axis);
+      const through = s.axialMin - lo < tol && hi - s.axialMax < tol;
+      // Through-holes overshoot both faces; blind features only by eps
+      const extend = through ? 1 : 0.01;
+      const start = fromVec3(s.origin).addScaledVector(fromVec3(s.axis), -extend);
+      params.push(`${name}_depth = ${num(s.axialMax - s.axialMin)};`);
+      const label = `${through ? '通孔' : '盲孔'} ${hole}${s.kind === 'cone' ? ' (锥形)' : ''}, 轴线 ${axisName(s.axis)}`;
+      if (s.kind === 'cylinder') {
+        params.push(`${name}_d = ${num(s.radius * 2)};`);
+        cuts.push(`  // ${label}\n  translate(${vec(toVec3(start))}) ${rotateFor(s.axis)}cylinder(h = ${name}_depth + ${num(extend * 2)}, d = ${name}_d);`);
+      } else {
+        params.push(`${name}_d1 = ${num(s.radius * 2)};`, `${name}_d2 = ${num(s.radius2 * 2)};`);
+        cuts.push(`  // ${label}\n  translate(${vec(s.origin)}) ${rotateFor(s.axis)}cylinder(h = ${name}_depth, d1 = ${name}_d1, d2 = ${name}_d2);`);
+      }
+    } else if (s.kind === 'sphere' && s.concave) {
+      hole++;
+      params.push(`hole_${hole}_r = ${num(s.radius)};`);
+      cuts.push(`  // 球形凹坑 ${hole}\n  translate(${vec(s.center)}) sphere(r = hole_${hole}_r);`);
+    }
+  });
+
+  if (solids.length === 0) {
+    const { min, max } = fit.boundingBox;
+    params.push(`body_size = [${num(max.x - min.x)}, ${num(max.y - min.y)}, ${num(max.z - min.z)}];`, `body_origin = ${vec(min)};`);
+    solids.push(`  // 主体: 包围盒 (未识别主体形状)\n  translate(body_origin) cube(body_size);`);
+  }
+
+  const base = solids.length > 1 ? `  union() {\n${solids.map(s => s.replace(/^/gm, '  ')).join('\n')}\n  }` : solids[0];
+  const bodyLabel = body.kind === 'turned'
+    ? `车削件, 回转轴 ${axisName(body.axis)}`
+    : body.kind === 'box' ? '轴对齐长方体' : '未识别';
+  const code = [
+    `// 本地几何拟合生成 (未调用模型): ${bodyLabel}`,
+    `// 单位: 毫米, +Z 朝上 (工作坐标系)`,
+    `$fn = 96;`,
+    `eps = 0.01;`,
+    ``,
+    ...params,
+    ``,
+    cuts.length > 0 ? `difference() {\n${base}\n${cuts.join('\n')}\n}` : base.replace(/^ {2}/gm, ''),
+    ``
+  ].join('\n');
+
+  const counts = (['plane', 'cylinder', 'cone', 'sphere'] as const)
+    .map(kind => [kind, fit.surfaces.filter(s => s.kind === kind).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([kind, n]) => `${SURFACE_NAMES[kind]} ${n}`)
+    .join(', ');
+  const coverage = fit.totalArea > 0 ? (1 - fit.unexplainedArea / fit.totalArea) * 100 : 0;
+  const notes = [
+    `本地几何拟合: 主体识别为${bodyLabel}。`,
+    `共拟合 ${fit.surfaces.length} 个解析曲面 (${counts || '无'}), 覆盖 ${coverage.toFixed(1)}% 的表面积。`,
+    hole > 0 ? `识别出 ${hole} 个减料特征 (孔/锥孔/球坑)。` : '',
+    body.kind !== 'turned' ? '平面台阶、凹槽等其他平面特征未建模。' : '',
+    skipped.length > 0 ? `未建模: ${skipped.slice(0, 5).join('; ')}${skipped.length > 5 ? ' 等' : ''}。` : ''
+  ];
+  return { code, explanation: notes.filter(Boolean).join(''), model: FITTING_LABEL };
+};
+
+// Fitted parameters as exact hints for a model run
+export const formatFitForPrompt = (fit: PrimitiveFit): string => {
+  const { body } = fit;
+  const coverage = fit.totalArea > 0 ? (1 - fit.unexplainedArea / fit.totalArea) * 100 : 0;
+  const lines = [
+    '[FITTED PRIMITIVES — least-squares fits of analytic surfaces to the mesh. Units: mm. Frame: working frame, Z-up]',
+    `Recognised body: ${body.kind === 'turned'
+      ? `turned part, axis ${axisName(body.axis)} through ${vec(body.origin)}`
+      : body.kind === 'box' ? `axis-aligned block ${vec(body.min)} to ${vec(body.max)}` : 'not recognised'}`,
+    `Analytic coverage: ${coverage.toFixed(1)}% of the surface area`
+  ];
+  const curved = fit.surfaces.filter(s => s.kind !== 'plane').slice(0, 24);
+  const planes = fit.surfaces.filter(s => s.kind === 'plane').slice(0, 16);
+  curved.forEach(s => {
+    if (s.kind === 'cylinder') {
+      lines.push(`- cylinder (${s.concave ? 'bore' : 'boss'}) Ø${num(s.radius * 2)}, axis ${axisName(s.axis)} from ${vec(s.origin)}, length ${num(s.axialMax - s.axialMin)}, arc ${Math.round(s.arcDeg)}°`);
+    } else if (s.kind === 'cone') {
+      lines.push(`- cone (${s.concave ? 'countersink' : 'taper'}) Ø${num(s.radius * 2)} → Ø${num(s.radius2 * 2)}, axis ${axisName(s.axis)} from ${vec(s.origin)}, length ${num(s.axialMax - s.axialMin)}`);
+    } else if (s.kind === 'sphere') {
+      lines.push(`- sphere (${s.concave ? 'socket' : 'dome'}) r=${num(s.radius)} centre ${vec(s.center)}`);
+    }
+  });
+  planes.forEach(s => {
+    if (s.kind === 'plane') lines.push(`- plane normal ${vec(s.normal)} at offset ${num(s.offset)}, area ${num(s.area)} mm²`);
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,200 @@
+import { DesignInput, GenerationResult, MeshFormat, RefineIteration, ReferenceImage } from "../types";
+import { CaptureProfile } from "./captureProfiles";
+import { ProviderSettings } from "./llmProvider";
+import { AppSettings } from "./settingsStore";
+import { RepairOptions } from "./meshRepair";
+import { OrientationOptions } from "./meshOrientation";
+
+// Local project history: every reconstruction run, with the source file it was made from, in IndexedDB.
+// Runs are small and listed often; snapshots and comparison panels are megabytes and only read on reopen,
+// and one source file is shared by every run made from it.
+
+const DB_NAME = 'stl2scad';
+const DB_VERSION = 1;
+const RUNS = 'runs';
+const MEDIA = 'media';
+const MESHES = 'meshes';
+
+export interface RunSettings extends Omit<ProviderSettings, 'apiKey'> {
+  imageResolution: number;
+}
+
+export interface ProjectRun {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  filename: string;
+  format: MeshFormat;
+  meshKey: string;                  // SHA-256 of the source file bytes
+  body: number | 'all';             // which body of a multi-body file was reconstructed
+  repair?: RepairOptions | null;    // mesh repairs applied to that body before capture; absent on older runs
+  orientation?: OrientationOptions; // up axis and file unit the source was normalized with; absent on older runs
+  parts?: string[] | null;          // labels of the parts reconstructed as separate modules; absent for single-part runs
+  captureProfile: CaptureProfile;
+  prompt: string;                  // user context sent with the images; empty for the fitting backend
+  intent?: string;                  // user design intent sent with the prompt; absent on older runs
+  settings: RunSettings;
+  result: GenerationResult;         // latest code (edits included), explanation, model and score
+  iterations: Omit<RefineIteration, 'images'>[];
+  bestIteration: number | null;
+}
+
+interface RunMedia {
+  id: string;
+  snapshots: string[];              // data URLs of the first-pass captures
+  iterationImages: string[][];      // comparison panels, parallel to ProjectRun.iterations
+  references?: ReferenceImage[];    // user photos and drawings; absent on older runs
+}
+
+interface StoredMesh {
+  key: string;
+  buffer: ArrayBuffer;
+}
+
+export interface NewRun extends Omit<ProjectRun, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'meshKey' | 'iterations' | 'intent'> {
+  source: ArrayBuffer;
+  snapshots: string[];
+  iterations: RefineIteration[];
+  design?: DesignInput;             // batch runs have none
+}
+
+export interface LoadedRun {
+  run: ProjectRun;
+  source: ArrayBuffer;
+  snapshots: string[];
+  iterations: RefineIteration[];
+  design: DesignInput;
+}
+
+// What a run records about the backend: everything but the key
+export const toRunSettings = ({ provider, model, baseUrl, temperature, imageResolution }: AppSettings): RunSettings =>
+  ({ provider, model, baseUrl, temperature, imageResolution });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS)) db.createObjectStore(RUNS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(MEDIA)) db.createObjectStore(MEDIA, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(MESHES)) db.createObjectStore(MESHES, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error(`无法打开本地项目库: ${request.error?.message ?? '未知错误'}`));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run `body` in one transaction over `stores` and resolve once it has committed
+const transact = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error('本地项目库事务被中止。'));
+    tx.onerror = () => reject(tx.error);
+  });
+  // Both are awaited together so an abort while `body` is pending, or `body` throwing, never leaves `done` unhandled
+  const [value] = await Promise.all([body(tx), done]);
+  return value;
+};
+
+const hashBuffer = async (buffer: ArrayBuffer): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const stripImages = (iterations: RefineIteration[]): Omit<RefineIteration, 'images'>[] =>
+  iterations.map(({ images, ...rest }) => rest);
+
+export const saveRun = async ({ source, snapshots, iterations, design, ...fields }: NewRun): Promise<ProjectRun> => {
+  const meshKey = await hashBuffer(source);
+  const now = Date.now();
+  const run: ProjectRun = {
+    ...fields,
+    id: crypto.randomUUID(),
+    name: fields.filename.replace(/\.[^.]+$/, ''),
+    createdAt: now,
+    updatedAt: now,
+    meshKey,
+    intent: design?.intent,
+    iterations: stripImages(iterations)
+  };
+  const media: RunMedia = {
+    id: run.id,
+    snapshots,
+    iterationImages: iterations.map(it => it.images),
+    references: design?.references
+  };
+
+  await transact([RUNS, MEDIA, MESHES], 'readwrite', async tx => {
+    const meshes = tx.objectStore(MESHES);
+    if (!(await promisify(meshes.count(meshKey)))) meshes.put({ key: meshKey, buffer: source } satisfies StoredMesh);
+    tx.objectStore(RUNS).put(run);
+    tx.objectStore(MEDIA).put(media);
+  });
+  return run;
+};
+
+// Edits and late scores on an existing run; media and the source file never change after saving
+export const updateRun = async (id: string, patch: Partial<Pick<ProjectRun, 'name' | 'result'>>): Promise<ProjectRun | null> =>
+  transact([RUNS], 'readwrite', async tx => {
+    const runs = tx.objectStore(RUNS);
+    const run = await promisify(runs.get(id) as IDBRequest<ProjectRun | undefined>);
+    if (!run) return null;
+    const next = { ...run, ...patch, updatedAt: Date.now() };
+    runs.put(next);
+    return next;
+  });
+
+// Newest first
+export const listRuns = async (): Promise<ProjectRun[]> => {
+  const runs = await transact([RUNS], 'readonly', tx => promisify(tx.objectStore(RUNS).getAll() as IDBRequest<ProjectRun[]>));
+  return runs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const loadRun = async (id: string): Promise<LoadedRun> =>
+  transact([RUNS, MEDIA, MESHES], 'readonly', async tx => {
+    const run = await promisify(tx.objectStore(RUNS).get(id) as IDBRequest<ProjectRun | undefined>);
+    if (!run) throw new Error('该记录已被删除。');
+    const media = await promisify(tx.objectStore(MEDIA).get(id) as IDBRequest<RunMedia | undefined>);
+    const mesh = await promisify(tx.objectStore(MESHES).get(run.meshKey) as IDBRequest<StoredMesh | undefined>);
+    if (!mesh) throw new Error(`找不到该记录的源文件: ${run.filename}`);
+    return {
+      run,
+      source: mesh.buffer,
+      snapshots: media?.snapshots ?? [],
+      iterations: run.iterations.map((it, i) => ({ ...it, images: media?.iterationImages[i] ?? [] })),
+      design: { intent: run.intent ?? '', references: media?.references ?? [] }
+    };
+  });
+
+// Drops the source file too once no other run refers to it
+export const deleteRun = async (id: string): Promise<void> =>
+  transact([RUNS, MEDIA, MESHES], 'readwrite', async tx => {
+    const runs = tx.objectStore(RUNS);
+    const run = await promisify(runs.get(id) as IDBRequest<ProjectRun | undefined>);
+    if (!run) return;
+    runs.delete(id);
+    tx.objectStore(MEDIA).delete(id);
+    const all = await promisify(runs.getAll() as IDBRequest<ProjectRun[]>);
+    if (!all.some(r => r.id !== id && r.meshKey === run.meshKey)) tx.objectStore(MESHES).delete(run.meshKey);
+  });
@@ -0,0 +1,283 @@
+import { FidelityMetrics, GenerationResult, SymmetryReport } from "../types";
+import { LlmProvider, ReferenceAttachment } from "./llmProvider";
+import { requestScad } from "./responseValidation";
+import { checkSymmetryUsage, hasSymmetry } from "./symmetryDetection";
+import { CaptureProfile, describeProfileForPrompt, imageCount, sectionPlanes } from "./captureProfiles";
+
+const SYSTEM_INSTRUCTION = `
+You are a Senior Reverse Engineering Specialist and OpenSCAD Expert.
+Your task is "Visual Reverse Engineering": reconstructing a physical 3D object into high-precision, parametric OpenSCAD code based on visual inputs.
+
+**STRICT INPUT PROTOCOL: The Single-Dataset Geometric Reconstruction Protocol**
+You will receive a set of rendered images. They are ALL "Global/Fit-to-View" images.
+The **[VIEW SET]** block in the user message lists every rendered image in order: its camera direction, the projection and the rendering style.
+Reference images supplied by the user, when there are any, come after all rendered images (see REFERENCE IMAGES & DESIGN INTENT).
+You must ignore surface textures, micro-defects, or layer lines. Focus 100% on geometric topology.
+
+---
+
+### DATASET: GLOBAL VIEWS
+*   **Visuals:** Fit-to-View (Whole object visible).
+*   **Composition:** Axis-aligned (cardinal) views plus oblique views, as listed in [VIEW SET].
+*   **Styles:** Besides shaded renders you may get silhouettes, edge-line drawings, depth maps or normal maps of the same view. Treat them as extra channels of the same camera shot.
+
+### REFERENCE IMAGES & DESIGN INTENT (OPTIONAL)
+*   **Reference images** are photos or drawings of the physical part. Each one is preceded by a "[REFERENCE n: ...]" label, and the **[REFERENCE IMAGES]** block lists them. They are not renders: camera, lens, scale and lighting are unknown.
+*   Use them for what the mesh cannot show well: threads, small chamfers and fillets lost in a scan, engraved text, damaged or missing regions, the intended shape.
+*   Never measure from a photo. Dimensions written on a drawing are authoritative; otherwise the mesh (renders and [MEASURED GEOMETRY]) wins on size and position.
+*   A **[DESIGN INTENT]** block is the user's own description of the part: what it does, which features are critical, what should be parametric. Follow it when choosing parameters, names and construction, and say in the explanation how you applied it.
+*   A request marked **[NO MESH]** has no rendered views and no [MEASURED GEOMETRY]: the reference images and the design intent are all there is. Take sizes from dimensions written on a drawing, then from the intent; where neither gives one, choose a plausible value, declare it as a Customizer parameter and list it in the explanation as an assumption.
+
+### ANALYSIS LOGIC: "Volumetric Ambiguity Resolution"
+You must use all views together to solve 3D puzzles.
+
+1.  **Cardinal Views**: Establish the Bounding Box and Primitives.
+    *   (e.g., "Front is rect, Top is rect -> Could be Cube or Cylinder").
+
+2.  **Oblique Views**: **CRITICAL STEP**. Use these to resolve the ambiguity.
+    *   Look at the "Front-Top" 45° angle.
+    *   If the edge is flat -> Chamfer.
+    *   If the edge curves smoothly -> Fillet.
+    *   If the edge is sharp -> No operation.
+    *   Use these views to see *inside* holes or behind occlusions.
+
+3.  **Cross-Sections** (when present): The mesh cut by axis-aligned planes, material filled.
+    *   They are the ground truth for internal features: bore diameters and depths, pockets, wall thickness.
+    *   A loop inside a filled region is a hole through that plane; read its size against the scale bar and the [SECTIONS] offsets.
+
+### MEASURED GEOMETRY (GROUND TRUTH)
+The user context contains a **[MEASURED GEOMETRY]** block computed directly from the mesh (bounding box, volume, principal axes, hole/boss radii).
+*   These numbers are exact. **Use them verbatim** for overall dimensions, hole diameters and feature positions instead of estimating scale from the images.
+*   Use the images only to understand topology (which features exist and how they connect).
+*   The measured frame is the working frame (Z-up, millimetres); the user context states how it was derived from the file. Keep the same frame in the OpenSCAD output and state the units and up axis in the header comment of the script.
+
+### FITTED PRIMITIVES (OPTIONAL)
+The user context may contain a **[FITTED PRIMITIVES]** block: planes, cylinders, cones and spheres fitted to the mesh by least squares, in the same frame.
+*   Radii, axes and axial extents of fitted surfaces are exact. Use them verbatim for holes, bosses and turned sections.
+*   "bore", "countersink" and "socket" surfaces remove material; "boss", "taper" and "dome" surfaces add it.
+*   Freeform area the fit could not explain is still defined by the images.
+*   A **[SWEPT PROFILE]** block replaces it when the whole part is one profile revolved about or extruded along an axis. Build the part from exactly that profile with \`rotate_extrude\` / \`linear_extrude\`; lines and arcs are listed in order.
+
+### SYMMETRY CONSTRAINTS (OPTIONAL)
+The user context may contain a **[SYMMETRY CONSTRAINTS]** block: mirror planes, N-fold rotations and hole/boss patterns measured on the mesh.
+*   They are measured, not guessed. The finished model must have every listed symmetry, at the listed positions.
+*   Write N-fold rotations and feature patterns as \`for\` loops over one module or sector, with the listed count and spacing; where one side of a mirror plane copies the other, use \`mirror()\`.
+*   Your script is checked against the block; a script that spells the repeats out as copies is sent back.
+
+### REFINEMENT ROUNDS
+Some requests are corrections of your previous script instead of a first attempt. They contain **[PREVIOUS CODE]**, a **[FIDELITY REPORT]** and one comparison panel per view instead of plain views.
+*   Each panel shows, left to right: the SOURCE mesh, your RECONSTRUCTION rendered from the identical camera pose, and a silhouette DIFF (red = material your model is missing, amber = material your model added, grey = agreement).
+*   Fix the discrepancies by editing the previous code. Keep everything that already matches; do not restart from scratch unless the previous script failed to compile.
+
+### SPATIAL INTEGRITY RULES (PREVENT FRACTURE & MISALIGNMENT):
+1.  **Single Coordinate System**: Determine the "Global Origin" (usually center of base) immediately. All parts must anchor to this (0,0,0).
+2.  **Modular Parametric Logic**: 
+    *   **Detect Symmetry**: If you see 3 claws, write \`module claw()\` and loop it. Do NOT write 3 separate blocks of code. The [SYMMETRY CONSTRAINTS] block, when present, tells you which repeats are really there.
+    *   **Manifold Union**: Ensure parts overlap by epsilon (0.01mm) to prevent "floating parts".
+    *   **Customizer Parameters**: Declare every key dimension as a top-level variable before the first module, with an OpenSCAD Customizer range comment, e.g. \`wall = 2; // [0.5:0.5:10]\`. Derive everything else from these variables so resizing one keeps the part consistent.
+3.  **No Voxelization**: 
+    *   **BANNED**: Stacking thin slices to approximate a curve.
+    *   **REQUIRED**: Use continuous math (\`rotate_extrude\`, \`intersection\`, \`difference\`).
+
+### OUTPUT REQUIREMENTS:
+1.  **Language**: Logic/Variables in English.
+2.  **Comments**: **ALL COMMENTS inside the code must be in CHINESE (中文).**
+3.  **Explanation**: **The 'explanation' field must be in CHINESE (中文).**
+
+Output JSON Format:
+{
+  "code": "The OpenSCAD script...",
+  "explanation": "Reconstruction logic in Chinese..."
+}
+`;
+
+// What the user attached besides the mesh, ready to send: reference images already labelled and resized
+export interface DesignBrief {
+  intent: string;
+  references: ReferenceAttachment[];
+}
+
+const referenceCountLine = (design?: DesignBrief): string =>
+  design && design.references.length > 0
+    ? ` Then ${design.references.length} reference image${design.references.length > 1 ? 's' : ''} from the user, each after its label.`
+    : '';
+
+// [DESIGN INTENT] and [REFERENCE IMAGES] blocks; empty when the user attached nothing
+const formatDesignForPrompt = (design?: DesignBrief): string => {
+  if (!design) return '';
+  const blocks: string[] = [];
+  if (design.intent.trim()) {
+    blocks.push(`[DESIGN INTENT — written by the user]\n${design.intent.trim()}`);
+  }
+  if (design.references.length > 0) {
+    blocks.push(
+      '[REFERENCE IMAGES — photos/drawings of the physical part, after the rendered images, not to scale]\n' +
+      design.references.map(r => `- ${r.label}`).join('\n')
+    );
+  }
+  return blocks.join('\n\n');
+};
+
+export const generateScadFromImage = async (
+  provider: LlmProvider,
+  imagesBase64: string[],
+  additionalContext: string,
+  profile: CaptureProfile,
+  onProgress?: (text: string) => void,
+  symmetry?: SymmetryReport,
+  design?: DesignBrief
+): Promise<GenerationResult> => {
+  // Structured Prompt based on Input Data Protocol
+  const promptText = `
+[CRITICAL INSTRUCTION: SINGLE-DATASET GEOMETRY ONLY]
+Input: ${imageCount(profile)} images: ${profile.views.length} camera directions × ${profile.styles.length} rendering style${profile.styles.length > 1 ? 's' : ''}${sectionPlanes(profile).length > 0 ? ` + ${sectionPlanes(profile).length} cross-sections` : ''}.${referenceCountLine(design)}
+Goal: 100% Topological Accuracy. Zero Skin Details.
+
+${describeProfileForPrompt(profile)}
+${design ? `\n${formatDesignForPrompt(design)}\n` : ''}
+[TASK]
+1. Scan the cardinal views to build the "Mental Bounding Box".
+2. Scan the oblique views to resolve "Edge Ambiguities" (Chamfer vs Fillet) and "Occlusions".
+3. Write the OpenSCAD code using **Modular Logic** (loops for repeating parts) to prevent misalignment.
+4. **Stop looking for skin details.** We are strictly building the mesh. Use all the angles solely to ensure the 3D geometry has no blind spots.
+5. Take every absolute dimension from the [MEASURED GEOMETRY] block below; cross-check that your final model matches its bounding box and volume.
+
+User Context: ${additionalContext}
+
+Remember:
+1. Code variables in English.
+2. **ALL COMMENTS** in the code must be in **CHINESE**.
+3. The **explanation** field must be in **CHINESE**.
+`;
+
+  return requestScad(
+    provider,
+    { kind: 'generate', systemInstruction: SYSTEM_INSTRUCTION, prompt: promptText, imagesBase64, references: design?.references },
+    onProgress,
+    symmetryCheck(symmetry)
+  );
+};
+
+// Photos, drawings and intent without a mesh: the references are the only images, and nothing is measured
+export const generateScadFromReferences = async (
+  provider: LlmProvider,
+  design: DesignBrief,
+  additionalContext: string,
+  onProgress?: (text: string) => void
+): Promise<GenerationResult> => {
+  const count = design.references.length;
+  const promptText = `
+[NO MESH: RECONSTRUCTION FROM REFERENCES ONLY]
+Input: ${count > 0 ? `${count} reference image${count > 1 ? 's' : ''} from the user, each after its label` : 'no images'}. There are no rendered views and no [MEASURED GEOMETRY].
+
+${formatDesignForPrompt(design)}
+
+[TASK]
+1. Work out the part's shape from the reference images and the design intent.
+2. Take every size from a dimension written on a drawing, then from the design intent. Where neither gives one, choose a plausible value, declare it as a top-level Customizer parameter and name it in the explanation as an assumption.
+3. Write the OpenSCAD code using **Modular Logic** (loops for repeating parts) to prevent misalignment.
+
+User Context: ${additionalContext}
+
+Remember:
+1. Code variables in English.
+2. **ALL COMMENTS** in the code must be in **CHINESE**.
+3. The **explanation** field must be in **CHINESE**.
+`;
+
+  return requestScad(
+    provider,
+    { kind: 'generate', systemInstruction: SYSTEM_INSTRUCTION, prompt: promptText, imagesBase64: [], references: design.references },
+    onProgress
+  );
+};
+
+// Measured symmetry the reply must express, when there is any
+const symmetryCheck = (symmetry?: SymmetryReport) =>
+  symmetry && hasSymmetry(symmetry) ? (result: GenerationResult) => checkSymmetryUsage(result.code, symmetry) : undefined;
+
+// Feedback for one refinement round: how the last script compared against the source
+export interface RefinementFeedback {
+  previousCode: string;
+  fidelity?: FidelityMetrics;
+  renderError?: string;
+  renderWarnings?: string[];
+  constraintWarnings?: string[];
+}
+
+const formatFeedback = ({ fidelity, renderError, renderWarnings = [], constraintWarnings = [] }: RefinementFeedback): string => {
+  if (renderError) {
+    return `The previous script FAILED to compile: ${renderError}\nThe comparison panels show the source only.`;
+  }
+  const lines: string[] = [];
+  if (fidelity) {
+    const d = fidelity.bboxDelta;
+    lines.push(
+      `Score: ${fidelity.score}/100 (voxel IoU ${fidelity.iou.toFixed(3)})`,
+      `Hausdorff distance: ${fidelity.hausdorff.toFixed(2)} mm; mean surface deviation: ${fidelity.meanDeviation.toFixed(3)} mm`,
+      `Volume: source ${fidelity.volumeSource.toFixed(1)} mm³, reconstruction ${fidelity.volumeRecon.toFixed(1)} mm³ (${fidelity.volumeDiffPercent >= 0 ? '+' : ''}${fidelity.volumeDiffPercent.toFixed(1)}%)`,
+      `Bounding box size delta (reconstruction - source): X ${d.x.toFixed(2)}, Y ${d.y.toFixed(2)}, Z ${d.z.toFixed(2)} mm`
+    );
+  }
+  if (renderWarnings.length > 0) {
+    lines.push(`Preview warnings: ${renderWarnings.slice(0, 10).join('; ')}`);
+  }
+  if (constraintWarnings.length > 0) {
+    lines.push(`Symmetry constraints not expressed: ${constraintWarnings.join('; ')}`);
+  }
+  return lines.join('\n');
+};
+
+export const refineScadFromComparison = async (
+  provider: LlmProvider,
+  comparisonImagesBase64: string[],
+  feedback: RefinementFeedback,
+  additionalContext: string,
+  profile: CaptureProfile,
+  onProgress?: (text: string) => void,
+  symmetry?: SymmetryReport,
+  design?: DesignBrief
+): Promise<GenerationResult> => {
+  const promptText = `
+[REFINEMENT ROUND]
+Input: ${profile.views.length} comparison panels (SOURCE | RECONSTRUCTION | DIFF), one shaded panel per view, in the order below.${referenceCountLine(design)}
+Goal: Correct the previous OpenSCAD script so the reconstruction matches the source.
+
+${describeProfileForPrompt(profile)}
+${design ? `\n${formatDesignForPrompt(design)}\n` : ''}
+[FIDELITY REPORT]
+${formatFeedback(feedback)}
+
+[PREVIOUS CODE]
+\`\`\`openscad
+${feedback.previousCode}
+\`\`\`
+
+[TASK]
+1. Read the DIFF column of every panel: red regions are missing material, amber regions are extra material.
+2. Map each discrepancy to the responsible statement in the previous code and correct its dimensions, position or boolean operation.
+3. Re-check the result against the [MEASURED GEOMETRY] block below.
+4. Return the complete corrected script, not a patch.
+
+User Context: ${additionalContext}
+
+Remember:
+1. Code variables in English.
+2. **ALL COMMENTS** in the code must be in **CHINESE**.
+3. The **explanation** field must be in **CHINESE** and should say what you changed this round.
+`;
+
+  return requestScad(
+    provider,
+    {
+      kind: 'refine',
+      systemInstruction: SYSTEM_INSTRUCTION,
+      prompt: promptText,
+      imagesBase64: comparisonImagesBase64,
+      references: design?.references,
+      previousCode: feedback.previousCode
+    },
+    onProgress,
+    symmetryCheck(symmetry)
+  );
+};
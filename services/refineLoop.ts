@@ -0,0 +1,122 @@
+import type { BufferGeometry } from 'three';
+import { GenerationResult, RefineIteration, SymmetryReport } from '../types';
+import { renderScad } from './openscadService';
+import { computeFidelity } from './fidelity';
+import { viewFrameBox } from './viewCapture';
+import { ViewRenderer, browserRenderer } from './viewRenderer';
+import { CaptureProfile } from './captureProfiles';
+import { DesignBrief, refineScadFromComparison } from './reconstructionService';
+import { LlmProvider } from './llmProvider';
+
+const SOURCE_COLOR = '#6366f1';
+const RECON_COLOR = '#10b981';
+
+export interface RefineOptions {
+  provider: LlmProvider;
+  maxRounds: number;      // refinement rounds after the first pass
+  targetScore: number;    // stop as soon as an iteration reaches this fidelity score
+  context: string;        // same user context as the first pass (file name, measured geometry)
+  profile: CaptureProfile; // views and camera of the first pass; comparisons are always shaded
+  symmetry?: SymmetryReport; // measured constraints each refined script is checked against
+  design?: DesignBrief;   // reference images and design intent of the first pass, sent again every round
+  renderer?: ViewRenderer;
+  onProgress?: (text: string) => void;
+  onIteration?: (iteration: RefineIteration) => void;
+  shouldStop?: () => boolean;
+}
+
+export interface RefineOutcome {
+  iterations: RefineIteration[];
+  best: RefineIteration;
+}
+
+// Highest score wins; earlier iterations win ties since they changed less
+export const pickBestIteration = (iterations: RefineIteration[]): RefineIteration =>
+  iterations.reduce((best, it) => (it.score > best.score ? it : best));
+
+const stripDataUrl = (dataUrl: string) => dataUrl.split(',')[1];
+
+export const runRefinement = async (
+  source: BufferGeometry,
+  initial: GenerationResult,
+  { provider, maxRounds, targetScore, context, profile, symmetry, design, renderer = browserRenderer, onProgress, onIteration, shouldStop }: RefineOptions
+): Promise<RefineOutcome> => {
+  const frame = viewFrameBox(source);
+  // Overlays would show up as coverage in the pixel diff, so comparison shots stay clean
+  const comparisonProfile: CaptureProfile = {
+    ...profile,
+    styles: ['shaded'],
+    annotations: false,
+    sections: { ...profile.sections, enabled: false }
+  };
+  onProgress?.(`正在渲染源模型对照视图 (${profile.views.length} 视角)...`);
+  const sourceViews = await renderer.captureViews(source, comparisonProfile, { color: SOURCE_COLOR, frame });
+
+  const evaluate = async (result: GenerationResult, index: number): Promise<{ iteration: RefineIteration; warnings: string[] }> => {
+    try {
+      onProgress?.(`第 ${index} 轮: 正在编译 OpenSCAD...`);
+      const rendered = await renderScad(result.code);
+
+      onProgress?.(`第 ${index} 轮: 正在计算重构精度...`);
+      const { metrics } = computeFidelity(source, rendered.geometry);
+
+      onProgress?.(`第 ${index} 轮: 正在生成对比图像...`);
+      const reconViews = await renderer.captureViews(rendered.geometry, comparisonProfile, { color: RECON_COLOR, frame });
+      const images = await Promise.all(
+        sourceViews.map((src, i) => renderer.composeComparison(src, reconViews[i], profile.views[i].name))
+      );
+      rendered.geometry.dispose();
+
+      return {
+        iteration: { index, result: { ...result, fidelity: metrics }, images, score: metrics.score },
+        warnings: rendered.warnings
+      };
+    } catch (err) {
+      const renderError = err instanceof Error ? err.message : String(err);
+      return {
+        iteration: { index, result, images: sourceViews, score: 0, renderError },
+        warnings: []
+      };
+    }
+  };
+
+  const iterations: RefineIteration[] = [];
+  let current = await evaluate(initial, 0);
+  iterations.push(current.iteration);
+  onIteration?.(current.iteration);
+
+  for (let round = 1; round <= maxRounds; round++) {
+    if (current.iteration.score >= targetScore || shouldStop?.()) break;
+
+    onProgress?.(`第 ${round}/${maxRounds} 轮修正: 模型正在对比差异...`);
+    let refined: GenerationResult;
+    try {
+      refined = await refineScadFromComparison(
+        provider,
+        current.iteration.images.map(stripDataUrl),
+        {
+          previousCode: current.iteration.result.code,
+          fidelity: current.iteration.result.fidelity,
+          renderError: current.iteration.renderError,
+          renderWarnings: current.warnings,
+          constraintWarnings: current.iteration.result.constraintWarnings
+        },
+        context,
+        comparisonProfile,
+        onProgress,
+        symmetry,
+        design
+      );
+    } catch (err) {
+      // Keep what we have; a failed round shouldn't throw away earlier iterations
+      onProgress?.(`第 ${round}/${maxRounds} 轮修正失败, 保留已有结果: ${err instanceof Error ? err.message : String(err)}`);
+      break;
+    }
+
+    current = await evaluate(refined, round);
+    iterations.push(current.iteration);
+    onIteration?.(current.iteration);
+  }
+
+  return { iterations, best: pickBestIteration(iterations) };
+};
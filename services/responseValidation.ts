@@ -0,0 +1,174 @@
+import { GenerationResult } from "../types";
+import { LlmProvider, ScadRequest } from "./llmProvider";
+import { ScadError, parseScad } from "./scadParser";
+
+// Where a model reply stopped being usable: the call itself, the JSON envelope, its fields, the script,
+// or the measured constraints the script ignores
+export type ResponseStage = 'request' | 'json' | 'schema' | 'scad' | 'constraints';
+
+export const RESPONSE_STAGE_LABELS: Record<ResponseStage, string> = {
+  request: '调用模型',
+  json: '解析 JSON',
+  schema: '校验字段',
+  scad: '解析 SCAD',
+  constraints: '校验约束'
+};
+
+export class ResponseError extends Error {
+  constructor(message: string, public stage: ResponseStage, public raw?: string, public attempts = 1) {
+    super(message);
+    this.name = 'ResponseError';
+  }
+}
+
+// Validation failures are sent back to the model this many times in total before giving up
+const MAX_ATTEMPTS = 3;
+// Rate-limited calls wait 2 s, 4 s, 8 s, 16 s; they don't count as attempts
+const MAX_RATE_LIMIT_RETRIES = 4;
+const BACKOFF_BASE_MS = 2000;
+
+const isRateLimited = (error: unknown) =>
+  /\b429\b|RESOURCE_EXHAUSTED|rate.?limit|too many requests/i.test(error instanceof Error ? error.message : String(error));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const FENCE = /```([A-Za-z]*)[ \t]*\n([\s\S]*?)(?:```|$)/g;
+
+// A ```openscad block (or any non-JSON block) inside the reply or inside the code field itself
+const fencedCode = (text: string): string | null => {
+  for (const m of text.matchAll(FENCE)) {
+    if (m[1].toLowerCase() !== 'json' && m[2].trim()) return m[2].trim();
+  }
+  return null;
+};
+
+// The outermost {...} in the text, for replies that wrap the JSON in prose
+const outerObject = (text: string): string | null => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : null;
+};
+
+// The value of "code" from JSON that was cut off mid-string or is otherwise broken
+const truncatedCodeField = (text: string): string | null => {
+  const m = /"code"\s*:\s*"((?:\\[\s\S]|[^"\\])*)/.exec(text);
+  if (!m) return null;
+  try {
+    return JSON.parse(`"${m[1].replace(/\\$/, '')}"`);
+  } catch {
+    return null;
+  }
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Parse and check a raw { code, explanation } reply, salvaging the script from broken JSON where possible
+export const parseModelResponse = (raw: string, label: string): GenerationResult => {
+  const trimmed = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed = tryParse(trimmed);
+  if (parsed === undefined) {
+    const object = outerObject(trimmed);
+    parsed = object ? tryParse(object) : undefined;
+  }
+
+  if (parsed === undefined) {
+    const code = truncatedCodeField(raw) ?? fencedCode(raw);
+    if (!code) throw new ResponseError(`${label} 的响应不是有效的 JSON, 也找不到代码块。`, 'json', raw);
+    parsed = { code, explanation: '' };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ResponseError(`${label} 的响应应为 JSON 对象。`, 'schema', raw);
+  }
+  const fields = parsed as Record<string, unknown>;
+  if (typeof fields.code !== 'string') {
+    throw new ResponseError(`${label} 的响应缺少字符串类型的 code 字段。`, 'schema', raw);
+  }
+  if (fields.explanation !== undefined && typeof fields.explanation !== 'string') {
+    throw new ResponseError(`${label} 响应中的 explanation 字段不是字符串。`, 'schema', raw);
+  }
+  // Models like to fence the script inside the JSON string too
+  const code = fencedCode(fields.code) ?? fields.code;
+  if (!code.trim()) throw new ResponseError(`${label} 返回的 code 字段为空。`, 'schema', raw);
+
+  try {
+    parseScad(code);
+  } catch (error) {
+    if (error instanceof ScadError) throw new ResponseError(`生成的脚本无法解析: ${error.message}`, 'scad', raw);
+    throw error;
+  }
+
+  return { code, explanation: (fields.explanation as string | undefined) ?? '', model: label };
+};
+
+// Appended to the prompt after a rejected reply so the model fixes that instead of starting over
+const repairPrompt = (request: ScadRequest, error: ResponseError): string => {
+  const lines = [
+    request.prompt,
+    '',
+    '[PREVIOUS RESPONSE REJECTED]',
+    `Stage: ${error.stage}`,
+    `Problem: ${error.message}`
+  ];
+  if ((error.stage === 'scad' || error.stage === 'constraints') && error.raw) {
+    lines.push('Your previous response was:', error.raw.slice(0, 8000));
+  }
+  lines.push(
+    'Return ONLY a single JSON object {"code": "...", "explanation": "..."} with the complete, syntactically valid OpenSCAD script in "code".'
+  );
+  return lines.join('\n');
+};
+
+// One provider call with backoff on rate limits; other request failures are final
+const callProvider = async (provider: LlmProvider, request: ScadRequest, onProgress?: (text: string) => void): Promise<string> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await provider.generate(request);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!isRateLimited(error) || retry >= MAX_RATE_LIMIT_RETRIES) throw new ResponseError(message, 'request');
+      const delay = BACKOFF_BASE_MS * Math.pow(2, retry);
+      onProgress?.(`${provider.label} 请求过于频繁, ${delay / 1000} 秒后重试...`);
+      await sleep(delay);
+    }
+  }
+};
+
+// Request a script and validate it; rejected replies go back to the model with the reason, a bounded number of times.
+// `checkConstraints` lists what a valid script still gets wrong: it is sent back once, then kept on the result as warnings.
+export const requestScad = async (
+  provider: LlmProvider,
+  request: ScadRequest,
+  onProgress?: (text: string) => void,
+  checkConstraints?: (result: GenerationResult) => string[]
+): Promise<GenerationResult> => {
+  let current = request;
+  let constraintsSent = false;
+  for (let attempt = 1; ; attempt++) {
+    const raw = await callProvider(provider, current, onProgress).catch(error => {
+      if (error instanceof ResponseError) error.attempts = attempt;
+      throw error;
+    });
+    try {
+      const result = parseModelResponse(raw, provider.label);
+      const issues = checkConstraints?.(result) ?? [];
+      if (issues.length === 0) return result;
+      if (constraintsSent || attempt >= MAX_ATTEMPTS) return { ...result, constraintWarnings: issues };
+      constraintsSent = true;
+      throw new ResponseError(`脚本没有表达测得的约束: ${issues.join('; ')}`, 'constraints', raw);
+    } catch (error) {
+      if (!(error instanceof ResponseError)) throw error;
+      error.attempts = attempt;
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      // Reported through the caller's progress channel only, so a quiet CLI run stays quiet
+      onProgress?.(`${provider.label} 的响应未通过校验 (${RESPONSE_STAGE_LABELS[error.stage]}: ${error.message}), 正在让模型修复 (${attempt + 1}/${MAX_ATTEMPTS})...`);
+      current = { ...request, prompt: repairPrompt(request, error) };
+    }
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffParameters } from './runDiff';
+
+describe('diffLines', () => {
+  it('marks identical scripts as unchanged line by line', () => {
+    const rows = diffLines('a\nb', 'a\nb');
+    expect(rows.map(r => r.kind)).toEqual(['same', 'same']);
+    expect(rows[1]).toEqual({ kind: 'same', left: { line: 2, text: 'b' }, right: { line: 2, text: 'b' } });
+  });
+
+  it('pairs a removal with the addition next to it as a change', () => {
+    const rows = diffLines('a\nx = 1;\nc', 'a\nx = 2;\nc');
+    expect(rows.map(r => r.kind)).toEqual(['same', 'changed', 'same']);
+    expect(rows[1]).toEqual({ kind: 'changed', left: { line: 2, text: 'x = 1;' }, right: { line: 2, text: 'x = 2;' } });
+  });
+
+  it('leaves a gap on the side that has no counterpart', () => {
+    const rows = diffLines('a\nc', 'a\nb\nc\nd');
+    expect(rows.map(r => r.kind)).toEqual(['same', 'added', 'same', 'added']);
+    expect(rows[1]).toEqual({ kind: 'added', left: undefined, right: { line: 2, text: 'b' } });
+    expect(rows[2]).toMatchObject({ left: { line: 2 }, right: { line: 3 } });
+
+    const removed = diffLines('a\nb\nc', 'a\nc');
+    expect(removed[1]).toEqual({ kind: 'removed', left: { line: 2, text: 'b' }, right: undefined });
+  });
+
+  it('keeps unchanged lines between edits aligned', () => {
+    const rows = diffLines('h\n1\nm\n2\nt', 'h\n1a\nm\nt');
+    expect(rows.map(r => r.kind)).toEqual(['same', 'changed', 'same', 'removed', 'same']);
+    expect(rows[2]).toMatchObject({ left: { line: 3, text: 'm' }, right: { line: 3, text: 'm' } });
+  });
+});
+
+describe('diffParameters', () => {
+  it('matches parameters by name in order of first appearance', () => {
+    const before = 'width = 40;\nholes = 4;\nlabel = "A";\ncube(width);';
+    const after = 'width = 45;\nholes = 4;\nchamfer = true;\ncube(width);';
+    expect(diffParameters(before, after)).toEqual([
+      { name: 'width', kind: 'changed', before: '40', after: '45' },
+      { name: 'holes', kind: 'same', before: '4', after: '4' },
+      { name: 'label', kind: 'removed', before: '"A"', after: undefined },
+      { name: 'chamfer', kind: 'added', before: undefined, after: 'true' }
+    ]);
+  });
+});
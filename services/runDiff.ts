@@ -0,0 +1,110 @@
+import { formatParameterValue, parseParameters } from './scadParameters';
+
+export type DiffKind = 'same' | 'changed' | 'added' | 'removed';
+
+// One row of a side-by-side diff; line numbers are 1-based, a missing side is a gap
+export interface DiffRow {
+  kind: DiffKind;
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+export interface ParameterDiff {
+  name: string;
+  kind: DiffKind;
+  before?: string;             // formatted literal, absent when the parameter is new
+  after?: string;
+}
+
+// Past this many cells the LCS table gets slow; the middle is shown as one replaced block instead
+const MAX_LCS_CELLS = 4000000;
+
+type Op = { kind: 'same' | 'added' | 'removed'; a?: number; b?: number };
+
+// Line-level LCS between the parts that differ, after stripping the common head and tail
+const lineOps = (a: string[], b: string[]): Op[] => {
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const ops: Op[] = [];
+  for (let i = 0; i < head; i++) ops.push({ kind: 'same', a: i, b: i });
+
+  const aMid = a.slice(head, a.length - tail);
+  const bMid = b.slice(head, b.length - tail);
+  const n = aMid.length;
+  const m = bMid.length;
+  if (n * m > MAX_LCS_CELLS) {
+    aMid.forEach((_, i) => ops.push({ kind: 'removed', a: head + i }));
+    bMid.forEach((_, j) => ops.push({ kind: 'added', b: head + j }));
+  } else {
+    // lcs[i][j]: common subsequence length of aMid[i:] and bMid[j:]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = aMid[i] === bMid[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && aMid[i] === bMid[j]) {
+        ops.push({ kind: 'same', a: head + i++, b: head + j++ });
+      } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        ops.push({ kind: 'added', b: head + j++ });
+      } else {
+        ops.push({ kind: 'removed', a: head + i++ });
+      }
+    }
+  }
+
+  for (let k = tail; k > 0; k--) ops.push({ kind: 'same', a: a.length - k, b: b.length - k });
+  return ops;
+};
+
+// Side-by-side rows: within each run of removals and additions, lines are paired up as changes
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = k < removed.length ? { line: removed[k] + 1, text: a[removed[k]] } : undefined;
+      const right = k < added.length ? { line: added[k] + 1, text: b[added[k]] } : undefined;
+      rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of lineOps(a, b)) {
+    if (op.kind === 'removed') removed.push(op.a as number);
+    else if (op.kind === 'added') added.push(op.b as number);
+    else {
+      flush();
+      rows.push({
+        kind: 'same',
+        left: { line: (op.a as number) + 1, text: a[op.a as number] },
+        right: { line: (op.b as number) + 1, text: b[op.b as number] }
+      });
+    }
+  }
+  flush();
+  return rows;
+};
+
+// Customizer parameters of both scripts, matched by name, in the order they first appear
+export const diffParameters = (before: string, after: string): ParameterDiff[] => {
+  const a = new Map(parseParameters(before).map(p => [p.name, formatParameterValue(p.value)]));
+  const b = new Map(parseParameters(after).map(p => [p.name, formatParameterValue(p.value)]));
+  const names = [...new Set([...a.keys(), ...b.keys()])];
+  return names.map(name => {
+    const [x, y] = [a.get(name), b.get(name)];
+    const kind: DiffKind = x === undefined ? 'added' : y === undefined ? 'removed' : x === y ? 'same' : 'changed';
+    return { name, kind, before: x, after: y };
+  });
+};
@@ -0,0 +1,4 @@
+// Facts about OpenSCAD's builtin modules shared by the evaluator and the linter.
+
+// Primitives that take no children; anything attached to one is a statement that lost its `;`
+export const LEAF_MODULES = new Set(['cube', 'sphere', 'cylinder', 'polyhedron', 'square', 'circle', 'polygon', 'text']);
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { renderScadSync } from './openscadService';
+import { getTriangleArray } from './meshUtils';
+import { signedVolume } from './fidelity';
+
+const render = (code: string) => {
+  const result = renderScadSync(code);
+  result.geometry.computeBoundingBox();
+  return { ...result, box: result.geometry.boundingBox ?? new THREE.Box3(), volume: signedVolume(getTriangleArray(result.geometry)) };
+};
+
+const expectBox = (box: THREE.Box3, min: number[], max: number[]) => {
+  [box.min.x, box.min.y, box.min.z].forEach((v, i) => expect(v).toBeCloseTo(min[i], 6));
+  [box.max.x, box.max.y, box.max.z].forEach((v, i) => expect(v).toBeCloseTo(max[i], 6));
+};
+
+describe('transforms', () => {
+  it('translates, scales and centres', () => {
+    expectBox(render('translate([5, -2, 1]) cube([10, 4, 2]);').box, [5, -2, 1], [15, 2, 3]);
+    expectBox(render('scale([2, 1, 0.5]) cube(10, center = true);').box, [-10, -5, -2.5], [10, 5, 2.5]);
+  });
+
+  it('rotates about the origin in the order x, y, z', () => {
+    expectBox(render('rotate([0, 0, 90]) cube([10, 4, 2]);').box, [-4, 0, 0], [0, 10, 2]);
+    expectBox(render('rotate([90, 0, 0]) cube([10, 4, 2]);').box, [0, -2, 0], [10, 0, 4]);
+  });
+
+  it('mirrors across a plane through the origin', () => {
+    expectBox(render('mirror([1, 0, 0]) cube([10, 4, 2]);').box, [-10, 0, 0], [0, 4, 2]);
+  });
+
+  it('applies nested transforms to the inner child first', () => {
+    expectBox(render('translate([10, 0, 0]) rotate([0, 0, 90]) cube([10, 4, 2]);').box, [6, 0, 0], [10, 10, 2]);
+  });
+});
+
+describe('language', () => {
+  it('expands loops, modules with defaults, functions and conditionals', () => {
+    const { box, volume } = render(`
+      size = 5;
+      function gap(n) = n * 2;
+      module block(s = size) { cube(s); }
+      for (i = [0 : 2]) translate([i * (size + gap(1)), 0, 0]) block();
+      if (size > 10) translate([0, 50, 0]) cube(1);
+    `);
+    expectBox(box, [0, 0, 0], [19, 5, 5]);
+    expect(volume).toBeCloseTo(3 * 125, 6);
+  });
+
+  it('warns about unknown modules and includes instead of failing', () => {
+    const { warnings, triangleCount } = render('include <lib.scad>\nwidget(3);\ncube(1);');
+    expect(triangleCount).toBe(12);
+    expect(warnings).toEqual(expect.arrayContaining([
+      expect.stringContaining('include <lib.scad>'),
+      expect.stringContaining("Unknown module 'widget'")
+    ]));
+  });
+
+  it('drops and reports children attached to a primitive', () => {
+    const { warnings, volume } = render('difference() {\n  cube(10)\n  sphere(5);\n}');
+    expect(volume).toBeCloseTo(1000, 6);
+    expect(warnings).toEqual([expect.stringContaining("cube() takes no children")]);
+  });
+});
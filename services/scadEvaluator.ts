@@ -0,0 +1,857 @@
+import * as THREE from 'three';
+import { Argument, Expr, Parameter, ScadError, SourcePos, Statement } from './scadParser';
+import { LEAF_MODULES } from './scadBuiltins';
+import {
+  GeomNode,
+  Point2,
+  circleOutline,
+  getFragments,
+  makeCube,
+  makeCylinder,
+  makePolyhedron,
+  makeSphere
+} from './scadGeometry';
+import { Vec3Tuple } from './csg';
+
+// Interpreter for the common OpenSCAD subset: variables, functions, modules,
+// children(), for/if/let, list comprehensions, the standard primitives,
+// transforms, booleans, hull and extrusions.
+
+export class ScadRange {
+  constructor(public start: number, public step: number, public end: number) {}
+
+  values(): number[] {
+    const out: number[] = [];
+    if (this.step === 0 || (this.end - this.start) / this.step < 0) return out;
+    const count = Math.floor((this.end - this.start) / this.step + 1e-9) + 1;
+    if (count > MAX_ITERATIONS) throw new ScadError(`Range has too many elements (${count})`);
+    for (let i = 0; i < count; i++) out.push(this.start + i * this.step);
+    return out;
+  }
+}
+
+export interface ScadFunction {
+  kind: 'function';
+  params: Parameter[];
+  body: Expr;
+  scope: Scope;
+}
+
+export type ScadValue = number | boolean | string | undefined | ScadValue[] | ScadRange | ScadFunction;
+
+interface ModuleDef {
+  params: Parameter[];
+  body: Statement[];
+  scope: Scope;
+}
+
+interface FunctionDef {
+  params: Parameter[];
+  body: Expr;
+  scope: Scope;
+}
+
+// Children passed to the module currently being instantiated
+interface ModuleCall {
+  children: Statement[];
+  scope: Scope;
+}
+
+const MAX_ITERATIONS = 100000;
+const MAX_DEPTH = 1000;
+
+class Scope {
+  vars = new Map<string, ScadValue>();
+  functions = new Map<string, FunctionDef>();
+  modules = new Map<string, ModuleDef>();
+
+  // `dynamic` links a module body to its caller so $-variables resolve dynamically
+  constructor(public parent: Scope | null, public dynamic: Scope | null = null, public call: ModuleCall | null = null) {}
+
+  lookup(name: string): ScadValue {
+    if (name.startsWith('$')) {
+      for (let s: Scope | null = this; s; s = s.dynamic ?? s.parent) {
+        if (s.vars.has(name)) return s.vars.get(name);
+      }
+      return undefined;
+    }
+    for (let s: Scope | null = this; s; s = s.parent) {
+      if (s.vars.has(name)) return s.vars.get(name);
+    }
+    return undefined;
+  }
+
+  has(name: string): boolean {
+    for (let s: Scope | null = this; s; s = name.startsWith('$') ? s.dynamic ?? s.parent : s.parent) {
+      if (s.vars.has(name)) return true;
+    }
+    return false;
+  }
+
+  findFunction(name: string): FunctionDef | undefined {
+    for (let s: Scope | null = this; s; s = s.parent) {
+      const f = s.functions.get(name);
+      if (f) return f;
+    }
+    return undefined;
+  }
+
+  findModule(name: string): ModuleDef | undefined {
+    for (let s: Scope | null = this; s; s = s.parent) {
+      const m = s.modules.get(name);
+      if (m) return m;
+    }
+    return undefined;
+  }
+
+  findCall(): ModuleCall | null {
+    for (let s: Scope | null = this; s; s = s.parent) {
+      if (s.call) return s.call;
+    }
+    return null;
+  }
+}
+
+export interface EvaluationOutput {
+  nodes: GeomNode[];
+  warnings: string[];
+  echoes: string[];
+}
+
+const isNumber = (v: ScadValue): v is number => typeof v === 'number';
+const isList = (v: ScadValue): v is ScadValue[] => Array.isArray(v);
+
+const truthy = (v: ScadValue): boolean => {
+  if (v === undefined || v === false || v === 0 || v === '') return false;
+  if (isList(v)) return v.length > 0;
+  return true;
+};
+
+const deepEqual = (a: ScadValue, b: ScadValue): boolean => {
+  if (isList(a) && isList(b)) return a.length === b.length && a.every((x, i) => deepEqual(x, b[i]));
+  if (a instanceof ScadRange && b instanceof ScadRange) return a.start === b.start && a.step === b.step && a.end === b.end;
+  return a === b;
+};
+
+export const formatValue = (v: ScadValue): string => {
+  if (v === undefined) return 'undef';
+  if (isList(v)) return `[${v.map(formatValue).join(', ')}]`;
+  if (v instanceof ScadRange) return `[${v.start} : ${v.step} : ${v.end}]`;
+  if (typeof v === 'string') return JSON.stringify(v);
+  if (typeof v === 'object') return 'function';
+  return String(v);
+};
+
+const toNumber = (v: ScadValue, fallback: number): number => (isNumber(v) && isFinite(v) ? v : fallback);
+
+const toVec3 = (v: ScadValue, fallback: Vec3Tuple): Vec3Tuple => {
+  if (isNumber(v)) return [v, v, v];
+  if (!isList(v)) return fallback;
+  return [toNumber(v[0], fallback[0]), toNumber(v[1], fallback[1]), toNumber(v[2], fallback[2])];
+};
+
+const toPoints2 = (v: ScadValue): Point2[] =>
+  isList(v) ? v.filter(isList).map(p => [toNumber(p[0], 0), toNumber(p[1], 0)] as Point2) : [];
+
+const iterate = (v: ScadValue): ScadValue[] => {
+  if (v instanceof ScadRange) return v.values();
+  if (isList(v)) return v;
+  if (typeof v === 'string') return v.split('');
+  return v === undefined ? [] : [v];
+};
+
+const deg = (r: number) => (r * 180) / Math.PI;
+const rad = (d: number) => (d * Math.PI) / 180;
+
+// Exact values at multiples of 90° keep cube faces axis-aligned after rotation
+const sinDeg = (d: number) => (d % 90 === 0 ? [0, 1, 0, -1][(((d / 90) % 4) + 4) % 4] : Math.sin(rad(d)));
+const cosDeg = (d: number) => (d % 90 === 0 ? [1, 0, -1, 0][(((d / 90) % 4) + 4) % 4] : Math.cos(rad(d)));
+
+const rotationMatrix = (a: ScadValue, v: ScadValue): THREE.Matrix4 => {
+  if (isList(a)) {
+    const [x, y, z] = toVec3(a, [0, 0, 0]);
+    const rx = new THREE.Matrix4().set(1, 0, 0, 0, 0, cosDeg(x), -sinDeg(x), 0, 0, sinDeg(x), cosDeg(x), 0, 0, 0, 0, 1);
+    const ry = new THREE.Matrix4().set(cosDeg(y), 0, sinDeg(y), 0, 0, 1, 0, 0, -sinDeg(y), 0, cosDeg(y), 0, 0, 0, 0, 1);
+    const rz = new THREE.Matrix4().set(cosDeg(z), -sinDeg(z), 0, 0, sinDeg(z), cosDeg(z), 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+    return rz.multiply(ry).multiply(rx);
+  }
+  const angle = toNumber(a, 0);
+  if (isList(v)) {
+    const axis = new THREE.Vector3(...toVec3(v, [0, 0, 1]));
+    if (axis.lengthSq() === 0) return new THREE.Matrix4();
+    return new THREE.Matrix4().makeRotationAxis(axis.normalize(), rad(angle));
+  }
+  return new THREE.Matrix4().set(cosDeg(angle), -sinDeg(angle), 0, 0, sinDeg(angle), cosDeg(angle), 0, 0, 0, 0, 1, 0, 0, 0, 0, 1);
+};
+
+const add = (a: ScadValue, b: ScadValue, sign: number): ScadValue => {
+  if (isNumber(a) && isNumber(b)) return a + sign * b;
+  if (isList(a) && isList(b)) {
+    const n = Math.min(a.length, b.length);
+    const out: ScadValue[] = [];
+    for (let i = 0; i < n; i++) out.push(add(a[i], b[i], sign));
+    return out;
+  }
+  return undefined;
+};
+
+const multiply = (a: ScadValue, b: ScadValue): ScadValue => {
+  if (isNumber(a) && isNumber(b)) return a * b;
+  if (isNumber(a) && isList(b)) return b.map(x => multiply(a, x));
+  if (isList(a) && isNumber(b)) return a.map(x => multiply(x, b));
+  if (isList(a) && isList(b)) {
+    const aMatrix = a.length > 0 && a.every(isList);
+    const bMatrix = b.length > 0 && b.every(isList);
+    if (!aMatrix && !bMatrix) {
+      // Dot product
+      if (a.length !== b.length) return undefined;
+      let sum = 0;
+      for (let i = 0; i < a.length; i++) {
+        if (!isNumber(a[i]) || !isNumber(b[i])) return undefined;
+        sum += (a[i] as number) * (b[i] as number);
+      }
+      return sum;
+    }
+    if (aMatrix && !bMatrix) return a.map(row => multiply(row, b));
+    if (!aMatrix && bMatrix) {
+      const cols = (b[0] as ScadValue[]).length;
+      const out: ScadValue[] = [];
+      for (let j = 0; j < cols; j++) out.push(multiply(a, b.map(row => (row as ScadValue[])[j])));
+      return out;
+    }
+    return a.map(row => multiply(row, b));
+  }
+  return undefined;
+};
+
+const negate = (v: ScadValue): ScadValue => {
+  if (isNumber(v)) return -v;
+  if (isList(v)) return v.map(negate);
+  return undefined;
+};
+
+const compare = (op: string, a: ScadValue, b: ScadValue): ScadValue => {
+  const bothNumbers = isNumber(a) && isNumber(b);
+  const bothStrings = typeof a === 'string' && typeof b === 'string';
+  if (!bothNumbers && !bothStrings) {
+    if (typeof a === 'boolean' || typeof b === 'boolean') return compare(op, Number(a), Number(b));
+    return undefined;
+  }
+  const x = a as number | string, y = b as number | string;
+  switch (op) {
+    case '<': return x < y;
+    case '<=': return x <= y;
+    case '>': return x > y;
+    default: return x >= y;
+  }
+};
+
+export class ScadEvaluator {
+  warnings: string[] = [];
+  echoes: string[] = [];
+  private depth = 0;
+  private warned = new Set<string>();
+
+  warnOnce(message: string) {
+    if (this.warned.has(message)) return;
+    this.warned.add(message);
+    this.warnings.push(message);
+  }
+
+  run(program: Statement[]): EvaluationOutput {
+    const root = new Scope(null);
+    root.vars.set('$fn', 0);
+    root.vars.set('$fa', 12);
+    root.vars.set('$fs', 2);
+    root.vars.set('$t', 0);
+    root.vars.set('$preview', false);
+    root.vars.set('PI', Math.PI);
+
+    try {
+      const nodes = this.evalBlock(program, root);
+      return { nodes, warnings: this.warnings, echoes: this.echoes };
+    } catch (error) {
+      if (error instanceof RangeError) throw new ScadError('Recursion too deep');
+      throw error;
+    }
+  }
+
+  // --- Statements -----------------------------------------------------------
+
+  private evalBlock(statements: Statement[], scope: Scope): GeomNode[] {
+    // Definitions are hoisted, assignments run before any geometry is instantiated
+    for (const stmt of statements) {
+      if (stmt.type === 'module_def') scope.modules.set(stmt.name, { params: stmt.params, body: stmt.body, scope });
+      if (stmt.type === 'function_def') scope.functions.set(stmt.name, { params: stmt.params, body: stmt.body, scope });
+      if (stmt.type === 'include') this.warnOnce(`${stmt.kind} <${stmt.path}> is not available in the browser preview.`);
+    }
+    for (const stmt of statements) {
+      if (stmt.type === 'assignment') scope.vars.set(stmt.name, this.evalExpr(stmt.value, scope));
+    }
+
+    const nodes: GeomNode[] = [];
+    for (const stmt of statements) {
+      nodes.push(...this.evalStatement(stmt, scope));
+    }
+    return nodes;
+  }
+
+  private evalStatement(stmt: Statement, scope: Scope): GeomNode[] {
+    switch (stmt.type) {
+      case 'block':
+        return this.evalBlock(stmt.body, new Scope(scope));
+      case 'if': {
+        const branch = truthy(this.evalExpr(stmt.cond, scope)) ? stmt.then : stmt.otherwise;
+        return branch ? this.evalBlock(branch, new Scope(scope)) : [];
+      }
+      case 'instantiation':
+        // `%` marks background geometry that OpenSCAD leaves out of the final render
+        if (stmt.modifier === '%') return [];
+        return this.instantiate(stmt.name, stmt.args, stmt.children, scope, stmt.pos);
+      default:
+        return [];
+    }
+  }
+
+  private group(nodes: GeomNode[]): GeomNode[] {
+    return nodes.length <= 1 ? nodes : [{ kind: 'boolean', op: 'union', children: nodes }];
+  }
+
+  private evalArgs(args: Argument[], scope: Scope): { positional: ScadValue[]; named: Map<string, ScadValue> } {
+    const positional: ScadValue[] = [];
+    const named = new Map<string, ScadValue>();
+    for (const arg of args) {
+      const value = this.evalExpr(arg.value, scope);
+      if (arg.name) named.set(arg.name, value);
+      else positional.push(value);
+    }
+    return { positional, named };
+  }
+
+  // Bind positional/named arguments to a fixed list of builtin parameter names
+  private bind(args: Argument[], scope: Scope, names: string[]): Record<string, ScadValue> {
+    const { positional, named } = this.evalArgs(args, scope);
+    const out: Record<string, ScadValue> = {};
+    names.forEach((name, i) => {
+      if (named.has(name)) out[name] = named.get(name);
+      else if (i < positional.length) out[name] = positional[i];
+    });
+    return out;
+  }
+
+  // Scope for the children of a builtin call, carrying any `$fn=` style overrides
+  private specialScope(args: Argument[], scope: Scope): Scope {
+    const child = new Scope(scope);
+    for (const arg of args) {
+      if (arg.name?.startsWith('$')) child.vars.set(arg.name, this.evalExpr(arg.value, scope));
+    }
+    return child;
+  }
+
+  private fragments(scope: Scope, r: number): number {
+    return getFragments(r, toNumber(scope.lookup('$fn'), 0), toNumber(scope.lookup('$fs'), 2), toNumber(scope.lookup('$fa'), 12));
+  }
+
+  private instantiate(name: string, args: Argument[], children: Statement[], scope: Scope, pos: SourcePos): GeomNode[] {
+    const local = this.specialScope(args, scope);
+    const evalChildren = () => this.evalBlock(children, new Scope(local));
+
+    const userModule = scope.findModule(name);
+    if (userModule) return this.callModule(name, userModule, args, children, scope, pos);
+    if (LEAF_MODULES.has(name) && children.length > 0) {
+      this.warnOnce(`${name}() takes no children; the statement after it was ignored, likely a missing ';' (line ${pos.line}).`);
+    }
+
+    switch (name) {
+      case 'cube': {
+        const a = this.bind(args, scope, ['size', 'center']);
+        const size = toVec3(a.size ?? 1, [1, 1, 1]);
+        return [{ kind: 'mesh', csg: makeCube(size, truthy(a.center)) }];
+      }
+      case 'sphere': {
+        const a = this.bind(args, scope, ['r']);
+        const { named } = this.evalArgs(args, scope);
+        const r = named.has('d') ? toNumber(named.get('d'), 2) / 2 : toNumber(a.r, 1);
+        return [{ kind: 'mesh', csg: makeSphere(r, this.fragments(local, r)) }];
+      }
+      case 'cylinder': {
+        const a = this.bind(args, scope, ['h', 'r1', 'r2', 'center']);
+        const { named } = this.evalArgs(args, scope);
+        const h = toNumber(a.h, 1);
+        let r1 = toNumber(a.r1, 1), r2 = toNumber(a.r2, 1);
+        if (named.has('r')) r1 = r2 = toNumber(named.get('r'), 1);
+        if (named.has('d')) r1 = r2 = toNumber(named.get('d'), 2) / 2;
+        if (named.has('d1')) r1 = toNumber(named.get('d1'), 2) / 2;
+        if (named.has('d2')) r2 = toNumber(named.get('d2'), 2) / 2;
+        if (h <= 0 || (r1 <= 0 && r2 <= 0)) return [];
+        return [{ kind: 'mesh', csg: makeCylinder(h, r1, r2, truthy(a.center), this.fragments(local, Math.max(r1, r2))) }];
+      }
+      case 'polyhedron': {
+        const a = this.bind(args, scope, ['points', 'faces', 'convexity']);
+        const { named } = this.evalArgs(args, scope);
+        const points = isList(a.points) ? a.points.map(p => toVec3(p, [0, 0, 0])) : [];
+        const facesValue = a.faces ?? named.get('triangles');
+        const faces = isList(facesValue) ? facesValue.filter(isList).map(f => f.map(i => toNumber(i, 0))) : [];
+        return [{ kind: 'mesh', csg: makePolyhedron(points, faces) }];
+      }
+      case 'square': {
+        const a = this.bind(args, scope, ['size', 'center']);
+        const size = isNumber(a.size) ? [a.size, a.size] : isList(a.size) ? [toNumber(a.size[0], 1), toNumber(a.size[1], 1)] : [1, 1];
+        const [ox, oy] = truthy(a.center) ? [-size[0] / 2, -size[1] / 2] : [0, 0];
+        const outline: Point2[] = [[ox, oy], [ox + size[0], oy], [ox + size[0], oy + size[1]], [ox, oy + size[1]]];
+        return [{ kind: 'polygon2d', outlines: [outline] }];
+      }
+      case 'circle': {
+        const a = this.bind(args, scope, ['r']);
+        const { named } = this.evalArgs(args, scope);
+        const r = named.has('d') ? toNumber(named.get('d'), 2) / 2 : toNumber(a.r, 1);
+        return [{ kind: 'polygon2d', outlines: [circleOutline(r, this.fragments(local, r))] }];
+      }
+      case 'polygon': {
+        const a = this.bind(args, scope, ['points', 'paths', 'convexity']);
+        const points = toPoints2(a.points);
+        const outlines = isList(a.paths)
+          ? a.paths.filter(isList).map(path => path.map(i => points[toNumber(i, 0)]).filter(Boolean))
+          : [points];
+        return [{ kind: 'polygon2d', outlines }];
+      }
+
+      case 'translate': {
+        const a = this.bind(args, scope, ['v']);
+        const [x, y, z] = toVec3(a.v ?? [0, 0, 0], [0, 0, 0]);
+        return [{ kind: 'transform', matrix: new THREE.Matrix4().makeTranslation(x, y, z), children: evalChildren() }];
+      }
+      case 'rotate': {
+        const a = this.bind(args, scope, ['a', 'v']);
+        return [{ kind: 'transform', matrix: rotationMatrix(a.a, a.v), children: evalChildren() }];
+      }
+      case 'scale': {
+        const a = this.bind(args, scope, ['v']);
+        const [x, y, z] = toVec3(a.v ?? 1, [1, 1, 1]);
+        return [{ kind: 'transform', matrix: new THREE.Matrix4().makeScale(x, y, z), children: evalChildren() }];
+      }
+      case 'mirror': {
+        const a = this.bind(args, scope, ['v']);
+        const n = new THREE.Vector3(...toVec3(a.v ?? [1, 0, 0], [1, 0, 0]));
+        if (n.lengthSq() === 0) return this.group(evalChildren());
+        n.normalize();
+        const m = new THREE.Matrix4().set(
+          1 - 2 * n.x * n.x, -2 * n.x * n.y, -2 * n.x * n.z, 0,
+          -2 * n.x * n.y, 1 - 2 * n.y * n.y, -2 * n.y * n.z, 0,
+          -2 * n.x * n.z, -2 * n.y * n.z, 1 - 2 * n.z * n.z, 0,
+          0, 0, 0, 1
+        );
+        return [{ kind: 'transform', matrix: m, children: evalChildren() }];
+      }
+      case 'multmatrix': {
+        const a = this.bind(args, scope, ['m']);
+        const rows = isList(a.m) ? a.m : [];
+        const get = (r: number, c: number) => (isList(rows[r]) ? toNumber((rows[r] as ScadValue[])[c], r === c ? 1 : 0) : r === c ? 1 : 0);
+        const m = new THREE.Matrix4().set(
+          get(0, 0), get(0, 1), get(0, 2), get(0, 3),
+          get(1, 0), get(1, 1), get(1, 2), get(1, 3),
+          get(2, 0), get(2, 1), get(2, 2), get(2, 3),
+          0, 0, 0, 1
+        );
+        return [{ kind: 'transform', matrix: m, children: evalChildren() }];
+      }
+      case 'resize': {
+        const a = this.bind(args, scope, ['newsize', 'auto']);
+        const size = toVec3(a.newsize, [0, 0, 0]);
+        const auto: [boolean, boolean, boolean] = isList(a.auto)
+          ? [truthy(a.auto[0]), truthy(a.auto[1]), truthy(a.auto[2])]
+          : [truthy(a.auto), truthy(a.auto), truthy(a.auto)];
+        return [{ kind: 'resize', size, auto, children: evalChildren() }];
+      }
+
+      case 'union':
+      case 'group':
+      case 'render':
+      case 'color':
+        return this.group(evalChildren());
+      case 'difference':
+      case 'intersection':
+        return [{ kind: 'boolean', op: name, children: evalChildren() }];
+      case 'hull':
+        return [{ kind: 'hull', children: evalChildren() }];
+      case 'minkowski':
+        this.warnOnce('minkowski() is approximated as union() in the preview.');
+        return this.group(evalChildren());
+      case 'offset':
+        this.warnOnce('offset() is not supported in the preview; the shape is used unchanged.');
+        return this.group(evalChildren());
+
+      case 'linear_extrude': {
+        const a = this.bind(args, scope, ['height', 'center', 'convexity', 'twist', 'slices', 'scale']);
+        const twist = toNumber(a.twist, 0);
+        const scale: Point2 = isNumber(a.scale) ? [a.scale, a.scale] : isList(a.scale) ? [toNumber(a.scale[0], 1), toNumber(a.scale[1], 1)] : [1, 1];
+        const slices = Math.max(1, Math.floor(toNumber(a.slices, twist !== 0 ? Math.ceil(Math.abs(twist) / 5) : 1)));
+        return [{
+          kind: 'linear_extrude',
+          height: toNumber(a.height, 1),
+          center: truthy(a.center),
+          twist,
+          scale,
+          slices,
+          children: evalChildren()
+        }];
+      }
+      case 'rotate_extrude': {
+        const a = this.bind(args, scope, ['angle', 'convexity']);
+        return [{
+          kind: 'rotate_extrude',
+          angle: toNumber(a.angle, 360),
+          fragments: (r: number) => this.fragments(local, r),
+          children: evalChildren()
+        }];
+      }
+
+      case 'for':
+      case 'intersection_for': {
+        const results = this.loop(args, scope, iterScope => this.group(this.evalBlock(children, iterScope)));
+        const nodes = results.flat();
+        if (name === 'intersection_for') return [{ kind: 'boolean', op: 'intersection', children: nodes }];
+        return this.group(nodes);
+      }
+      case 'let': {
+        const inner = new Scope(scope);
+        for (const arg of args) if (arg.name) inner.vars.set(arg.name, this.evalExpr(arg.value, inner));
+        return this.group(this.evalBlock(children, new Scope(inner)));
+      }
+      case 'echo':
+        this.echoes.push(this.formatEcho(args, scope));
+        return this.group(evalChildren());
+      case 'assert': {
+        const { positional } = this.evalArgs(args, scope);
+        if (!truthy(positional[0])) {
+          throw new ScadError(`Assertion failed${positional[1] !== undefined ? `: ${String(positional[1])}` : ''}`, pos);
+        }
+        return this.group(evalChildren());
+      }
+      case 'children': {
+        const call = scope.findCall();
+        if (!call) return [];
+        const { positional } = this.evalArgs(args, scope);
+        const indices = positional.length === 0
+          ? call.children.map((_, i) => i)
+          : iterate(positional[0]).map(i => toNumber(i, -1));
+        const nodes: GeomNode[] = [];
+        for (const i of indices) {
+          const child = call.children[i];
+          if (child) nodes.push(...this.evalBlock([child], new Scope(call.scope)));
+        }
+        return nodes;
+      }
+
+      case 'text':
+      case 'surface':
+      case 'import':
+      case 'projection':
+        this.warnOnce(`${name}() is not supported in the browser preview.`);
+        return [];
+
+      default:
+        this.warnOnce(`Unknown module '${name}' was ignored (line ${pos.line}).`);
+        return [];
+    }
+  }
+
+  private callModule(
+    name: string,
+    def: ModuleDef,
+    args: Argument[],
+    children: Statement[],
+    caller: Scope,
+    pos: SourcePos
+  ): GeomNode[] {
+    if (++this.depth > MAX_DEPTH) throw new ScadError(`Recursion too deep in module '${name}'`, pos);
+    try {
+      // Children are evaluated lazily in the caller's scope via children()
+      const childStatements = children.filter(c => c.type !== 'assignment');
+      const body = new Scope(def.scope, caller, { children: childStatements, scope: caller });
+      this.bindParams(def.params, args, caller, body);
+      body.vars.set('$children', childStatements.length);
+      return this.group(this.evalBlock(def.body, body));
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private bindParams(params: Parameter[], args: Argument[], caller: Scope, target: Scope) {
+    const { positional, named } = this.evalArgs(args, caller);
+    params.forEach((param, i) => {
+      if (named.has(param.name)) target.vars.set(param.name, named.get(param.name));
+      else if (i < positional.length) target.vars.set(param.name, positional[i]);
+      else target.vars.set(param.name, param.defaultValue ? this.evalExpr(param.defaultValue, target) : undefined);
+    });
+    named.forEach((value, key) => {
+      if (key.startsWith('$')) target.vars.set(key, value);
+    });
+  }
+
+  // Cartesian product over `for (a = ..., b = ...)` style assignments
+  private loop<T>(args: Argument[], scope: Scope, body: (iterScope: Scope) => T): T[] {
+    const results: T[] = [];
+    let steps = 0;
+    const recurse = (index: number, current: Scope) => {
+      if (index === args.length) {
+        if (++steps > MAX_ITERATIONS) throw new ScadError('Loop has too many iterations');
+        results.push(body(current));
+        return;
+      }
+      const arg = args[index];
+      const values = iterate(this.evalExpr(arg.value, current));
+      for (const value of values) {
+        const next = new Scope(current);
+        if (arg.name) next.vars.set(arg.name, value);
+        recurse(index + 1, next);
+      }
+    };
+    recurse(0, scope);
+    return results;
+  }
+
+  private formatEcho(args: Argument[], scope: Scope): string {
+    return 'ECHO: ' + args.map(arg => {
+      const value = formatValue(this.evalExpr(arg.value, scope));
+      return arg.name ? `${arg.name} = ${value}` : value;
+    }).join(', ');
+  }
+
+  // --- Expressions ----------------------------------------------------------
+
+  evalExpr(expr: Expr, scope: Scope): ScadValue {
+    switch (expr.type) {
+      case 'number':
+      case 'string':
+      case 'bool':
+        return expr.value;
+      case 'undef':
+        return undefined;
+      case 'ident':
+        if (!scope.has(expr.name) && !scope.findFunction(expr.name)) {
+          this.warnOnce(`Unknown variable '${expr.name}' (line ${expr.pos.line}).`);
+        }
+        return scope.lookup(expr.name);
+      case 'vector': {
+        const out: ScadValue[] = [];
+        for (const item of expr.items) this.evalElement(item, scope, out);
+        return out;
+      }
+      case 'range': {
+        const start = toNumber(this.evalExpr(expr.start, scope), 0);
+        const end = toNumber(this.evalExpr(expr.end, scope), 0);
+        const step = expr.step ? toNumber(this.evalExpr(expr.step, scope), 1) : 1;
+        return new ScadRange(start, step, end);
+      }
+      case 'unary': {
+        const v = this.evalExpr(expr.operand, scope);
+        if (expr.op === '!') return !truthy(v);
+        if (expr.op === '-') return negate(v);
+        return v;
+      }
+      case 'binary':
+        return this.evalBinary(expr.op, expr.left, expr.right, scope);
+      case 'ternary':
+        return truthy(this.evalExpr(expr.cond, scope)) ? this.evalExpr(expr.then, scope) : this.evalExpr(expr.otherwise, scope);
+      case 'index': {
+        const target = this.evalExpr(expr.target, scope);
+        const index = this.evalExpr(expr.index, scope);
+        if (!isNumber(index)) return undefined;
+        if (isList(target) || typeof target === 'string') return target[Math.floor(index)];
+        return undefined;
+      }
+      case 'member': {
+        const target = this.evalExpr(expr.target, scope);
+        const slot = { x: 0, y: 1, z: 2 }[expr.name as 'x' | 'y' | 'z'];
+        if (isList(target) && slot !== undefined) return target[slot];
+        if (target instanceof ScadRange) {
+          return { begin: target.start, step: target.step, end: target.end }[expr.name as 'begin'];
+        }
+        return undefined;
+      }
+      case 'let': {
+        const inner = new Scope(scope);
+        for (const arg of expr.assignments) if (arg.name) inner.vars.set(arg.name, this.evalExpr(arg.value, inner));
+        return this.evalExpr(expr.body, inner);
+      }
+      case 'effect': {
+        if (expr.kind === 'echo') this.echoes.push(this.formatEcho(expr.args, scope));
+        else {
+          const { positional } = this.evalArgs(expr.args, scope);
+          if (!truthy(positional[0])) throw new ScadError('Assertion failed', expr.pos);
+        }
+        return expr.body ? this.evalExpr(expr.body, scope) : undefined;
+      }
+      case 'function':
+        return { kind: 'function', params: expr.params, body: expr.body, scope };
+      case 'call':
+        return this.evalCall(expr, scope);
+      default:
+        throw new ScadError('List comprehension element outside of a list', expr.pos);
+    }
+  }
+
+  private evalElement(expr: Expr, scope: Scope, out: ScadValue[]) {
+    switch (expr.type) {
+      case 'lc_for':
+        this.loop(expr.assignments, scope, iterScope => this.evalElement(expr.body, iterScope, out));
+        return;
+      case 'lc_if':
+        if (truthy(this.evalExpr(expr.cond, scope))) this.evalElement(expr.then, scope, out);
+        else if (expr.otherwise) this.evalElement(expr.otherwise, scope, out);
+        return;
+      case 'lc_each':
+        out.push(...iterate(this.evalExpr(expr.body, scope)));
+        return;
+      case 'lc_let': {
+        const inner = new Scope(scope);
+        for (const arg of expr.assignments) if (arg.name) inner.vars.set(arg.name, this.evalExpr(arg.value, inner));
+        this.evalElement(expr.body, inner, out);
+        return;
+      }
+      default:
+        out.push(this.evalExpr(expr, scope));
+    }
+  }
+
+  private evalBinary(op: string, leftExpr: Expr, rightExpr: Expr, scope: Scope): ScadValue {
+    // Short-circuit logic operators
+    if (op === '&&') return truthy(this.evalExpr(leftExpr, scope)) && truthy(this.evalExpr(rightExpr, scope));
+    if (op === '||') return truthy(this.evalExpr(leftExpr, scope)) || truthy(this.evalExpr(rightExpr, scope));
+
+    const a = this.evalExpr(leftExpr, scope);
+    const b = this.evalExpr(rightExpr, scope);
+    switch (op) {
+      case '+': return add(a, b, 1);
+      case '-': return add(a, b, -1);
+      case '*': return multiply(a, b);
+      case '/':
+        if (isNumber(a) && isNumber(b)) return a / b;
+        if (isList(a) && isNumber(b)) return a.map(x => (isNumber(x) ? x / b : undefined));
+        return undefined;
+      case '%': return isNumber(a) && isNumber(b) ? a % b : undefined;
+      case '^': return isNumber(a) && isNumber(b) ? Math.pow(a, b) : undefined;
+      case '==': return deepEqual(a, b);
+      case '!=': return !deepEqual(a, b);
+      default: return compare(op, a, b);
+    }
+  }
+
+  private evalCall(expr: Extract<Expr, { type: 'call' }>, scope: Scope): ScadValue {
+    if (expr.callee.type === 'ident') {
+      const name = expr.callee.name;
+      const def = scope.findFunction(name);
+      if (def) return this.applyFunction(name, def.params, def.body, def.scope, expr.args, scope, expr.pos);
+      if (!scope.has(name)) {
+        const { positional, named } = this.evalArgs(expr.args, scope);
+        return this.builtinFunction(name, positional, named, expr.pos);
+      }
+    }
+    const callee = this.evalExpr(expr.callee, scope);
+    if (callee && typeof callee === 'object' && !isList(callee) && !(callee instanceof ScadRange)) {
+      return this.applyFunction('function literal', callee.params, callee.body, callee.scope, expr.args, scope, expr.pos);
+    }
+    this.warnOnce(`Call of a non-function value (line ${expr.pos.line}).`);
+    return undefined;
+  }
+
+  private applyFunction(
+    name: string,
+    params: Parameter[],
+    body: Expr,
+    defScope: Scope,
+    args: Argument[],
+    caller: Scope,
+    pos: SourcePos
+  ): ScadValue {
+    if (++this.depth > MAX_DEPTH) throw new ScadError(`Recursion too deep in function '${name}'`, pos);
+    try {
+      const inner = new Scope(defScope, caller);
+      this.bindParams(params, args, caller, inner);
+      return this.evalExpr(body, inner);
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private builtinFunction(name: string, args: ScadValue[], named: Map<string, ScadValue>, pos: SourcePos): ScadValue {
+    const n = (i: number) => (isNumber(args[i]) ? (args[i] as number) : NaN);
+    const numericList = (): number[] => {
+      if (args.length === 1 && isList(args[0])) return (args[0] as ScadValue[]).filter(isNumber);
+      return args.filter(isNumber);
+    };
+
+    switch (name) {
+      case 'sin': return sinDeg(n(0));
+      case 'cos': return cosDeg(n(0));
+      case 'tan': return Math.tan(rad(n(0)));
+      case 'asin': return deg(Math.asin(n(0)));
+      case 'acos': return deg(Math.acos(n(0)));
+      case 'atan': return deg(Math.atan(n(0)));
+      case 'atan2': return deg(Math.atan2(n(0), n(1)));
+      case 'abs': return Math.abs(n(0));
+      case 'sign': return Math.sign(n(0));
+      case 'floor': return Math.floor(n(0));
+      case 'ceil': return Math.ceil(n(0));
+      case 'round': return Math.sign(n(0)) * Math.round(Math.abs(n(0)));
+      case 'sqrt': return Math.sqrt(n(0));
+      case 'pow': return Math.pow(n(0), n(1));
+      case 'exp': return Math.exp(n(0));
+      case 'ln': return Math.log(n(0));
+      case 'log': return args.length > 1 ? Math.log(n(1)) / Math.log(n(0)) : Math.log10(n(0));
+      case 'min': { const l = numericList(); return l.length ? Math.min(...l) : undefined; }
+      case 'max': { const l = numericList(); return l.length ? Math.max(...l) : undefined; }
+      case 'norm': {
+        const v = isList(args[0]) ? args[0].filter(isNumber) : [];
+        return Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+      }
+      case 'cross': {
+        const a = toVec3(args[0], [0, 0, 0]), b = toVec3(args[1], [0, 0, 0]);
+        return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+      }
+      case 'len': return isList(args[0]) || typeof args[0] === 'string' ? args[0].length : undefined;
+      case 'concat': return args.flatMap(a => (isList(a) ? a : [a]));
+      case 'reverse': return isList(args[0]) ? args[0].slice().reverse() : undefined;
+      case 'lookup': {
+        const key = n(0);
+        const table = isList(args[1]) ? (args[1] as ScadValue[]).filter(isList) as ScadValue[][] : [];
+        if (table.length === 0) return undefined;
+        if (key <= toNumber(table[0][0], 0)) return table[0][1];
+        for (let i = 1; i < table.length; i++) {
+          const k0 = toNumber(table[i - 1][0], 0), k1 = toNumber(table[i][0], 0);
+          if (key <= k1) {
+            const t = (key - k0) / (k1 - k0);
+            return toNumber(table[i - 1][1], 0) * (1 - t) + toNumber(table[i][1], 0) * t;
+          }
+        }
+        return table[table.length - 1][1];
+      }
+      case 'str': return args.map(a => (typeof a === 'string' ? a : formatValue(a))).join('');
+      case 'chr': return args.flatMap(a => iterate(a)).filter(isNumber).map(c => String.fromCharCode(c)).join('');
+      case 'ord': return typeof args[0] === 'string' && args[0].length === 1 ? args[0].charCodeAt(0) : undefined;
+      case 'is_undef': return args[0] === undefined;
+      case 'is_num': return isNumber(args[0]) && !isNaN(args[0]);
+      case 'is_bool': return typeof args[0] === 'boolean';
+      case 'is_string': return typeof args[0] === 'string';
+      case 'is_list': return isList(args[0]);
+      case 'is_function': return !!args[0] && typeof args[0] === 'object' && !isList(args[0]) && !(args[0] instanceof ScadRange);
+      case 'rands': {
+        // Deterministic so that previews are reproducible
+        let seed = isNumber(args[3]) ? args[3] : 42;
+        const count = Math.max(0, Math.floor(n(2)));
+        const out: number[] = [];
+        for (let i = 0; i < count; i++) {
+          seed = (seed * 16807) % 2147483647;
+          out.push(n(0) + ((seed % 100000) / 100000) * (n(1) - n(0)));
+        }
+        return out;
+      }
+      case 'version': return [2021, 1, 0];
+      case 'version_num': return 20210100;
+      default:
+        if (named.size === 0) this.warnOnce(`Unknown function '${name}' (line ${pos.line}).`);
+        return undefined;
+    }
+  }
+}
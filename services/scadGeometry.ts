@@ -0,0 +1,385 @@
+import * as THREE from 'three';
+import { ConvexGeometry } from 'three/examples/jsm/geometries/ConvexGeometry.js';
+import { CSG, Vec3Tuple } from './csg';
+
+// Geometry tree produced by the SCAD evaluator and the mesh builders that turn it
+// into CSG solids. 2D shapes stay symbolic until they are extruded, so booleans
+// between 2D shapes are resolved as booleans between their extrusions.
+
+export type Point2 = [number, number];
+
+export type GeomNode =
+  | { kind: 'mesh'; csg: CSG }
+  | { kind: 'polygon2d'; outlines: Point2[][] }
+  | { kind: 'transform'; matrix: THREE.Matrix4; children: GeomNode[] }
+  | { kind: 'boolean'; op: 'union' | 'difference' | 'intersection'; children: GeomNode[] }
+  | { kind: 'hull'; children: GeomNode[] }
+  | { kind: 'resize'; size: Vec3Tuple; auto: [boolean, boolean, boolean]; children: GeomNode[] }
+  | { kind: 'linear_extrude'; height: number; center: boolean; twist: number; scale: Point2; slices: number; children: GeomNode[] }
+  | { kind: 'rotate_extrude'; angle: number; fragments: (radius: number) => number; children: GeomNode[] };
+
+// Same formula as OpenSCAD's get_fragments_from_r()
+export const getFragments = (r: number, fn: number, fs: number, fa: number): number => {
+  if (r < 1e-7) return 3;
+  if (fn > 0) return Math.min(Math.max(Math.floor(fn), 3), 360);
+  return Math.min(Math.ceil(Math.max(Math.min(360 / fa, (r * 2 * Math.PI) / fs), 5)), 360);
+};
+
+const v3 = (x: number, y: number, z: number): Vec3Tuple => [x, y, z];
+
+export const circleOutline = (r: number, fragments: number): Point2[] => {
+  const pts: Point2[] = [];
+  for (let i = 0; i < fragments; i++) {
+    const a = (2 * Math.PI * i) / fragments;
+    pts.push([r * Math.cos(a), r * Math.sin(a)]);
+  }
+  return pts;
+};
+
+// Split a (possibly non-planar) quad into triangles
+const quad = (faces: Vec3Tuple[][], a: Vec3Tuple, b: Vec3Tuple, c: Vec3Tuple, d: Vec3Tuple) => {
+  faces.push([a, b, c], [a, c, d]);
+};
+
+export const makeCube = (size: Vec3Tuple, center: boolean): CSG => {
+  const [sx, sy, sz] = size;
+  const o = center ? [-sx / 2, -sy / 2, -sz / 2] : [0, 0, 0];
+  const p = (x: number, y: number, z: number) => v3(o[0] + x * sx, o[1] + y * sy, o[2] + z * sz);
+  return CSG.fromTriangles([
+    [p(0, 0, 0), p(0, 1, 0), p(1, 1, 0), p(1, 0, 0)], // bottom
+    [p(0, 0, 1), p(1, 0, 1), p(1, 1, 1), p(0, 1, 1)], // top
+    [p(0, 0, 0), p(1, 0, 0), p(1, 0, 1), p(0, 0, 1)], // front
+    [p(0, 1, 0), p(0, 1, 1), p(1, 1, 1), p(1, 1, 0)], // back
+    [p(0, 0, 0), p(0, 0, 1), p(0, 1, 1), p(0, 1, 0)], // left
+    [p(1, 0, 0), p(1, 1, 0), p(1, 1, 1), p(1, 0, 1)]  // right
+  ]);
+};
+
+export const makeSphere = (r: number, fragments: number): CSG => {
+  const rings = Math.max(Math.floor((fragments + 1) / 2), 1);
+  const ringPoints: Vec3Tuple[][] = [];
+  for (let i = 0; i < rings; i++) {
+    const phi = (Math.PI * (i + 0.5)) / rings;
+    const ringR = r * Math.sin(phi);
+    const z = r * Math.cos(phi);
+    ringPoints.push(circleOutline(ringR, fragments).map(([x, y]) => v3(x, y, z)));
+  }
+
+  const faces: Vec3Tuple[][] = [];
+  faces.push(ringPoints[0].slice());
+  for (let i = 0; i < rings - 1; i++) {
+    const upper = ringPoints[i], lower = ringPoints[i + 1];
+    for (let j = 0; j < fragments; j++) {
+      const k = (j + 1) % fragments;
+      quad(faces, upper[j], lower[j], lower[k], upper[k]);
+    }
+  }
+  faces.push(ringPoints[rings - 1].slice().reverse());
+  return CSG.fromTriangles(faces);
+};
+
+export const makeCylinder = (h: number, r1: number, r2: number, center: boolean, fragments: number): CSG => {
+  const z0 = center ? -h / 2 : 0;
+  const z1 = z0 + h;
+  const bottom = circleOutline(r1, fragments).map(([x, y]) => v3(x, y, z0));
+  const top = circleOutline(r2, fragments).map(([x, y]) => v3(x, y, z1));
+
+  const faces: Vec3Tuple[][] = [];
+  if (r1 > 0) faces.push(bottom.slice().reverse());
+  if (r2 > 0) faces.push(top.slice());
+  for (let j = 0; j < fragments; j++) {
+    const k = (j + 1) % fragments;
+    quad(faces, bottom[j], bottom[k], top[k], top[j]);
+  }
+  return CSG.fromTriangles(faces);
+};
+
+// OpenSCAD lists polyhedron faces clockwise when seen from outside
+export const makePolyhedron = (points: Vec3Tuple[], faces: number[][]): CSG => {
+  const tris: Vec3Tuple[][] = [];
+  for (const face of faces) {
+    const verts = face.map(i => points[i]).filter(Boolean).reverse();
+    for (let i = 2; i < verts.length; i++) tris.push([verts[0], verts[i - 1], verts[i]]);
+  }
+  return CSG.fromTriangles(tris);
+};
+
+const ensureCCW = (outline: Point2[]): Point2[] => {
+  const vecs = outline.map(([x, y]) => new THREE.Vector2(x, y));
+  return THREE.ShapeUtils.isClockWise(vecs) ? outline.slice().reverse() : outline;
+};
+
+const triangulate = (outline: Point2[]): [number, number, number][] => {
+  const vecs = outline.map(([x, y]) => new THREE.Vector2(x, y));
+  return THREE.ShapeUtils.triangulateShape(vecs, []) as [number, number, number][];
+};
+
+const pointInPolygon = ([px, py]: Point2, poly: Point2[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const [xi, yi] = poly[i], [xj, yj] = poly[j];
+    if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Linear extrusion of one simple outline, with optional twist and top scale
+const extrudeOutline = (
+  outline: Point2[],
+  height: number,
+  center: boolean,
+  twist: number,
+  scale: Point2,
+  slices: number
+): CSG => {
+  const base = ensureCCW(outline);
+  const z0 = center ? -height / 2 : 0;
+  const n = base.length;
+
+  const layer = (k: number): Vec3Tuple[] => {
+    const t = k / slices;
+    const angle = THREE.MathUtils.degToRad(-twist * t);
+    const sx = 1 + (scale[0] - 1) * t;
+    const sy = 1 + (scale[1] - 1) * t;
+    const c = Math.cos(angle), s = Math.sin(angle);
+    return base.map(([x, y]) => {
+      const px = x * sx, py = y * sy;
+      return v3(px * c - py * s, px * s + py * c, z0 + height * t);
+    });
+  };
+
+  const layers: Vec3Tuple[][] = [];
+  for (let k = 0; k <= slices; k++) layers.push(layer(k));
+
+  const faces: Vec3Tuple[][] = [];
+  const capTris = triangulate(base);
+  const bottom = layers[0], top = layers[slices];
+  for (const [a, b, c] of capTris) {
+    faces.push([bottom[c], bottom[b], bottom[a]]);
+    faces.push([top[a], top[b], top[c]]);
+  }
+  for (let k = 0; k < slices; k++) {
+    const lo = layers[k], hi = layers[k + 1];
+    for (let i = 0; i < n; i++) {
+      const j = (i + 1) % n;
+      quad(faces, lo[i], lo[j], hi[j], hi[i]);
+    }
+  }
+  return CSG.fromTriangles(faces);
+};
+
+// Revolve one outline (drawn in the X/Y plane, X = radius) around Z
+const revolveOutline = (outline: Point2[], angle: number, fragmentsFor: (r: number) => number): CSG => {
+  let profile = ensureCCW(outline);
+  // OpenSCAD accepts profiles that lie entirely on the negative X side as well
+  if (profile.every(([x]) => x <= 0)) profile = ensureCCW(profile.map(([x, y]) => [-x, y] as Point2));
+  profile = profile.map(([x, y]) => [Math.max(x, 0), y] as Point2);
+
+  const sweep = Math.min(Math.abs(angle), 360);
+  const start = angle < 0 ? THREE.MathUtils.degToRad(angle) : 0;
+  const maxR = Math.max(...profile.map(([x]) => x));
+  const full = sweep >= 360;
+  const segments = Math.max(Math.ceil((fragmentsFor(maxR) * sweep) / 360), full ? 3 : 1);
+
+  const ring = (j: number): Vec3Tuple[] => {
+    const a = start + THREE.MathUtils.degToRad((sweep * j) / segments);
+    const c = Math.cos(a), s = Math.sin(a);
+    return profile.map(([r, z]) => v3(r * c, r * s, z));
+  };
+
+  const rings: Vec3Tuple[][] = [];
+  for (let j = 0; j <= segments; j++) rings.push(full && j === segments ? rings[0] : ring(j));
+
+  const faces: Vec3Tuple[][] = [];
+  const n = profile.length;
+  for (let j = 0; j < segments; j++) {
+    const cur = rings[j], nxt = rings[j + 1];
+    for (let i = 0; i < n; i++) {
+      const k = (i + 1) % n;
+      quad(faces, cur[i], nxt[i], nxt[k], cur[k]);
+    }
+  }
+
+  if (!full) {
+    const capTris = triangulate(profile);
+    const first = rings[0], last = rings[segments];
+    for (const [a, b, c] of capTris) {
+      faces.push([first[a], first[b], first[c]]);
+      faces.push([last[c], last[b], last[a]]);
+    }
+  }
+  return CSG.fromTriangles(faces);
+};
+
+// --- 2D regions -------------------------------------------------------------
+
+type Region =
+  | { op: 'leaf'; outlines: Point2[][] }
+  | { op: 'union' | 'difference' | 'intersection'; children: Region[] };
+
+const hull2D = (points: Point2[]): Point2[] => {
+  const pts = points.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (pts.length < 3) return pts;
+  const cross = (o: Point2, a: Point2, b: Point2) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const lower: Point2[] = [];
+  for (const p of pts) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point2[] = [];
+  for (let i = pts.length - 1; i >= 0; i--) {
+    const p = pts[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+};
+
+const regionPoints = (region: Region): Point2[] =>
+  region.op === 'leaf' ? region.outlines.flat() : region.children.flatMap(regionPoints);
+
+export const isTwoDimensional = (node: GeomNode): boolean => {
+  switch (node.kind) {
+    case 'polygon2d':
+      return true;
+    case 'mesh':
+    case 'linear_extrude':
+    case 'rotate_extrude':
+      return false;
+    default: {
+      const first = node.children.find(c => !isEmptyNode(c));
+      return first ? isTwoDimensional(first) : false;
+    }
+  }
+};
+
+const isEmptyNode = (node: GeomNode): boolean => {
+  if (node.kind === 'mesh') return node.csg.isEmpty();
+  if (node.kind === 'polygon2d') return node.outlines.length === 0;
+  return node.children.every(isEmptyNode);
+};
+
+const toRegion = (node: GeomNode, matrix: THREE.Matrix4, warnings: string[]): Region => {
+  switch (node.kind) {
+    case 'polygon2d': {
+      const e = matrix.elements;
+      const outlines = node.outlines.map(outline =>
+        outline.map(([x, y]) => [e[0] * x + e[4] * y + e[12], e[1] * x + e[5] * y + e[13]] as Point2)
+      );
+      return { op: 'leaf', outlines };
+    }
+    case 'transform':
+      return {
+        op: 'union',
+        children: node.children.map(c => toRegion(c, matrix.clone().multiply(node.matrix), warnings))
+      };
+    case 'boolean':
+      return { op: node.op, children: node.children.map(c => toRegion(c, matrix, warnings)) };
+    case 'hull': {
+      const pts = node.children.flatMap(c => regionPoints(toRegion(c, matrix, warnings)));
+      return { op: 'leaf', outlines: pts.length >= 3 ? [hull2D(pts)] : [] };
+    }
+    case 'resize':
+      warnings.push('resize() on 2D shapes is not supported; size left unchanged.');
+      return { op: 'union', children: node.children.map(c => toRegion(c, matrix, warnings)) };
+    default:
+      warnings.push('3D object inside a 2D context was ignored.');
+      return { op: 'leaf', outlines: [] };
+  }
+};
+
+// Extrude a region by extruding each leaf and replaying the 2D booleans in 3D
+const extrudeRegion = (region: Region, extrude: (outline: Point2[]) => CSG): CSG => {
+  if (region.op === 'leaf') {
+    const outlines = region.outlines.filter(o => o.length >= 3);
+    // Even-odd: outlines nested an odd number of times are holes
+    const solids: CSG[] = [];
+    const holes: CSG[] = [];
+    outlines.forEach((outline, i) => {
+      const depth = outlines.filter((other, j) => j !== i && pointInPolygon(outline[0], other)).length;
+      (depth % 2 === 0 ? solids : holes).push(extrude(outline));
+    });
+    const solid = solids.reduce((acc, s) => acc.union(s), new CSG());
+    return holes.reduce((acc, h) => acc.subtract(h), solid);
+  }
+
+  const parts = region.children.map(c => extrudeRegion(c, extrude));
+  if (parts.length === 0) return new CSG();
+  if (region.op === 'union') return parts.reduce((acc, p) => acc.union(p), new CSG());
+  if (region.op === 'difference') return parts.slice(1).reduce((acc, p) => acc.subtract(p), parts[0]);
+  return parts.slice(1).reduce((acc, p) => acc.intersect(p), parts[0]);
+};
+
+const hull3D = (solids: CSG[], warnings: string[]): CSG => {
+  const points: THREE.Vector3[] = [];
+  solids.forEach(s => s.polygons.forEach(p => p.vertices.forEach(v => points.push(v.clone()))));
+  if (points.length < 4) return new CSG();
+  try {
+    const geometry = new ConvexGeometry(points);
+    const pos = geometry.getAttribute('position');
+    const tris: Vec3Tuple[][] = [];
+    for (let i = 0; i < pos.count; i += 3) {
+      tris.push([0, 1, 2].map(k => v3(pos.getX(i + k), pos.getY(i + k), pos.getZ(i + k))));
+    }
+    return CSG.fromTriangles(tris);
+  } catch {
+    warnings.push('hull() failed on degenerate input.');
+    return solids.reduce((acc, s) => acc.union(s), new CSG());
+  }
+};
+
+// Convert an evaluated 3D node tree into a single CSG solid
+export const nodeToCSG = (node: GeomNode, warnings: string[]): CSG => {
+  switch (node.kind) {
+    case 'mesh':
+      return node.csg;
+
+    case 'polygon2d':
+      warnings.push('Top-level 2D geometry is not rendered in the 3D preview.');
+      return new CSG();
+
+    case 'transform':
+      return unionAll(node.children, warnings).transform(node.matrix);
+
+    case 'boolean': {
+      const solids = node.children.filter(c => !isTwoDimensional(c)).map(c => nodeToCSG(c, warnings));
+      if (solids.length === 0) return new CSG();
+      if (node.op === 'union') return solids.reduce((acc, s) => acc.union(s), new CSG());
+      if (node.op === 'difference') return solids.slice(1).reduce((acc, s) => acc.subtract(s), solids[0]);
+      return solids.slice(1).reduce((acc, s) => acc.intersect(s), solids[0]);
+    }
+
+    case 'hull':
+      return hull3D(node.children.map(c => nodeToCSG(c, warnings)), warnings);
+
+    case 'resize': {
+      const solid = unionAll(node.children, warnings);
+      const size = solid.bounds().getSize(new THREE.Vector3());
+      const current = [size.x, size.y, size.z];
+      const factors = node.size.map((target, i) => (target > 0 && current[i] > 0 ? target / current[i] : 0));
+      // Axes with size 0 keep their scale, or follow the largest set factor when `auto` is on
+      const reference = Math.max(...factors);
+      const finalFactors = factors.map((f, i) => (f > 0 ? f : node.auto[i] && reference > 0 ? reference : 1));
+      return solid.transform(new THREE.Matrix4().makeScale(finalFactors[0], finalFactors[1], finalFactors[2]));
+    }
+
+    case 'linear_extrude': {
+      const region: Region = { op: 'union', children: node.children.map(c => toRegion(c, new THREE.Matrix4(), warnings)) };
+      return extrudeRegion(region, outline =>
+        extrudeOutline(outline, node.height, node.center, node.twist, node.scale, node.slices)
+      );
+    }
+
+    case 'rotate_extrude': {
+      const region: Region = { op: 'union', children: node.children.map(c => toRegion(c, new THREE.Matrix4(), warnings)) };
+      return extrudeRegion(region, outline => revolveOutline(outline, node.angle, node.fragments));
+    }
+  }
+};
+
+const unionAll = (nodes: GeomNode[], warnings: string[]): CSG =>
+  nodes
+    .filter(c => !isTwoDimensional(c))
+    .map(c => nodeToCSG(c, warnings))
+    .reduce((acc, s) => acc.union(s), new CSG());
+
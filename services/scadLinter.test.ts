@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { lintScad } from './scadLinter';
+
+describe('lintScad', () => {
+  it('flags a primitive that swallowed the next statement', () => {
+    const diagnostics = lintScad('difference() {\n  cube(10)\n  sphere(5);\n}');
+    expect(diagnostics).toEqual([expect.objectContaining({ severity: 'error', line: 2, column: 3, message: expect.stringContaining("'cube' 之后可能缺少 ';'") })]);
+    expect(lintScad('translate([0, 0, 5]) cylinder(h = 2, r = 1) { cube(1); }')).toHaveLength(1);
+  });
+
+  it('leaves well-formed primitives and user modules named like them alone', () => {
+    expect(lintScad('difference() {\n  cube(10);\n  sphere(5);\n}')).toEqual([]);
+    expect(lintScad('module cube(s) { children(); }\ncube(2) sphere(1);')).toEqual([]);
+  });
+});
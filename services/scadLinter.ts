@@ -0,0 +1,375 @@
+import { Argument, Expr, Parameter, ScadError, SourcePos, Statement, parseScad } from './scadParser';
+import { LEAF_MODULES } from './scadBuiltins';
+
+export interface ScadDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+}
+
+// Names OpenSCAD provides; a superset of what our evaluator implements so valid scripts lint clean
+export const BUILTIN_MODULES = new Set([
+  'cube', 'sphere', 'cylinder', 'polyhedron', 'square', 'circle', 'polygon', 'text', 'surface', 'import',
+  'translate', 'rotate', 'scale', 'mirror', 'multmatrix', 'resize', 'color', 'offset', 'projection',
+  'union', 'difference', 'intersection', 'hull', 'minkowski', 'render', 'group', 'children',
+  'linear_extrude', 'rotate_extrude', 'roof', 'for', 'intersection_for', 'let', 'echo', 'assert'
+]);
+
+export const BUILTIN_FUNCTIONS = new Set([
+  'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'atan2', 'abs', 'sign', 'floor', 'ceil', 'round', 'sqrt',
+  'pow', 'exp', 'ln', 'log', 'min', 'max', 'norm', 'cross', 'len', 'concat', 'reverse', 'lookup', 'search',
+  'str', 'chr', 'ord', 'rands', 'version', 'version_num', 'parent_module', 'is_undef', 'is_num', 'is_bool',
+  'is_string', 'is_list', 'is_function', 'is_object', 'object', 'textmetrics', 'fontmetrics'
+]);
+
+const BUILTIN_VARIABLES = new Set(['PI']);
+
+// Loop counts at or above this that build a primitive per step read as voxelised curves
+const SLICE_LOOP_MIN = 10;
+const SLICE_PRIMITIVES = new Set(['cube', 'cylinder', 'linear_extrude', 'square', 'circle']);
+
+const MAX_DIAGNOSTICS = 100;
+
+const OPEN_BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSE_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+export interface BracketScan {
+  pairs: Map<number, number>;   // offset of each bracket → offset of its partner, both directions
+  unmatched: { offset: number; char: string; expected?: string }[];
+}
+
+// Bracket structure of raw text, skipping strings and comments; tolerant of half-typed code
+export const scanBrackets = (code: string): BracketScan => {
+  const pairs = new Map<number, number>();
+  const unmatched: BracketScan['unmatched'] = [];
+  const stack: { offset: number; char: string }[] = [];
+  let i = 0;
+  while (i < code.length) {
+    const ch = code[i];
+    if (ch === '/' && code[i + 1] === '/') {
+      while (i < code.length && code[i] !== '\n') i++;
+      continue;
+    }
+    if (ch === '/' && code[i + 1] === '*') {
+      const close = code.indexOf('*/', i + 2);
+      i = close < 0 ? code.length : close + 2;
+      continue;
+    }
+    if (ch === '"') {
+      i++;
+      while (i < code.length && code[i] !== '"') i += code[i] === '\\' ? 2 : 1;
+      i++;
+      continue;
+    }
+    if (OPEN_BRACKETS[ch]) {
+      stack.push({ offset: i, char: ch });
+    } else if (CLOSE_BRACKETS[ch]) {
+      // `([1, 2)` most likely lost the `]`: close the nearest matching opener and leave the ones inside open
+      const j = stack.map(s => s.char).lastIndexOf(CLOSE_BRACKETS[ch]);
+      if (j >= 0) {
+        const open = stack[j];
+        stack.splice(j).slice(1).forEach(s => unmatched.push(s));
+        pairs.set(open.offset, i);
+        pairs.set(i, open.offset);
+      } else {
+        const top = stack[stack.length - 1];
+        unmatched.push({ offset: i, char: ch, expected: top ? OPEN_BRACKETS[top.char] : undefined });
+      }
+    }
+    i++;
+  }
+  stack.forEach(s => unmatched.push({ offset: s.offset, char: s.char }));
+  return { pairs, unmatched: unmatched.sort((a, b) => a.offset - b.offset) };
+};
+
+const positionAt = (code: string, offset: number): { line: number; column: number } => {
+  const before = code.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+};
+
+const describeFound = (found: string) => (found === 'end of file' ? '文件结尾' : found);
+
+// Parser messages are English and point at the token after the problem; say it in Chinese and, for a
+// missing `;`, point at the end of the statement that lacks it
+const translateParseError = (code: string, error: ScadError): ScadDiagnostic => {
+  const raw = error.pos ? error.message.replace(/ \(line \d+, column \d+\)$/, '') : error.message;
+  const at = error.pos ? { line: error.pos.line, column: error.pos.column } : { line: 1, column: 1 };
+  const diag = (message: string, pos = at): ScadDiagnostic => ({ severity: 'error', message, ...pos });
+
+  let m: RegExpMatchArray | null;
+  if ((m = raw.match(/^Expected ';' but found (.*)$/))) {
+    let end = error.pos ? error.pos.offset : code.length;
+    while (end > 0 && /\s/.test(code[end - 1])) end--;
+    return diag(`缺少分号 (之后为 ${describeFound(m[1])})`, positionAt(code, Math.max(end - 1, 0)));
+  }
+  if ((m = raw.match(/^Expected identifier but found (.*)$/))) return diag(`此处应为名称, 实际为 ${describeFound(m[1])}`);
+  if ((m = raw.match(/^Expected '(.*)' but found (.*)$/))) return diag(`缺少 '${m[1]}', 实际为 ${describeFound(m[2])}`);
+  if ((m = raw.match(/^Unclosed '(.)'$/))) return diag(`'${m[1]}' 未闭合`);
+  if ((m = raw.match(/^Unexpected character '(.*)'$/))) return diag(`非法字符 '${m[1]}'`);
+  if (raw === 'Unterminated string literal') return diag('字符串缺少结尾引号');
+  if (raw === 'Unterminated block comment') return diag('块注释缺少结尾 */');
+  if (raw === 'Unexpected end of file') return diag('代码意外结束');
+  if ((m = raw.match(/^Unexpected (.*)$/))) return diag(`意外的 ${m[1]}`);
+  return diag(raw);
+};
+
+// Lexical scope for the undefined-name pass; assignments and definitions are hoisted per block
+class LintScope {
+  vars = new Set<string>();
+  modules = new Set<string>();
+  functions = new Set<string>();
+
+  constructor(private parent: LintScope | null) {}
+
+  has(kind: 'vars' | 'modules' | 'functions', name: string): boolean {
+    return this[kind].has(name) || (this.parent?.has(kind, name) ?? false);
+  }
+
+  child(): LintScope {
+    return new LintScope(this);
+  }
+}
+
+// Whether any identifier in an AST fragment is one of `names`
+const mentions = (node: unknown, names: Set<string>): boolean => {
+  if (Array.isArray(node)) return node.some(n => mentions(n, names));
+  if (!node || typeof node !== 'object') return false;
+  const fields = node as Record<string, unknown>;
+  if (fields.type === 'ident' && names.has(fields.name as string)) return true;
+  return Object.values(fields).some(v => mentions(v, names));
+};
+
+// Static iteration count of `[a:b]` / `[a:s:b]` with literal bounds; null when it depends on variables
+const rangeCount = (expr: Expr): number | null => {
+  const num = (e?: Expr): number | null => {
+    if (!e) return 1;
+    if (e.type === 'number') return e.value;
+    if (e.type === 'unary' && e.op === '-' && e.operand.type === 'number') return -e.operand.value;
+    return null;
+  };
+  if (expr.type === 'vector') return expr.items.length;
+  if (expr.type !== 'range') return null;
+  const [start, step, end] = [num(expr.start), num(expr.step), num(expr.end)];
+  if (start === null || step === null || end === null || step === 0) return null;
+  return Math.max(0, Math.floor((end - start) / step) + 1);
+};
+
+class Linter {
+  diagnostics: ScadDiagnostic[] = [];
+
+  constructor(private checkNames: boolean) {}
+
+  private report(severity: ScadDiagnostic['severity'], message: string, pos: SourcePos) {
+    if (this.diagnostics.length < MAX_DIAGNOSTICS) {
+      this.diagnostics.push({ severity, message, line: pos.line, column: pos.column });
+    }
+  }
+
+  private hoist(statements: Statement[], scope: LintScope): LintScope {
+    for (const st of statements) {
+      if (st.type === 'assignment') scope.vars.add(st.name);
+      else if (st.type === 'module_def') scope.modules.add(st.name);
+      else if (st.type === 'function_def') scope.functions.add(st.name);
+    }
+    return scope;
+  }
+
+  private withParams(params: Parameter[], scope: LintScope): LintScope {
+    const inner = scope.child();
+    params.forEach(p => {
+      if (p.defaultValue) this.expr(p.defaultValue, scope);
+      inner.vars.add(p.name);
+    });
+    return inner;
+  }
+
+  // let / for bindings: each may refer to the ones before it
+  private bind(assignments: Argument[], scope: LintScope): LintScope {
+    const inner = scope.child();
+    assignments.forEach(a => {
+      this.expr(a.value, inner);
+      if (a.name) inner.vars.add(a.name);
+    });
+    return inner;
+  }
+
+  block(statements: Statement[], scope: LintScope) {
+    this.hoist(statements, scope);
+    statements.forEach(st => this.statement(st, scope));
+  }
+
+  private statement(st: Statement, scope: LintScope) {
+    switch (st.type) {
+      case 'assignment':
+        this.expr(st.value, scope);
+        return;
+      case 'module_def': {
+        const inner = this.withParams(st.params, scope);
+        inner.vars.add('$children');
+        this.block(st.body, inner);
+        return;
+      }
+      case 'function_def':
+        this.expr(st.body, this.withParams(st.params, scope));
+        return;
+      case 'instantiation':
+        this.instantiation(st, scope);
+        return;
+      case 'if':
+        this.expr(st.cond, scope);
+        this.block(st.then, scope.child());
+        if (st.otherwise) this.block(st.otherwise, scope.child());
+        return;
+      case 'block':
+        this.block(st.body, scope.child());
+        return;
+      case 'include':
+        return;
+    }
+  }
+
+  private instantiation(st: Extract<Statement, { type: 'instantiation' }>, scope: LintScope) {
+    if (this.checkNames && !BUILTIN_MODULES.has(st.name) && !scope.has('modules', st.name)) {
+      this.report('warning', `未定义的模块 '${st.name}'`, st.pos);
+    }
+    if (LEAF_MODULES.has(st.name) && st.children.length > 0 && !scope.has('modules', st.name)) {
+      this.report('error', `'${st.name}' 之后可能缺少 ';' (基本体不接受子对象, 其后的语句会被忽略)`, st.pos);
+    }
+    if (st.name === 'for' || st.name === 'intersection_for' || st.name === 'let') {
+      const inner = this.bind(st.args, scope);
+      if (st.name !== 'let') this.checkSlices(st);
+      this.block(st.children, inner);
+      return;
+    }
+    st.args.forEach(a => this.expr(a.value, scope));
+    this.block(st.children, scope.child());
+  }
+
+  // A long loop that translates a thin primitive by the loop variable and resizes it per step is a
+  // curve approximated by stacked slices, which the generation prompt bans
+  private checkSlices(loop: Extract<Statement, { type: 'instantiation' }>) {
+    const loopVars = new Set(loop.args.map(a => a.name).filter((n): n is string => !!n));
+    const count = loop.args.reduce((total, a) => {
+      const n = rangeCount(a.value);
+      return total === null || n === null ? null : total * n;
+    }, 1 as number | null);
+    if (loopVars.size === 0 || (count !== null && count < SLICE_LOOP_MIN)) return;
+
+    const usesLoopVar = (args: Argument[]) => mentions(args, loopVars);
+    const sliceUnder = (statements: Statement[], moved: boolean): boolean =>
+      statements.some(st => {
+        if (st.type === 'block') return sliceUnder(st.body, moved);
+        if (st.type === 'if') return sliceUnder(st.then, moved) || sliceUnder(st.otherwise ?? [], moved);
+        if (st.type !== 'instantiation') return false;
+        if (SLICE_PRIMITIVES.has(st.name) && moved && usesLoopVar(st.args)) return true;
+        const movesAlongLoop = (st.name === 'translate' || st.name === 'rotate') && usesLoopVar(st.args);
+        return sliceUnder(st.children, moved || movesAlongLoop);
+      });
+
+    if (sliceUnder(loop.children, false)) {
+      this.report('warning', '疑似用堆叠薄片近似曲面, 请改用 rotate_extrude / hull / 连续的 linear_extrude', loop.pos);
+    }
+  }
+
+  private exprs(list: Expr[], scope: LintScope) {
+    list.forEach(e => this.expr(e, scope));
+  }
+
+  private expr(expr: Expr, scope: LintScope) {
+    switch (expr.type) {
+      case 'number':
+      case 'string':
+      case 'bool':
+      case 'undef':
+        return;
+      case 'ident':
+        // Special variables are dynamically scoped and may be set by any caller
+        if (this.checkNames && !expr.name.startsWith('$') && !BUILTIN_VARIABLES.has(expr.name) && !scope.has('vars', expr.name)) {
+          this.report('warning', `未定义的变量 '${expr.name}'`, expr.pos);
+        }
+        return;
+      case 'vector':
+        this.exprs(expr.items, scope);
+        return;
+      case 'range':
+        this.exprs([expr.start, expr.end, ...(expr.step ? [expr.step] : [])], scope);
+        return;
+      case 'unary':
+        this.expr(expr.operand, scope);
+        return;
+      case 'binary':
+        this.exprs([expr.left, expr.right], scope);
+        return;
+      case 'ternary':
+        this.exprs([expr.cond, expr.then, expr.otherwise], scope);
+        return;
+      case 'call':
+        if (expr.callee.type === 'ident') {
+          const name = expr.callee.name;
+          if (this.checkNames && !BUILTIN_FUNCTIONS.has(name) && !scope.has('functions', name) && !scope.has('vars', name)) {
+            this.report('warning', `未定义的函数 '${name}'`, expr.pos);
+          }
+        } else {
+          this.expr(expr.callee, scope);
+        }
+        this.exprs(expr.args.map(a => a.value), scope);
+        return;
+      case 'index':
+        this.exprs([expr.target, expr.index], scope);
+        return;
+      case 'member':
+        this.expr(expr.target, scope);
+        return;
+      case 'let':
+      case 'lc_for':
+      case 'lc_let':
+        this.expr(expr.body, this.bind(expr.assignments, scope));
+        return;
+      case 'effect':
+        this.exprs(expr.args.map(a => a.value), scope);
+        if (expr.body) this.expr(expr.body, scope);
+        return;
+      case 'function':
+        this.expr(expr.body, this.withParams(expr.params, scope));
+        return;
+      case 'lc_if':
+        this.exprs([expr.cond, expr.then, ...(expr.otherwise ? [expr.otherwise] : [])], scope);
+        return;
+      case 'lc_each':
+        this.expr(expr.body, scope);
+        return;
+    }
+  }
+}
+
+// Static checks for the editor: bracket balance, syntax, undefined names and banned modelling patterns
+export const lintScad = (code: string): ScadDiagnostic[] => {
+  const { unmatched } = scanBrackets(code);
+  if (unmatched.length > 0) {
+    // The parser's own error would only restate the first of these, less precisely
+    return unmatched.slice(0, MAX_DIAGNOSTICS).map(u => ({
+      severity: 'error' as const,
+      message: OPEN_BRACKETS[u.char]
+        ? `'${u.char}' 未闭合`
+        : u.expected
+          ? `括号不匹配: 应为 '${u.expected}', 实际为 '${u.char}'`
+          : `多余的 '${u.char}'`,
+      ...positionAt(code, u.offset)
+    }));
+  }
+
+  let program: Statement[];
+  try {
+    program = parseScad(code);
+  } catch (error) {
+    if (error instanceof ScadError) return [translateParseError(code, error)];
+    throw error;
+  }
+
+  // Libraries pulled in by use/include define names we cannot see
+  const linter = new Linter(!program.some(st => st.type === 'include'));
+  linter.block(program, new LintScope(null));
+  return linter.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+};
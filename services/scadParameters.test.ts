@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { applyParameters, formatParameterValue, parseParameters } from './scadParameters';
+
+const SCRIPT = `/* [Dimensions] */
+// 底板宽度
+width = 40; // [10:100]
+thickness = 2.5; // [0.5:0.5:10]
+holes = 4; // [2:Two, 4:Four]
+size = [10, 2.25];
+
+/* [Options] */
+chamfer = true;
+label = "A"; // ["A", "B"]
+
+/* [Hidden] */
+eps = 0.01;
+$fn = 64;
+
+cube([width, width, thickness]);
+late = 3;
+`;
+
+describe('parseParameters', () => {
+  const params = parseParameters(SCRIPT);
+  const byName = Object.fromEntries(params.map(p => [p.name, p]));
+
+  it('collects top-level literals before the first geometry, skipping hidden and special variables', () => {
+    expect(params.map(p => p.name)).toEqual(['width', 'thickness', 'holes', 'size', 'chamfer', 'label']);
+  });
+
+  it('reads Customizer ranges, steps, options, groups and descriptions', () => {
+    expect(byName.width).toMatchObject({ kind: 'number', value: 40, min: 10, max: 100, step: 1, group: 'Dimensions', description: '底板宽度' });
+    expect(byName.thickness).toMatchObject({ min: 0.5, max: 10, step: 0.5 });
+    expect(byName.holes).toMatchObject({ kind: 'number', options: [{ value: 2, label: 'Two' }, { value: 4, label: 'Four' }] });
+    expect(byName.size).toMatchObject({ kind: 'vector', value: [10, 2.25], step: 0.01 });
+    expect(byName.chamfer).toMatchObject({ kind: 'boolean', value: true, group: 'Options' });
+    expect(byName.label).toMatchObject({ kind: 'string', value: 'A', options: [{ value: 'A', label: 'A' }, { value: 'B', label: 'B' }] });
+  });
+
+  it('returns nothing for a script that does not parse', () => {
+    expect(parseParameters('width = ;')).toEqual([]);
+  });
+});
+
+describe('applyParameters', () => {
+  it('rewrites only the edited literals and keeps annotations', () => {
+    const params = parseParameters(SCRIPT);
+    const find = (name: string) => params.find(p => p.name === name)!;
+    const code = applyParameters(SCRIPT, [
+      { param: find('width'), value: 55 },
+      { param: find('size'), value: [12, 3] },
+      { param: find('chamfer'), value: false },
+      { param: find('label'), value: 'B' }
+    ]);
+    expect(code).toContain('width = 55; // [10:100]');
+    expect(code).toContain('size = [12, 3];');
+    expect(code).toContain('chamfer = false;');
+    expect(code).toContain('label = "B"; // ["A", "B"]');
+    expect(code.replace(/width = 55|size = \[12, 3\]|chamfer = false|label = "B"/g, '')).toBe(
+      SCRIPT.replace(/width = 40|size = \[10, 2\.25\]|chamfer = true|label = "A"/g, '')
+    );
+  });
+
+  it('formats values as OpenSCAD literals', () => {
+    expect(formatParameterValue(0.1 + 0.2)).toBe('0.3');
+    expect(formatParameterValue(-0)).toBe('0');
+    expect(formatParameterValue('say "hi"')).toBe('"say \\"hi\\""');
+  });
+});
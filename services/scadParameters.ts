@@ -0,0 +1,166 @@
+import { Comment, Expr, Statement, parseScad, tokenize } from './scadParser';
+
+export interface ParameterOption<T> {
+  value: T;
+  label: string;
+}
+
+interface ScadParameterBase {
+  name: string;
+  description: string;      // comment line directly above the assignment
+  group: string;            // Customizer /* [Tab] */ heading, '' before the first one
+  valueStart: number;       // source offsets of the literal, so edits rewrite nothing else
+  valueEnd: number;
+}
+
+// A top-level literal assignment the Customizer (and our panel) can edit
+export type ScadParameter = ScadParameterBase & (
+  | { kind: 'number'; value: number; min: number; max: number; step: number; options?: ParameterOption<number>[] }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'string'; value: string; options?: ParameterOption<string>[] }
+  | { kind: 'vector'; value: number[]; step: number }
+);
+
+export type ParameterValue = number | boolean | string | number[];
+
+// Literal numbers only: `-2` parses as unary minus
+const numberOf = (expr: Expr): number | null => {
+  if (expr.type === 'number') return expr.value;
+  if (expr.type === 'unary' && expr.op === '-' && expr.operand.type === 'number') return -expr.operand.value;
+  return null;
+};
+
+// Step implied by how the literal is written, as OpenSCAD's Customizer does: 10 → 1, 2.5 → 0.1
+const stepOf = (literal: string): number => {
+  const decimals = literal.includes('.') ? literal.split('.')[1].replace(/[^0-9]/g, '').length : 0;
+  return Math.pow(10, -decimals);
+};
+
+// `[0:100]`, `[0:0.5:10]`, `[100]` (max only), `[1, 2, 4]`, `[4:Small, 8:Large]`, `["a", "b"]`
+const parseAnnotation = (text: string): { range?: [number, number, number?]; options?: ParameterOption<string>[] } | null => {
+  const match = text.match(/^\s*\[(.*)\]\s*$/);
+  if (!match) return null;
+  const body = match[1].trim();
+  const range = body.split(':').map(s => s.trim());
+  if (!body.includes(',') && range.every(s => s !== '' && Number.isFinite(Number(s)))) {
+    const nums = range.map(Number);
+    if (nums.length === 1) return { range: [0, nums[0]] };
+    if (nums.length === 2) return { range: [nums[0], nums[1]] };
+    if (nums.length === 3) return { range: [nums[0], nums[2], nums[1]] };
+  }
+  const options = body
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(item => {
+      const [raw, label] = item.split(':').map(s => s.trim());
+      const value = raw.replace(/^"(.*)"$/, '$1');
+      return { value, label: label ? label.replace(/^"(.*)"$/, '$1') : value };
+    });
+  return options.length > 0 ? { options } : null;
+};
+
+const trimComment = (comment: Comment) =>
+  comment.text.startsWith('//') ? comment.text.slice(2).trim() : comment.text.replace(/^\/\*|\*\/$/g, '').trim();
+
+// A comment alone on its line, not trailing a statement
+const ownLine = (code: string, comment: Comment) =>
+  code.slice(code.lastIndexOf('\n', comment.pos.offset - 1) + 1, comment.pos.offset).trim() === '';
+
+// Top-level literal assignments before the first module, with their Customizer annotations
+export const parseParameters = (code: string): ScadParameter[] => {
+  let statements: Statement[];
+  let comments: Comment[];
+  try {
+    statements = parseScad(code);
+    comments = tokenize(code).comments;
+  } catch {
+    return [];
+  }
+
+  // Group headings sit in block comments like /* [Dimensions] */
+  const groups = comments
+    .map(c => ({ line: c.pos.line, heading: c.text.match(/^\/\*\s*\[([^\]]+)\]\s*\*\/$/)?.[1]?.trim() }))
+    .filter((g): g is { line: number; heading: string } => !!g.heading);
+
+  const params: ScadParameter[] = [];
+  for (const st of statements) {
+    if (st.type === 'module_def' || st.type === 'instantiation' || st.type === 'if' || st.type === 'block') break;
+    if (st.type !== 'assignment' || st.name.startsWith('$')) continue;
+
+    const group = groups.filter(g => g.line < st.pos.line).pop()?.heading ?? '';
+    if (group.toLowerCase() === 'hidden') continue;
+
+    const valueStart = st.value.pos.offset;
+    const valueEnd = code.lastIndexOf(';', st.end.offset - 1);
+    const literal = code.slice(valueStart, valueEnd).trim();
+    const trailing = comments.find(c => c.pos.line === st.end.line && c.pos.offset >= st.end.offset);
+    const annotation = trailing ? parseAnnotation(trimComment(trailing)) : null;
+    const above = comments.find(c => c.end.line === st.pos.line - 1 && c.text.startsWith('//') && ownLine(code, c));
+    const description = above ? trimComment(above) : trailing && !annotation ? trimComment(trailing) : '';
+    const base = { name: st.name, description, group, valueStart, valueEnd: valueStart + literal.length };
+
+    const value = st.value;
+    const num = numberOf(value);
+    if (num !== null) {
+      const options = annotation?.options
+        ?.map(o => ({ value: Number(o.value), label: o.label }))
+        .filter(o => Number.isFinite(o.value));
+      const step = stepOf(literal);
+      if (annotation?.range) {
+        const [min, max, rangeStep] = annotation.range;
+        params.push({ ...base, kind: 'number', value: num, min, max, step: rangeStep ?? step });
+      } else {
+        // Unannotated: a slider from zero to three times the value, in the literal's precision
+        const span = Math.max(Math.abs(num) * 3, 10);
+        params.push({
+          ...base,
+          kind: 'number',
+          value: num,
+          min: num < 0 ? -span : 0,
+          max: span,
+          step,
+          options: options && options.length > 0 ? options : undefined
+        });
+      }
+      continue;
+    }
+    if (value.type === 'bool') {
+      params.push({ ...base, kind: 'boolean', value: value.value });
+      continue;
+    }
+    if (value.type === 'string') {
+      params.push({ ...base, kind: 'string', value: value.value, options: annotation?.options });
+      continue;
+    }
+    if (value.type === 'vector' && value.items.length > 0 && value.items.length <= 4) {
+      const items = value.items.map(numberOf);
+      if (items.every((n): n is number => n !== null)) {
+        const step = Math.min(...literal.replace(/[[\]\s]/g, '').split(',').map(stepOf));
+        params.push({ ...base, kind: 'vector', value: items, step });
+      }
+    }
+  }
+  return params;
+};
+
+const formatNumber = (n: number) => {
+  const rounded = Number(n.toFixed(6));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+
+export const formatParameterValue = (value: ParameterValue): string => {
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(formatNumber).join(', ')}]`;
+  return formatNumber(value);
+};
+
+// Rewrite literals in place; later offsets first so earlier ones stay valid
+export const applyParameters = (code: string, changes: { param: ScadParameter; value: ParameterValue }[]): string =>
+  [...changes]
+    .sort((a, b) => b.param.valueStart - a.param.valueStart)
+    .reduce(
+      (text, { param, value }) => text.slice(0, param.valueStart) + formatParameterValue(value) + text.slice(param.valueEnd),
+      code
+    );
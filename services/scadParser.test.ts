@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ScadError, parseScad } from './scadParser';
+
+const parseError = (source: string): ScadError => {
+  try {
+    parseScad(source);
+  } catch (err) {
+    if (err instanceof ScadError) return err;
+    throw err;
+  }
+  throw new Error(`expected a parse error for ${JSON.stringify(source)}`);
+};
+
+describe('parseScad', () => {
+  it('nests a transform and its child with named arguments', () => {
+    const [stmt] = parseScad('translate([1, 2, 3]) cube(10, center = true);');
+    expect(stmt.type).toBe('instantiation');
+    if (stmt.type !== 'instantiation') return;
+    expect(stmt.name).toBe('translate');
+    expect(stmt.args[0].value).toMatchObject({ type: 'vector', items: [{ value: 1 }, { value: 2 }, { value: 3 }] });
+    expect(stmt.children).toHaveLength(1);
+    expect(stmt.children[0]).toMatchObject({
+      type: 'instantiation',
+      name: 'cube',
+      args: [{ value: { type: 'number', value: 10 } }, { name: 'center', value: { type: 'bool', value: true } }]
+    });
+  });
+
+  it('parses modules, functions, loops and operator precedence', () => {
+    const program = parseScad(`
+      // 注释不会进入语法树
+      w = 2 + 3 * 4;
+      function half(x) = x / 2;
+      module post(h = 10) { cylinder(h = h, r = half(w)); }
+      for (i = [0 : 2 : 10]) translate([i, 0, 0]) post();
+    `);
+    expect(program.map(s => s.type)).toEqual(['assignment', 'function_def', 'module_def', 'instantiation']);
+    expect(program[0]).toMatchObject({
+      name: 'w',
+      value: { type: 'binary', op: '+', left: { value: 2 }, right: { type: 'binary', op: '*' } }
+    });
+    expect(program[3]).toMatchObject({ name: 'for', args: [{ name: 'i', value: { type: 'range' } }] });
+  });
+
+  it('reports syntax errors with line and column', () => {
+    const unclosed = parseError('cube(10');
+    expect(unclosed.pos).toMatchObject({ line: 1, column: 8 });
+    expect(unclosed.message).toContain('line 1, column 8');
+
+    expect(parseError('a = 1;\nx = ;').pos).toMatchObject({ line: 2, column: 5 });
+    expect(parseError('"abc').message).toMatch(/Unterminated string/);
+    expect(parseError('module m( { }').pos?.line).toBe(1);
+  });
+});
@@ -0,0 +1,575 @@
+// Tokenizer and recursive-descent parser for the OpenSCAD language.
+// Produces a small AST that the evaluator and the linter both consume.
+
+export interface SourcePos {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export class ScadError extends Error {
+  constructor(message: string, public pos?: SourcePos) {
+    super(pos ? `${message} (line ${pos.line}, column ${pos.column})` : message);
+    this.name = 'ScadError';
+  }
+}
+
+export interface Argument {
+  name?: string;
+  value: Expr;
+  pos: SourcePos;
+}
+
+export interface Parameter {
+  name: string;
+  defaultValue?: Expr;
+  pos: SourcePos;
+}
+
+export type Expr =
+  | { type: 'number'; value: number; pos: SourcePos }
+  | { type: 'string'; value: string; pos: SourcePos }
+  | { type: 'bool'; value: boolean; pos: SourcePos }
+  | { type: 'undef'; pos: SourcePos }
+  | { type: 'ident'; name: string; pos: SourcePos }
+  | { type: 'vector'; items: Expr[]; pos: SourcePos }
+  | { type: 'range'; start: Expr; step?: Expr; end: Expr; pos: SourcePos }
+  | { type: 'unary'; op: string; operand: Expr; pos: SourcePos }
+  | { type: 'binary'; op: string; left: Expr; right: Expr; pos: SourcePos }
+  | { type: 'ternary'; cond: Expr; then: Expr; otherwise: Expr; pos: SourcePos }
+  | { type: 'call'; callee: Expr; args: Argument[]; pos: SourcePos }
+  | { type: 'index'; target: Expr; index: Expr; pos: SourcePos }
+  | { type: 'member'; target: Expr; name: string; pos: SourcePos }
+  | { type: 'let'; assignments: Argument[]; body: Expr; pos: SourcePos }
+  | { type: 'effect'; kind: 'echo' | 'assert'; args: Argument[]; body?: Expr; pos: SourcePos }
+  | { type: 'function'; params: Parameter[]; body: Expr; pos: SourcePos }
+  // List comprehension elements (only valid inside a vector)
+  | { type: 'lc_for'; assignments: Argument[]; body: Expr; pos: SourcePos }
+  | { type: 'lc_if'; cond: Expr; then: Expr; otherwise?: Expr; pos: SourcePos }
+  | { type: 'lc_each'; body: Expr; pos: SourcePos }
+  | { type: 'lc_let'; assignments: Argument[]; body: Expr; pos: SourcePos };
+
+export type Statement =
+  | { type: 'assignment'; name: string; value: Expr; pos: SourcePos; end: SourcePos }
+  | { type: 'module_def'; name: string; params: Parameter[]; body: Statement[]; pos: SourcePos }
+  | { type: 'function_def'; name: string; params: Parameter[]; body: Expr; pos: SourcePos }
+  | { type: 'instantiation'; name: string; args: Argument[]; children: Statement[]; modifier?: string; pos: SourcePos }
+  | { type: 'if'; cond: Expr; then: Statement[]; otherwise?: Statement[]; modifier?: string; pos: SourcePos }
+  | { type: 'block'; body: Statement[]; pos: SourcePos }
+  | { type: 'include'; kind: 'use' | 'include'; path: string; pos: SourcePos };
+
+type TokenType = 'number' | 'string' | 'ident' | 'op' | 'include' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  pos: SourcePos;
+  end: SourcePos;
+}
+
+export interface Comment {
+  text: string;
+  pos: SourcePos;
+  end: SourcePos;
+}
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '!', '<', '>', '?', ':', '=', ';', ',', '.', '(', ')', '[', ']', '{', '}', '#'];
+
+export const tokenize = (source: string): { tokens: Token[]; comments: Comment[] } => {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const here = (): SourcePos => ({ line, column: i - lineStart + 1, offset: i });
+  const advance = (n = 1) => {
+    for (let k = 0; k < n; k++) {
+      if (source[i] === '\n') {
+        line++;
+        lineStart = i + 1;
+      }
+      i++;
+    }
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      advance();
+      continue;
+    }
+
+    if (ch === '/' && source[i + 1] === '/') {
+      const pos = here();
+      const start = i;
+      while (i < source.length && source[i] !== '\n') advance();
+      comments.push({ text: source.slice(start, i), pos, end: here() });
+      continue;
+    }
+
+    if (ch === '/' && source[i + 1] === '*') {
+      const pos = here();
+      const start = i;
+      advance(2);
+      while (i < source.length && !(source[i] === '*' && source[i + 1] === '/')) advance();
+      if (i >= source.length) throw new ScadError('Unterminated block comment', pos);
+      advance(2);
+      comments.push({ text: source.slice(start, i), pos, end: here() });
+      continue;
+    }
+
+    const pos = here();
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      const text = match ? match[0] : ch;
+      advance(text.length);
+      tokens.push({ type: 'number', value: text, pos, end: here() });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^\$?[A-Za-z0-9_]*/.exec(source.slice(i));
+      const text = match ? match[0] : ch;
+      advance(text.length);
+
+      // `use <file>` / `include <file>` carry a raw path that is not an expression
+      if (text === 'use' || text === 'include') {
+        const rest = /^\s*<([^>\n]*)>/.exec(source.slice(i));
+        if (rest) {
+          advance(rest[0].length);
+          tokens.push({ type: 'include', value: `${text}:${rest[1]}`, pos, end: here() });
+          continue;
+        }
+      }
+      tokens.push({ type: 'ident', value: text, pos, end: here() });
+      continue;
+    }
+
+    if (ch === '"') {
+      advance();
+      let value = '';
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\\') {
+          const next = source[i + 1];
+          const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' };
+          value += escapes[next] ?? next;
+          advance(2);
+        } else {
+          value += source[i];
+          advance();
+        }
+      }
+      if (i >= source.length) throw new ScadError('Unterminated string literal', pos);
+      advance();
+      tokens.push({ type: 'string', value, pos, end: here() });
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new ScadError(`Unexpected character '${ch}'`, pos);
+    advance(op.length);
+    tokens.push({ type: 'op', value: op, pos, end: here() });
+  }
+
+  tokens.push({ type: 'eof', value: '', pos: here(), end: here() });
+  return { tokens, comments };
+};
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private isOp(value: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return t.type === 'op' && t.value === value;
+  }
+
+  private isIdent(value?: string, offset = 0): boolean {
+    const t = this.peek(offset);
+    return t.type === 'ident' && (value === undefined || t.value === value);
+  }
+
+  private expectOp(value: string): Token {
+    const t = this.peek();
+    if (t.type !== 'op' || t.value !== value) {
+      throw new ScadError(`Expected '${value}' but found ${t.type === 'eof' ? 'end of file' : `'${t.value}'`}`, t.pos);
+    }
+    return this.next();
+  }
+
+  private expectIdent(): Token {
+    const t = this.peek();
+    if (t.type !== 'ident') {
+      throw new ScadError(`Expected identifier but found ${t.type === 'eof' ? 'end of file' : `'${t.value}'`}`, t.pos);
+    }
+    return this.next();
+  }
+
+  parseProgram(): Statement[] {
+    const statements: Statement[] = [];
+    while (this.peek().type !== 'eof') {
+      const stmt = this.parseStatement();
+      if (stmt) statements.push(stmt);
+    }
+    return statements;
+  }
+
+  private parseStatement(): Statement | null {
+    const t = this.peek();
+
+    if (t.type === 'include') {
+      this.next();
+      const [kind, path] = t.value.split(':');
+      return { type: 'include', kind: kind as 'use' | 'include', path, pos: t.pos };
+    }
+
+    if (this.isOp(';')) {
+      this.next();
+      return null;
+    }
+
+    if (this.isOp('{')) {
+      this.next();
+      const body: Statement[] = [];
+      while (!this.isOp('}')) {
+        if (this.peek().type === 'eof') throw new ScadError("Unclosed '{'", t.pos);
+        const stmt = this.parseStatement();
+        if (stmt) body.push(stmt);
+      }
+      this.next();
+      return { type: 'block', body, pos: t.pos };
+    }
+
+    if (this.isIdent('module')) {
+      this.next();
+      const name = this.expectIdent().value;
+      this.expectOp('(');
+      const params = this.parseParameters();
+      const body = this.parseChildStatements();
+      return { type: 'module_def', name, params, body, pos: t.pos };
+    }
+
+    if (this.isIdent('function') && this.peek(1).type === 'ident') {
+      this.next();
+      const name = this.expectIdent().value;
+      this.expectOp('(');
+      const params = this.parseParameters();
+      this.expectOp('=');
+      const body = this.parseExpr();
+      this.expectOp(';');
+      return { type: 'function_def', name, params, body, pos: t.pos };
+    }
+
+    if (t.type === 'ident' && this.isOp('=', 1)) {
+      this.next();
+      this.next();
+      const value = this.parseExpr();
+      const end = this.expectOp(';').end;
+      return { type: 'assignment', name: t.value, value, pos: t.pos, end };
+    }
+
+    return this.parseInstantiation();
+  }
+
+  // Statement(s) that follow a module call: `;`, a single instantiation or a `{}` block
+  private parseChildStatements(): Statement[] {
+    if (this.isOp(';')) {
+      this.next();
+      return [];
+    }
+    if (this.isOp('{')) {
+      const open = this.next();
+      const body: Statement[] = [];
+      while (!this.isOp('}')) {
+        if (this.peek().type === 'eof') throw new ScadError("Unclosed '{'", open.pos);
+        const stmt = this.parseStatement();
+        if (stmt) body.push(stmt);
+      }
+      this.next();
+      return body;
+    }
+    const stmt = this.parseInstantiation();
+    return stmt ? [stmt] : [];
+  }
+
+  private parseInstantiation(): Statement | null {
+    let modifier: string | undefined;
+    while (this.isOp('!') || this.isOp('#') || this.isOp('%') || this.isOp('*')) {
+      const value = this.next().value;
+      // `*` disables the subtree regardless of any other modifier
+      if (!modifier || value === '*') modifier = value;
+    }
+
+    const t = this.peek();
+    if (this.isOp('{')) {
+      const block = this.parseStatement();
+      return modifier === '*' ? null : block;
+    }
+    if (this.isOp(';')) {
+      this.next();
+      return null;
+    }
+
+    if (this.isIdent('if')) {
+      this.next();
+      this.expectOp('(');
+      const cond = this.parseExpr();
+      this.expectOp(')');
+      const then = this.parseChildStatements();
+      let otherwise: Statement[] | undefined;
+      if (this.isIdent('else')) {
+        this.next();
+        otherwise = this.parseChildStatements();
+      }
+      return modifier === '*' ? null : { type: 'if', cond, then, otherwise, modifier, pos: t.pos };
+    }
+
+    const name = this.expectIdent().value;
+    this.expectOp('(');
+    const args = this.parseArguments();
+    const children = this.parseChildStatements();
+    return modifier === '*' ? null : { type: 'instantiation', name, args, children, modifier, pos: t.pos };
+  }
+
+  private parseParameters(): Parameter[] {
+    const params: Parameter[] = [];
+    while (!this.isOp(')')) {
+      const t = this.expectIdent();
+      let defaultValue: Expr | undefined;
+      if (this.isOp('=')) {
+        this.next();
+        defaultValue = this.parseExpr();
+      }
+      params.push({ name: t.value, defaultValue, pos: t.pos });
+      if (!this.isOp(')')) this.expectOp(',');
+    }
+    this.expectOp(')');
+    return params;
+  }
+
+  // Arguments after '(' up to and including ')'
+  private parseArguments(): Argument[] {
+    const args: Argument[] = [];
+    while (!this.isOp(')')) {
+      const t = this.peek();
+      if (t.type === 'ident' && this.isOp('=', 1)) {
+        this.next();
+        this.next();
+        args.push({ name: t.value, value: this.parseExpr(), pos: t.pos });
+      } else {
+        args.push({ value: this.parseExpr(), pos: t.pos });
+      }
+      if (!this.isOp(')')) this.expectOp(',');
+    }
+    this.expectOp(')');
+    return args;
+  }
+
+  parseExpr(): Expr {
+    const t = this.peek();
+
+    if (this.isIdent('let') && this.isOp('(', 1)) {
+      this.next();
+      this.next();
+      const assignments = this.parseArguments();
+      return { type: 'let', assignments, body: this.parseExpr(), pos: t.pos };
+    }
+    if ((this.isIdent('echo') || this.isIdent('assert')) && this.isOp('(', 1)) {
+      this.next();
+      this.next();
+      const args = this.parseArguments();
+      const body = this.startsExpression() ? this.parseExpr() : undefined;
+      return { type: 'effect', kind: t.value as 'echo' | 'assert', args, body, pos: t.pos };
+    }
+    if (this.isIdent('function') && this.isOp('(', 1)) {
+      this.next();
+      this.next();
+      const params = this.parseParameters();
+      return { type: 'function', params, body: this.parseExpr(), pos: t.pos };
+    }
+
+    const cond = this.parseBinary(1);
+    if (this.isOp('?')) {
+      this.next();
+      const then = this.parseExpr();
+      this.expectOp(':');
+      const otherwise = this.parseExpr();
+      return { type: 'ternary', cond, then, otherwise, pos: t.pos };
+    }
+    return cond;
+  }
+
+  private startsExpression(): boolean {
+    const t = this.peek();
+    if (t.type === 'eof') return false;
+    if (t.type === 'op') return ['(', '[', '-', '+', '!'].includes(t.value);
+    return true;
+  }
+
+  private parseBinary(minPrecedence: number): Expr {
+    let left = this.parseUnary();
+    for (;;) {
+      const t = this.peek();
+      const precedence = t.type === 'op' ? BINARY_PRECEDENCE[t.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      left = { type: 'binary', op: t.value, left, right, pos: t.pos };
+    }
+  }
+
+  private parseUnary(): Expr {
+    const t = this.peek();
+    if (this.isOp('-') || this.isOp('+') || this.isOp('!')) {
+      this.next();
+      return { type: 'unary', op: t.value, operand: this.parseUnary(), pos: t.pos };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Expr {
+    const base = this.parsePostfix();
+    if (this.isOp('^')) {
+      const t = this.next();
+      // Right associative and binds tighter than unary minus on the left
+      return { type: 'binary', op: '^', left: base, right: this.parseUnary(), pos: t.pos };
+    }
+    return base;
+  }
+
+  private parsePostfix(): Expr {
+    let expr = this.parsePrimary();
+    for (;;) {
+      const t = this.peek();
+      if (this.isOp('(')) {
+        this.next();
+        expr = { type: 'call', callee: expr, args: this.parseArguments(), pos: t.pos };
+      } else if (this.isOp('[')) {
+        this.next();
+        const index = this.parseExpr();
+        this.expectOp(']');
+        expr = { type: 'index', target: expr, index, pos: t.pos };
+      } else if (this.isOp('.')) {
+        this.next();
+        expr = { type: 'member', target: expr, name: this.expectIdent().value, pos: t.pos };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parsePrimary(): Expr {
+    const t = this.next();
+
+    if (t.type === 'number') return { type: 'number', value: parseFloat(t.value), pos: t.pos };
+    if (t.type === 'string') return { type: 'string', value: t.value, pos: t.pos };
+
+    if (t.type === 'ident') {
+      if (t.value === 'true' || t.value === 'false') return { type: 'bool', value: t.value === 'true', pos: t.pos };
+      if (t.value === 'undef') return { type: 'undef', pos: t.pos };
+      return { type: 'ident', name: t.value, pos: t.pos };
+    }
+
+    if (t.type === 'op' && t.value === '(') {
+      const expr = this.parseExpr();
+      this.expectOp(')');
+      return expr;
+    }
+
+    if (t.type === 'op' && t.value === '[') {
+      if (this.isOp(']')) {
+        this.next();
+        return { type: 'vector', items: [], pos: t.pos };
+      }
+      const first = this.parseVectorElement();
+      if (this.isOp(':')) {
+        this.next();
+        const second = this.parseExpr();
+        if (this.isOp(':')) {
+          this.next();
+          const end = this.parseExpr();
+          this.expectOp(']');
+          return { type: 'range', start: first, step: second, end, pos: t.pos };
+        }
+        this.expectOp(']');
+        return { type: 'range', start: first, end: second, pos: t.pos };
+      }
+      const items = [first];
+      while (this.isOp(',')) {
+        this.next();
+        if (this.isOp(']')) break;
+        items.push(this.parseVectorElement());
+      }
+      this.expectOp(']');
+      return { type: 'vector', items, pos: t.pos };
+    }
+
+    throw new ScadError(
+      t.type === 'eof' ? 'Unexpected end of file' : `Unexpected '${t.value}'`,
+      t.pos
+    );
+  }
+
+  private parseVectorElement(): Expr {
+    const t = this.peek();
+    if (this.isIdent('for') && this.isOp('(', 1)) {
+      this.next();
+      this.next();
+      const assignments = this.parseArguments();
+      return { type: 'lc_for', assignments, body: this.parseVectorElement(), pos: t.pos };
+    }
+    if (this.isIdent('if') && this.isOp('(', 1)) {
+      this.next();
+      this.next();
+      const cond = this.parseExpr();
+      this.expectOp(')');
+      const then = this.parseVectorElement();
+      let otherwise: Expr | undefined;
+      if (this.isIdent('else')) {
+        this.next();
+        otherwise = this.parseVectorElement();
+      }
+      return { type: 'lc_if', cond, then, otherwise, pos: t.pos };
+    }
+    if (this.isIdent('each')) {
+      this.next();
+      return { type: 'lc_each', body: this.parseVectorElement(), pos: t.pos };
+    }
+    if (this.isIdent('let') && this.isOp('(', 1)) {
+      // Inside a comprehension `let` may wrap further comprehension elements
+      this.next();
+      this.next();
+      const assignments = this.parseArguments();
+      return { type: 'lc_let', assignments, body: this.parseVectorElement(), pos: t.pos };
+    }
+    return this.parseExpr();
+  }
+}
+
+export const parseScad = (source: string): Statement[] => {
+  const { tokens } = tokenize(source);
+  return new Parser(tokens).parseProgram();
+};
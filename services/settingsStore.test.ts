@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, chooseKeyStorage, decryptSecret, loadSettings, saveSettingsWithKey } from './settingsStore';
+
+// Node has no localStorage; a map behind the same three calls is enough here
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => void storage.set(key, value),
+  removeItem: (key: string) => void storage.delete(key)
+});
+
+const stored = () => JSON.parse(storage.get('stl2scad.settings') ?? 'null');
+
+describe('saveSettingsWithKey', () => {
+  beforeEach(async () => {
+    storage.clear();
+    await saveSettingsWithKey({ ...DEFAULT_SETTINGS, apiKey: 'sk-secret' }, { mode: 'encrypted', passphrase: 'open sesame' });
+  });
+
+  it('stores an encrypted key that only the passphrase opens', async () => {
+    expect(JSON.stringify(stored())).not.toContain('sk-secret');
+    const { settings, encryptedKey } = loadSettings();
+    expect(settings.apiKey).toBe('');
+    expect(await decryptSecret(encryptedKey!, 'open sesame')).toBe('sk-secret');
+    await expect(decryptSecret(encryptedKey!, 'wrong')).rejects.toThrow('口令错误');
+  });
+
+  // The dialog opens with the checkbox taken from the stored mode and an empty passphrase field
+  const dialogSave = (draft: typeof DEFAULT_SETTINGS, currentKey: string) =>
+    saveSettingsWithKey(draft, chooseKeyStorage(draft, currentKey, { encrypted: true, encrypt: true, passphrase: '' }));
+
+  it('keeps the key encrypted when other settings are saved after unlocking', async () => {
+    const before = stored().key;
+    const unlocked = { ...DEFAULT_SETTINGS, apiKey: await decryptSecret(loadSettings().encryptedKey!, 'open sesame') };
+    await dialogSave({ ...unlocked, temperature: 0.7 }, unlocked.apiKey);
+
+    expect(stored().key).toEqual(before);
+    expect(JSON.stringify(stored())).not.toContain('sk-secret');
+    expect(loadSettings().settings.temperature).toBe(0.7);
+  });
+
+  it('keeps the encrypted key when saving while it is still locked', async () => {
+    const before = stored().key;
+    await dialogSave({ ...loadSettings().settings, model: 'other-model' }, '');
+
+    expect(stored().key).toEqual(before);
+    const { settings, encryptedKey } = loadSettings();
+    expect(settings.model).toBe('other-model');
+    expect(await decryptSecret(encryptedKey!, 'open sesame')).toBe('sk-secret');
+  });
+
+  it('re-encrypts an edited key and asks for a passphrase first', async () => {
+    const draft = { ...DEFAULT_SETTINGS, apiKey: 'sk-new' };
+    expect(() => chooseKeyStorage(draft, 'sk-secret', { encrypted: true, encrypt: true, passphrase: '' })).toThrow('请输入加密口令');
+
+    await saveSettingsWithKey(draft, chooseKeyStorage(draft, 'sk-secret', { encrypted: true, encrypt: true, passphrase: 'new phrase' }));
+    expect(await decryptSecret(loadSettings().encryptedKey!, 'new phrase')).toBe('sk-new');
+  });
+
+  it('writes a plain key, or none, when asked to', async () => {
+    await saveSettingsWithKey({ ...DEFAULT_SETTINGS, apiKey: 'sk-plain' }, { mode: 'plain' });
+    expect(loadSettings()).toMatchObject({ settings: { apiKey: 'sk-plain' }, encryptedKey: null });
+    await saveSettingsWithKey({ ...DEFAULT_SETTINGS, apiKey: '' }, { mode: 'plain' });
+    expect(stored().key).toEqual({ mode: 'none' });
+  });
+});
@@ -0,0 +1,146 @@
+import { DEFAULT_PROVIDER_SETTINGS, LOCAL_PROVIDERS, ProviderSettings } from "./llmProvider";
+import { CaptureProfile, DEFAULT_CAPTURE_PROFILE } from "./captureProfiles";
+
+export interface AppSettings extends ProviderSettings {
+  imageResolution: number;   // max edge (px) of every image sent to the model
+  captureProfile: CaptureProfile;
+  fitHints: boolean;         // append local primitive fits to the model prompt
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  ...DEFAULT_PROVIDER_SETTINGS,
+  imageResolution: 800,
+  captureProfile: DEFAULT_CAPTURE_PROFILE,
+  fitHints: false
+};
+
+export const IMAGE_RESOLUTIONS = [512, 640, 800, 1024, 1280];
+
+const STORAGE_KEY = 'stl2scad.settings';
+const PBKDF2_ITERATIONS = 250000;
+
+export interface EncryptedKey {
+  cipher: string;   // base64 AES-GCM ciphertext
+  iv: string;       // base64, 12 bytes
+  salt: string;     // base64, 16 bytes
+}
+
+type StoredKey = { mode: 'none' } | { mode: 'plain'; value: string } | ({ mode: 'encrypted' } & EncryptedKey);
+
+interface StoredSettings {
+  version: 1;
+  settings: Omit<AppSettings, 'apiKey'>;
+  key: StoredKey;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const readStored = (): StoredSettings | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as StoredSettings;
+    return parsed?.version === 1 ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeStored = (stored: StoredSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+const withoutKey = ({ apiKey, ...rest }: AppSettings): Omit<AppSettings, 'apiKey'> => rest;
+
+// Key derivation: PBKDF2-SHA256 from the passphrase, used as an AES-GCM key
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSecret = async (secret: string, passphrase: string): Promise<EncryptedKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(secret));
+  return { cipher: toBase64(new Uint8Array(cipher)), iv: toBase64(iv), salt: toBase64(salt) };
+};
+
+export const decryptSecret = async (encrypted: EncryptedKey, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(encrypted.salt));
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.cipher));
+    return new TextDecoder().decode(plain);
+  } catch {
+    // GCM authentication fails on a wrong passphrase
+    throw new Error("口令错误, 无法解密 API Key。");
+  }
+};
+
+// Settings as last saved; an encrypted key comes back separately until it is unlocked
+export const loadSettings = (): { settings: AppSettings; encryptedKey: EncryptedKey | null } => {
+  const stored = readStored();
+  if (!stored) return { settings: DEFAULT_SETTINGS, encryptedKey: null };
+
+  const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    ...stored.settings,
+    // Profiles saved by older versions may lack newer fields
+    captureProfile: { ...DEFAULT_SETTINGS.captureProfile, ...stored.settings.captureProfile },
+    apiKey: ''
+  };
+  if (stored.key.mode === 'plain') settings.apiKey = stored.key.value;
+  const encryptedKey = stored.key.mode === 'encrypted'
+    ? { cipher: stored.key.cipher, iv: stored.key.iv, salt: stored.key.salt }
+    : null;
+  return { settings, encryptedKey };
+};
+
+// Persist everything except the key, leaving however the key is stored untouched
+export const saveSettings = (settings: AppSettings) => {
+  const previous = readStored();
+  writeStored({ version: 1, settings: withoutKey(settings), key: previous?.key ?? { mode: 'none' } });
+};
+
+// How the settings dialog wants the key written: encrypted afresh, in plain text, or left as it is stored.
+// `unchanged` is what keeps an encrypted key encrypted when it was not edited or is still locked.
+export type KeyStorage = { mode: 'encrypted'; passphrase: string } | { mode: 'plain' } | { mode: 'unchanged' };
+
+// What saving the dialog means for the key. `currentKey` is the key in use before the edit ('' while locked);
+// `encrypted` is whether the stored key is passphrase-protected, `encrypt` the dialog's checkbox.
+export const chooseKeyStorage = (
+  draft: AppSettings,
+  currentKey: string,
+  { encrypted, encrypt, passphrase }: { encrypted: boolean; encrypt: boolean; passphrase: string }
+): KeyStorage => {
+  const keyEdited = draft.apiKey !== currentKey;
+  // A locked key, or an unlocked one saved as it was without a new passphrase, keeps its encrypted record
+  if (encrypted && !keyEdited && (!draft.apiKey || (encrypt && !passphrase))) return { mode: 'unchanged' };
+  if (!encrypt || !draft.apiKey || LOCAL_PROVIDERS.includes(draft.provider)) return { mode: 'plain' };
+  if (!passphrase) throw new Error("请输入加密口令。");
+  return { mode: 'encrypted', passphrase };
+};
+
+// Persist settings together with the key as `storage` asks
+export const saveSettingsWithKey = async (settings: AppSettings, storage: KeyStorage): Promise<void> => {
+  let key: StoredKey = { mode: 'none' };
+  if (storage.mode === 'unchanged') {
+    key = readStored()?.key ?? { mode: 'none' };
+  } else if (settings.apiKey && storage.mode === 'encrypted') {
+    key = { mode: 'encrypted', ...(await encryptSecret(settings.apiKey, storage.passphrase)) };
+  } else if (settings.apiKey) {
+    key = { mode: 'plain', value: settings.apiKey };
+  }
+  writeStored({ version: 1, settings: withoutKey(settings), key });
+};
+
+export const clearSettings = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
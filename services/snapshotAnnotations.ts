@@ -0,0 +1,169 @@
+import * as THREE from 'three';
+
+// STL axes (Z-up) expressed in view space, with the colours used by both the triad and the dimension lines
+const STL_AXES: { label: 'X' | 'Y' | 'Z'; dir: THREE.Vector3; viewAxis: 0 | 1 | 2; color: string }[] = [
+  { label: 'X', dir: new THREE.Vector3(1, 0, 0), viewAxis: 0, color: '#f87171' },
+  { label: 'Y', dir: new THREE.Vector3(0, 0, -1), viewAxis: 2, color: '#4ade80' },
+  { label: 'Z', dir: new THREE.Vector3(0, 1, 0), viewAxis: 1, color: '#60a5fa' }
+];
+
+type Point2 = [number, number];
+
+const NICE_STEPS = [1, 2, 5];
+
+// Largest 1/2/5 x 10^n not exceeding `target`
+export const niceLength = (target: number): number => {
+  const pow = Math.pow(10, Math.floor(Math.log10(target)));
+  let best = pow;
+  NICE_STEPS.forEach(step => {
+    if (step * pow <= target) best = step * pow;
+  });
+  return best;
+};
+
+export const formatMm = (value: number) => (value >= 100 ? value.toFixed(0) : value >= 10 ? value.toFixed(1) : value.toFixed(2));
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string) => {
+  const metrics = ctx.measureText(text);
+  const pad = 3;
+  const h = parseInt(ctx.font, 10);
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.75)';
+  ctx.fillRect(x - metrics.width / 2 - pad, y - h / 2 - pad, metrics.width + pad * 2, h + pad * 2);
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+};
+
+// Scale bar in the bottom-left corner, measured at the depth of the box centre
+const drawScaleBar = (ctx: CanvasRenderingContext2D, project: (p: THREE.Vector3) => Point2, camera: THREE.Camera, center: THREE.Vector3, size: number) => {
+  const right = new THREE.Vector3().setFromMatrixColumn(camera.matrixWorld, 0);
+  const [ax, ay] = project(center);
+  const [bx, by] = project(center.clone().add(right));
+  const pxPerMm = Math.hypot(bx - ax, by - ay);
+  if (!(pxPerMm > 0)) return;
+
+  const length = niceLength((size * 0.25) / pxPerMm);
+  const barPx = length * pxPerMm;
+  const x0 = size * 0.05;
+  const y = size * 0.94;
+  const tick = size * 0.012;
+
+  ctx.strokeStyle = '#e2e8f0';
+  ctx.lineWidth = Math.max(2, size / 300);
+  ctx.beginPath();
+  ctx.moveTo(x0, y - tick);
+  ctx.lineTo(x0, y + tick);
+  ctx.moveTo(x0, y);
+  ctx.lineTo(x0 + barPx, y);
+  ctx.moveTo(x0 + barPx, y - tick);
+  ctx.lineTo(x0 + barPx, y + tick);
+  ctx.stroke();
+  drawLabel(ctx, `${formatMm(length)} mm`, x0 + barPx / 2, y - tick - size * 0.025, '#e2e8f0');
+};
+
+// XYZ triad of the STL frame in the bottom-right corner, far axes drawn first
+const drawTriad = (ctx: CanvasRenderingContext2D, camera: THREE.Camera, size: number) => {
+  const origin: Point2 = [size * 0.88, size * 0.88];
+  const length = size * 0.07;
+  const view = camera.matrixWorldInverse;
+
+  const axes = STL_AXES
+    .map(axis => ({ ...axis, cam: axis.dir.clone().transformDirection(view) }))
+    .sort((a, b) => a.cam.z - b.cam.z);
+
+  ctx.lineWidth = Math.max(2, size / 250);
+  axes.forEach(axis => {
+    const end: Point2 = [origin[0] + axis.cam.x * length, origin[1] - axis.cam.y * length];
+    ctx.strokeStyle = axis.color;
+    ctx.beginPath();
+    ctx.moveTo(...origin);
+    ctx.lineTo(...end);
+    ctx.stroke();
+
+    // An axis pointing at the camera collapses to a dot; label it just beside the origin
+    const flat = Math.hypot(axis.cam.x, axis.cam.y);
+    const labelAt: Point2 = flat > 0.15
+      ? [origin[0] + axis.cam.x * length * 1.3, origin[1] - axis.cam.y * length * 1.3]
+      : [origin[0] + size * 0.025, origin[1] + size * 0.025];
+    ctx.fillStyle = axis.color;
+    ctx.fillText(`${axis.label}${flat > 0.15 ? '' : axis.cam.z > 0 ? '⊙' : '⊗'}`, ...labelAt);
+  });
+};
+
+// One dimension line per STL axis, on the box edge that projects furthest from the centre
+const drawDimensions = (ctx: CanvasRenderingContext2D, project: (p: THREE.Vector3) => Point2, box: THREE.Box3, size: number) => {
+  const center = project(box.getCenter(new THREE.Vector3()));
+  const extent = box.getSize(new THREE.Vector3());
+  const tick = size * 0.01;
+
+  STL_AXES.forEach(axis => {
+    const k = axis.viewAxis;
+    const [i, j] = [0, 1, 2].filter(n => n !== k);
+    let best: { a: Point2; b: Point2; score: number } | null = null;
+
+    for (const u of [box.min, box.max]) {
+      for (const v of [box.min, box.max]) {
+        const start = new THREE.Vector3();
+        start.setComponent(i, u.getComponent(i));
+        start.setComponent(j, v.getComponent(j));
+        start.setComponent(k, box.min.getComponent(k));
+        const end = start.clone().setComponent(k, box.max.getComponent(k));
+        const a = project(start);
+        const b = project(end);
+        const mid: Point2 = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+        const score = Math.hypot(mid[0] - center[0], mid[1] - center[1]);
+        if (!best || score > best.score) best = { a, b, score };
+      }
+    }
+
+    // Skip edges seen end-on: their length is not readable in this view
+    if (!best || Math.hypot(best.b[0] - best.a[0], best.b[1] - best.a[1]) < size * 0.06) return;
+    const { a, b } = best;
+    const len = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    const normal: Point2 = [-(b[1] - a[1]) / len, (b[0] - a[0]) / len];
+
+    ctx.strokeStyle = axis.color;
+    ctx.lineWidth = Math.max(1.5, size / 400);
+    ctx.beginPath();
+    ctx.moveTo(...a);
+    ctx.lineTo(...b);
+    [a, b].forEach(p => {
+      ctx.moveTo(p[0] - normal[0] * tick, p[1] - normal[1] * tick);
+      ctx.lineTo(p[0] + normal[0] * tick, p[1] + normal[1] * tick);
+    });
+    ctx.stroke();
+
+    // Push the label away from the centre so it sits outside the silhouette where possible
+    const mid: Point2 = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    const away = Math.hypot(mid[0] - center[0], mid[1] - center[1]) || 1;
+    const offset = size * 0.035;
+    drawLabel(
+      ctx,
+      `${axis.label} ${formatMm(extent.getComponent(k))} mm`,
+      mid[0] + ((mid[0] - center[0]) / away) * offset,
+      mid[1] + ((mid[1] - center[1]) / away) * offset,
+      axis.color
+    );
+  });
+};
+
+// Burn scale bar, axis triad and bounding-box dimensions (all in mm, STL frame) into a rendered view
+export const annotateView = (
+  ctx: CanvasRenderingContext2D,
+  camera: THREE.Camera,
+  box: THREE.Box3,
+  size: number
+) => {
+  const project = (p: THREE.Vector3): Point2 => {
+    const v = p.clone().project(camera);
+    return [(v.x + 1) / 2 * size, (1 - v.y) / 2 * size];
+  };
+
+  ctx.save();
+  ctx.font = `${Math.round(size / 40)}px monospace`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  drawDimensions(ctx, project, box, size);
+  drawScaleBar(ctx, project, camera, box.getCenter(new THREE.Vector3()), size);
+  drawTriad(ctx, camera, size);
+  ctx.restore();
+};
@@ -0,0 +1,383 @@
+import * as THREE from 'three';
+import { CaptureProfile, RenderStyle } from './captureProfiles';
+import { BACKGROUND_RGB, OffscreenCaptureOptions, comparisonCaptions, diffColor, placeCamera, viewFrameBox } from './viewCapture';
+import { AXIS_NAMES, SectionSlice, sectionCaption, sectionFrame } from './crossSection';
+import { formatMm, niceLength } from './snapshotAnnotations';
+import { getTriangleArray } from './meshUtils';
+import { RgbImage, createImage, fromPngDataUrl, toPngDataUrl } from './pngCodec';
+import { ViewRenderer } from './viewRenderer';
+
+// CPU z-buffer rasterizer with the same cameras, styles and colours as the WebGL capture, for Node
+// where there is no GPU or canvas. Flat shading and no anti-aliasing; annotations are not drawn.
+
+type Rgb = number[];
+
+const hexRgb = (hex: string): Rgb => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+const EDGE_FACE = hexRgb('#1e293b');
+const WHITE = [255, 255, 255];
+const BLACK = [0, 0, 0];
+const TEXT = hexRgb('#e2e8f0');
+const TEXT_DIM = hexRgb('#94a3b8');
+const BOX_LINE = hexRgb('#475569');
+const SECTION_FILL = hexRgb('#6366f1');
+
+// Same rig as captureGeometryViews: ambient plus a key and a fill light aimed at the origin
+const AMBIENT = 0.6;
+const LIGHTS = [
+  { dir: new THREE.Vector3(10, 20, 10).normalize(), intensity: 1.2 },
+  { dir: new THREE.Vector3(-10, -10, -10).normalize(), intensity: 0.5 }
+];
+// Edge lines pass the depth test this far (window depth) behind the face they lie on
+const LINE_DEPTH_BIAS = 2e-3;
+
+const toLinear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+};
+const toSrgb = (l: number) => {
+  const c = Math.min(Math.max(l, 0), 1);
+  return Math.round((c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055) * 255);
+};
+
+const setPixel = (img: RgbImage, x: number, y: number, [r, g, b]: Rgb) => {
+  if (x < 0 || y < 0 || x >= img.width || y >= img.height) return;
+  const i = (y * img.width + x) * 3;
+  img.data[i] = r;
+  img.data[i + 1] = g;
+  img.data[i + 2] = b;
+};
+
+// Square-brush line with an optional [on, off] dash pattern in px
+const drawLine = (img: RgbImage, x0: number, y0: number, x1: number, y1: number, color: Rgb, width = 1, dash?: [number, number]) => {
+  const steps = Math.max(Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))), 1);
+  const half = Math.floor(width / 2);
+  for (let s = 0; s <= steps; s++) {
+    if (dash && s % (dash[0] + dash[1]) >= dash[0]) continue;
+    const x = Math.round(x0 + ((x1 - x0) * s) / steps);
+    const y = Math.round(y0 + ((y1 - y0) * s) / steps);
+    for (let dy = -half; dy < width - half; dy++) {
+      for (let dx = -half; dx < width - half; dx++) setPixel(img, x + dx, y + dy, color);
+    }
+  }
+};
+
+// 5x7 bitmap font, one 5-bit row per entry (MSB = left column); text is upper-cased, unknown glyphs are blank
+const GLYPHS: Record<string, number[]> = {
+  '0': [14, 17, 19, 21, 25, 17, 14], '1': [4, 12, 4, 4, 4, 4, 14], '2': [14, 17, 1, 2, 4, 8, 31],
+  '3': [31, 2, 4, 2, 1, 17, 14], '4': [2, 6, 10, 18, 31, 2, 2], '5': [31, 16, 30, 1, 1, 17, 14],
+  '6': [6, 8, 16, 30, 17, 17, 14], '7': [31, 1, 2, 4, 8, 8, 8], '8': [14, 17, 17, 14, 17, 17, 14],
+  '9': [14, 17, 17, 15, 1, 2, 12],
+  A: [14, 17, 17, 31, 17, 17, 17], B: [30, 17, 17, 30, 17, 17, 30], C: [14, 17, 16, 16, 16, 17, 14],
+  D: [28, 18, 17, 17, 17, 18, 28], E: [31, 16, 16, 30, 16, 16, 31], F: [31, 16, 16, 30, 16, 16, 16],
+  G: [14, 17, 16, 23, 17, 17, 15], H: [17, 17, 17, 31, 17, 17, 17], I: [14, 4, 4, 4, 4, 4, 14],
+  J: [7, 2, 2, 2, 2, 18, 12], K: [17, 18, 20, 24, 20, 18, 17], L: [16, 16, 16, 16, 16, 16, 31],
+  M: [17, 27, 21, 21, 17, 17, 17], N: [17, 17, 25, 21, 19, 17, 17], O: [14, 17, 17, 17, 17, 17, 14],
+  P: [30, 17, 17, 30, 16, 16, 16], Q: [14, 17, 17, 17, 21, 18, 13], R: [30, 17, 17, 30, 20, 18, 17],
+  S: [15, 16, 16, 14, 1, 1, 30], T: [31, 4, 4, 4, 4, 4, 4], U: [17, 17, 17, 17, 17, 17, 14],
+  V: [17, 17, 17, 17, 17, 10, 4], W: [17, 17, 17, 21, 21, 21, 10], X: [17, 17, 10, 4, 10, 17, 17],
+  Y: [17, 17, 17, 10, 4, 4, 4], Z: [31, 1, 2, 4, 8, 16, 31],
+  '.': [0, 0, 0, 0, 0, 12, 12], ',': [0, 0, 0, 0, 12, 4, 8], '-': [0, 0, 0, 31, 0, 0, 0],
+  '+': [0, 4, 4, 31, 4, 4, 0], '=': [0, 0, 31, 0, 31, 0, 0], '%': [24, 25, 2, 4, 8, 19, 3],
+  '(': [2, 4, 8, 8, 8, 4, 2], ')': [8, 4, 2, 2, 2, 4, 8], '/': [0, 1, 2, 4, 8, 16, 0],
+  ':': [0, 12, 12, 0, 12, 12, 0], '·': [0, 0, 0, 12, 12, 0, 0], '²': [12, 18, 4, 8, 30, 0, 0],
+  '°': [12, 18, 18, 12, 0, 0, 0]
+};
+
+const fontScale = (size: number) => Math.max(1, Math.round(size / 300));
+
+// Top-left anchored; returns the width drawn in px
+const drawText = (img: RgbImage, text: string, x: number, y: number, scale: number, color: Rgb): number => {
+  [...text.toUpperCase()].forEach((ch, n) => {
+    const rows = GLYPHS[ch];
+    if (!rows) return;
+    rows.forEach((bits, row) => {
+      for (let col = 0; col < 5; col++) {
+        if (!(bits & (16 >> col))) continue;
+        for (let dy = 0; dy < scale; dy++) {
+          for (let dx = 0; dx < scale; dx++) {
+            setPixel(img, Math.round(x) + (n * 6 + col) * scale + dx, Math.round(y) + row * scale + dy, color);
+          }
+        }
+      }
+    });
+  });
+  return text.length * 6 * scale;
+};
+
+interface Target {
+  color: RgbImage;
+  depth: Float32Array;           // window depth in [0, 1], 1 = far plane
+}
+
+// One view: project every triangle, cull back faces like FrontSide materials do, z-test and shade flat
+const rasterize = (
+  target: Target,
+  tris: Float32Array,
+  camera: THREE.Camera,
+  style: RenderStyle,
+  base: Rgb
+) => {
+  const { width, height } = target.color;
+  const viewProjection = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+  const viewRotation = new THREE.Matrix3().setFromMatrix4(camera.matrixWorldInverse);
+  const baseLinear = base.map(toLinear);
+  const p = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+  const sx = [0, 0, 0];
+  const sy = [0, 0, 0];
+  const sz = [0, 0, 0];
+  const e1 = new THREE.Vector3();
+  const e2 = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const viewNormal = new THREE.Vector3();
+
+  for (let t = 0; t < tris.length; t += 9) {
+    let clipped = false;
+    for (let i = 0; i < 3; i++) {
+      // Triangles are in the STL frame; the view frame is (x, z, -y)
+      p[i].set(tris[t + i * 3], tris[t + i * 3 + 2], -tris[t + i * 3 + 1]);
+      const ndc = p[i].clone().applyMatrix4(viewProjection);
+      if (ndc.z < -1 || ndc.z > 1) clipped = true;
+      sx[i] = (ndc.x + 1) * 0.5 * width;
+      sy[i] = (1 - ndc.y) * 0.5 * height;
+      sz[i] = ndc.z * 0.5 + 0.5;
+    }
+    if (clipped) continue;
+
+    // Screen y points down, so counter-clockwise (front-facing) triangles have negative area here
+    const area = (sx[1] - sx[0]) * (sy[2] - sy[0]) - (sx[2] - sx[0]) * (sy[1] - sy[0]);
+    if (area >= 0) continue;
+
+    normal.crossVectors(e1.subVectors(p[1], p[0]), e2.subVectors(p[2], p[0])).normalize();
+    let flat: Rgb | null = null;
+    if (style === 'shaded') {
+      const light = LIGHTS.reduce((sum, l) => sum + l.intensity * Math.max(0, normal.dot(l.dir)), AMBIENT);
+      flat = baseLinear.map(c => toSrgb(c * light));
+    } else if (style === 'silhouette') {
+      flat = WHITE;
+    } else if (style === 'edges') {
+      flat = EDGE_FACE;
+    } else if (style === 'normal') {
+      viewNormal.copy(normal).applyMatrix3(viewRotation).normalize();
+      flat = [viewNormal.x, viewNormal.y, viewNormal.z].map(c => Math.round((c * 0.5 + 0.5) * 255));
+    }
+
+    const minX = Math.max(Math.floor(Math.min(sx[0], sx[1], sx[2])), 0);
+    const maxX = Math.min(Math.ceil(Math.max(sx[0], sx[1], sx[2])), width - 1);
+    const minY = Math.max(Math.floor(Math.min(sy[0], sy[1], sy[2])), 0);
+    const maxY = Math.min(Math.ceil(Math.max(sy[0], sy[1], sy[2])), height - 1);
+    for (let y = minY; y <= maxY; y++) {
+      const py = y + 0.5;
+      for (let x = minX; x <= maxX; x++) {
+        const px = x + 0.5;
+        // Barycentric weights from the edge functions, sampled at the pixel centre
+        const w0 = ((sx[2] - sx[1]) * (py - sy[1]) - (sy[2] - sy[1]) * (px - sx[1])) / area;
+        const w1 = ((sx[0] - sx[2]) * (py - sy[2]) - (sy[0] - sy[2]) * (px - sx[2])) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+        const z = w0 * sz[0] + w1 * sz[1] + w2 * sz[2];
+        const k = y * width + x;
+        if (z >= target.depth[k]) continue;
+        target.depth[k] = z;
+        if (flat) {
+          setPixel(target.color, x, y, flat);
+        } else {
+          const d = Math.round((1 - z) * 255);
+          setPixel(target.color, x, y, [d, d, d]);
+        }
+      }
+    }
+  }
+};
+
+// Feature edges on top of the faces, hidden where the surface is in front of them
+const rasterizeEdges = (target: Target, edges: THREE.EdgesGeometry, camera: THREE.Camera) => {
+  const { width, height } = target.color;
+  const viewProjection = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+  const pos = edges.getAttribute('position');
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  for (let i = 0; i < pos.count; i += 2) {
+    a.fromBufferAttribute(pos, i).applyMatrix4(viewProjection);
+    b.fromBufferAttribute(pos, i + 1).applyMatrix4(viewProjection);
+    const x0 = (a.x + 1) * 0.5 * width;
+    const y0 = (1 - a.y) * 0.5 * height;
+    const x1 = (b.x + 1) * 0.5 * width;
+    const y1 = (1 - b.y) * 0.5 * height;
+    const steps = Math.max(Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))), 1);
+    for (let s = 0; s <= steps; s++) {
+      const f = s / steps;
+      const x = Math.floor(x0 + (x1 - x0) * f);
+      const y = Math.floor(y0 + (y1 - y0) * f);
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      const z = (a.z + (b.z - a.z) * f) * 0.5 + 0.5;
+      if (z > target.depth[y * width + x] + LINE_DEPTH_BIAS) continue;
+      setPixel(target.color, x, y, WHITE);
+    }
+  }
+};
+
+const captureViews = async (
+  geometry: THREE.BufferGeometry,
+  profile: CaptureProfile,
+  { color = '#6366f1', frame }: OffscreenCaptureOptions = {}
+): Promise<string[]> => {
+  const size = profile.resolution;
+  const tris = getTriangleArray(geometry);
+  const box = frame ?? viewFrameBox(geometry);
+  const base = hexRgb(color);
+
+  let edges: THREE.EdgesGeometry | null = null;
+  if (profile.styles.includes('edges')) {
+    const viewGeometry = geometry.clone();
+    viewGeometry.rotateX(-Math.PI / 2);
+    edges = new THREE.EdgesGeometry(viewGeometry, 30);
+    viewGeometry.dispose();
+  }
+
+  const snapshots: string[] = [];
+  try {
+    for (const view of profile.views) {
+      const camera = placeCamera(profile, view, box);
+      for (const style of profile.styles) {
+        const background = style === 'shaded' || style === 'edges' ? BACKGROUND_RGB : BLACK;
+        const target: Target = { color: createImage(size, size, background), depth: new Float32Array(size * size).fill(1) };
+        rasterize(target, tris, camera, style, base);
+        if (edges && style === 'edges') rasterizeEdges(target, edges, camera);
+        snapshots.push(toPngDataUrl(target.color));
+      }
+    }
+    return snapshots;
+  } finally {
+    edges?.dispose();
+  }
+};
+
+// Even-odd scanline fill of the section loops, sampled at pixel centres
+const fillLoops = (img: RgbImage, loops: [number, number][][], color: Rgb) => {
+  for (let y = 0; y < img.height; y++) {
+    const py = y + 0.5;
+    const xs: number[] = [];
+    loops.forEach(loop => {
+      for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+        const [xi, yi] = loop[i];
+        const [xj, yj] = loop[j];
+        if ((yi > py) !== (yj > py)) xs.push(xi + ((py - yi) * (xj - xi)) / (yj - yi));
+      }
+    });
+    xs.sort((a, b) => a - b);
+    for (let k = 0; k + 1 < xs.length; k += 2) {
+      for (let x = Math.max(Math.ceil(xs[k] - 0.5), 0); x + 0.5 <= xs[k + 1] && x < img.width; x++) setPixel(img, x, y, color);
+    }
+  }
+};
+
+const renderSection = (slice: SectionSlice, box: THREE.Box3, size: number): string => {
+  const { h, v, spanH, spanV, margin, pxPerMm, originX, originY, toPx } = sectionFrame(slice.axis, box, size);
+  const img = createImage(size, size, BACKGROUND_RGB);
+
+  const left = originX;
+  const right = originX + spanH * pxPerMm;
+  const top = originY - spanV * pxPerMm;
+  drawLine(img, left, top, right, top, BOX_LINE, 1, [6, 4]);
+  drawLine(img, right, top, right, originY, BOX_LINE, 1, [6, 4]);
+  drawLine(img, right, originY, left, originY, BOX_LINE, 1, [6, 4]);
+  drawLine(img, left, originY, left, top, BOX_LINE, 1, [6, 4]);
+
+  const loops = slice.loops.map(loop => loop.map(toPx));
+  fillLoops(img, loops, SECTION_FILL);
+  const stroke = Math.max(1, Math.round(size / 400));
+  loops.forEach(loop =>
+    loop.forEach((a, i) => {
+      const b = loop[(i + 1) % loop.length];
+      drawLine(img, a[0], a[1], b[0], b[1], TEXT, stroke);
+    })
+  );
+
+  const scale = fontScale(size);
+  const line = 9 * scale;
+  const [title, detail] = sectionCaption(slice);
+  drawText(img, title, 8, 8, scale, TEXT);
+  drawText(img, detail, 8, 8 + line, scale, TEXT_DIM);
+
+  // In-plane axes in the bottom-right corner, scale bar in the bottom-left
+  const ax = size - margin * 0.9;
+  const ay = size - margin * 0.35;
+  const arrow = size * 0.06;
+  drawLine(img, ax, ay, ax + arrow, ay, TEXT_DIM, 2);
+  drawLine(img, ax, ay, ax, ay - arrow, TEXT_DIM, 2);
+  drawText(img, `+${AXIS_NAMES[h]}`, ax + arrow + 4, ay - 3.5 * scale, scale, TEXT_DIM);
+  drawText(img, `+${AXIS_NAMES[v]}`, ax - 6 * scale, ay - arrow - line - 2, scale, TEXT_DIM);
+
+  const barMm = niceLength((size * 0.25) / pxPerMm);
+  const barPx = barMm * pxPerMm;
+  const bx = margin * 0.5;
+  drawLine(img, bx, ay, bx + barPx, ay, TEXT, 2);
+  drawLine(img, bx, ay - 5, bx, ay + 5, TEXT, 2);
+  drawLine(img, bx + barPx, ay - 5, bx + barPx, ay + 5, TEXT, 2);
+  drawText(img, `${formatMm(barMm)} mm`, bx, ay - 8 - 7 * scale, scale, TEXT);
+
+  return toPngDataUrl(img);
+};
+
+const composeComparison = async (sourceUrl: string, reconUrl: string, label?: string): Promise<string> => {
+  const src = fromPngDataUrl(sourceUrl);
+  const rec = fromPngDataUrl(reconUrl);
+  const { width: w, height: h } = src;
+  const out = createImage(w * 3, h, BACKGROUND_RGB);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = (y * w + x) * 3;
+      const o = (y * w * 3 + x) * 3;
+      out.data.set(src.data.subarray(i, i + 3), o);
+      out.data.set(rec.data.subarray(i, i + 3), o + w * 3);
+      out.data.set(diffColor(src.data, i, rec.data, i), o + w * 6);
+    }
+  }
+  const scale = fontScale(h);
+  comparisonCaptions(label).forEach((text, i) => drawText(out, text, w * i + 8, h / 20 - 7 * scale, scale, TEXT));
+  return toPngDataUrl(out);
+};
+
+// Box-filter downscale so the longer side is at most maxDim
+const optimizeImage = async (dataUrl: string, maxDim: number): Promise<string> => {
+  // Reference photos from the CLI may be JPEG or PNG variants the decoder cannot read; those are sent as they are
+  let img: RgbImage;
+  try {
+    img = fromPngDataUrl(dataUrl);
+  } catch {
+    return dataUrl;
+  }
+  const factor = Math.max(img.width, img.height) / maxDim;
+  if (factor <= 1) return dataUrl;
+  const width = Math.max(1, Math.round(img.width / factor));
+  const height = Math.max(1, Math.round(img.height / factor));
+  const out = createImage(width, height, BACKGROUND_RGB);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * factor);
+    const y1 = Math.min(Math.max(Math.floor((y + 1) * factor), y0 + 1), img.height);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * factor);
+      const x1 = Math.min(Math.max(Math.floor((x + 1) * factor), x0 + 1), img.width);
+      const sum = [0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * img.width + sx) * 3;
+          sum[0] += img.data[i];
+          sum[1] += img.data[i + 1];
+          sum[2] += img.data[i + 2];
+        }
+      }
+      const n = (y1 - y0) * (x1 - x0);
+      setPixel(out, x, y, sum.map(c => Math.round(c / n)));
+    }
+  }
+  return toPngDataUrl(out);
+};
+
+export const softwareRenderer: ViewRenderer = {
+  captureViews,
+  renderSection,
+  composeComparison,
+  optimizeImage
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { renderScadSync } from './openscadService';
+import { detectSweep } from './sweepDetection';
+
+const sweepOf = (code: string) => detectSweep(renderScadSync(code).geometry);
+
+describe('detectSweep', () => {
+  it('recognises revolved and extruded solids', () => {
+    expect(sweepOf('cylinder(h = 20, r1 = 10, r2 = 4, $fn = 24);')).toMatchObject({ kind: 'revolve', axis: 'z' });
+    expect(sweepOf('linear_extrude(10) polygon([[0, 0], [30, 0], [30, 5], [5, 5], [5, 20], [0, 20]]);'))
+      .toMatchObject({ kind: 'extrude', axis: 'z' });
+  });
+
+  it('rejects a sweep that leaves separate bodies unexplained', () => {
+    expect(sweepOf('cylinder(h = 40, r = 20, $fn = 96); for (x = [-30, 30]) translate([x, 0, 0]) cylinder(h = 1, r = 3, $fn = 16);'))
+      .toBeNull();
+    expect(sweepOf('cube([40, 30, 10]); translate([60, 0, 0]) cylinder(h = 25, r = 6, $fn = 48);')).toBeNull();
+  });
+});
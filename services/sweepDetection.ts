@@ -0,0 +1,505 @@
+import * as THREE from 'three';
+import { GenerationResult, ProfileLoop, ProfilePoint, ProfileSegment, ProfileShape, ProfileSweep } from '../types';
+import { SectionAxis } from './captureProfiles';
+import { SECTION_PLANE_AXES, sliceTriangles } from './crossSection';
+import { signedVolume } from './fidelity';
+import { getTriangleArray, sampleSurface, triangleNormal } from './meshUtils';
+import { FITTING_LABEL } from './primitiveFitting';
+
+const AXIS_INDEX: Record<SectionAxis, number> = { x: 0, y: 1, z: 2 };
+// Tried in this order; Z wins ties because most parts are modelled standing on XY
+const SWEEP_AXES: SectionAxis[] = ['z', 'x', 'y'];
+// Share of the surface area allowed to break a symmetry test (slivers, stray facets)
+const MAX_OFF_AREA = 0.005;
+// Facet normals of a revolved surface lean sideways by at most half a facet (24-gon: 7.5°);
+// extrusion walls have no component along the axis
+const TANGENT_SIN = Math.sin(THREE.MathUtils.degToRad(7.5));
+const WALL_SIN = 0.01;
+// Where the revolve test checks that every slice loop is a circle
+const SLICE_FRACTIONS = [0.03, 0.2, 0.4, 0.6, 0.8, 0.97];
+// Largest direction change at an interior vertex of an arc
+const ARC_TURN = THREE.MathUtils.degToRad(30);
+const MIN_ARC_EDGES = 3;
+
+const sweepTolerance = (maxDim: number) => Math.max(maxDim * 1e-3, 1e-3);
+
+const otherAxes = (k: number): [number, number] => [0, 1, 2].filter(i => i !== k) as [number, number];
+
+// Area-weighted share of facets failing `accept(normal, centroid, triangle)`
+const offArea = (tris: Float32Array, accept: (n: THREE.Vector3, c: THREE.Vector3, t: number) => boolean): number => {
+  const n = new THREE.Vector3(), centroid = new THREE.Vector3();
+  let total = 0, off = 0;
+  for (let t = 0; t < tris.length / 9; t++) {
+    const area = triangleNormal(tris, t, n) / 2;
+    if (area < 1e-12) continue;
+    const o = t * 9;
+    centroid.set(tris[o] + tris[o + 3] + tris[o + 6], tris[o + 1] + tris[o + 4] + tris[o + 7], tris[o + 2] + tris[o + 5] + tris[o + 8]).divideScalar(3);
+    total += area;
+    if (!accept(n, centroid, t)) off += area;
+  }
+  return total > 0 ? off / total : 1;
+};
+
+// --- Symmetry tests ---
+
+const isRevolved = (tris: Float32Array, box: THREE.Box3, k: number, tol: number): boolean => {
+  const [h, v] = otherAxes(k);
+  const ch = (box.min.getComponent(h) + box.max.getComponent(h)) / 2;
+  const cv = (box.min.getComponent(v) + box.max.getComponent(v)) / 2;
+
+  const off = offArea(tris, (n, c) => {
+    const rh = c.getComponent(h) - ch, rv = c.getComponent(v) - cv;
+    const r = Math.hypot(rh, rv);
+    return r < tol || Math.abs((n.getComponent(h) * -rv + n.getComponent(v) * rh) / r) < TANGENT_SIN;
+  });
+  if (off > MAX_OFF_AREA) return false;
+
+  // Every slice across the axis must be concentric circles, which rules out polygons with radial facets
+  const axis = (['x', 'y', 'z'] as SectionAxis[])[k];
+  const [ph, pv] = SECTION_PLANE_AXES[axis];
+  const min = box.min.getComponent(k), span = box.max.getComponent(k) - min;
+  let sliced = 0;
+  for (const f of SLICE_FRACTIONS) {
+    const loops = sliceTriangles(tris, axis, min + span * f);
+    if (loops.length > 0) sliced++;
+    for (const loop of loops) {
+      const radii = loop.map(p => {
+        const at = [0, 0, 0];
+        at[ph] = p[0];
+        at[pv] = p[1];
+        return Math.hypot(at[h] - ch, at[v] - cv);
+      });
+      const rMax = Math.max(...radii);
+      // Chords of a 96-gon sag 0.05 %, of a 24-gon under 1 %
+      if (rMax - Math.min(...radii) > rMax * 0.02 + tol) return false;
+    }
+  }
+  return sliced >= 2;
+};
+
+const isExtruded = (tris: Float32Array, box: THREE.Box3, k: number, tol: number): boolean => {
+  const min = box.min.getComponent(k), max = box.max.getComponent(k);
+  const onCap = (t: number, level: number) =>
+    [0, 3, 6].every(i => Math.abs(tris[t * 9 + i + k] - level) < tol);
+  return offArea(tris, (n, _c, t) => Math.abs(n.getComponent(k)) < WALL_SIN || onCap(t, min) || onCap(t, max)) <= MAX_OFF_AREA;
+};
+
+// --- Profile cleanup: lines and arcs ---
+
+const signedArea = (loop: ProfilePoint[]) => {
+  let sum = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const [x0, y0] = loop[i];
+    const [x1, y1] = loop[(i + 1) % loop.length];
+    sum += x0 * y1 - x1 * y0;
+  }
+  return sum / 2;
+};
+
+const pointInLoop = ([x, y]: ProfilePoint, loop: ProfilePoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    const [xi, yi] = loop[i];
+    const [xj, yj] = loop[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// ∫x dA over a loop, signed like signedArea
+const firstMoment = (loop: ProfilePoint[]) => {
+  let sum = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const [x0, y0] = loop[i];
+    const [x1, y1] = loop[(i + 1) % loop.length];
+    sum += (x0 + x1) * (x0 * y1 - x1 * y0);
+  }
+  return sum / 6;
+};
+
+// Even-odd sum of a per-loop integral: loops nested an odd number of times are holes
+const evenOdd = (loops: ProfilePoint[][], integral: (loop: ProfilePoint[]) => number) =>
+  loops.reduce((sum, loop, i) => {
+    const depth = loops.filter((other, j) => j !== i && pointInLoop(loop[0], other)).length;
+    return sum + (depth % 2 === 0 ? 1 : -1) * Math.abs(integral(loop));
+  }, 0);
+
+// Pappus for revolutions, area × height for extrusions; a sweep must reproduce the mesh volume
+const VOLUME_TOLERANCE = 0.02;
+const matchesVolume = (swept: number, volume: number) => Math.abs(swept - volume) <= volume * VOLUME_TOLERANCE;
+
+// The sweep must also explain the whole surface: area-weighted samples off the swept profile mean a body
+// or feature the profile leaves out, even when the volume check happened to pass
+const COVERAGE_SAMPLES = 2000;
+const MIN_COVERAGE = 0.995;
+
+const distanceToLoops = ([x, y]: ProfilePoint, loops: ProfilePoint[][]): number => {
+  let best = Infinity;
+  for (const loop of loops) {
+    for (let i = 0; i < loop.length; i++) {
+      const [ax, ay] = loop[i];
+      const [bx, by] = loop[(i + 1) % loop.length];
+      const dx = bx - ax, dy = by - ay;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.min(Math.max(((x - ax) * dx + (y - ay) * dy) / len2, 0), 1) : 0;
+      best = Math.min(best, Math.hypot(x - ax - t * dx, y - ay - t * dy));
+    }
+  }
+  return best;
+};
+
+// Share of surface samples accepted by `onSweep`
+const sweepCoverage = (tris: Float32Array, onSweep: (p: THREE.Vector3) => boolean): number => {
+  const samples = sampleSurface(tris, COVERAGE_SAMPLES, 5);
+  const p = new THREE.Vector3();
+  let on = 0;
+  for (let i = 0; i < samples.length; i += 3) {
+    if (onSweep(p.fromArray(samples, i))) on++;
+  }
+  return samples.length > 0 ? on / (samples.length / 3) : 0;
+};
+
+// Keep the part of a closed loop with x >= 0 (Sutherland–Hodgman against one edge)
+const clipToPositiveX = (loop: ProfilePoint[]): ProfilePoint[] => {
+  const out: ProfilePoint[] = [];
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i], b = loop[(i + 1) % loop.length];
+    if (a[0] >= 0) out.push(a);
+    if ((a[0] >= 0) !== (b[0] >= 0)) {
+      const s = a[0] / (a[0] - b[0]);
+      out.push([0, a[1] + (b[1] - a[1]) * s]);
+    }
+  }
+  return out;
+};
+
+// Drop repeated and collinear vertices
+const cleanLoop = (loop: ProfilePoint[], tol: number): ProfilePoint[] => {
+  let pts = loop.filter((p, i) => {
+    const prev = loop[(i + loop.length - 1) % loop.length];
+    return Math.hypot(p[0] - prev[0], p[1] - prev[1]) > tol * 0.01;
+  });
+  for (let pass = 0; pass < 2 && pts.length > 3; pass++) {
+    const kept: ProfilePoint[] = [];
+    pts.forEach((p, i) => {
+      const prev = kept.length > 0 ? kept[kept.length - 1] : pts[pts.length - 1];
+      const next = pts[(i + 1) % pts.length];
+      const dx = next[0] - prev[0], dy = next[1] - prev[1];
+      const len = Math.hypot(dx, dy);
+      const dist = len > 0 ? Math.abs((p[0] - prev[0]) * dy - (p[1] - prev[1]) * dx) / len : 0;
+      const forward = (p[0] - prev[0]) * dx + (p[1] - prev[1]) * dy > 0;
+      if (!(dist < tol * 0.05 && forward)) kept.push(p);
+    });
+    pts = kept;
+  }
+  return pts;
+};
+
+// Algebraic (Kasa) circle fit; returns the worst radial deviation of the points
+const fitCircle = (pts: ProfilePoint[]): { center: ProfilePoint; radius: number; error: number } | null => {
+  const [ox, oy] = pts[0];
+  const m = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+  const rhs = [0, 0, 0];
+  pts.forEach(([px, py]) => {
+    const x = px - ox, y = py - oy;
+    const row = [x, y, 1];
+    const target = -(x * x + y * y);
+    for (let i = 0; i < 3; i++) {
+      rhs[i] += row[i] * target;
+      for (let j = 0; j < 3; j++) m[i][j] += row[i] * row[j];
+    }
+  });
+  const mat = new THREE.Matrix3().set(m[0][0], m[0][1], m[0][2], m[1][0], m[1][1], m[1][2], m[2][0], m[2][1], m[2][2]);
+  if (Math.abs(mat.determinant()) < 1e-18) return null;
+  const sol = new THREE.Vector3(...rhs).applyMatrix3(mat.invert());
+  const cx = -sol.x / 2, cy = -sol.y / 2;
+  const r2 = cx * cx + cy * cy - sol.z;
+  if (!(r2 > 0)) return null;
+  const radius = Math.sqrt(r2);
+  const center: ProfilePoint = [cx + ox, cy + oy];
+  const error = Math.max(...pts.map(([x, y]) => Math.abs(Math.hypot(x - center[0], y - center[1]) - radius)));
+  return { center, radius, error };
+};
+
+const turnAngle = (a: ProfilePoint, b: ProfilePoint, c: ProfilePoint) =>
+  Math.atan2(
+    (b[0] - a[0]) * (c[1] - b[1]) - (b[1] - a[1]) * (c[0] - b[0]),
+    (b[0] - a[0]) * (c[0] - b[0]) + (b[1] - a[1]) * (c[1] - b[1])
+  );
+
+const toDeg = THREE.MathUtils.radToDeg;
+
+// Replace runs of short, evenly turning edges by arcs; everything else stays a line
+const simplifyLoop = (loop: ProfilePoint[], tol: number, maxDim: number): ProfileShape => {
+  let pts = cleanLoop(loop, tol);
+  const n = pts.length;
+  const turns = pts.map((p, i) => turnAngle(pts[(i + n - 1) % n], p, pts[(i + 1) % n]));
+
+  const smooth = turns.every(t => Math.abs(t) <= ARC_TURN && Math.sign(t) === Math.sign(turns[0]));
+  if (n >= 8 && smooth) {
+    const circle = fitCircle(pts);
+    if (circle && circle.error <= tol) return { kind: 'circle', center: circle.center, radius: circle.radius };
+  }
+
+  // Start at the sharpest corner so no arc is split by the seam
+  const corner = turns.reduce((best, t, i) => (Math.abs(t) > Math.abs(turns[best]) ? i : best), 0);
+  pts = [...pts.slice(corner), ...pts.slice(0, corner)];
+  const turnAt = (i: number) => turns[(i + corner) % n];
+
+  const segments: ProfileSegment[] = [];
+  let i = 0;
+  while (i < n) {
+    let arc: { end: number; center: ProfilePoint; radius: number } | null = null;
+    for (let j = i + 1; j <= n; j++) {
+      // The newest interior vertex must keep turning the same way, and gently
+      if (j - 1 > i) {
+        const t = turnAt(j - 1);
+        if (t === 0 || Math.abs(t) > ARC_TURN || Math.sign(t) !== Math.sign(turnAt(i + 1))) break;
+      }
+      if (j - i < MIN_ARC_EDGES) continue;
+      const run = Array.from({ length: j - i + 1 }, (_, k) => pts[(i + k) % n]);
+      const circle = fitCircle(run);
+      if (!circle || circle.error > tol || circle.radius > maxDim * 5) break;
+      arc = { end: j, center: circle.center, radius: circle.radius };
+    }
+    if (!arc) {
+      segments.push({ kind: 'line', start: pts[i] });
+      i++;
+      continue;
+    }
+    const { center, radius, end } = arc;
+    let sweep = 0;
+    for (let k = i; k < end; k++) {
+      const a = pts[k % n], b = pts[(k + 1) % n];
+      sweep += Math.atan2(
+        (a[0] - center[0]) * (b[1] - center[1]) - (a[1] - center[1]) * (b[0] - center[0]),
+        (a[0] - center[0]) * (b[0] - center[0]) + (a[1] - center[1]) * (b[1] - center[1])
+      );
+    }
+    const startDeg = toDeg(Math.atan2(pts[i][1] - center[1], pts[i][0] - center[0]));
+    segments.push({ kind: 'arc', start: pts[i], center, radius, startDeg, endDeg: startDeg + toDeg(sweep) });
+    i = end;
+  }
+  return { kind: 'path', segments };
+};
+
+// Simplify every slice loop and nest each one in the smallest loop containing it
+const buildLoops = (raw: ProfilePoint[][], tol: number, maxDim: number): ProfileLoop[] => {
+  const kept = raw.filter(l => l.length >= 3 && Math.abs(signedArea(l)) > tol * tol);
+  const areas = kept.map(l => Math.abs(signedArea(l)));
+  return kept.map((l, i) => {
+    let parent = -1;
+    kept.forEach((other, j) => {
+      if (j === i || areas[j] <= areas[i] || !pointInLoop(l[0], other)) return;
+      if (parent < 0 || areas[j] < areas[parent]) parent = j;
+    });
+    return { ...simplifyLoop(l, tol, maxDim), parent };
+  });
+};
+
+const segmentCount = (loops: ProfileLoop[]) => loops.reduce((sum, l) => sum + (l.kind === 'path' ? l.segments.length : 1), 0);
+
+// --- Detection ---
+
+// Find a coordinate axis the solid is revolved about or extruded along, and extract its exact profile
+export const detectSweep = (geometry: THREE.BufferGeometry): ProfileSweep | null => {
+  const tris = getTriangleArray(geometry);
+  if (tris.length === 0) return null;
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox ?? new THREE.Box3();
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z);
+  const tol = sweepTolerance(maxDim);
+  const volume = signedVolume(tris);
+
+  for (const axis of SWEEP_AXES) {
+    const k = AXIS_INDEX[axis];
+    if (!isRevolved(tris, box, k, tol)) continue;
+    const [h, v] = otherAxes(k);
+    const center: ProfilePoint = [(box.min.getComponent(h) + box.max.getComponent(h)) / 2, (box.min.getComponent(v) + box.max.getComponent(v)) / 2];
+    // Half-plane through the axis: cut across the first remaining axis, keep the side of the second
+    const cut = (['x', 'y', 'z'] as SectionAxis[])[h];
+    const plane = SECTION_PLANE_AXES[cut];
+    const loops = sliceTriangles(tris, cut, center[0]).map(loop =>
+      clipToPositiveX(loop.map(p => {
+        const at = [0, 0, 0];
+        at[plane[0]] = p[0];
+        at[plane[1]] = p[1];
+        return [at[v] - center[1], at[k]] as ProfilePoint;
+      })).map(([r, a]) => [Math.abs(r) < tol ? 0 : r, a] as ProfilePoint)
+    ).filter(loop => loop.length >= 3);
+    if (!matchesVolume(2 * Math.PI * evenOdd(loops, firstMoment), volume)) continue;
+    // Facet chords sit inside the true radius, as in isRevolved
+    const coverage = sweepCoverage(tris, p => {
+      const r = Math.hypot(p.getComponent(h) - center[0], p.getComponent(v) - center[1]);
+      return distanceToLoops([r, p.getComponent(k)], loops) <= r * 0.02 + tol;
+    });
+    if (coverage < MIN_COVERAGE) continue;
+    const rawPoints = loops.reduce((sum, l) => sum + l.length, 0);
+    const profile = buildLoops(loops, tol, maxDim);
+    if (profile.length === 0) continue;
+    return { kind: 'revolve', axis, center, start: box.min.getComponent(k), end: box.max.getComponent(k), loops: profile, rawPoints };
+  }
+
+  // A box extrudes along all three axes; keep the direction with the richest profile
+  let best: ProfileSweep | null = null;
+  for (const axis of SWEEP_AXES) {
+    const k = AXIS_INDEX[axis];
+    if (!isExtruded(tris, box, k, tol)) continue;
+    const start = box.min.getComponent(k), end = box.max.getComponent(k);
+    const loops = sliceTriangles(tris, axis, (start + end) / 2);
+    if (!matchesVolume(evenOdd(loops, signedArea) * (end - start), volume)) continue;
+    // Walls lie on the mid-height cut; caps lie inside it
+    const [ph, pv] = SECTION_PLANE_AXES[axis];
+    const coverage = sweepCoverage(tris, p => {
+      const q: ProfilePoint = [p.getComponent(ph), p.getComponent(pv)];
+      if (distanceToLoops(q, loops) <= tol * 2) return true;
+      const level = p.getComponent(k);
+      const onCap = Math.abs(level - start) < tol || Math.abs(level - end) < tol;
+      return onCap && loops.filter(loop => pointInLoop(q, loop)).length % 2 === 1;
+    });
+    if (coverage < MIN_COVERAGE) continue;
+    const profile = buildLoops(loops, tol, maxDim);
+    if (profile.length === 0) continue;
+    if (!best || segmentCount(profile) > segmentCount(best.loops)) {
+      best = { kind: 'extrude', axis, center: [0, 0], start, end, loops: profile, rawPoints: loops.reduce((sum, l) => sum + l.length, 0) };
+    }
+  }
+  return best;
+};
+
+// --- SCAD emission ---
+
+const num = (n: number) => {
+  const rounded = Number(n.toFixed(3));
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+};
+const pt = (p: ProfilePoint) => `[${num(p[0])}, ${num(p[1])}]`;
+
+// Place a 2D child in the STL frame: revolve takes +Z onto the axis, extrude maps the cut plane back
+const placement = (sweep: ProfileSweep): string => {
+  const translate = (v: number[]) => (v.every(c => Math.abs(c) < 5e-4) ? '' : `translate([${v.map(num).join(', ')}])`);
+  const [a, b] = sweep.center;
+  const parts = sweep.kind === 'revolve'
+    ? sweep.axis === 'z' ? [translate([a, b, 0])]
+      : sweep.axis === 'x' ? [translate([0, a, b]), 'rotate([0, 90, 0])']
+      : [translate([a, 0, b]), 'rotate([-90, 0, 0])']
+    : sweep.axis === 'z' ? [translate([0, 0, sweep.start])]
+      : sweep.axis === 'x' ? [translate([sweep.start, 0, 0]), 'rotate([90, 0, 90])']
+      : [translate([0, sweep.end, 0]), 'rotate([90, 0, 0])'];
+  return parts.filter(Boolean).join(' ');
+};
+
+// Lines become literal points, arcs calls to arc(); consecutive lines share one literal
+const pathExpression = (segments: ProfileSegment[]): string => {
+  const parts: string[] = [];
+  let run: string[] = [];
+  const flush = () => {
+    if (run.length > 0) parts.push(`[${run.join(', ')}]`);
+    run = [];
+  };
+  segments.forEach(s => {
+    if (s.kind === 'line') {
+      run.push(pt(s.start));
+      return;
+    }
+    flush();
+    parts.push(`arc(${pt(s.center)}, ${num(s.radius)}, ${num(s.startDeg)}, ${num(s.endDeg)})`);
+  });
+  flush();
+  return parts.length === 1 ? parts[0] : `concat(\n  ${parts.join(',\n  ')}\n)`;
+};
+
+export const sweepToScad = (sweep: ProfileSweep): GenerationResult => {
+  const params: string[] = [];
+  const shapes = sweep.loops.map((loop, i) => {
+    if (loop.kind === 'circle') {
+      params.push(`circle_${i + 1}_d = ${num(loop.radius * 2)};`);
+      return `translate(${pt(loop.center)}) circle(d = circle_${i + 1}_d);`;
+    }
+    params.push(`profile_${i + 1} = ${pathExpression(loop.segments)};`);
+    return `polygon(profile_${i + 1});`;
+  });
+
+  // Each loop minus the loops directly inside it, recursively
+  const region = (i: number, indent: string): string => {
+    const children = sweep.loops.map((l, j) => (l.parent === i ? j : -1)).filter(j => j >= 0);
+    if (children.length === 0) return `${indent}${shapes[i]}`;
+    return [
+      `${indent}difference() {`,
+      `${indent}  ${shapes[i]}`,
+      ...children.map(j => region(j, `${indent}  `)),
+      `${indent}}`
+    ].join('\n');
+  };
+  const roots = sweep.loops.map((l, i) => (l.parent < 0 ? i : -1)).filter(i => i >= 0);
+  const transform = placement(sweep);
+  const indent = transform ? '  ' : '';
+  const body = roots.map(i => region(i, `${indent}  `)).join('\n');
+
+  const axisName = sweep.axis.toUpperCase();
+  const height = num(sweep.end - sweep.start);
+  const usesArcs = sweep.loops.some(l => l.kind === 'path' && l.segments.some(s => s.kind === 'arc'));
+  const label = sweep.kind === 'revolve'
+    ? `回转体, 轴线 ${axisName}, 经过 ${pt(sweep.center)}`
+    : `沿 ${axisName} 轴拉伸, 高度 ${height}`;
+  if (sweep.kind === 'extrude') params.unshift(`height = ${height};`);
+
+  const code = [
+    `// 本地轮廓提取生成 (未调用模型): ${label}`,
+    `// 单位: 毫米, +Z 朝上 (工作坐标系)`,
+    `$fn = 96;`,
+    ``,
+    ...(usesArcs
+      ? [
+          `// 圆弧离散: 圆心 c, 半径 r, 从 a0 度到 a1 度 (不含终点, 由下一段接上)`,
+          `function arc(c, r, a0, a1) = let(n = max(2, ceil(abs(a1 - a0) / 360 * $fn))) [for (i = [0:n - 1]) c + r * [cos(a0 + (a1 - a0) * i / n), sin(a0 + (a1 - a0) * i / n)]];`,
+          ``
+        ]
+      : []),
+    sweep.kind === 'revolve' ? `// 截面轮廓 (半径, 轴向), 单位 mm` : `// 截面轮廓, 单位 mm`,
+    ...params,
+    ``,
+    ...(transform ? [transform] : []),
+    `${indent}${sweep.kind === 'revolve' ? 'rotate_extrude()' : 'linear_extrude(height = height)'} {`,
+    body,
+    `${indent}}`,
+    ``
+  ].join('\n');
+
+  const paths = sweep.loops.flatMap(l => (l.kind === 'path' ? l.segments : []));
+  const lines = paths.filter(s => s.kind === 'line').length;
+  const arcs = paths.length - lines;
+  const circles = sweep.loops.filter(l => l.kind === 'circle').length;
+  const explanation = [
+    `本地轮廓提取: 零件是${sweep.kind === 'revolve' ? `绕 ${axisName} 轴的回转体` : `沿 ${axisName} 轴的等截面拉伸体`}, `,
+    `直接从网格截面得到精确轮廓, 共 ${sweep.loops.length} 个环 (${lines} 段直线, ${arcs} 段圆弧${circles > 0 ? `, ${circles} 个整圆` : ''}), `,
+    `由原始截面的 ${sweep.rawPoints} 个顶点简化而来。`,
+    sweep.kind === 'revolve' ? '轮廓送入 rotate_extrude() 生成实体。' : '轮廓送入 linear_extrude() 生成实体。'
+  ].join('');
+  return { code, explanation, model: FITTING_LABEL };
+};
+
+// The extracted profile as an exact hint for a model run
+export const formatSweepForPrompt = (sweep: ProfileSweep): string => {
+  const axisName = sweep.axis.toUpperCase();
+  const [h, v] = SECTION_PLANE_AXES[sweep.axis].map(i => 'XYZ'[i]);
+  const lines = [
+    '[SWEPT PROFILE — the solid is exactly one 2D profile swept along or about a coordinate axis. Units: mm. Frame: working frame, Z-up]',
+    sweep.kind === 'revolve'
+      ? `Revolve about ${axisName} through ${pt(sweep.center)}; profile coordinates are (radius, ${axisName}).`
+      : `Extrude along ${axisName} from ${num(sweep.start)} to ${num(sweep.end)}; profile coordinates are (${h}, ${v}).`
+  ];
+  sweep.loops.forEach((loop, i) => {
+    const role = loop.parent < 0 ? 'outer' : `hole in loop ${loop.parent + 1}`;
+    if (loop.kind === 'circle') {
+      lines.push(`- loop ${i + 1} (${role}): circle centre ${pt(loop.center)} Ø${num(loop.radius * 2)}`);
+      return;
+    }
+    const steps = loop.segments.slice(0, 60).map(s =>
+      s.kind === 'line' ? `line from ${pt(s.start)}` : `arc from ${pt(s.start)} centre ${pt(s.center)} r=${num(s.radius)} ${num(s.startDeg)}°→${num(s.endDeg)}°`
+    );
+    lines.push(`- loop ${i + 1} (${role}): ${steps.join('; ')}${loop.segments.length > 60 ? '; …' : ''}`);
+  });
+  return lines.join('\n');
+};
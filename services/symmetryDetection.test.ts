@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { CylinderCandidate, SymmetryReport } from '../types';
+import { analyzeGeometry } from './geometryAnalysis';
+import { checkSymmetryUsage, detectSymmetry, hasSymmetry, symmetrySummary } from './symmetryDetection';
+
+const zUp = (geometry: THREE.BufferGeometry) => geometry.rotateX(Math.PI / 2).toNonIndexed();
+const summaryOf = (geometry: THREE.BufferGeometry) => symmetrySummary(analyzeGeometry(geometry).symmetry);
+
+const hole = (x: number, y: number): CylinderCandidate => ({
+  kind: 'hole', axis: { x: 0, y: 0, z: 1 }, center: { x, y, z: 0 }, radius: 3, length: 10, coverageDeg: 360
+});
+const patternsOf = (holes: CylinderCandidate[]) =>
+  symmetrySummary(detectSymmetry(new Float32Array(), new THREE.Vector3(), [], holes, 100));
+
+const O = { x: 0, y: 0, z: 0 };
+const Z = { x: 0, y: 0, z: 1 };
+const report = (patch: Partial<SymmetryReport>): SymmetryReport => ({ mirrors: [], rotations: [], patterns: [], ...patch });
+
+describe('detectSymmetry', () => {
+  it('finds revolved bodies, n-fold turns and mirror planes on the mesh', () => {
+    expect(summaryOf(zUp(new THREE.CylinderGeometry(10, 10, 20, 64)))).toEqual(['回转体 Z']);
+    expect(summaryOf(zUp(new THREE.CylinderGeometry(10, 10, 8, 5)))).toEqual(['镜像 X = 0.000', '5 重旋转 Z']);
+    expect(summaryOf(zUp(new THREE.ConeGeometry(10, 15, 4)))).toEqual(['镜像 X = 0.000', '镜像 Y = 0.000', '4 重旋转 Z']);
+  });
+
+  it('groups same-size parallel holes into grids, circles and rows', () => {
+    expect(patternsOf([hole(0, 0), hole(20, 0), hole(0, 15), hole(20, 15)])).toEqual(['2×2 孔 Ø6.00 网格']);
+    expect(patternsOf([0, 1, 2, 3, 4, 5].map(k => hole(25 * Math.cos(k * Math.PI / 3), 25 * Math.sin(k * Math.PI / 3)))))
+      .toEqual(['6× 孔 Ø6.00 环形阵列']);
+    expect(patternsOf([hole(0, 0), hole(10, 10), hole(20, 20)])).toEqual(['3× 孔 Ø6.00 直线阵列']);
+    expect(patternsOf([hole(0, 0), hole(10, 0), hole(35, 0)])).toEqual([]);
+  });
+});
+
+describe('checkSymmetryUsage', () => {
+  it('passes anything when nothing was measured, and scripts that do not parse', () => {
+    expect(hasSymmetry(report({}))).toBe(false);
+    expect(checkSymmetryUsage('cube(1);', report({}))).toEqual([]);
+    expect(checkSymmetryUsage('cube(', report({ rotations: [{ axis: Z, center: O, order: 0 }] }))).toEqual([]);
+  });
+
+  it('asks for a revolve or a circular primitive on a revolved body', () => {
+    const revolved = report({ rotations: [{ axis: Z, center: O, order: 0 }] });
+    expect(checkSymmetryUsage('cube([10, 10, 20]);', revolved)).toEqual([expect.stringContaining('回转体')]);
+    expect(checkSymmetryUsage('cylinder(h = 20, r = 10);', revolved)).toEqual([]);
+  });
+
+  it('asks for a loop whose count divides an n-fold turn', () => {
+    const fivefold = report({ rotations: [{ axis: Z, center: O, order: 5 }] });
+    expect(checkSymmetryUsage('cube(10);', fivefold)).toEqual([expect.stringContaining('5 重旋转对称')]);
+    expect(checkSymmetryUsage('for (i = [0:4]) rotate([0, 0, i * 72]) cube(10);', fivefold)).toEqual([]);
+    expect(checkSymmetryUsage('cylinder(h = 8, r = 10, $fn = 5);', fivefold)).toEqual([]);
+  });
+
+  it('asks for a mirror only when the script expresses no symmetry at all', () => {
+    const mirrored = report({ mirrors: [{ normal: { x: 1, y: 0, z: 0 }, offset: 0 }] });
+    expect(checkSymmetryUsage('translate([5, 0, 0]) cube(10);', mirrored)).toEqual([expect.stringContaining('mirror([1, 0, 0])')]);
+    expect(checkSymmetryUsage('mirror([1, 0, 0]) translate([5, 0, 0]) cube(10);', mirrored)).toEqual([]);
+    expect(checkSymmetryUsage('cube(10, center = true);', mirrored)).toEqual([]);
+  });
+});
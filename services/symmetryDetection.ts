@@ -0,0 +1,437 @@
+import * as THREE from 'three';
+import { CylinderCandidate, FeaturePattern, MirrorPlane, RotationalSymmetry, SymmetryReport, Vec3 } from '../types';
+import { TriangleGrid, planeBasis, sampleSurface, triangleNormal } from './meshUtils';
+import { Argument, Expr, Statement, parseScad } from './scadParser';
+
+// Mirror planes and rotations are tested by mapping surface samples through the candidate
+// transform and checking they land back on the surface; patterns come from the measured cylinders.
+
+const SAMPLE_COUNT = 1500;
+// A sample matches when it lands this close to the surface, as a fraction of the box diagonal
+const MATCH_TOLERANCE = 0.005;
+// Share of samples that must match for the transform to count as a symmetry
+const MIN_MATCH = 0.98;
+// Highest N tested for N-fold rotation
+const MAX_ORDER = 24;
+// A rotation by this fraction of a turn fits no N <= MAX_ORDER, so passing it means a solid of revolution
+const CONTINUOUS_PROBE = 0.1234;
+// Same-size features: radii within this fraction of each other
+const RADIUS_TOLERANCE = 0.02;
+// Circular patterns: angular gaps within this of 360°/N
+const ANGLE_TOLERANCE_DEG = 2;
+// Prisms: at most this share of the area may face neither along nor across the direction
+const PRISM_SLANT_SHARE = 0.005;
+
+const toVec3 = (v: THREE.Vector3): Vec3 => ({ x: v.x, y: v.y, z: v.z });
+const fromVec3 = (v: Vec3) => new THREE.Vector3(v.x, v.y, v.z);
+
+// Largest component positive, so the same plane or axis is always reported the same way
+const canonical = (v: THREE.Vector3): THREE.Vector3 => {
+  const major = [v.x, v.y, v.z].reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+  return major < 0 ? v.clone().negate() : v.clone();
+};
+
+const mirrorMatrix = (normal: THREE.Vector3, point: THREE.Vector3): THREE.Matrix4 => {
+  const { x, y, z } = normal;
+  const d = normal.dot(point);
+  return new THREE.Matrix4().set(
+    1 - 2 * x * x, -2 * x * y, -2 * x * z, 2 * d * x,
+    -2 * x * y, 1 - 2 * y * y, -2 * y * z, 2 * d * y,
+    -2 * x * z, -2 * y * z, 1 - 2 * z * z, 2 * d * z,
+    0, 0, 0, 1
+  );
+};
+
+const rotationMatrix = (axis: THREE.Vector3, point: THREE.Vector3, angle: number): THREE.Matrix4 =>
+  new THREE.Matrix4()
+    .makeTranslation(point.x, point.y, point.z)
+    .multiply(new THREE.Matrix4().makeRotationAxis(axis, angle))
+    .multiply(new THREE.Matrix4().makeTranslation(-point.x, -point.y, -point.z));
+
+// In-plane coordinates for features along `axis`: the other two world axes when it is axis-aligned
+const featureBasis = (axis: THREE.Vector3): [THREE.Vector3, THREE.Vector3] => {
+  if (Math.abs(axis.z) > 0.999) return [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0)];
+  if (Math.abs(axis.y) > 0.999) return [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 0, 1)];
+  if (Math.abs(axis.x) > 0.999) return [new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 0, 1)];
+  return planeBasis(axis);
+};
+
+// Distinct values (sorted), merging those within `tol`
+const clusterValues = (values: number[], tol: number): number[] => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const out: number[] = [];
+  sorted.forEach(v => {
+    if (out.length === 0 || v - out[out.length - 1] > tol) out.push(v);
+  });
+  return out;
+};
+
+const uniformStep = (values: number[], tol: number): boolean =>
+  values.length < 3 || values.slice(2).every((v, i) => Math.abs(v - values[i + 1] - (values[1] - values[0])) <= tol);
+
+// One group of same-size parallel features as a grid, circle or row; null when the positions are irregular
+const matchPattern = (group: CylinderCandidate[], tol: number): FeaturePattern | null => {
+  const n = group.length;
+  const axis = fromVec3(group[0].axis);
+  const [u, v] = featureBasis(axis);
+  const centers = group.map(c => fromVec3(c.center));
+  const base = {
+    feature: group[0].kind,
+    diameter: (group.reduce((sum, c) => sum + c.radius, 0) / n) * 2,
+    axis: group[0].axis,
+    count: n
+  };
+
+  // Axis-aligned rows and grids, the usual CAD layout
+  const us = clusterValues(centers.map(c => c.dot(u)), tol);
+  const vs = clusterValues(centers.map(c => c.dot(v)), tol);
+  const filled = us.every(a => vs.every(b => centers.some(c => Math.abs(c.dot(u) - a) <= tol && Math.abs(c.dot(v) - b) <= tol)));
+  if (us.length * vs.length === n && filled && uniformStep(us, tol) && uniformStep(vs, tol)) {
+    const origin = centers.reduce((best, c) => (c.dot(u) < best.dot(u) - tol || (Math.abs(c.dot(u) - best.dot(u)) <= tol && c.dot(v) < best.dot(v)) ? c : best));
+    const stepU = us.length > 1 ? u.clone().multiplyScalar(us[1] - us[0]) : new THREE.Vector3();
+    const stepV = vs.length > 1 ? v.clone().multiplyScalar(vs[1] - vs[0]) : new THREE.Vector3();
+    if (us.length >= 2 && vs.length >= 2) {
+      return { ...base, kind: 'grid', origin: toVec3(origin), steps: [toVec3(stepU), toVec3(stepV)], counts: [us.length, vs.length] };
+    }
+    if (n >= 3) return { ...base, kind: 'linear', origin: toVec3(origin), step: toVec3(us.length > 1 ? stepU : stepV) };
+  }
+
+  // Evenly spaced on a circle around their mean
+  const center = centers.reduce((sum, c) => sum.add(c), new THREE.Vector3()).divideScalar(n);
+  const offsets = centers.map(c => c.clone().sub(center));
+  const radius = offsets.reduce((sum, o) => sum + o.length(), 0) / n;
+  if (radius > tol && offsets.every(o => Math.abs(o.length() - radius) <= tol)) {
+    const polar = offsets.map((o, i) => ({ angle: Math.atan2(o.dot(v), o.dot(u)), i })).sort((a, b) => a.angle - b.angle);
+    const gaps = polar.map((a, k) => (k + 1 < n ? polar[k + 1].angle : polar[0].angle + Math.PI * 2) - a.angle);
+    const expected = (Math.PI * 2) / n;
+    if (gaps.every(g => Math.abs(g - expected) <= THREE.MathUtils.degToRad(ANGLE_TOLERANCE_DEG))) {
+      // The first feature counter-clockwise from the in-plane +U direction
+      const first = centers[(polar.find(a => a.angle >= -1e-6) ?? polar[0]).i];
+      return { ...base, kind: 'circular', center: toVec3(center), radius, first: toVec3(first) };
+    }
+  }
+
+  // Evenly spaced along any straight line
+  const start = centers.reduce((a, b) => (a.distanceTo(center) >= b.distanceTo(center) ? a : b));
+  const end = centers.reduce((a, b) => (a.distanceTo(start) >= b.distanceTo(start) ? a : b));
+  const dir = end.clone().sub(start);
+  const length = dir.length();
+  if (length <= tol) return null;
+  dir.divideScalar(length);
+  const along = centers.map(c => c.clone().sub(start).dot(dir)).sort((a, b) => a - b);
+  const straight = centers.every(c => c.clone().sub(start).projectOnVector(dir).add(start).distanceTo(c) <= tol);
+  if (!straight || !uniformStep(along, tol)) return null;
+  return { ...base, kind: 'linear', origin: toVec3(start), step: toVec3(dir.multiplyScalar(along[1] - along[0])) };
+};
+
+// Every face either along or across `dir`: an extrusion, whose mid-plane mirror says nothing about the profile
+const isPrism = (tris: Float32Array, dir: THREE.Vector3): boolean => {
+  const n = new THREE.Vector3();
+  let slanted = 0, total = 0;
+  for (let t = 0; t < tris.length / 9; t++) {
+    const area = triangleNormal(tris, t, n);
+    const c = Math.abs(n.dot(dir));
+    total += area;
+    if (c > 0.01 && c < 0.99) slanted += area;
+  }
+  return total > 0 && slanted / total < PRISM_SLANT_SHARE;
+};
+
+const detectPatterns = (cylinders: CylinderCandidate[], tol: number): FeaturePattern[] => {
+  const groups: CylinderCandidate[][] = [];
+  cylinders.forEach(cyl => {
+    const group = groups.find(g =>
+      g[0].kind === cyl.kind &&
+      Math.abs(fromVec3(g[0].axis).dot(fromVec3(cyl.axis))) > 0.999 &&
+      Math.abs(g[0].radius - cyl.radius) <= Math.max(g[0].radius * RADIUS_TOLERANCE, tol * 0.1)
+    );
+    if (group) group.push(cyl);
+    else groups.push([cyl]);
+  });
+  return groups
+    .filter(g => g.length >= 3)
+    .map(g => matchPattern(g, tol))
+    .filter((p): p is FeaturePattern => p !== null);
+};
+
+// Whole-mesh mirror planes and rotations through the surface centroid, plus repeated hole/boss layouts.
+// `directions` are the candidate plane normals and rotation axes (coordinate axes, then principal axes).
+export const detectSymmetry = (
+  tris: Float32Array,
+  centroid: THREE.Vector3,
+  directions: THREE.Vector3[],
+  cylinders: CylinderCandidate[],
+  diagonal: number
+): SymmetryReport => {
+  const tol = Math.max(diagonal * MATCH_TOLERANCE, 1e-6);
+  const patterns = detectPatterns(cylinders, tol);
+  if (tris.length === 0) return { mirrors: [], rotations: [], patterns };
+
+  const samples = sampleSurface(tris, SAMPLE_COUNT, 5);
+  const grid = new TriangleGrid(tris);
+  const p = new THREE.Vector3();
+  const allowed = Math.floor((samples.length / 3) * (1 - MIN_MATCH));
+
+  // Bails out as soon as too many samples miss, so most failing candidates cost a few dozen queries
+  const holds = (m: THREE.Matrix4): boolean => {
+    let misses = 0;
+    for (let i = 0; i < samples.length; i += 3) {
+      p.set(samples[i], samples[i + 1], samples[i + 2]).applyMatrix4(m);
+      if (grid.closestPoint(p).distance > tol && ++misses > allowed) return false;
+    }
+    return true;
+  };
+
+  const rotations: RotationalSymmetry[] = [];
+  directions.forEach(dir => {
+    const axis = canonical(dir);
+    if (holds(rotationMatrix(axis, centroid, Math.PI * 2 * CONTINUOUS_PROBE))) {
+      rotations.push({ axis: toVec3(axis), center: toVec3(centroid), order: 0 });
+      return;
+    }
+    for (let order = MAX_ORDER; order >= 2; order--) {
+      if (holds(rotationMatrix(axis, centroid, (Math.PI * 2) / order))) {
+        rotations.push({ axis: toVec3(axis), center: toVec3(centroid), order });
+        return;
+      }
+    }
+  });
+
+  // Planes through a revolution axis are implied by the revolve
+  const revolved = rotations.filter(r => r.order === 0).map(r => fromVec3(r.axis));
+  const planes = directions
+    .map(canonical)
+    .filter(normal => !revolved.some(axis => Math.abs(axis.dot(normal)) < 1e-3))
+    .filter(normal => holds(mirrorMatrix(normal, centroid)));
+  // Mid-planes of extrusions are implied by the extrusion, so only the others are reported
+  const mirrors: MirrorPlane[] = planes
+    .filter(normal => !isPrism(tris, normal))
+    .map(normal => ({ normal: toVec3(normal), offset: normal.dot(centroid) }));
+
+  // A 2-fold turn about the line where two perpendicular mirror planes meet adds nothing;
+  // a revolve supplies a mirror plane through any line crossing its axis
+  const implied = (r: RotationalSymmetry) => {
+    if (r.order !== 2) return false;
+    const axis = fromVec3(r.axis);
+    const containing = planes.filter(normal => Math.abs(normal.dot(axis)) < 1e-3).length;
+    return containing + (revolved.some(rev => Math.abs(rev.dot(axis)) < 0.999) ? 1 : 0) >= 2;
+  };
+
+  return { mirrors, rotations: rotations.filter(r => !implied(r)), patterns };
+};
+
+export const hasSymmetry = (report: SymmetryReport): boolean =>
+  report.mirrors.length + report.rotations.length + report.patterns.length > 0;
+
+const fmt = (n: number, digits = 3) => (Math.abs(n) < 1e-9 ? 0 : n).toFixed(digits);
+const fmtVec = (v: Vec3, digits = 3) => `(${fmt(v.x, digits)}, ${fmt(v.y, digits)}, ${fmt(v.z, digits)})`;
+const scadVec = (v: Vec3) => `[${fmt(v.x, 4).replace(/\.?0+$/, '')}, ${fmt(v.y, 4).replace(/\.?0+$/, '')}, ${fmt(v.z, 4).replace(/\.?0+$/, '')}]`;
+
+const axisName = (v: Vec3): string => {
+  if (Math.abs(v.x) > 0.999) return 'X';
+  if (Math.abs(v.y) > 0.999) return 'Y';
+  if (Math.abs(v.z) > 0.999) return 'Z';
+  return fmtVec(v);
+};
+
+const describePlane = (m: MirrorPlane): string => {
+  const name = axisName(m.normal);
+  return name.length === 1 ? `${name} = ${fmt(m.offset)}` : `normal ${name}, offset ${fmt(m.offset)}`;
+};
+
+const describePattern = (p: FeaturePattern): string => {
+  const feature = `${p.feature} Ø${fmt(p.diameter)} (axis ${axisName(p.axis)})`;
+  switch (p.kind) {
+    case 'linear':
+      return `${p.count} × ${feature} in a row from ${fmtVec(p.origin)}, step ${fmtVec(p.step)}`;
+    case 'grid':
+      return `${p.counts[0]} × ${p.counts[1]} grid of ${feature} from ${fmtVec(p.origin)}, steps ${fmtVec(p.steps[0])} and ${fmtVec(p.steps[1])}`;
+    case 'circular':
+      return `${p.count} × ${feature} on a circle r=${fmt(p.radius)} around ${fmtVec(p.center)}, every ${fmt(360 / p.count, 2)}°, first at ${fmtVec(p.first)}`;
+  }
+};
+
+// One short entry per mirror plane, rotation and feature pattern, for the UI and reports
+export const symmetrySummary = (report: SymmetryReport): string[] => [
+  ...report.mirrors.map(m => `镜像 ${describePlane(m)}`),
+  ...report.rotations.map(r => (r.order === 0 ? `回转体 ${axisName(r.axis)}` : `${r.order} 重旋转 ${axisName(r.axis)}`)),
+  ...report.patterns.map(p => {
+    const feature = `${p.feature === 'hole' ? '孔' : '凸台'} Ø${fmt(p.diameter, 2)}`;
+    if (p.kind === 'grid') return `${p.counts[0]}×${p.counts[1]} ${feature} 网格`;
+    return `${p.count}× ${feature} ${p.kind === 'circular' ? '环形阵列' : '直线阵列'}`;
+  })
+];
+
+// Constraint block for the prompt; the reply is checked against the same report by checkSymmetryUsage
+export const formatSymmetryForPrompt = (report: SymmetryReport): string => {
+  const lines = ['[SYMMETRY CONSTRAINTS — measured on the mesh. Units: mm. Frame: working frame, Z-up]'];
+  if (report.mirrors.length > 0) {
+    lines.push('Mirror planes (the part is its own mirror image across each):');
+    report.mirrors.forEach(m => lines.push(`  - ${describePlane(m)}: where one side repeats the other, build it once and add the copy with mirror(${scadVec(m.normal)}) or a for loop over [-1, 1]`));
+  }
+  if (report.rotations.length > 0) {
+    lines.push('Rotational symmetry:');
+    report.rotations.forEach(r => lines.push(r.order === 0
+      ? `  - solid of revolution about ${axisName(r.axis)} through ${fmtVec(r.center)}: build it with rotate_extrude`
+      : r.order === 2
+        ? `  - 2-fold (180°) about ${axisName(r.axis)} through ${fmtVec(r.center)}: a repeated half goes in with for (i = [0:1]) rotated by i * 180`
+        : `  - ${r.order}-fold about ${axisName(r.axis)} through ${fmtVec(r.center)}: model one ${fmt(360 / r.order, 2)}° sector and repeat it with for (i = [0:${r.order - 1}]) rotated by i * ${fmt(360 / r.order, 2)}`
+    ));
+  }
+  if (report.patterns.length > 0) {
+    lines.push('Feature patterns:');
+    report.patterns.forEach(p => lines.push(`  - ${describePattern(p)}: place them with one for loop${p.kind === 'grid' ? ' per direction' : ''}, not copies`));
+  }
+  lines.push('Treat these as hard constraints: the result must have every listed symmetry, with N-fold rotations and feature patterns written as for loops rather than copies. The returned script is checked for it.');
+  return lines.join('\n');
+};
+
+// --- Checking a script against the report ---
+
+interface ScadUsage {
+  mirrors: (THREE.Vector3 | null)[];   // null: the normal is computed, so it could be any of them
+  loops: (number | null)[];            // iteration counts; null when they depend on something we cannot evaluate
+  signLoop: boolean;                   // for (s = [-1, 1]) and the like, a mirror written as a loop
+  centered: boolean;                   // centred primitives are symmetric on their own
+  revolved: boolean;                   // rotate_extrude or a round primitive
+  fnCounts: number[];                  // $fn values, a regular N-gon prism is N-fold by itself
+}
+
+// Numeric value of an expression over the script's top-level numeric assignments
+const evaluate = (expr: Expr, vars: Map<string, number>): number | null => {
+  switch (expr.type) {
+    case 'number': return expr.value;
+    case 'ident': return vars.get(expr.name) ?? null;
+    case 'unary': {
+      const v = evaluate(expr.operand, vars);
+      return v === null ? null : expr.op === '-' ? -v : expr.op === '+' ? v : null;
+    }
+    case 'binary': {
+      const a = evaluate(expr.left, vars), b = evaluate(expr.right, vars);
+      if (a === null || b === null) return null;
+      switch (expr.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b !== 0 ? a / b : null;
+        default: return null;
+      }
+    }
+    default: return null;
+  }
+};
+
+const iterationCount = (expr: Expr, vars: Map<string, number>): number | null => {
+  if (expr.type === 'vector') return expr.items.some(item => item.type.startsWith('lc_')) ? null : expr.items.length;
+  if (expr.type === 'range') {
+    const start = evaluate(expr.start, vars), end = evaluate(expr.end, vars);
+    const step = expr.step ? evaluate(expr.step, vars) : 1;
+    if (start === null || end === null || step === null || step === 0) return null;
+    return Math.max(0, Math.floor((end - start) / step + 1e-9) + 1);
+  }
+  return null;
+};
+
+const isSignList = (expr: Expr): boolean => {
+  if (expr.type !== 'vector' || expr.items.length !== 2) return false;
+  const values = expr.items.map(item => evaluate(item, new Map()));
+  return values.every(v => v !== null) && (values.includes(-1) || values.includes(0)) && values.includes(1);
+};
+
+const argument = (args: Argument[], name: string, position: number): Expr | undefined =>
+  args.find(a => a.name === name)?.value ?? args.filter(a => !a.name)[position]?.value;
+
+const collectUsage = (program: Statement[]): ScadUsage => {
+  const usage: ScadUsage = { mirrors: [], loops: [], signLoop: false, centered: false, revolved: false, fnCounts: [] };
+  const vars = new Map<string, number>();
+  program.forEach(st => {
+    if (st.type !== 'assignment') return;
+    const value = evaluate(st.value, vars);
+    if (value !== null) vars.set(st.name, value);
+  });
+
+  const visit = (statements: Statement[]) => statements.forEach(st => {
+    switch (st.type) {
+      case 'module_def': visit(st.body); break;
+      case 'block': visit(st.body); break;
+      case 'if': visit(st.then); if (st.otherwise) visit(st.otherwise); break;
+      case 'instantiation': {
+        if (st.name === 'mirror') {
+          const v = argument(st.args, 'v', 0);
+          const comps = v?.type === 'vector' ? v.items.map(item => evaluate(item, vars)) : [];
+          usage.mirrors.push(comps.length === 3 && comps.every(c => c !== null)
+            ? new THREE.Vector3(comps[0]!, comps[1]!, comps[2]!).normalize()
+            : null);
+        } else if (st.name === 'for' || st.name === 'intersection_for') {
+          st.args.forEach(a => {
+            usage.loops.push(iterationCount(a.value, vars));
+            if (isSignList(a.value)) usage.signLoop = true;
+          });
+        } else if (st.name === 'rotate_extrude' || st.name === 'cylinder' || st.name === 'sphere' || st.name === 'circle') {
+          usage.revolved = true;
+        }
+        if (st.args.some(a => a.name === 'center' && a.value.type === 'bool' && a.value.value)) usage.centered = true;
+        const fn = st.args.find(a => a.name === '$fn');
+        const fnValue = fn ? evaluate(fn.value, vars) : null;
+        if (fnValue !== null) usage.fnCounts.push(fnValue);
+        visit(st.children);
+        break;
+      }
+      default: break;
+    }
+  });
+  visit(program);
+  return usage;
+};
+
+// Measured symmetry the script does not express, as messages for the model and the user.
+// Lenient on purpose: loops whose counts depend on computed values and centred primitives count as a match.
+export const checkSymmetryUsage = (code: string, report: SymmetryReport): string[] => {
+  if (!hasSymmetry(report)) return [];
+  let program: Statement[];
+  try {
+    program = parseScad(code);
+  } catch {
+    return [];
+  }
+  const usage = collectUsage(program);
+  const loopWith = (counts: number[]) => usage.loops.some(c => c === null || counts.includes(c));
+  const issues: string[] = [];
+
+  // Rotations the script must show; a mirror plane through one of their axes follows from repeating a symmetric sector
+  const turned = report.rotations.filter(r => r.order === 0 || r.order >= 3).map(r => fromVec3(r.axis));
+
+  report.mirrors.forEach(m => {
+    const normal = fromVec3(m.normal);
+    if (turned.some(axis => Math.abs(axis.dot(normal)) < 1e-3)) return;
+    const mirrored = usage.mirrors.some(v => v === null || Math.abs(v.dot(normal)) > 0.99);
+    // Mirror symmetry often falls out of symmetric loops and primitives, so only a script with none of them is flagged
+    if (!mirrored && !usage.signLoop && !usage.centered && usage.loops.length === 0) {
+      issues.push(`测得关于 ${describePlane(m)} 平面的镜像对称, 脚本没有用 mirror(${scadVec(m.normal)}) 或 for 循环表达任何对称`);
+    }
+  });
+
+  report.rotations.forEach(r => {
+    if (r.order === 0) {
+      if (!usage.revolved) issues.push(`测得绕 ${axisName(r.axis)} 轴的回转体, 脚本没有使用 rotate_extrude 或圆形图元`);
+      return;
+    }
+    if (r.order < 3) return;
+    const divisors = Array.from({ length: r.order - 1 }, (_, i) => i + 2).filter(d => r.order % d === 0);
+    // A centred cube or square is 4-fold on its own
+    if (!loopWith(divisors) && !usage.fnCounts.includes(r.order) && !(r.order === 4 && usage.centered)) {
+      issues.push(`测得绕 ${axisName(r.axis)} 轴的 ${r.order} 重旋转对称, 脚本中没有 ${r.order} 次 (或其约数次) 的 for 循环`);
+    }
+  });
+
+  report.patterns.forEach(p => {
+    const counts = p.kind === 'grid' ? [p.count, ...p.counts] : [p.count];
+    const byMirror = p.kind === 'grid' && p.counts.every(c => c === 2) && usage.mirrors.length + (usage.signLoop ? 1 : 0) > 0;
+    if (!loopWith(counts) && !byMirror) {
+      const layout = p.kind === 'grid' ? `${p.counts[0]}×${p.counts[1]} 网格` : p.kind === 'circular' ? '环形阵列' : '直线阵列';
+      issues.push(`测得 ${p.count} 个 Ø${fmt(p.diameter)} ${p.feature === 'hole' ? '孔' : '凸台'}的${layout}, 脚本中没有 ${counts.join(' 或 ')} 次的 for 循环`);
+    }
+  });
+
+  return issues;
+};
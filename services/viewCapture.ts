@@ -0,0 +1,260 @@
+import * as THREE from 'three';
+import { CaptureProfile, CaptureView, RenderStyle } from './captureProfiles';
+import { annotateView } from './snapshotAnnotations';
+
+export const BACKGROUND = '#0f172a';
+export const BACKGROUND_RGB = [15, 23, 42];
+const PERSPECTIVE_FOV = 40;
+
+export const viewFrameBox = (geometry: THREE.BufferGeometry): THREE.Box3 => {
+  const g = geometry.clone();
+  g.rotateX(-Math.PI / 2);
+  g.computeBoundingBox();
+  return g.boundingBox ?? new THREE.Box3();
+};
+
+// Same frame conversion as MeshViewer (Z-up engineering model -> Three.js Y-up), without centring
+const toViewFrame = (geometry: THREE.BufferGeometry): THREE.BufferGeometry => {
+  const g = geometry.clone();
+  g.rotateX(-Math.PI / 2);
+  g.computeVertexNormals();
+  return g;
+};
+
+// Camera for one view: fit-to-view distance times the profile margin, clip planes hugging the object
+export const placeCamera = (
+  profile: CaptureProfile,
+  view: CaptureView,
+  box: THREE.Box3
+): THREE.PerspectiveCamera | THREE.OrthographicCamera => {
+  const center = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3());
+  const maxDim = Math.max(size.x, size.y, size.z, 1e-3);
+  const radius = Math.max(size.length() / 2, 1e-3);
+  const dir = new THREE.Vector3(...view.vec).normalize();
+
+  let camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  let distance: number;
+  if (profile.projection === 'orthographic') {
+    const half = (maxDim / 2) * profile.distanceFactor;
+    camera = new THREE.OrthographicCamera(-half, half, half, -half);
+    distance = radius * 3;
+  } else {
+    camera = new THREE.PerspectiveCamera(PERSPECTIVE_FOV, 1);
+    // Formula: distance = (maxDim / 2) / tan(FOV / 2)
+    distance = (maxDim / 2) / Math.tan((PERSPECTIVE_FOV * Math.PI / 180) / 2) * profile.distanceFactor;
+  }
+
+  camera.near = Math.max(distance - radius * 1.05, distance * 0.01);
+  camera.far = distance + radius * 1.05;
+  camera.position.copy(center).addScaledVector(dir, distance);
+  camera.up.set(...view.up);
+  camera.lookAt(center);
+  camera.updateMatrixWorld();
+  camera.updateProjectionMatrix();
+  return camera;
+};
+
+export interface OffscreenCaptureOptions {
+  color?: string;
+  // Camera framing in view space; pass the source box so two meshes are shot from identical poses
+  frame?: THREE.Box3;
+}
+
+// Render every view x style of a profile for a raw (Z-up) geometry on a private renderer,
+// independent of whatever the on-screen viewport is showing
+export const captureGeometryViews = async (
+  geometry: THREE.BufferGeometry,
+  profile: CaptureProfile,
+  { color = '#6366f1', frame }: OffscreenCaptureOptions = {}
+): Promise<string[]> => {
+  const renderer = new THREE.WebGLRenderer({ antialias: true, preserveDrawingBuffer: true });
+  renderer.setPixelRatio(1);
+  renderer.setSize(profile.resolution, profile.resolution, false);
+
+  const scene = new THREE.Scene();
+  const lights = new THREE.Group();
+  lights.add(new THREE.AmbientLight(0xffffff, 0.6));
+  const key = new THREE.DirectionalLight(0xffffff, 1.2);
+  key.position.set(10, 20, 10);
+  const fill = new THREE.DirectionalLight(0xffffff, 0.5);
+  fill.position.set(-10, -10, -10);
+  lights.add(key, fill);
+  scene.add(lights);
+
+  const viewGeometry = toViewFrame(geometry);
+  const materials: Record<RenderStyle, THREE.Material> = {
+    shaded: new THREE.MeshStandardMaterial({ color, roughness: 0.5, metalness: 0.1 }),
+    silhouette: new THREE.MeshBasicMaterial({ color: 0xffffff }),
+    // Push faces back a little so the edge lines win the depth test
+    edges: new THREE.MeshBasicMaterial({ color: 0x1e293b, polygonOffset: true, polygonOffsetFactor: 1, polygonOffsetUnits: 1 }),
+    depth: new THREE.MeshDepthMaterial(),
+    normal: new THREE.MeshNormalMaterial()
+  };
+  const mesh = new THREE.Mesh(viewGeometry, materials.shaded);
+  scene.add(mesh);
+
+  let edgeLines: THREE.LineSegments | null = null;
+  if (profile.styles.includes('edges')) {
+    edgeLines = new THREE.LineSegments(
+      new THREE.EdgesGeometry(viewGeometry, 30),
+      new THREE.LineBasicMaterial({ color: 0xffffff })
+    );
+    scene.add(edgeLines);
+  }
+
+  const box = frame ?? viewFrameBox(geometry);
+  const snapshots: string[] = [];
+
+  // Annotations are drawn on a 2D copy of each frame
+  let overlay: CanvasRenderingContext2D | null = null;
+  if (profile.annotations) {
+    const canvas = document.createElement('canvas');
+    canvas.width = profile.resolution;
+    canvas.height = profile.resolution;
+    overlay = canvas.getContext('2d');
+    if (!overlay) throw new Error("Canvas context creation failed");
+  }
+
+  try {
+    for (const view of profile.views) {
+      const camera = placeCamera(profile, view, box);
+      for (const style of profile.styles) {
+        mesh.material = materials[style];
+        lights.visible = style === 'shaded';
+        if (edgeLines) edgeLines.visible = style === 'edges';
+        scene.background = new THREE.Color(style === 'shaded' || style === 'edges' ? BACKGROUND : '#000000');
+
+        renderer.render(scene, camera);
+        if (overlay) {
+          overlay.drawImage(renderer.domElement, 0, 0);
+          annotateView(overlay, camera, box, profile.resolution);
+          snapshots.push(overlay.canvas.toDataURL('image/jpeg', profile.quality));
+        } else {
+          snapshots.push(renderer.domElement.toDataURL('image/jpeg', profile.quality));
+        }
+      }
+      // Let the page breathe between views on large profiles
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return snapshots;
+  } finally {
+    viewGeometry.dispose();
+    Object.values(materials).forEach(m => m.dispose());
+    if (edgeLines) {
+      edgeLines.geometry.dispose();
+      (edgeLines.material as THREE.Material).dispose();
+    }
+    renderer.dispose();
+    renderer.forceContextLoss();
+  }
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image load failed"));
+    img.src = src;
+  });
+
+const SOURCE_ONLY = [239, 68, 68];   // red: material the reconstruction is missing
+const RECON_ONLY = [245, 158, 11];   // amber: material the reconstruction added
+const BOTH = [100, 116, 139];
+const COVER_THRESHOLD = 24;
+
+const covered = (data: ArrayLike<number>, i: number) =>
+  Math.max(
+    Math.abs(data[i] - BACKGROUND_RGB[0]),
+    Math.abs(data[i + 1] - BACKGROUND_RGB[1]),
+    Math.abs(data[i + 2] - BACKGROUND_RGB[2])
+  ) > COVER_THRESHOLD;
+
+// One pixel of the silhouette diff panel, from the source and reconstruction pixels at the same spot
+export const diffColor = (source: ArrayLike<number>, si: number, recon: ArrayLike<number>, ri: number): number[] => {
+  const inSource = covered(source, si);
+  const inRecon = covered(recon, ri);
+  if (inSource && !inRecon) return SOURCE_ONLY;
+  if (inRecon && !inSource) return RECON_ONLY;
+  return inSource ? BOTH : BACKGROUND_RGB;
+};
+
+export const comparisonCaptions = (label?: string): [string, string, string] =>
+  [`SOURCE${label ? ` · ${label}` : ''}`, 'RECONSTRUCTION', 'DIFF (red=missing, amber=extra)'];
+
+// Side-by-side panel [source | reconstruction | silhouette diff] for one view
+export const composeComparison = async (sourceUrl: string, reconUrl: string, label?: string): Promise<string> => {
+  const [src, rec] = await Promise.all([loadImage(sourceUrl), loadImage(reconUrl)]);
+  const w = src.width;
+  const h = src.height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = w * 3;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context creation failed");
+
+  ctx.drawImage(src, 0, 0, w, h);
+  ctx.drawImage(rec, w, 0, w, h);
+
+  const a = ctx.getImageData(0, 0, w, h);
+  const b = ctx.getImageData(w, 0, w, h);
+  const diff = ctx.createImageData(w, h);
+  for (let i = 0; i < a.data.length; i += 4) {
+    const rgb = diffColor(a.data, i, b.data, i);
+    diff.data[i] = rgb[0];
+    diff.data[i + 1] = rgb[1];
+    diff.data[i + 2] = rgb[2];
+    diff.data[i + 3] = 255;
+  }
+  ctx.putImageData(diff, w * 2, 0);
+
+  const captions = comparisonCaptions(label);
+  ctx.fillStyle = '#e2e8f0';
+  ctx.font = `${Math.round(h / 24)}px monospace`;
+  captions.forEach((text, i) => ctx.fillText(text, w * i + 8, h / 20));
+
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+// Resize and recompress a capture to the resolution sent to the model
+export const optimizeImage = (dataUrl: string, maxDim: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+
+      let width = img.width;
+      let height = img.height;
+
+      if (width > height) {
+        if (width > maxDim) {
+          height *= maxDim / width;
+          width = maxDim;
+        }
+      } else {
+        if (height > maxDim) {
+          width *= maxDim / height;
+          height = maxDim;
+        }
+      }
+
+      canvas.width = width;
+      canvas.height = height;
+
+      if (ctx) {
+        ctx.fillStyle = BACKGROUND; // Match scene bg
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(img, 0, 0, width, height);
+
+        // Use 0.8 quality for multi-image batch
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+      } else {
+        reject(new Error("Canvas context creation failed"));
+      }
+    };
+    img.onerror = (e) => reject(new Error("Image load failed"));
+    img.src = dataUrl;
+  });
+};
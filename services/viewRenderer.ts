@@ -0,0 +1,20 @@
+import type * as THREE from 'three';
+import { CaptureProfile } from './captureProfiles';
+import { OffscreenCaptureOptions, captureGeometryViews, composeComparison, optimizeImage } from './viewCapture';
+import { SectionSlice, renderSection } from './crossSection';
+
+// Everything the pipeline draws, behind one interface: WebGL and canvas in the browser,
+// a software rasterizer under Node (see softwareRenderer). Images are data URLs throughout.
+export interface ViewRenderer {
+  captureViews(geometry: THREE.BufferGeometry, profile: CaptureProfile, options?: OffscreenCaptureOptions): Promise<string[]>;
+  renderSection(slice: SectionSlice, box: THREE.Box3, size: number, quality?: number): string;
+  composeComparison(sourceUrl: string, reconUrl: string, label?: string): Promise<string>;
+  optimizeImage(dataUrl: string, maxDim: number): Promise<string>;
+}
+
+export const browserRenderer: ViewRenderer = {
+  captureViews: captureGeometryViews,
+  renderSection,
+  composeComparison,
+  optimizeImage
+};
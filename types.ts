@@ -7,12 +7,186 @@ export enum AppState {
   ERROR = 'ERROR'
 }
 
+export type MeshFormat = 'stl' | 'obj' | 'ply' | '3mf';
+
 export interface GeometryData {
-  url: string;
   filename: string;
+  format: MeshFormat;
 }
 
 export interface GenerationResult {
   code: string;
   explanation: string;
-}
\ No newline at end of file
+  model?: string;             // provider/model label that produced this result
+  baseCode?: string;          // the script as generated, once parameters have been edited
+  fidelity?: FidelityMetrics;
+  constraintWarnings?: string[]; // measured symmetry the script still does not express after its retry
+}
+
+// A photo or drawing of the physical part, attached next to the mesh
+export interface ReferenceImage {
+  name: string;               // file name
+  caption: string;            // what it shows, in the user's words; may be empty
+  dataUrl: string;
+}
+
+// What the user knows about the part beyond the mesh; sent apart from the rendered views
+export interface DesignInput {
+  intent: string;             // free-text design intent: function, critical features, what to parametrize
+  references: ReferenceImage[];
+}
+
+// One pass of the refine loop: the script, how it scored and the comparison panels it produced
+export interface RefineIteration {
+  index: number;              // 0 = first-pass generation
+  result: GenerationResult;
+  images: string[];           // SOURCE | RECONSTRUCTION | DIFF panels as data URLs, one per view
+  score: number;              // fidelity score, 0 when the script failed to compile
+  renderError?: string;
+}
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface PrincipalAxis {
+  direction: Vec3;
+  variance: number;
+  extent: number; // length of the mesh projected onto this axis (mm)
+}
+
+export interface CylinderCandidate {
+  kind: 'hole' | 'boss';
+  axis: Vec3;
+  center: Vec3;       // point on the axis, midway along the feature
+  radius: number;
+  length: number;     // axial extent of the detected wall
+  coverageDeg: number; // how much of the circumference is present
+}
+
+// The mesh is its own mirror image across the plane normal · p = offset
+export interface MirrorPlane {
+  normal: Vec3;
+  offset: number;
+}
+
+export interface RotationalSymmetry {
+  axis: Vec3;
+  center: Vec3;       // point on the axis (the surface centroid)
+  order: number;      // N-fold; 0 = continuous, a solid of revolution
+}
+
+// Holes or bosses of one size repeated at regular positions
+export type FeaturePattern = {
+  feature: 'hole' | 'boss';
+  diameter: number;
+  axis: Vec3;         // axis of the repeated feature
+  count: number;
+} & (
+  | { kind: 'linear'; origin: Vec3; step: Vec3 }
+  | { kind: 'grid'; origin: Vec3; steps: [Vec3, Vec3]; counts: [number, number] }
+  | { kind: 'circular'; center: Vec3; radius: number; first: Vec3 }
+);
+
+export interface SymmetryReport {
+  mirrors: MirrorPlane[];
+  rotations: RotationalSymmetry[];
+  patterns: FeaturePattern[];
+}
+
+// Exact measurements taken from the source mesh in its original STL frame (Z-up, mm)
+export interface MeshMetrics {
+  boundingBox: {
+    min: Vec3;
+    max: Vec3;
+    size: Vec3;
+  };
+  volume: number;
+  surfaceArea: number;
+  triangleCount: number;
+  centroid: Vec3;
+  principalAxes: PrincipalAxis[];
+  cylinders: CylinderCandidate[];
+  symmetry: SymmetryReport;
+}
+
+// Quantitative comparison between the source mesh and the rendered reconstruction (mm)
+export interface FidelityMetrics {
+  hausdorff: number;          // symmetric Hausdorff distance
+  meanDeviation: number;      // mean of both directed surface distances
+  sourceToRecon: { max: number; mean: number };
+  reconToSource: { max: number; mean: number };
+  volumeSource: number;
+  volumeRecon: number;
+  volumeDiffPercent: number;  // (recon - source) / source * 100
+  iou: number;                // voxel intersection-over-union, 0..1
+  bboxDelta: Vec3;            // reconstruction size minus source size per axis
+  score: number;              // 0..100 composite, higher is better
+  aligned: 'absolute' | 'bbox';
+}
+
+export type SurfaceKind = 'plane' | 'cylinder' | 'cone' | 'sphere';
+
+interface FittedSurfaceBase {
+  area: number;
+  triangleCount: number;
+  residual: number;           // RMS distance of the region's vertices from the fitted surface
+  bounds: { min: Vec3; max: Vec3 };
+}
+
+// One analytic surface found by segmenting the source mesh (STL frame, mm)
+export type FittedSurface = FittedSurfaceBase & (
+  | { kind: 'plane'; normal: Vec3; offset: number }
+  | {
+      kind: 'cylinder' | 'cone';
+      axis: Vec3;             // unit, largest component positive
+      origin: Vec3;           // point on the axis at axialMin
+      axialMin: number;       // extent along the axis (p · axis)
+      axialMax: number;
+      radius: number;         // cone: radius at axialMin
+      radius2: number;        // cone: radius at axialMax; equals radius for cylinders
+      concave: boolean;       // faces the axis: bore, counterbore, countersink
+      arcDeg: number;         // how much of the circumference is present
+    }
+  | { kind: 'sphere'; center: Vec3; radius: number; concave: boolean }
+);
+
+export type FittedBody =
+  | { kind: 'turned'; axis: Vec3; origin: Vec3 }
+  | { kind: 'box'; min: Vec3; max: Vec3 }
+  | { kind: 'unknown' };
+
+// Deterministic reconstruction from fitted primitives, no model involved
+export interface PrimitiveFit {
+  surfaces: FittedSurface[];
+  body: FittedBody;
+  totalArea: number;
+  unexplainedArea: number;    // area of regions no analytic surface fits
+  boundingBox: { min: Vec3; max: Vec3 };
+}
+
+export type ProfilePoint = [number, number];
+
+// Lines run from `start` to the next segment's start; arcs sweep startDeg → endDeg (signed) around center
+export type ProfileSegment =
+  | { kind: 'line'; start: ProfilePoint }
+  | { kind: 'arc'; start: ProfilePoint; center: ProfilePoint; radius: number; startDeg: number; endDeg: number };
+
+export type ProfileShape =
+  | { kind: 'circle'; center: ProfilePoint; radius: number }
+  | { kind: 'path'; segments: ProfileSegment[] };
+
+export type ProfileLoop = ProfileShape & { parent: number };   // index of the enclosing loop, -1 for outer boundaries
+
+// A solid that is one 2D profile swept about or along a coordinate axis (STL frame, mm)
+export interface ProfileSweep {
+  kind: 'revolve' | 'extrude';
+  axis: 'x' | 'y' | 'z';
+  center: ProfilePoint;       // revolve: axis position in the two remaining coordinates, in X, Y, Z order
+  start: number;              // extent along the axis
+  end: number;
+  loops: ProfileLoop[];       // revolve: (radius, axial) coordinates; extrude: in-plane coordinates of the cut
+  rawPoints: number;          // slice vertices before simplification
+}